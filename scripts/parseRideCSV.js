@@ -11,6 +11,47 @@ const headers = lines[0].split(',');
 const dataLines = lines.slice(1).filter(line => line.trim());
 
 console.log('Headers:', headers);
+
+// Ramps are drawn this far out from the ride; the notes only give their position and width
+const DEFAULT_RAMP_DEPTH = 8;
+
+// Parse operational geometry out of the Notes column:
+//   <22-28-17   entrance ramp on the front, 22' in from the left end, 28' wide (17' to the right end)
+//   9-48-13>    exit ramp, same layout
+//   <17-53-17>  combined entrance/exit ramp
+//   13>         13' wide exit ramp centered on the front
+//   BS-16'      16' backstage area behind the ride
+//   OR-5'       moving parts overhang the footprint by 5'
+function parseNotes(notes, rideWidth) {
+  const zones = { ramps: [] };
+  if (!notes) return zones;
+
+  notes.split(/\s+/).forEach(token => {
+    const backstage = token.match(/^BS-(\d+(?:\.\d+)?)'?$/i);
+    if (backstage) {
+      zones.backstageDepth = parseFloat(backstage[1]);
+      return;
+    }
+
+    const overhang = token.match(/^OR-(\d+(?:\.\d+)?)'?$/i);
+    if (overhang) {
+      zones.overhangRadius = parseFloat(overhang[1]);
+      return;
+    }
+
+    const ramp = token.match(/^(<)?([\d.]+(?:-[\d.]+){0,2})(>)?$/);
+    if (ramp && (ramp[1] || ramp[3])) {
+      const type = ramp[1] && ramp[3] ? 'entrance-exit' : ramp[1] ? 'entrance' : 'exit';
+      const parts = ramp[2].split('-').map(v => parseFloat(v));
+      const [offset, width] = parts.length >= 2
+        ? parts
+        : [Math.max(0, (rideWidth - parts[0]) / 2), parts[0]];
+      zones.ramps.push({ type, side: 'front', offset, width, depth: DEFAULT_RAMP_DEPTH });
+    }
+  });
+
+  return zones;
+}
 console.log('Total rides found:', dataLines.length);
 
 // Transform CSV data to equipment library format
@@ -83,6 +124,9 @@ const rides = dataLines.map((line, index) => {
     '#D7BDE2', '#AED6F1', '#A9DFBF', '#F5B7B1'
   ];
   const color = colors[index % colors.length];
+
+  // Ramp offsets run along the front, which is the full width for circular rides too
+  const zones = parseNotes(notes, isCircular ? Math.max(width, height) : width);
   
   // Create equipment item
   // Build description string first
@@ -121,7 +165,10 @@ const rides = dataLines.map((line, index) => {
     capacity: Math.round((width * height) / 10),
     turnAroundTime: 3, // Default 3 minutes
     verticalHeight: Math.max(15, Math.round(Math.max(width, height) * 0.8)), // Estimate based on size
-    rideClearing: clearance
+    rideClearing: clearance,
+    ramps: zones.ramps,
+    backstageDepth: zones.backstageDepth,
+    overhangRadius: zones.overhangRadius
   };
   
   return equipmentItem;
@@ -153,7 +200,11 @@ ${rides.map(ride => `  {
     capacity: ${ride.capacity},
     turnAroundTime: ${ride.turnAroundTime},
     verticalHeight: ${ride.verticalHeight},
-    rideClearing: ${ride.rideClearing}
+    rideClearing: ${ride.rideClearing}${ride.ramps.length > 0 ? `,
+    // Operational zones
+    ramps: ${JSON.stringify(ride.ramps)}` : ''}${ride.backstageDepth ? `,
+    backstageDepth: ${ride.backstageDepth}` : ''}${ride.overhangRadius ? `,
+    overhangRadius: ${ride.overhangRadius}` : ''}
   }`).join(',\n')}
 ]
 
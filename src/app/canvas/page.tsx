@@ -1,17 +1,44 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react'
 import dynamic from 'next/dynamic'
 import Link from 'next/link'
-import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
+import { PlacedEquipment, EquipmentItem, EquipmentClearance, ClearanceRule, ClearanceWaiver, LotBoundary, EquipmentTransform, EquipmentTransformKind, PlanLayer, EquipmentGroup, Annotation, AnnotationStyle } from '@/lib/equipment/types'
+import { ClearanceIndex, ClearanceSnapshot } from '@/lib/equipment/clearanceIndex'
+import { ClearanceViolation, buildEquipmentGeometry } from '@/lib/equipment/clearanceEngine'
+import { getWaiversByPair, findWaiver } from '@/lib/equipment/clearanceWaivers'
+import { findBoundaryViolations } from '@/lib/equipment/lotBoundary'
+import { createEquipmentGroup, getGroupMembers, expandToGroups } from '@/lib/equipment/groups'
+import { describeAnnotation } from '@/lib/equipment/annotations'
+import { computeArraySlots, createArrayEquipment, DEFAULT_ARRAY_OPTIONS, ArrayPlacementOptions } from '@/lib/equipment/arrayPlacement'
+import { DEFAULT_LAYER_ID, createDefaultLayers, normalizeLayers, getLayerId, getLayerLookup, isEquipmentEditable } from '@/lib/equipment/layers'
+import { Bounds, Point, normalizeDegrees, rotatePoint } from '@/lib/utils/geometry'
+import { CommandHistory, Command } from '@/lib/history/commandHistory'
+import { createListCommand, createValueCommand, createCompositeCommand } from '@/lib/history/commands'
 import { BackgroundImage } from '@/components/canvas/BackgroundLayer'
-import { ProjectData, ImportResult, EquipmentLibraryState } from '@/lib/project/types'
+import { ProjectData, ImportResult, EquipmentLibraryState, CanvasSettings, PROJECT_FILE_VERSION } from '@/lib/project/types'
 import { ProjectManager } from '@/lib/project/projectManager'
+import { createCanvasSettings, migrateCanvasSettings, migratePlacedEquipment } from '@/lib/project/canvasSettings'
+import { createBenchmarkLayout, BENCHMARK_MAX_ITEM_COUNT } from '@/lib/benchmark/largeLayout'
+import { serializeEquipmentClipboard, parseEquipmentClipboard, pasteEquipmentClipboard } from '@/lib/project/clipboard'
+import { ShortcutOverrides, resolveShortcutMap, formatShortcut, loadShortcutOverrides, saveShortcutOverrides } from '@/lib/keyboard/shortcuts'
 import EquipmentLibrary from '@/components/equipment/EquipmentLibrary'
 import ProjectManagerModal from '@/components/project/ProjectManagerModal'
 import ExportImportModal from '@/components/project/ExportImportModal'
+import ClearanceRulesModal from '@/components/project/ClearanceRulesModal'
+import LotBoundaryModal from '@/components/project/LotBoundaryModal'
 import PDFExportModal from '@/components/export/PDFExportModal'
 import PropertiesModal from '@/components/canvas/PropertiesModal'
+import ViolationReviewPanel from '@/components/canvas/ViolationReviewPanel'
+import HistoryPanel from '@/components/canvas/HistoryPanel'
+import LayersPanel from '@/components/canvas/LayersPanel'
+import GroupsPanel from '@/components/canvas/GroupsPanel'
+import FrameTimeMonitor from '@/components/canvas/FrameTimeMonitor'
+import ArrayPlacementPanel, { ArrayPickMode } from '@/components/canvas/ArrayPlacementPanel'
+import ClearanceEditor from '@/components/canvas/ClearanceEditor'
+import ShortcutsModal from '@/components/canvas/ShortcutsModal'
+import { useContextMenuProvider } from '@/components/canvas/ContextMenu'
+import type { PlacementPreviewState } from '@/components/canvas/CanvasEditor'
 import ThemeToggle from '@/components/ui/ThemeToggle'
 
 // Dynamically import CanvasEditor to avoid SSR issues with Konva
@@ -25,11 +52,35 @@ const KeyboardHandler = dynamic(
   { ssr: false }
 )
 
+const NO_VIOLATIONS: ClearanceViolation[] = []
+
 export default function CanvasPage() {
   const [placedEquipment, setPlacedEquipment] = useState<PlacedEquipment[]>([])
   const [selectedEquipmentIds, setSelectedEquipmentIds] = useState<string[]>([])
   const [equipmentDefinitions, setEquipmentDefinitions] = useState<EquipmentItem[]>([])
   const [backgroundImages, setBackgroundImages] = useState<BackgroundImage[]>([])
+  const [clearanceRules, setClearanceRules] = useState<ClearanceRule[]>([])
+  const [clearanceWaivers, setClearanceWaivers] = useState<ClearanceWaiver[]>([])
+  const [lotBoundary, setLotBoundary] = useState<LotBoundary | null>(null)
+  const [canvasSettings, setCanvasSettings] = useState<CanvasSettings>(() => createCanvasSettings())
+  const { pixelsPerFoot } = canvasSettings
+  const [layers, setLayers] = useState<PlanLayer[]>(() => createDefaultLayers())
+  const [activeLayerId, setActiveLayerId] = useState(DEFAULT_LAYER_ID)
+  const [groups, setGroups] = useState<EquipmentGroup[]>([])
+  const [groupFilterId, setGroupFilterId] = useState<string | null>(null) // canvas shows only this group's members
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [selectedAnnotationIds, setSelectedAnnotationIds] = useState<string[]>([]) // never set together with selectedEquipmentIds
+  const [exportLayerIds, setExportLayerIds] = useState<string[] | null>(null) // layers shown while the PDF export captures the canvas
+  const [arrayEquipmentId, setArrayEquipmentId] = useState<string | null>(null) // equipment the array tool repeats
+  const [arrayOptions, setArrayOptions] = useState<ArrayPlacementOptions>(DEFAULT_ARRAY_OPTIONS)
+  const [arrayOrigin, setArrayOrigin] = useState<Point | null>(null) // pixels; the default placement point when unset
+  const [arrayPath, setArrayPath] = useState<Point[]>([]) // pixels
+  const [arrayPickMode, setArrayPickMode] = useState<ArrayPickMode>(null)
+  const [benchmarkCount, setBenchmarkCount] = useState<number | null>(null) // items in the ?benchmark= fixture, when loaded
+  const [clearanceEditId, setClearanceEditId] = useState<string | null>(null) // placed item whose clearance is open in the editor
+  const [shortcutOverrides, setShortcutOverrides] = useState<ShortcutOverrides>({}) // remapped keys, kept in this browser
+  const [shortcutsModalOpen, setShortcutsModalOpen] = useState(false)
+  const shortcuts = useMemo(() => resolveShortcutMap(shortcutOverrides), [shortcutOverrides])
   
   // Project management state
   const [currentProject, setCurrentProject] = useState<ProjectData | null>(null)
@@ -41,41 +92,201 @@ export default function CanvasPage() {
   const [canvasElement, setCanvasElement] = useState<HTMLElement | null>(null)
   const [sidebarExpanded, setSidebarExpanded] = useState(true)
   const [propertiesModalOpen, setPropertiesModalOpen] = useState(false)
+  const [clearanceRulesModalOpen, setClearanceRulesModalOpen] = useState(false)
+  const [lotBoundaryModalOpen, setLotBoundaryModalOpen] = useState(false)
   const [equipmentLibraryState, setEquipmentLibraryState] = useState<EquipmentLibraryState | null>(null)
+  const [rightPanel, setRightPanel] = useState<'violations' | 'history' | 'layers' | 'groups' | 'array' | null>(null)
+  const [focusBounds, setFocusBounds] = useState<Bounds | null>(null)
+
+  // Undo/redo history. Every edit goes through runCommand so it can be reverted.
+  const [history] = useState(() => new CommandHistory())
+  const [, setHistoryVersion] = useState(0)
+  useEffect(() => history.subscribe(() => setHistoryVersion(version => version + 1)), [history])
+
+  const runCommand = (command: Command | null) => {
+    if (command) history.execute(command)
+  }
+
+  // Last library state seen, to tell user edits apart from the library echoing back an undo
+  const libraryStateRef = useRef<EquipmentLibraryState | null>(null)
+  useEffect(() => {
+    libraryStateRef.current = equipmentLibraryState
+  }, [equipmentLibraryState])
+
+  const handleLibraryStateChange = useCallback((state: EquipmentLibraryState) => {
+    const previous = libraryStateRef.current
+    libraryStateRef.current = state
+    const changed = !!previous && (Object.keys(state) as Array<keyof EquipmentLibraryState>)
+      .some(key => state[key] !== previous[key])
+
+    const command = changed
+      ? createValueCommand<EquipmentLibraryState | null>('Edit equipment library', setEquipmentLibraryState, previous, state, 'library')
+      : null
+    if (command) {
+      history.execute(command)
+    } else {
+      setEquipmentLibraryState(state)
+    }
+  }, [history])
+
+  // Drop selections of items that no longer exist, e.g. after an undo, or that were hidden
+  // by their layer or the group filter
+  useEffect(() => {
+    setSelectedEquipmentIds(prev => {
+      const layerLookup = getLayerLookup(layers)
+      const ids = new Set(placedEquipment
+        .filter(eq => isEquipmentEditable(eq, layerLookup) && (!groupFilterId || eq.groupId === groupFilterId))
+        .map(eq => eq.id))
+      const next = prev.filter(id => ids.has(id))
+      return next.length === prev.length ? prev : next
+    })
+  }, [placedEquipment, layers, groupFilterId])
+
+  useEffect(() => {
+    setSelectedAnnotationIds(prev => {
+      const layerLookup = getLayerLookup(layers)
+      const ids = new Set(annotations.filter(annotation => isEquipmentEditable(annotation, layerLookup)).map(annotation => annotation.id))
+      const next = prev.filter(id => ids.has(id))
+      return next.length === prev.length ? prev : next
+    })
+  }, [annotations, layers])
+
+  // Selecting equipment clears the annotation selection, so keys and menus act on one kind
+  useEffect(() => {
+    if (selectedEquipmentIds.length > 0) setSelectedAnnotationIds(prev => prev.length > 0 ? [] : prev)
+  }, [selectedEquipmentIds])
+
+  // Forget a group filter whose group is gone, e.g. after an undo
+  useEffect(() => {
+    if (groupFilterId && !groups.some(group => group.id === groupFilterId)) setGroupFilterId(null)
+  }, [groups, groupFilterId])
+
+  // Layers as drawn on the canvas; the PDF export temporarily shows only the layers it includes
+  const canvasLayers = useMemo(
+    () => exportLayerIds ? layers.map(layer => ({ ...layer, visible: exportLayerIds.includes(layer.id) })) : layers,
+    [layers, exportLayerIds]
+  )
+
+  // Items on each layer, equipment and annotations alike
+  const layerEquipmentCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    const items = [...placedEquipment, ...annotations]
+    items.forEach(item => {
+      const layerId = getLayerId(item, layers)
+      counts[layerId] = (counts[layerId] || 0) + 1
+    })
+    return counts
+  }, [placedEquipment, annotations, layers])
+
+  // The one clearance index of the page. Each change re-checks only the items it touched;
+  // the canvas, the review panel and the placement tools all read from this snapshot.
+  const clearanceIndexRef = useRef<ClearanceIndex | null>(null)
+  const [clearance, setClearance] = useState<ClearanceSnapshot | null>(null)
+  useEffect(() => {
+    if (!clearanceIndexRef.current || clearanceIndexRef.current.pixelsPerFoot !== pixelsPerFoot) {
+      clearanceIndexRef.current = new ClearanceIndex(pixelsPerFoot)
+    }
+    const index = clearanceIndexRef.current
+    index.sync(placedEquipment, equipmentDefinitions, clearanceRules)
+    setClearance({ index, violations: index.getViolations() })
+  }, [placedEquipment, equipmentDefinitions, clearanceRules, pixelsPerFoot])
+  const violations = clearance?.violations ?? NO_VIOLATIONS
+  const [strictPlacement, setStrictPlacement] = useState(false) // no-overlap mode for every kind of move
+
+  const openViolationCount = useMemo(() => {
+    const waiversByPair = getWaiversByPair(clearanceWaivers)
+    return violations.filter(violation => !findWaiver(waiversByPair, violation)).length
+  }, [violations, clearanceWaivers])
+
+  const boundaryViolationCount = useMemo(
+    () => findBoundaryViolations(placedEquipment, equipmentDefinitions, lotBoundary, pixelsPerFoot).length,
+    [placedEquipment, equipmentDefinitions, lotBoundary, pixelsPerFoot]
+  )
+
+  // Copies the array tool would place, with the ones that would break a clearance
+  const arrayPreview = useMemo<PlacementPreviewState | null>(() => {
+    const definition = equipmentDefinitions.find(def => def.id === arrayEquipmentId)
+    if (rightPanel !== 'array' || !definition || !arrayOrigin) return null
+    const toFeet = (point: Point) => ({ x: point.x / pixelsPerFoot, y: point.y / pixelsPerFoot })
+    const slots = computeArraySlots(definition, arrayOptions, toFeet(arrayOrigin), arrayPath.map(toFeet))
+    const items = createArrayEquipment(definition, slots, pixelsPerFoot, activeLayerId)
+    const index = clearance?.index
+    const conflictIds = new Set(
+      items
+        .filter(item => (index?.findConflicts(item, definition).length ?? 0) > 0)
+        .map(item => item.id)
+    )
+    return {
+      items,
+      conflictIds,
+      origin: arrayOptions.pattern === 'path' ? null : arrayOrigin,
+      path: arrayOptions.pattern === 'path' ? arrayPath : []
+    }
+  }, [rightPanel, equipmentDefinitions, arrayEquipmentId, arrayOptions, arrayOrigin, arrayPath, pixelsPerFoot, activeLayerId, clearance])
 
   // Auto-save functionality
   useEffect(() => {
     const autoSaveInterval = setInterval(() => {
-      if (hasUnsavedChanges) {
+      // The benchmark fixture must not replace the user's own auto-save
+      if (hasUnsavedChanges && benchmarkCount === null) {
         ProjectManager.autoSave(
           placedEquipment,
           backgroundImages,
           equipmentDefinitions,
-          customEquipmentCount
+          customEquipmentCount,
+          { clearanceRules, clearanceWaivers, lotBoundary: lotBoundary || undefined, canvasSettings, layers, groups, annotations }
         )
       }
     }, 30000) // Auto-save every 30 seconds
 
     return () => clearInterval(autoSaveInterval)
-  }, [placedEquipment, backgroundImages, equipmentDefinitions, customEquipmentCount, hasUnsavedChanges])
+  }, [placedEquipment, backgroundImages, equipmentDefinitions, customEquipmentCount, clearanceRules, clearanceWaivers, lotBoundary, canvasSettings, layers, groups, annotations, hasUnsavedChanges, benchmarkCount])
 
   // Mark as having unsaved changes when data changes
   useEffect(() => {
     setHasUnsavedChanges(true)
-  }, [placedEquipment, backgroundImages, equipmentDefinitions])
+  }, [placedEquipment, backgroundImages, equipmentDefinitions, clearanceRules, clearanceWaivers, lotBoundary, canvasSettings, layers, groups, annotations])
 
-  // Load auto-save on component mount
+  // Keyboard shortcuts are per browser, not per project
   useEffect(() => {
+    setShortcutOverrides(loadShortcutOverrides())
+  }, [])
+
+  const handleShortcutOverridesChange = (overrides: ShortcutOverrides) => {
+    setShortcutOverrides(overrides)
+    saveShortcutOverrides(overrides)
+  }
+
+  // Load auto-save on component mount, or the large-layout fixture for ?benchmark=<count>
+  useEffect(() => {
+    const benchmarkParam = new URLSearchParams(window.location.search).get('benchmark')
+    if (benchmarkParam !== null) {
+      const requestedCount = parseInt(benchmarkParam, 10)
+      const fixture = createBenchmarkLayout(requestedCount > 0 ? Math.min(requestedCount, BENCHMARK_MAX_ITEM_COUNT) : undefined)
+      setPlacedEquipment(fixture.placedEquipment)
+      setCanvasSettings(fixture.canvasSettings)
+      setBenchmarkCount(fixture.placedEquipment.length)
+      return
+    }
+
     const autoSaveData = ProjectManager.loadAutoSave()
-    if (autoSaveData && autoSaveData.placedEquipment.length > 0) {
+    if (autoSaveData && (autoSaveData.placedEquipment.length > 0 || (autoSaveData.annotations?.length ?? 0) > 0)) {
       const shouldRestore = confirm(
         `Auto-saved data found from ${new Date(autoSaveData.timestamp).toLocaleString()}. Would you like to restore it?`
       )
       if (shouldRestore) {
-        setPlacedEquipment(autoSaveData.placedEquipment)
+        const placed = migratePlacedEquipment(autoSaveData.placedEquipment, autoSaveData.version)
+        setPlacedEquipment(placed)
         setBackgroundImages(autoSaveData.backgroundImages)
         setEquipmentDefinitions(autoSaveData.equipmentDefinitions)
         setCustomEquipmentCount(autoSaveData.customEquipmentCount)
+        setClearanceRules(autoSaveData.clearanceRules || [])
+        setClearanceWaivers(autoSaveData.clearanceWaivers || [])
+        setLotBoundary(autoSaveData.lotBoundary || null)
+        setCanvasSettings(migrateCanvasSettings(autoSaveData.canvasSettings, autoSaveData.version, { ...autoSaveData, placedEquipment: placed }))
+        setLayers(normalizeLayers(autoSaveData.layers))
+        setGroups(autoSaveData.groups || [])
+        setAnnotations(autoSaveData.annotations || [])
         setHasUnsavedChanges(true)
       }
     }
@@ -89,9 +300,20 @@ export default function CanvasPage() {
     setBackgroundImages([])
     setEquipmentDefinitions([])
     setCustomEquipmentCount(0)
+    setClearanceRules([])
+    setClearanceWaivers([])
+    setLotBoundary(null)
+    setCanvasSettings(newProject.canvasSettings)
+    setLayers(normalizeLayers(newProject.layers))
+    setActiveLayerId(DEFAULT_LAYER_ID)
+    setGroups([])
+    setGroupFilterId(null)
+    setAnnotations([])
+    setSelectedAnnotationIds([])
     setEquipmentLibraryState(null)
     setSelectedEquipmentIds([])
     setHasUnsavedChanges(false)
+    history.clear()
     ProjectManager.clearAutoSave()
   }
 
@@ -103,23 +325,21 @@ export default function CanvasPage() {
         description,
         createdAt: currentProject?.metadata.createdAt || new Date().toISOString(),
         updatedAt: new Date().toISOString(),
-        version: '1.0.0',
+        version: PROJECT_FILE_VERSION,
         author: 'Lot Planner User'
       },
-      canvasSettings: {
-        width: 5000,
-        height: 5000,
-        pixelsPerFoot: 10,
-        gridSize: 50,
-        gridVisible: true,
-        scaleBarVisible: true,
-        measurementToolActive: false
-      },
+      canvasSettings,
       placedEquipment,
       backgroundImages,
       equipmentDefinitions,
       customEquipmentCount,
-      equipmentLibraryState: equipmentLibraryState || undefined
+      equipmentLibraryState: equipmentLibraryState || undefined,
+      clearanceRules,
+      clearanceWaivers,
+      lotBoundary: lotBoundary || undefined,
+      layers,
+      groups,
+      annotations
     }
 
     const result = ProjectManager.saveProject(projectData)
@@ -132,15 +352,29 @@ export default function CanvasPage() {
     }
   }
 
+  // Imports and saved projects both load through here, so older files are migrated once
   const handleLoadProject = (projectData: ProjectData) => {
+    const { version } = projectData.metadata
+    const placed = migratePlacedEquipment(projectData.placedEquipment, version)
     setCurrentProject(projectData)
-    setPlacedEquipment(projectData.placedEquipment)
+    setPlacedEquipment(placed)
     setBackgroundImages(projectData.backgroundImages)
     setEquipmentDefinitions(projectData.equipmentDefinitions)
     setCustomEquipmentCount(projectData.customEquipmentCount)
+    setClearanceRules(projectData.clearanceRules || [])
+    setClearanceWaivers(projectData.clearanceWaivers || [])
+    setLotBoundary(projectData.lotBoundary || null)
+    setCanvasSettings(migrateCanvasSettings(projectData.canvasSettings, version, { ...projectData, placedEquipment: placed }))
+    setLayers(normalizeLayers(projectData.layers))
+    setActiveLayerId(DEFAULT_LAYER_ID)
+    setGroups(projectData.groups || [])
+    setGroupFilterId(null)
+    setAnnotations(projectData.annotations || [])
+    setSelectedAnnotationIds([])
     setEquipmentLibraryState(projectData.equipmentLibraryState || null)
     setSelectedEquipmentIds([])
     setHasUnsavedChanges(false)
+    history.clear()
     ProjectManager.clearAutoSave()
   }
 
@@ -165,11 +399,11 @@ export default function CanvasPage() {
     setCustomEquipmentCount(customCount)
   }
 
-  // Handle adding equipment to canvas
-  const handleEquipmentSelect = (equipment: EquipmentItem) => {
+  // Where new equipment goes, in pixels: the center of the largest satellite image, or the canvas center
+  const getDefaultPlacementPoint = (): Point => {
     // Calculate placement position - prefer satellite image center, fallback to canvas center
-    let placementX = 5000 // Default canvas center for 1000' x 1000' canvas (10000px / 2 = 5000px)
-    let placementY = 5000
+    let placementX = canvasSettings.width / 2 // Default to the canvas center
+    let placementY = canvasSettings.height / 2
     
     // If there are background images (satellite images), place at the center of the largest one
     if (backgroundImages && backgroundImages.length > 0) {
@@ -201,7 +435,14 @@ export default function CanvasPage() {
     } else {
       console.log(`No satellite images found, placing equipment at canvas center: (${placementX}, ${placementY})`)
     }
-    
+
+    return { x: placementX, y: placementY }
+  }
+
+  // Handle adding equipment to canvas
+  const handleEquipmentSelect = (equipment: EquipmentItem) => {
+    const { x: placementX, y: placementY } = getDefaultPlacementPoint()
+
     const newEquipment: PlacedEquipment = {
       id: `equipment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       equipmentId: equipment.id,
@@ -210,47 +451,156 @@ export default function CanvasPage() {
       rotation: 0,
       dimensions: equipment.dimensions, // Store the actual dimensions used (including custom ones)
       clearance: equipment.clearance, // Store the clearance data from the equipment definition
-      customLabel: undefined
+      customLabel: undefined,
+      layerId: activeLayerId
     }
     
-    setPlacedEquipment(prev => [...prev, newEquipment])
+    runCommand(createListCommand(`Add ${equipment.name}`, setPlacedEquipment, placedEquipment, [...placedEquipment, newEquipment]))
     setSelectedEquipmentIds([newEquipment.id])
   }
 
-  // Handle equipment selection on canvas
+  // Open the array tool on the selected item's equipment, starting at the default placement point
+  const handleArrayPanelToggle = () => {
+    if (rightPanel === 'array') {
+      setRightPanel(null)
+      return
+    }
+    const selected = placedEquipment.find(eq => eq.id === selectedEquipmentIds[0])
+    if (selected) setArrayEquipmentId(selected.equipmentId)
+    if (!arrayOrigin) setArrayOrigin(getDefaultPlacementPoint())
+    setArrayPickMode(null)
+    setRightPanel('array')
+  }
+
+  const handleArrayPointPick = (point: Point) => {
+    if (arrayPickMode === 'path') {
+      setArrayPath(prev => [...prev, point])
+    } else {
+      setArrayOrigin(point)
+      setArrayPickMode(null)
+    }
+  }
+
+  const handleArrayPlace = () => {
+    const definition = equipmentDefinitions.find(def => def.id === arrayEquipmentId)
+    if (!arrayPreview || !definition || arrayPreview.items.length === 0) return
+    const items = arrayPreview.items
+    runCommand(createListCommand(`Add ${items.length} × ${definition.name}`, setPlacedEquipment, placedEquipment, [...placedEquipment, ...items]))
+    setSelectedEquipmentIds(items.map(item => item.id))
+    setArrayPickMode(null)
+    setRightPanel(null)
+  }
+
+  const getEquipmentLabel = (equipment: PlacedEquipment) =>
+    equipment.customLabel || equipmentDefinitions.find(def => def.id === equipment.equipmentId)?.name || 'equipment'
+
+  const describeEquipment = (equipmentIds: string[]) => {
+    if (equipmentIds.length !== 1) return `${equipmentIds.length} items`
+    const equipment = placedEquipment.find(eq => eq.id === equipmentIds[0])
+    return equipment ? getEquipmentLabel(equipment) : 'equipment'
+  }
+
+  // Handle equipment selection on canvas. Clicking a grouped item selects its whole group.
   const handleCanvasEquipmentSelect = (equipment: PlacedEquipment | null) => {
-    if (equipment) {
+    if (equipment?.groupId) {
+      handleGroupSelect(equipment.groupId)
+    } else if (equipment) {
       setSelectedEquipmentIds([equipment.id])
     } else {
       setSelectedEquipmentIds([])
+      setSelectedAnnotationIds([])
+    }
+  }
+
+  // Selection boxes and Shift/Ctrl-clicks also take whole groups, so a group is never
+  // split by moving or turning part of it. Dropping one member drops the whole group.
+  const handleCanvasSelectionChange = (equipmentIds: string[]) => {
+    const removedIds = selectedEquipmentIds.filter(id => !equipmentIds.includes(id))
+    const onlyRemoves = removedIds.length > 0 && equipmentIds.every(id => selectedEquipmentIds.includes(id))
+    if (onlyRemoves) {
+      const dropped = new Set(expandToGroups(removedIds, placedEquipment))
+      setSelectedEquipmentIds(selectedEquipmentIds.filter(id => !dropped.has(id)))
+    } else {
+      setSelectedEquipmentIds(expandToGroups(equipmentIds, placedEquipment))
     }
   }
 
   // Handle equipment movement
   const handleEquipmentMove = (equipmentId: string, x: number, y: number) => {
-    setPlacedEquipment(prev => 
-      prev.map(eq => 
+    if (placedEquipment.find(eq => eq.id === equipmentId)?.locked) return
+    runCommand(createListCommand(
+      `Move ${describeEquipment([equipmentId])}`,
+      setPlacedEquipment,
+      placedEquipment,
+      placedEquipment.map(eq => 
         eq.id === equipmentId 
           ? { ...eq, x, y }
           : eq
-      )
-    )
+      ),
+      `move:${equipmentId}` // successive drags of the same item merge into one step
+    ))
+  }
+
+  // In strict placement, a transform that would break a clearance is pushed clear as a
+  // whole; null means there is no clear spot nearby and the transform is dropped
+  const getLegalTransforms = (transforms: EquipmentTransform[], rigid: boolean = false) => {
+    if (!strictPlacement || !clearance) return transforms
+    return clearance.index.findLegalTransform(transforms, canvasSettings.gridSize, rigid)
   }
 
   // Handle equipment rotation
   const handleEquipmentRotate = (equipmentId: string, rotation: number) => {
-    setPlacedEquipment(prev => 
-      prev.map(eq => 
+    const placed = placedEquipment.find(eq => eq.id === equipmentId)
+    if (!placed || placed.locked) return
+    const legal = getLegalTransforms([{ id: equipmentId, x: placed.x, y: placed.y, rotation }])
+    if (!legal) return
+    const [transform] = legal
+    runCommand(createListCommand(
+      `Rotate ${describeEquipment([equipmentId])}`,
+      setPlacedEquipment,
+      placedEquipment,
+      placedEquipment.map(eq => 
         eq.id === equipmentId 
-          ? { ...eq, rotation }
+          ? { ...eq, x: transform.x, y: transform.y, rotation: transform.rotation }
           : eq
-      )
-    )
+      ),
+      `rotate:${equipmentId}`
+    ))
+  }
+
+  // Handle a group move, rotation, align or distribute as a single step
+  const handleEquipmentTransform = (transforms: EquipmentTransform[], kind: EquipmentTransformKind) => {
+    // Locked items keep their place through aligns and distributes too
+    const lockedIds = new Set(placedEquipment.filter(eq => eq.locked).map(eq => eq.id))
+    const movable = getLegalTransforms(transforms.filter(transform => !lockedIds.has(transform.id)), kind === 'move')
+    if (!movable || movable.length === 0) return
+    const transformsById = new Map(movable.map(transform => [transform.id, transform]))
+    const verbs: Record<EquipmentTransformKind, string> = { move: 'Move', rotate: 'Rotate', align: 'Align', distribute: 'Distribute' }
+    runCommand(createListCommand(
+      `${verbs[kind]} ${describeEquipment(movable.map(transform => transform.id))}`,
+      setPlacedEquipment,
+      placedEquipment,
+      placedEquipment.map(eq => {
+        const transform = transformsById.get(eq.id)
+        return transform ? { ...eq, x: transform.x, y: transform.y, rotation: transform.rotation } : eq
+      })
+    ))
+  }
+
+  // Deleting equipment drops the waivers granted for it too, so undo brings both back
+  const createEquipmentDeleteCommand = (equipmentIds: string[]) => {
+    const label = `Delete ${describeEquipment(equipmentIds)}`
+    return createCompositeCommand(label, [
+      createListCommand(label, setPlacedEquipment, placedEquipment, placedEquipment.filter(eq => !equipmentIds.includes(eq.id))),
+      createListCommand(label, setClearanceWaivers, clearanceWaivers, clearanceWaivers.filter(waiver =>
+        !equipmentIds.includes(waiver.equipmentId1) && !equipmentIds.includes(waiver.equipmentId2)
+      ))
+    ])
   }
 
   // Handle equipment deletion
   const handleEquipmentDelete = (equipmentId: string) => {
-    setPlacedEquipment(prev => prev.filter(eq => eq.id !== equipmentId))
+    runCommand(createEquipmentDeleteCommand([equipmentId]))
     // Clear selection if deleted equipment was selected
     if (selectedEquipmentIds.includes(equipmentId)) {
       setSelectedEquipmentIds(prev => prev.filter(id => id !== equipmentId))
@@ -259,7 +609,7 @@ export default function CanvasPage() {
 
   // Handle multiple equipment deletion
   const handleMultipleEquipmentDelete = (equipmentIds: string[]) => {
-    setPlacedEquipment(prev => prev.filter(eq => !equipmentIds.includes(eq.id)))
+    runCommand(createEquipmentDeleteCommand(equipmentIds))
     setSelectedEquipmentIds([])
   }
 
@@ -271,21 +621,302 @@ export default function CanvasPage() {
       id: `equipment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       x: eq.x + 50, // Offset duplicated equipment
       y: eq.y + 50,
-      dimensions: eq.dimensions // Preserve the custom dimensions
+      dimensions: eq.dimensions, // Preserve the custom dimensions
+      groupId: undefined, // copies are not part of the original's group
+      locked: undefined
     }))
     
-    setPlacedEquipment(prev => [...prev, ...duplicatedEquipment])
+    runCommand(createListCommand(
+      `Duplicate ${describeEquipment(equipmentIds)}`,
+      setPlacedEquipment,
+      placedEquipment,
+      [...placedEquipment, ...duplicatedEquipment]
+    ))
     setSelectedEquipmentIds(duplicatedEquipment.map(eq => eq.id))
   }
 
+  // Mouse position on the canvas, where clipboard pastes land
+  const pointerPositionRef = useRef<Point | null>(null)
+  const handlePointerMove = useCallback((point: Point | null) => {
+    pointerPositionRef.current = point
+  }, [])
+
+  // Copy the selection, with its definitions and groups, for pasting into any project
+  const handleCopy = () => {
+    const layerLookup = getLayerLookup(layers)
+    const selected = placedEquipment.filter(eq => selectedEquipmentIds.includes(eq.id) && isEquipmentEditable(eq, layerLookup))
+    return serializeEquipmentClipboard(selected, equipmentDefinitions, groups, pixelsPerFoot)
+  }
+
+  // The library's customizations, or an empty set before the library has reported any
+  const getLibraryState = (): EquipmentLibraryState => equipmentLibraryState || {
+    customDimensions: {},
+    customCategories: {},
+    customNames: {},
+    customWeight: {},
+    customCapacity: {},
+    customTurnAroundTime: {},
+    customVerticalHeight: {},
+    customRideClearing: {},
+    customClearances: {},
+    newEquipmentItems: [],
+    newEquipmentCounter: 0
+  }
+
+  // Paste copied equipment at the mouse, adding any definitions this project does not have
+  const handlePaste = (text: string) => {
+    const clipboard = parseEquipmentClipboard(text)
+    if (!clipboard) return false
+
+    const at = pointerPositionRef.current || getDefaultPlacementPoint()
+    const result = pasteEquipmentClipboard(clipboard, equipmentDefinitions, at, pixelsPerFoot, activeLayerId)
+    const label = `Paste ${result.placedEquipment.length} item${result.placedEquipment.length === 1 ? '' : 's'}`
+
+    let libraryCommand = null
+    if (result.addedDefinitions.length > 0) {
+      const library = getLibraryState()
+      // Keep the library's next "custom-N" id clear of the pasted definitions' ids
+      const pastedCounters = result.addedDefinitions.map(def => Number(/^custom-(\d+)$/.exec(def.id)?.[1] ?? 0))
+      libraryCommand = createValueCommand<EquipmentLibraryState | null>(label, setEquipmentLibraryState, equipmentLibraryState, {
+        ...library,
+        newEquipmentItems: [...library.newEquipmentItems, ...result.addedDefinitions],
+        newEquipmentCounter: Math.max(library.newEquipmentCounter, ...pastedCounters)
+      })
+    }
+
+    runCommand(createCompositeCommand(label, [
+      libraryCommand,
+      createListCommand(label, setGroups, groups, [...groups, ...result.addedGroups]),
+      createListCommand(label, setPlacedEquipment, placedEquipment, [...placedEquipment, ...result.placedEquipment])
+    ]))
+    setSelectedEquipmentIds(result.placedEquipment.map(eq => eq.id))
+    return true
+  }
+
+  // Turn each item about its own center, clockwise for positive degrees
+  const handleEquipmentTurn = (equipmentIds: string[], degrees: number) => {
+    handleEquipmentTransform(placedEquipment
+      .filter(eq => equipmentIds.includes(eq.id))
+      .map(eq => ({ id: eq.id, x: eq.x, y: eq.y, rotation: normalizeDegrees(eq.rotation + degrees) })), 'rotate')
+  }
+
+  // Arrow-key nudges (in pixels); a run of nudges on the same selection is one undo step
+  const handleEquipmentNudge = (dx: number, dy: number) => {
+    const layerLookup = getLayerLookup(layers)
+    const moving = placedEquipment
+      .filter(eq => selectedEquipmentIds.includes(eq.id) && !eq.locked && isEquipmentEditable(eq, layerLookup))
+    if (moving.length === 0) return
+    const legal = getLegalTransforms(moving.map(eq => ({ id: eq.id, x: eq.x + dx, y: eq.y + dy, rotation: eq.rotation })), true)
+    if (!legal) return
+    const movingIds = moving.map(eq => eq.id)
+    const transformsById = new Map(legal.map(transform => [transform.id, transform]))
+    runCommand(createListCommand(
+      `Nudge ${describeEquipment(movingIds)}`,
+      setPlacedEquipment,
+      placedEquipment,
+      placedEquipment.map(eq => {
+        const transform = transformsById.get(eq.id)
+        return transform ? { ...eq, x: transform.x, y: transform.y } : eq
+      }),
+      `nudge:${[...movingIds].sort().join(',')}`
+    ))
+  }
+
+  const handleEquipmentLock = (equipmentIds: string[], locked: boolean) => {
+    runCommand(createListCommand(
+      `${locked ? 'Lock' : 'Unlock'} ${describeEquipment(equipmentIds)}`,
+      setPlacedEquipment,
+      placedEquipment,
+      placedEquipment.map(eq => equipmentIds.includes(eq.id) ? { ...eq, locked: locked || undefined } : eq)
+    ))
+  }
+
+  // Move items to the end of the list so they draw above the rest of their layer.
+  // A list command ignores reorders, so the whole list is the undo value.
+  const handleEquipmentBringToFront = (equipmentIds: string[]) => {
+    const reordered = [
+      ...placedEquipment.filter(eq => !equipmentIds.includes(eq.id)),
+      ...placedEquipment.filter(eq => equipmentIds.includes(eq.id))
+    ]
+    if (reordered.every((eq, index) => eq === placedEquipment[index])) return
+    runCommand(createValueCommand(`Bring ${describeEquipment(equipmentIds)} to front`, setPlacedEquipment, placedEquipment, reordered))
+  }
+
+  const handleEquipmentClearanceChange = (equipmentId: string, clearance: EquipmentClearance) => {
+    runCommand(createListCommand(
+      `Edit clearance of ${describeEquipment([equipmentId])}`,
+      setPlacedEquipment,
+      placedEquipment,
+      placedEquipment.map(eq => eq.id === equipmentId ? { ...eq, clearance } : eq),
+      `clearance:${equipmentId}` // edits made while the editor is open merge into one step
+    ))
+  }
+
+  // An empty label goes back to the equipment's name
+  const handleEquipmentLabelEdit = (equipment: PlacedEquipment) => {
+    const label = window.prompt('Label', getEquipmentLabel(equipment))
+    if (label === null) return
+    const customLabel = label.trim() || undefined
+    if (customLabel === equipment.customLabel) return
+    runCommand(createListCommand(
+      `Label ${getEquipmentLabel(equipment)}`,
+      setPlacedEquipment,
+      placedEquipment,
+      placedEquipment.map(eq => eq.id === equipment.id ? { ...eq, customLabel } : eq)
+    ))
+  }
+
+  // Save an item's size and clearance as a new library definition and switch the item to it
+  const handleConvertToCustomDefinition = (equipment: PlacedEquipment) => {
+    const definition = equipmentDefinitions.find(def => def.id === equipment.equipmentId)
+    if (!definition) return
+    const library = getLibraryState()
+    let counter = library.newEquipmentCounter + 1
+    while (equipmentDefinitions.some(def => def.id === `custom-${counter}`)) counter++
+
+    const custom: EquipmentItem = {
+      ...definition,
+      id: `custom-${counter}`,
+      name: equipment.customLabel || `${definition.name} (custom)`,
+      dimensions: equipment.dimensions,
+      clearance: equipment.clearance ?? definition.clearance,
+      tags: [...(definition.tags || []).filter(tag => tag !== 'custom'), 'custom']
+    }
+    const label = `Convert ${getEquipmentLabel(equipment)} to a custom definition`
+    runCommand(createCompositeCommand(label, [
+      createValueCommand<EquipmentLibraryState | null>(label, setEquipmentLibraryState, equipmentLibraryState, {
+        ...library,
+        newEquipmentItems: [...library.newEquipmentItems, custom],
+        newEquipmentCounter: counter
+      }),
+      createListCommand(label, setPlacedEquipment, placedEquipment, placedEquipment.map(eq =>
+        eq.id === equipment.id ? { ...eq, equipmentId: custom.id } : eq
+      ))
+    ]))
+  }
+
   // Handle select all
   const handleSelectAll = () => {
-    setSelectedEquipmentIds(placedEquipment.map(eq => eq.id))
+    const layerLookup = getLayerLookup(layers)
+    setSelectedEquipmentIds(placedEquipment
+      .filter(eq => isEquipmentEditable(eq, layerLookup) && (!groupFilterId || eq.groupId === groupFilterId))
+      .map(eq => eq.id))
   }
 
   // Handle deselect all
   const handleDeselectAll = () => {
     setSelectedEquipmentIds([])
+    setSelectedAnnotationIds([])
+  }
+
+  // Annotations: text, arrows, callouts and shapes drawn over the plan
+  const describeAnnotations = (annotationIds: string[]) => {
+    if (annotationIds.length !== 1) return `${annotationIds.length} annotations`
+    const annotation = annotations.find(item => item.id === annotationIds[0])
+    return annotation ? describeAnnotation(annotation) : 'annotation'
+  }
+
+  const handleAnnotationSelectionChange = (annotationIds: string[]) => {
+    setSelectedAnnotationIds(annotationIds)
+    if (annotationIds.length > 0) setSelectedEquipmentIds([])
+  }
+
+  // New annotations go on the active layer and are selected
+  const handleAnnotationAdd = (annotation: Annotation) => {
+    const added = { ...annotation, layerId: activeLayerId }
+    runCommand(createListCommand(`Add ${describeAnnotation(added)}`, setAnnotations, annotations, [...annotations, added]))
+    handleAnnotationSelectionChange([added.id])
+  }
+
+  const handleAnnotationsTransform = (changed: Annotation[]) => {
+    const changedById = new Map(changed.map(annotation => [annotation.id, annotation]))
+    runCommand(createListCommand(
+      `Transform ${describeAnnotations(changed.map(annotation => annotation.id))}`,
+      setAnnotations,
+      annotations,
+      annotations.map(annotation => changedById.get(annotation.id) ?? annotation)
+    ))
+  }
+
+  const handleAnnotationEdit = (annotationId: string) => {
+    const annotation = annotations.find(item => item.id === annotationId)
+    if (!annotation) return
+    const text = window.prompt(annotation.kind === 'callout' ? 'Callout text' : 'Text', annotation.text || '')?.trim()
+    if (!text || text === annotation.text) return
+    runCommand(createListCommand(
+      `Edit ${describeAnnotation(annotation)}`,
+      setAnnotations,
+      annotations,
+      annotations.map(item => item.id === annotationId ? { ...item, text } : item)
+    ))
+  }
+
+  const handleAnnotationStyleChange = (annotationIds: string[], style: Partial<AnnotationStyle>) => {
+    runCommand(createListCommand(
+      `Style ${describeAnnotations(annotationIds)}`,
+      setAnnotations,
+      annotations,
+      annotations.map(item => annotationIds.includes(item.id) ? { ...item, style: { ...item.style, ...style } } : item),
+      `annotation-style:${[...annotationIds].sort().join(',')}` // clicking through colors is one step
+    ))
+  }
+
+  const handleAnnotationsDelete = (annotationIds: string[]) => {
+    runCommand(createListCommand(
+      `Delete ${describeAnnotations(annotationIds)}`,
+      setAnnotations,
+      annotations,
+      annotations.filter(item => !annotationIds.includes(item.id))
+    ))
+    setSelectedAnnotationIds([])
+  }
+
+  const handleAnnotationsDuplicate = (annotationIds: string[]) => {
+    const copies = annotations
+      .filter(item => annotationIds.includes(item.id))
+      .map(item => ({
+        ...item,
+        id: `annotation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        x: item.x + 50, // Offset like duplicated equipment
+        y: item.y + 50,
+        locked: undefined
+      }))
+    runCommand(createListCommand(`Duplicate ${describeAnnotations(annotationIds)}`, setAnnotations, annotations, [...annotations, ...copies]))
+    handleAnnotationSelectionChange(copies.map(item => item.id))
+  }
+
+  const handleAnnotationsNudge = (dx: number, dy: number) => {
+    const layerLookup = getLayerLookup(layers)
+    const movingIds = annotations
+      .filter(item => selectedAnnotationIds.includes(item.id) && !item.locked && isEquipmentEditable(item, layerLookup))
+      .map(item => item.id)
+    if (movingIds.length === 0) return
+    runCommand(createListCommand(
+      `Nudge ${describeAnnotations(movingIds)}`,
+      setAnnotations,
+      annotations,
+      annotations.map(item => movingIds.includes(item.id) ? { ...item, x: item.x + dx, y: item.y + dy } : item),
+      `nudge:${[...movingIds].sort().join(',')}`
+    ))
+  }
+
+  const handleAnnotationsLock = (annotationIds: string[], locked: boolean) => {
+    runCommand(createListCommand(
+      `${locked ? 'Lock' : 'Unlock'} ${describeAnnotations(annotationIds)}`,
+      setAnnotations,
+      annotations,
+      annotations.map(item => annotationIds.includes(item.id) ? { ...item, locked: locked || undefined } : item)
+    ))
+  }
+
+  // Later annotations draw above the rest of their layer; see handleEquipmentBringToFront
+  const handleAnnotationsBringToFront = (annotationIds: string[]) => {
+    const reordered = [
+      ...annotations.filter(item => !annotationIds.includes(item.id)),
+      ...annotations.filter(item => annotationIds.includes(item.id))
+    ]
+    if (reordered.every((item, index) => item === annotations[index])) return
+    runCommand(createValueCommand(`Bring ${describeAnnotations(annotationIds)} to front`, setAnnotations, annotations, reordered))
   }
 
   // Background image management functions
@@ -294,21 +925,228 @@ export default function CanvasPage() {
       ...image,
       id: `bg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
     }
-    setBackgroundImages(prev => [...prev, imageWithId])
+    runCommand(createListCommand('Add background image', setBackgroundImages, backgroundImages, [...backgroundImages, imageWithId]))
   }
 
   const handleBackgroundImageUpdate = (imageId: string, updates: Partial<BackgroundImage>) => {
-    setBackgroundImages(prev => 
-      prev.map(img => 
+    runCommand(createListCommand(
+      'Edit background image',
+      setBackgroundImages,
+      backgroundImages,
+      backgroundImages.map(img => 
         img.id === imageId 
           ? { ...img, ...updates }
           : img
-      )
-    )
+      ),
+      `background:${imageId}:${Object.keys(updates).sort().join(',')}`
+    ))
   }
 
   const handleBackgroundImageDelete = (imageId: string) => {
-    setBackgroundImages(prev => prev.filter(img => img.id !== imageId))
+    runCommand(createListCommand('Delete background image', setBackgroundImages, backgroundImages, backgroundImages.filter(img => img.id !== imageId)))
+  }
+
+  const handleBackgroundImageDuplicate = (image: BackgroundImage) => {
+    handleBackgroundImageAdd({ ...image, name: `${image.name} copy`, x: image.x + 50, y: image.y + 50, locked: false })
+  }
+
+  // Konva turns images about their top-left corner; shift them so they turn about their center
+  const handleBackgroundImageQuarterTurn = (image: BackgroundImage) => {
+    const half = { x: image.width * image.scaleX / 2, y: image.height * image.scaleY / 2 }
+    const center = rotatePoint(half, image.rotation)
+    const rotation = normalizeDegrees(image.rotation + 90)
+    const offset = rotatePoint(half, rotation)
+    handleBackgroundImageUpdate(image.id, { x: image.x + center.x - offset.x, y: image.y + center.y - offset.y, rotation })
+  }
+
+  const handleBackgroundImageBringToFront = (imageId: string) => {
+    const reordered = [
+      ...backgroundImages.filter(img => img.id !== imageId),
+      ...backgroundImages.filter(img => img.id === imageId)
+    ]
+    if (reordered.every((img, index) => img === backgroundImages[index])) return
+    runCommand(createValueCommand('Bring background image to front', setBackgroundImages, backgroundImages, reordered))
+  }
+
+  const handleBackgroundImageRename = (image: BackgroundImage) => {
+    const name = window.prompt('Image name', image.name)?.trim()
+    if (name && name !== image.name) handleBackgroundImageUpdate(image.id, { name })
+  }
+
+  // Built-in context menu entries for equipment, annotations and background images; the
+  // canvas adds Zoom to and the measurement entries, and tools may register more
+  useContextMenuProvider('plan', (target) => {
+    if (target.kind === 'equipment') {
+      const { equipment, equipmentIds } = target
+      const items = placedEquipment.filter(eq => equipmentIds.includes(eq.id))
+      const allLocked = items.length > 0 && items.every(eq => eq.locked)
+      // Locked items are left out of duplicates and deletes
+      const unlockedIds = items.filter(eq => !eq.locked).map(eq => eq.id)
+      const single = equipmentIds.length === 1
+      return [
+        { id: 'duplicate', label: 'Duplicate', shortcut: formatShortcut(shortcuts, 'duplicate'), disabled: allLocked, onSelect: () => handleEquipmentDuplicate(unlockedIds) },
+        { id: 'rotate-90', label: 'Rotate 90°', disabled: allLocked, onSelect: () => handleEquipmentTurn(equipmentIds, 90) },
+        { id: 'lock', label: allLocked ? 'Unlock' : 'Lock', onSelect: () => handleEquipmentLock(equipmentIds, !allLocked) },
+        { id: 'bring-to-front', label: 'Bring to front', onSelect: () => handleEquipmentBringToFront(equipmentIds) },
+        { id: 'edit-clearance', label: 'Edit clearance…', disabled: !single, onSelect: () => setClearanceEditId(equipment.id) },
+        { id: 'set-label', label: 'Set label…', disabled: !single, onSelect: () => handleEquipmentLabelEdit(equipment) },
+        { id: 'convert-to-custom', label: 'Convert to custom definition', disabled: !single, onSelect: () => handleConvertToCustomDefinition(equipment) },
+        { id: 'delete', label: 'Delete', shortcut: formatShortcut(shortcuts, 'delete'), danger: true, disabled: allLocked, onSelect: () => handleMultipleEquipmentDelete(unlockedIds) }
+      ]
+    }
+    if (target.kind === 'annotation') {
+      const { annotation, annotationIds } = target
+      const items = annotations.filter(item => annotationIds.includes(item.id))
+      const allLocked = items.length > 0 && items.every(item => item.locked)
+      const unlockedIds = items.filter(item => !item.locked).map(item => item.id)
+      const hasText = annotationIds.length === 1 && (annotation.kind === 'text' || annotation.kind === 'callout')
+      return [
+        ...(hasText ? [{ id: 'edit-text', label: 'Edit text…', onSelect: () => handleAnnotationEdit(annotation.id) }] : []),
+        { id: 'duplicate', label: 'Duplicate', shortcut: formatShortcut(shortcuts, 'duplicate'), disabled: allLocked, onSelect: () => handleAnnotationsDuplicate(unlockedIds) },
+        { id: 'lock', label: allLocked ? 'Unlock' : 'Lock', onSelect: () => handleAnnotationsLock(annotationIds, !allLocked) },
+        { id: 'bring-to-front', label: 'Bring to front', onSelect: () => handleAnnotationsBringToFront(annotationIds) },
+        { id: 'delete', label: 'Delete', shortcut: formatShortcut(shortcuts, 'delete'), danger: true, disabled: allLocked, onSelect: () => handleAnnotationsDelete(unlockedIds) }
+      ]
+    }
+    if (target.kind === 'backgroundImage') {
+      const { image } = target
+      return [
+        { id: 'duplicate', label: 'Duplicate', disabled: image.locked, onSelect: () => handleBackgroundImageDuplicate(image) },
+        { id: 'rotate-90', label: 'Rotate 90°', disabled: image.locked, onSelect: () => handleBackgroundImageQuarterTurn(image) },
+        { id: 'lock', label: image.locked ? 'Unlock' : 'Lock', onSelect: () => handleBackgroundImageUpdate(image.id, { locked: !image.locked }) },
+        { id: 'bring-to-front', label: 'Bring to front', onSelect: () => handleBackgroundImageBringToFront(image.id) },
+        { id: 'set-label', label: 'Rename…', onSelect: () => handleBackgroundImageRename(image) },
+        { id: 'delete', label: 'Delete', danger: true, disabled: image.locked, onSelect: () => handleBackgroundImageDelete(image.id) }
+      ]
+    }
+    return []
+  }, 20)
+
+  const handleClearanceRulesChange = (rules: ClearanceRule[]) => {
+    runCommand(createListCommand('Edit clearance rules', setClearanceRules, clearanceRules, rules))
+  }
+
+  const handleClearanceWaiversChange = (waivers: ClearanceWaiver[]) => {
+    const label = waivers.length > clearanceWaivers.length ? 'Waive violation' : 'Revoke waiver'
+    runCommand(createListCommand(label, setClearanceWaivers, clearanceWaivers, waivers))
+  }
+
+  const handleLotBoundaryChange = (boundary: LotBoundary | null) => {
+    runCommand(createValueCommand(boundary ? 'Edit lot boundary' : 'Remove lot boundary', setLotBoundary, lotBoundary, boundary))
+  }
+
+  const handleLayersChange = (nextLayers: PlanLayer[], label: string) => {
+    runCommand(createValueCommand(label, setLayers, layers, nextLayers))
+  }
+
+  // Deleting a layer moves its equipment and annotations onto the default layer
+  const handleLayerDelete = (layerId: string) => {
+    const layer = layers.find(item => item.id === layerId)
+    if (!layer || layerId === DEFAULT_LAYER_ID) return
+    const label = `Delete layer ${layer.name}`
+    runCommand(createCompositeCommand(label, [
+      createListCommand(label, setPlacedEquipment, placedEquipment, placedEquipment.map(eq =>
+        eq.layerId === layerId ? { ...eq, layerId: DEFAULT_LAYER_ID } : eq
+      )),
+      createListCommand(label, setAnnotations, annotations, annotations.map(item =>
+        item.layerId === layerId ? { ...item, layerId: DEFAULT_LAYER_ID } : item
+      )),
+      createValueCommand(label, setLayers, layers, layers.filter(item => item.id !== layerId))
+    ]))
+    if (activeLayerId === layerId) setActiveLayerId(DEFAULT_LAYER_ID)
+  }
+
+  const handleMoveSelectionToLayer = (layerId: string) => {
+    const layer = layers.find(item => item.id === layerId)
+    if (!layer) return
+    if (selectedAnnotationIds.length > 0) {
+      runCommand(createListCommand(
+        `Move ${describeAnnotations(selectedAnnotationIds)} to ${layer.name}`,
+        setAnnotations,
+        annotations,
+        annotations.map(item => selectedAnnotationIds.includes(item.id) ? { ...item, layerId } : item)
+      ))
+      return
+    }
+    runCommand(createListCommand(
+      `Move ${describeEquipment(selectedEquipmentIds)} to ${layer.name}`,
+      setPlacedEquipment,
+      placedEquipment,
+      placedEquipment.map(eq => selectedEquipmentIds.includes(eq.id) ? { ...eq, layerId } : eq)
+    ))
+  }
+
+  // Select the members of a group that can be picked on the canvas
+  const handleGroupSelect = (groupId: string) => {
+    const layerLookup = getLayerLookup(layers)
+    setSelectedEquipmentIds(getGroupMembers(placedEquipment, groupId)
+      .filter(eq => isEquipmentEditable(eq, layerLookup))
+      .map(eq => eq.id))
+  }
+
+  const setEquipmentGroup = (label: string, equipmentIds: string[], groupId: string | undefined) =>
+    createListCommand(label, setPlacedEquipment, placedEquipment, placedEquipment.map(eq =>
+      equipmentIds.includes(eq.id) ? { ...eq, groupId } : eq
+    ))
+
+  // Group the selection. Items already in another group move to the new one.
+  const handleGroupCreate = (name: string) => {
+    if (selectedEquipmentIds.length === 0) return
+    const group = createEquipmentGroup(name || `Group ${groups.length + 1}`)
+    const label = `Group ${describeEquipment(selectedEquipmentIds)} as ${group.name}`
+    runCommand(createCompositeCommand(label, [
+      createListCommand(label, setGroups, groups, [...groups, group]),
+      setEquipmentGroup(label, selectedEquipmentIds, group.id)
+    ]))
+  }
+
+  const handleGroupRename = (groupId: string, name: string) => {
+    const group = groups.find(item => item.id === groupId)
+    if (!group || group.name === name) return
+    runCommand(createListCommand(
+      `Rename group ${group.name}`,
+      setGroups,
+      groups,
+      groups.map(item => item.id === groupId ? { ...item, name } : item)
+    ))
+  }
+
+  // Ungroup: the group goes away, its equipment stays where it is
+  const handleGroupDelete = (groupId: string) => {
+    const group = groups.find(item => item.id === groupId)
+    if (!group) return
+    const label = `Ungroup ${group.name}`
+    runCommand(createCompositeCommand(label, [
+      setEquipmentGroup(label, getGroupMembers(placedEquipment, groupId).map(eq => eq.id), undefined),
+      createListCommand(label, setGroups, groups, groups.filter(item => item.id !== groupId))
+    ]))
+  }
+
+  const handleRemoveFromGroup = () => {
+    runCommand(setEquipmentGroup(`Remove ${describeEquipment(selectedEquipmentIds)} from group`, selectedEquipmentIds, undefined))
+  }
+
+  const handleCanvasSettingsChange = (updates: Partial<CanvasSettings>) => {
+    const next = { ...canvasSettings, ...updates }
+    runCommand(createValueCommand('Change canvas settings', setCanvasSettings, canvasSettings, next, 'canvasSettings'))
+  }
+
+  // Zoom the canvas to both items of a violation and select them
+  const handleViolationFocus = (violation: ClearanceViolation) => {
+    const definitionsById = new Map(equipmentDefinitions.map(def => [def.id, def]))
+    const bounds = [violation.equipment1.id, violation.equipment2.id]
+      .map(id => placedEquipment.find(item => item.id === id))
+      .filter((item): item is PlacedEquipment => !!item)
+      .map(item => buildEquipmentGeometry(item, definitionsById.get(item.equipmentId), pixelsPerFoot).bounds)
+    if (bounds.length === 0) return
+
+    setFocusBounds({
+      minX: Math.min(...bounds.map(b => b.minX)) * pixelsPerFoot,
+      minY: Math.min(...bounds.map(b => b.minY)) * pixelsPerFoot,
+      maxX: Math.max(...bounds.map(b => b.maxX)) * pixelsPerFoot,
+      maxY: Math.max(...bounds.map(b => b.maxY)) * pixelsPerFoot
+    })
+    setSelectedEquipmentIds([violation.equipment1.id, violation.equipment2.id])
   }
 
   return (
@@ -329,6 +1167,13 @@ export default function CanvasPage() {
             </div>
             <div className="flex items-center gap-3">
               <ThemeToggle />
+              <button
+                onClick={() => setShortcutsModalOpen(true)}
+                className="px-3 py-2 border border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+                title={`Keyboard Shortcuts (${formatShortcut(shortcuts, 'showShortcuts') || 'unassigned'})`}
+              >
+                ⌨️ Shortcuts
+              </button>
               <button
                 onClick={() => setPropertiesModalOpen(true)}
                 className="px-3 py-2 border border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
@@ -336,6 +1181,67 @@ export default function CanvasPage() {
               >
                 ⚙️ Settings
               </button>
+              <button
+                onClick={() => setClearanceRulesModalOpen(true)}
+                className="px-3 py-2 border border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+                title="Minimum separation rules between equipment categories"
+              >
+                📏 Rules{clearanceRules.length > 0 ? ` (${clearanceRules.length})` : ''}
+              </button>
+              <button
+                onClick={() => setRightPanel(rightPanel === 'violations' ? null : 'violations')}
+                className={`px-3 py-2 border rounded-lg transition-colors text-sm ${
+                  openViolationCount > 0
+                    ? 'border-red-300 text-red-700 hover:bg-red-50 dark:border-red-700 dark:text-red-300 dark:hover:bg-red-900'
+                    : 'border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+                title="Review clearance violations and waivers"
+              >
+                ⚠️ Violations{openViolationCount > 0 ? ` (${openViolationCount})` : ''}
+              </button>
+              <button
+                onClick={() => setRightPanel(rightPanel === 'history' ? null : 'history')}
+                className="px-3 py-2 border border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+                title="Undo history"
+              >
+                🕘 History
+              </button>
+              <button
+                onClick={() => setRightPanel(rightPanel === 'layers' ? null : 'layers')}
+                className="px-3 py-2 border border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+                title="Layers: visibility, locking and draw order"
+              >
+                🗂️ Layers
+              </button>
+              <button
+                onClick={() => setRightPanel(rightPanel === 'groups' ? null : 'groups')}
+                className={`px-3 py-2 border rounded-lg transition-colors text-sm ${
+                  groupFilterId
+                    ? 'border-blue-300 text-blue-700 hover:bg-blue-50 dark:border-blue-700 dark:text-blue-300 dark:hover:bg-blue-900'
+                    : 'border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+                title="Named equipment groups"
+              >
+                🧩 Groups{groups.length > 0 ? ` (${groups.length})` : ''}
+              </button>
+              <button
+                onClick={handleArrayPanelToggle}
+                className="px-3 py-2 border border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+                title="Place rows, grids and arcs of repeated equipment"
+              >
+                ▦ Array
+              </button>
+              <button
+                onClick={() => setLotBoundaryModalOpen(true)}
+                className={`px-3 py-2 border rounded-lg transition-colors text-sm ${
+                  boundaryViolationCount > 0
+                    ? 'border-red-300 text-red-700 hover:bg-red-50 dark:border-red-700 dark:text-red-300 dark:hover:bg-red-900'
+                    : 'border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+                title="Lot boundary and setback"
+              >
+                🗺️ Lot{boundaryViolationCount > 0 ? ` (${boundaryViolationCount} outside)` : ''}
+              </button>
               <button 
                 onClick={() => setProjectManagerModalOpen(true)}
                 className="px-3 py-2 border border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
@@ -395,7 +1301,7 @@ export default function CanvasPage() {
             key="equipment-library"
             onEquipmentSelect={handleEquipmentSelect}
             onEquipmentDefinitionsChange={handleEquipmentDefinitionsChange}
-            onLibraryStateChange={setEquipmentLibraryState}
+            onLibraryStateChange={handleLibraryStateChange}
             initialLibraryState={equipmentLibraryState || undefined}
             className={`h-full transition-all duration-300 ${sidebarExpanded ? 'w-[340px]' : 'w-12 overflow-hidden'}`}
             isCollapsed={!sidebarExpanded}
@@ -408,21 +1314,57 @@ export default function CanvasPage() {
             className="w-full h-full flex-1"
             placedEquipment={placedEquipment}
             equipmentDefinitions={equipmentDefinitions}
+            clearanceRules={clearanceRules}
+            clearanceWaivers={clearanceWaivers}
+            clearance={clearance}
+            strictPlacement={strictPlacement}
+            onStrictPlacementChange={setStrictPlacement}
+            focusBounds={focusBounds}
+            lotBoundary={lotBoundary}
+            onLotBoundaryChange={handleLotBoundaryChange}
+            canvasSettings={canvasSettings}
+            onCanvasSettingsChange={handleCanvasSettingsChange}
+            layers={canvasLayers}
+            groupFilterId={groupFilterId}
+            placementPreview={arrayPreview}
+            onCanvasPointPick={rightPanel === 'array' && arrayPickMode ? handleArrayPointPick : null}
+            onPointerMove={handlePointerMove}
+            shortcuts={shortcuts}
             onEquipmentSelect={handleCanvasEquipmentSelect}
             onEquipmentMove={handleEquipmentMove}
             onEquipmentRotate={handleEquipmentRotate}
             onEquipmentDelete={handleEquipmentDelete}
-            selectedEquipmentId={selectedEquipmentIds[0] || undefined}
+            selectedEquipmentIds={selectedEquipmentIds}
+            onSelectionChange={handleCanvasSelectionChange}
+            onEquipmentTransform={handleEquipmentTransform}
+            onMultipleEquipmentDelete={handleMultipleEquipmentDelete}
+            onEquipmentDuplicate={handleEquipmentDuplicate}
             backgroundImages={backgroundImages}
             onBackgroundImageAdd={handleBackgroundImageAdd}
             onBackgroundImageUpdate={handleBackgroundImageUpdate}
             onBackgroundImageDelete={handleBackgroundImageDelete}
+            annotations={annotations}
+            selectedAnnotationIds={selectedAnnotationIds}
+            onAnnotationSelectionChange={handleAnnotationSelectionChange}
+            onAnnotationAdd={handleAnnotationAdd}
+            onAnnotationsTransform={handleAnnotationsTransform}
+            onAnnotationEdit={handleAnnotationEdit}
+            onAnnotationStyleChange={handleAnnotationStyleChange}
             onCanvasReady={(element) => {
               console.log('Canvas element received in parent:', element)
               setCanvasElement(element)
             }}
           />
           
+          {benchmarkCount !== null && (
+            <FrameTimeMonitor
+              className="absolute bottom-4 left-4 z-10"
+              itemCount={benchmarkCount}
+              siteBounds={{ minX: 0, minY: 0, maxX: canvasSettings.width, maxY: canvasSettings.height }}
+              onFocus={setFocusBounds}
+            />
+          )}
+
           {/* Keyboard Handler */}
           <KeyboardHandler
             selectedEquipmentIds={selectedEquipmentIds}
@@ -431,10 +1373,106 @@ export default function CanvasPage() {
             onEquipmentDuplicate={handleEquipmentDuplicate}
             onSelectAll={handleSelectAll}
             onDeselectAll={handleDeselectAll}
+            onUndo={() => history.undo()}
+            onRedo={() => history.redo()}
+            onCopy={handleCopy}
+            onPaste={handlePaste}
+            shortcuts={shortcuts}
+            nudgeStep={pixelsPerFoot}
+            largeNudgeStep={canvasSettings.gridSize}
+            onNudge={handleEquipmentNudge}
+            onRotate={(degrees) => handleEquipmentTurn(selectedEquipmentIds, degrees)}
+            selectedAnnotationIds={selectedAnnotationIds}
+            onAnnotationsDelete={handleAnnotationsDelete}
+            onAnnotationsDuplicate={handleAnnotationsDuplicate}
+            onAnnotationsNudge={handleAnnotationsNudge}
+            onShowShortcuts={() => setShortcutsModalOpen(true)}
           />
         </div>
 
+        {/* Right Sidebar - Violation Review */}
+        {rightPanel === 'violations' && (
+          <ViolationReviewPanel
+            className="w-80 h-full"
+            violations={violations}
+            waivers={clearanceWaivers}
+            onViolationFocus={handleViolationFocus}
+            onWaiversChange={handleClearanceWaiversChange}
+            onClose={() => setRightPanel(null)}
+          />
+        )}
+
+        {/* Right Sidebar - Undo History */}
+        {rightPanel === 'history' && (
+          <HistoryPanel
+            className="w-80 h-full"
+            entries={history.getEntries()}
+            position={history.position}
+            canUndo={history.canUndo}
+            canRedo={history.canRedo}
+            onUndo={() => history.undo()}
+            onRedo={() => history.redo()}
+            onJump={(position) => history.goTo(position)}
+            onClear={() => history.clear()}
+            onClose={() => setRightPanel(null)}
+          />
+        )}
+
+        {/* Right Sidebar - Layers */}
+        {rightPanel === 'layers' && (
+          <LayersPanel
+            className="w-80 h-full"
+            layers={layers}
+            activeLayerId={activeLayerId}
+            equipmentCounts={layerEquipmentCounts}
+            selectionCount={selectedEquipmentIds.length + selectedAnnotationIds.length}
+            onActiveLayerChange={setActiveLayerId}
+            onLayersChange={handleLayersChange}
+            onLayerDelete={handleLayerDelete}
+            onMoveSelectionToLayer={handleMoveSelectionToLayer}
+            onClose={() => setRightPanel(null)}
+          />
+        )}
+
+        {/* Right Sidebar - Groups */}
+        {rightPanel === 'groups' && (
+          <GroupsPanel
+            className="w-80 h-full"
+            groups={groups}
+            placedEquipment={placedEquipment}
+            equipmentDefinitions={equipmentDefinitions}
+            selectedEquipmentIds={selectedEquipmentIds}
+            filterGroupId={groupFilterId}
+            onGroupCreate={handleGroupCreate}
+            onGroupRename={handleGroupRename}
+            onGroupDelete={handleGroupDelete}
+            onGroupSelect={handleGroupSelect}
+            onEquipmentSelect={(equipmentId) => setSelectedEquipmentIds([equipmentId])}
+            onRemoveFromGroup={handleRemoveFromGroup}
+            onFilterChange={setGroupFilterId}
+            onClose={() => setRightPanel(null)}
+          />
+        )}
 
+        {/* Right Sidebar - Array placement */}
+        {rightPanel === 'array' && (
+          <ArrayPlacementPanel
+            className="w-80 h-full"
+            equipmentDefinitions={equipmentDefinitions}
+            equipmentId={arrayEquipmentId}
+            options={arrayOptions}
+            pickMode={arrayPickMode}
+            pathPointCount={arrayPath.length}
+            copyCount={arrayPreview?.items.length ?? 0}
+            conflictCount={arrayPreview?.conflictIds.size ?? 0}
+            onEquipmentChange={setArrayEquipmentId}
+            onOptionsChange={(updates) => setArrayOptions(prev => ({ ...prev, ...updates }))}
+            onPickModeChange={setArrayPickMode}
+            onPathClear={() => setArrayPath([])}
+            onPlace={handleArrayPlace}
+            onClose={() => setRightPanel(null)}
+          />
+        )}
       </div>
 
       {/* Project Management Modals */}
@@ -456,6 +1494,25 @@ export default function CanvasPage() {
         equipmentDefinitions={equipmentDefinitions}
         customEquipmentCount={customEquipmentCount}
         projectName={currentProject?.metadata.name || 'lot-planner-project'}
+        projectExtras={{ clearanceRules, clearanceWaivers, lotBoundary: lotBoundary || undefined, canvasSettings, layers, groups, annotations }}
+      />
+
+      <ClearanceRulesModal
+        isOpen={clearanceRulesModalOpen}
+        onClose={() => setClearanceRulesModalOpen(false)}
+        rules={clearanceRules}
+        equipmentDefinitions={equipmentDefinitions}
+        onRulesChange={handleClearanceRulesChange}
+      />
+
+      <LotBoundaryModal
+        isOpen={lotBoundaryModalOpen}
+        onClose={() => setLotBoundaryModalOpen(false)}
+        boundary={lotBoundary}
+        placedEquipment={placedEquipment}
+        equipmentDefinitions={equipmentDefinitions}
+        onBoundaryChange={handleLotBoundaryChange}
+        pixelsPerFoot={pixelsPerFoot}
       />
 
       <PDFExportModal
@@ -466,12 +1523,38 @@ export default function CanvasPage() {
         backgroundImages={backgroundImages}
         equipmentDefinitions={equipmentDefinitions}
         projectName={currentProject?.metadata.name || 'lot-planner-layout'}
+        projectExtras={{ clearanceRules, clearanceWaivers, lotBoundary: lotBoundary || undefined, canvasSettings, layers, groups, annotations }}
+        onLayerCaptureChange={setExportLayerIds}
       />
 
       <PropertiesModal
         isOpen={propertiesModalOpen}
         onClose={() => setPropertiesModalOpen(false)}
+        canvasSettings={canvasSettings}
+        onCanvasSettingsChange={handleCanvasSettingsChange}
+      />
+
+      <ShortcutsModal
+        isOpen={shortcutsModalOpen}
+        onClose={() => setShortcutsModalOpen(false)}
+        overrides={shortcutOverrides}
+        onOverridesChange={handleShortcutOverridesChange}
       />
+
+      {/* Clearance of one placed item, opened from the canvas context menu */}
+      {(() => {
+        const equipment = placedEquipment.find(eq => eq.id === clearanceEditId)
+        if (!equipment) return null
+        return (
+          <ClearanceEditor
+            clearance={equipment.clearance ?? equipmentDefinitions.find(def => def.id === equipment.equipmentId)?.clearance}
+            dimensions={equipment.dimensions}
+            rideClearing={equipmentDefinitions.find(def => def.id === equipment.equipmentId)?.rideClearing}
+            onChange={(clearance) => handleEquipmentClearanceChange(equipment.id, clearance)}
+            onClose={() => setClearanceEditId(null)}
+          />
+        )
+      })()}
     </div>
   )
 }
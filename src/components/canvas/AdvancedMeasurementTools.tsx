@@ -6,7 +6,6 @@ import AreaMeasurementTool, { AreaMeasurement } from './AreaMeasurementTool'
 import PerimeterMeasurementTool, { PerimeterMeasurement } from './PerimeterMeasurementTool'
 import DistanceMeasurementTool, { DistanceMeasurement } from './DistanceMeasurementTool'
 import ClearanceVerificationTool, { ClearanceViolation } from './ClearanceVerificationTool'
-import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
 
 export type MeasurementToolType = 'area' | 'perimeter' | 'distance' | 'clearance' | null
 
@@ -20,8 +19,7 @@ interface AdvancedMeasurementToolsProps {
   activeTool: MeasurementToolType
   scale: number
   pixelsPerFoot: number
-  placedEquipment: PlacedEquipment[]
-  equipmentDefinitions: EquipmentItem[]
+  violations: ClearanceViolation[] // from the page's clearance index
   measurements: AllMeasurements
   onMeasurementsChange: (measurements: AllMeasurements) => void
   onViolationSelect?: (violation: ClearanceViolation) => void
@@ -33,8 +31,7 @@ const AdvancedMeasurementTools: React.FC<AdvancedMeasurementToolsProps> = ({
   activeTool,
   scale,
   pixelsPerFoot,
-  placedEquipment,
-  equipmentDefinitions,
+  violations,
   measurements,
   onMeasurementsChange,
   onViolationSelect,
@@ -132,8 +129,7 @@ const AdvancedMeasurementTools: React.FC<AdvancedMeasurementToolsProps> = ({
         isActive={activeTool === 'clearance'}
         scale={scale}
         pixelsPerFoot={pixelsPerFoot}
-        placedEquipment={placedEquipment}
-        equipmentDefinitions={equipmentDefinitions}
+        violations={violations}
         onViolationSelect={onViolationSelect}
       />
     </Group>
@@ -0,0 +1,104 @@
+'use client'
+
+import React, { useState } from 'react'
+import { AlignMode, AlignReference, DistributeAxis } from '@/lib/equipment/alignment'
+
+interface AlignmentToolbarProps {
+  selectionCount: number
+  onAlign: (mode: AlignMode, reference: AlignReference) => void
+  onDistribute: (axis: DistributeAxis, reference: AlignReference, gapFeet?: number) => void
+  className?: string
+}
+
+const ALIGN_BUTTONS: Array<{ mode: AlignMode; icon: string; title: string }> = [
+  { mode: 'left', icon: '⇤', title: 'Align left edges' },
+  { mode: 'centerX', icon: '↔', title: 'Align horizontal centers' },
+  { mode: 'right', icon: '⇥', title: 'Align right edges' },
+  { mode: 'top', icon: '⤒', title: 'Align top edges' },
+  { mode: 'centerY', icon: '↕', title: 'Align vertical centers' },
+  { mode: 'bottom', icon: '⤓', title: 'Align bottom edges' }
+]
+
+const AlignmentToolbar: React.FC<AlignmentToolbarProps> = ({
+  selectionCount,
+  onAlign,
+  onDistribute,
+  className = ''
+}) => {
+  const [reference, setReference] = useState<AlignReference>('footprint')
+  const [useGap, setUseGap] = useState(false)
+  const [gapFeet, setGapFeet] = useState(10)
+
+  const canDistribute = useGap ? selectionCount >= 2 : selectionCount >= 3
+  const buttonClass = 'px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className={`flex items-center space-x-2 bg-white border border-gray-300 rounded shadow px-2 py-1 text-sm text-gray-700 ${className}`}>
+      <span className="font-medium">{selectionCount} selected</span>
+
+      {/* Align */}
+      <div className="flex space-x-1">
+        {ALIGN_BUTTONS.map(button => (
+          <button
+            key={button.mode}
+            onClick={() => onAlign(button.mode, reference)}
+            className={buttonClass}
+            title={button.title}
+          >
+            {button.icon}
+          </button>
+        ))}
+      </div>
+
+      <select
+        value={reference}
+        onChange={(e) => setReference(e.target.value as AlignReference)}
+        className="border border-gray-300 rounded px-1 py-0.5 text-gray-900 bg-white"
+        title="Measure edges on the equipment footprint or on its clearance envelope"
+      >
+        <option value="footprint">Footprint</option>
+        <option value="clearance">Clearance</option>
+      </select>
+
+      {/* Distribute */}
+      <div className="flex items-center space-x-1 border-l border-gray-200 pl-2">
+        <button
+          onClick={() => onDistribute('horizontal', reference, useGap ? gapFeet : undefined)}
+          disabled={!canDistribute}
+          className={buttonClass}
+          title="Distribute horizontally"
+        >
+          ⋯ H
+        </button>
+        <button
+          onClick={() => onDistribute('vertical', reference, useGap ? gapFeet : undefined)}
+          disabled={!canDistribute}
+          className={buttonClass}
+          title="Distribute vertically"
+        >
+          ⋮ V
+        </button>
+        <label className="flex items-center space-x-1" title="Use an exact gap between items instead of spacing them evenly">
+          <input
+            type="checkbox"
+            checked={useGap}
+            onChange={(e) => setUseGap(e.target.checked)}
+          />
+          <span>Gap</span>
+        </label>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={gapFeet}
+          disabled={!useGap}
+          onChange={(e) => setGapFeet(Math.max(0, parseFloat(e.target.value) || 0))}
+          className="w-14 border border-gray-300 rounded px-1 py-0.5 text-gray-900 bg-white disabled:bg-gray-100"
+        />
+        <span>ft</span>
+      </div>
+    </div>
+  )
+}
+
+export default AlignmentToolbar
@@ -0,0 +1,445 @@
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Group, Rect, Ellipse, Text, Line, Arrow, Circle, Label, Tag, Transformer } from 'react-konva'
+import Konva from 'konva'
+import { Annotation, AnnotationKind, PlanLayer } from '@/lib/equipment/types'
+import {
+  createAnnotation,
+  getAnnotationBounds,
+  transformAnnotation,
+  estimateTextSize,
+  CALLOUT_PADDING,
+  DEFAULT_SHAPE_SIZE,
+  DEFAULT_ARROW_LENGTH,
+  DEFAULT_CALLOUT_OFFSET
+} from '@/lib/equipment/annotations'
+import { getDrawOrder, getLayerLookup, isEquipmentEditable } from '@/lib/equipment/layers'
+import { Bounds, Point, boundsIntersect } from '@/lib/utils/geometry'
+
+interface AnnotationLayerProps {
+  annotations: Annotation[]
+  scale: number
+  pixelsPerFoot: number
+  layers?: PlanLayer[] // Draw order, visibility and locking, shared with equipment
+  selectedAnnotationIds?: string[]
+  onSelectionChange?: (annotationIds: string[]) => void
+  onAnnotationAdd?: (annotation: Annotation) => void
+  onAnnotationsTransform?: (annotations: Annotation[]) => void // moved, rotated or resized annotations
+  onAnnotationEdit?: (annotationId: string) => void // double-click on text or a callout
+  tool?: AnnotationKind | null // kind being drawn; clicks and drags on the canvas create it
+  onToolDone?: () => void
+  viewport?: Bounds | null // Visible canvas region in pixels; annotations outside it are not drawn
+  largeHandles?: boolean // Bigger transform handles for fingers
+}
+
+const NO_SELECTION: string[] = []
+const NO_LAYERS: PlanLayer[] = []
+const MIN_DRAG_PX = 5 // screen pixels a drag must cover to size a shape; less is a click
+const MIN_HIT_PX = 10 // thin lines are still this easy to click, in screen pixels
+
+// Pointer positions of a shape being drawn, in canvas pixels
+interface Draft {
+  start: Point
+  current: Point
+}
+
+// The annotation a drag from start to end draws, or the default-sized one for a click
+function buildAnnotation(kind: AnnotationKind, start: Point, end: Point, pixelsPerFoot: number, isClick: boolean): Annotation {
+  const dx = (end.x - start.x) / pixelsPerFoot
+  const dy = (end.y - start.y) / pixelsPerFoot
+  switch (kind) {
+    case 'rectangle':
+    case 'ellipse':
+      return isClick
+        ? createAnnotation(kind, start.x, start.y, { ...DEFAULT_SHAPE_SIZE })
+        : createAnnotation(kind, (start.x + end.x) / 2, (start.y + end.y) / 2, { width: Math.abs(dx), height: Math.abs(dy) })
+    case 'arrow':
+      return createAnnotation(kind, start.x, start.y, { points: [isClick ? { x: DEFAULT_ARROW_LENGTH, y: 0 } : { x: dx, y: dy }] })
+    case 'callout': {
+      // Dragged from the spot it points at to where the text goes
+      const offset = isClick ? DEFAULT_CALLOUT_OFFSET : { x: dx, y: dy }
+      return createAnnotation(kind, start.x + offset.x * pixelsPerFoot, start.y + offset.y * pixelsPerFoot, {
+        text: '',
+        points: [{ x: -offset.x, y: -offset.y }]
+      })
+    }
+    default:
+      return createAnnotation(kind, start.x, start.y, { text: '' })
+  }
+}
+
+const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  annotations,
+  scale,
+  pixelsPerFoot,
+  layers = NO_LAYERS,
+  selectedAnnotationIds = NO_SELECTION,
+  onSelectionChange,
+  onAnnotationAdd,
+  onAnnotationsTransform,
+  onAnnotationEdit,
+  tool = null,
+  onToolDone,
+  viewport = null,
+  largeHandles = false
+}) => {
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [polylinePoints, setPolylinePoints] = useState<Point[]>([]) // vertices placed so far, canvas pixels
+  const [pointer, setPointer] = useState<Point | null>(null)
+  const nodeRefs = useRef(new Map<string, Konva.Group>())
+  const transformerRef = useRef<Konva.Transformer>(null)
+  const reportScheduledRef = useRef(false)
+  const layerLookup = useMemo(() => getLayerLookup(layers), [layers])
+
+  // Annotations in view, bottom layer first. Selected ones are always drawn so a drag can
+  // carry them off screen.
+  const drawOrder = useMemo(() => {
+    const visible = getDrawOrder(annotations, layers)
+    if (!viewport) return visible
+    return visible.filter(annotation =>
+      selectedAnnotationIds.includes(annotation.id) ||
+      boundsIntersect(getAnnotationBounds(annotation, pixelsPerFoot), viewport))
+  }, [annotations, layers, viewport, pixelsPerFoot, selectedAnnotationIds])
+
+  const selected = annotations.filter(annotation =>
+    selectedAnnotationIds.includes(annotation.id) && isEquipmentEditable(annotation, layerLookup))
+  const selectionLocked = selected.some(annotation => annotation.locked)
+  const selectionIsText = selected.length > 0 && selected.every(annotation => annotation.kind === 'text')
+
+  // Keep the transformer on the selected annotations
+  useEffect(() => {
+    const transformer = transformerRef.current
+    if (!transformer) return
+    transformer.nodes(selected.flatMap(annotation => nodeRefs.current.get(annotation.id) ?? []))
+    transformer.getLayer()?.batchDraw()
+  })
+
+  // Start over when the tool changes
+  useEffect(() => {
+    setDraft(null)
+    setPolylinePoints([])
+    setPointer(null)
+  }, [tool])
+
+  const handleClick = (annotation: Annotation, e: Konva.KonvaEventObject<PointerEvent>) => {
+    e.cancelBubble = true
+    // Right-clicks open the context menu and leave the selection to it
+    if (e.evt.button === 2) return
+
+    // Shift/Ctrl/Cmd-click adds or removes the annotation from the selection
+    if (e.evt.shiftKey || e.evt.ctrlKey || e.evt.metaKey) {
+      onSelectionChange?.(
+        selectedAnnotationIds.includes(annotation.id)
+          ? selectedAnnotationIds.filter(id => id !== annotation.id)
+          : [...selectedAnnotationIds, annotation.id]
+      )
+      return
+    }
+    onSelectionChange?.([annotation.id])
+  }
+
+  const handleDragStart = (annotation: Annotation, e: Konva.KonvaEventObject<DragEvent>) => {
+    if (e.target !== e.currentTarget) return
+    if (!selectedAnnotationIds.includes(annotation.id)) onSelectionChange?.([annotation.id])
+  }
+
+  // A drag or transform ends on every node it moved, one event each. Report them together,
+  // once they have all ended, as one change.
+  const reportChanges = () => {
+    if (reportScheduledRef.current) return
+    reportScheduledRef.current = true
+    queueMicrotask(() => {
+      reportScheduledRef.current = false
+      const changed = annotations.flatMap(annotation => {
+        const node = nodeRefs.current.get(annotation.id)
+        if (!node) return []
+        const transform = { x: node.x(), y: node.y(), rotation: node.rotation(), scaleX: node.scaleX(), scaleY: node.scaleY() }
+        // The scale goes into the annotation's own size, not the node
+        node.scale({ x: 1, y: 1 })
+        if (transform.x === annotation.x && transform.y === annotation.y && transform.rotation === annotation.rotation &&
+            transform.scaleX === 1 && transform.scaleY === 1) {
+          return []
+        }
+        return [transformAnnotation(annotation, transform)]
+      })
+      if (changed.length > 0) onAnnotationsTransform?.(changed)
+    })
+  }
+
+  // Drawing: the capture rectangle below takes every pointer event while a tool is on, so
+  // drawing over equipment does not select or drag it
+  const getPointer = (e: Konva.KonvaEventObject<PointerEvent>): Point | null => e.target.getRelativePointerPosition()
+
+  const finishPolyline = (points: Point[]) => {
+    // A double-click lands twice on the last vertex
+    const vertices = points.filter((point, index) =>
+      index === 0 || Math.hypot(point.x - points[index - 1].x, point.y - points[index - 1].y) * scale > 2)
+    if (vertices.length >= 2) {
+      const [first, ...rest] = vertices
+      onAnnotationAdd?.(createAnnotation('polyline', first.x, first.y, {
+        points: rest.map(point => ({ x: (point.x - first.x) / pixelsPerFoot, y: (point.y - first.y) / pixelsPerFoot }))
+      }))
+    }
+    setPolylinePoints([])
+    onToolDone?.()
+  }
+
+  const handleToolPointerDown = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    e.cancelBubble = true
+    if (e.evt.button !== 0 || !e.evt.isPrimary) return
+    const pos = getPointer(e)
+    if (!pos) return
+    if (tool === 'polyline') {
+      setPolylinePoints(prev => [...prev, pos])
+    } else {
+      setDraft({ start: pos, current: pos })
+    }
+  }
+
+  const handleToolPointerMove = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    const pos = getPointer(e)
+    if (!pos) return
+    setPointer(pos)
+    if (draft) setDraft({ ...draft, current: pos })
+  }
+
+  const handleToolPointerUp = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    e.cancelBubble = true
+    if (!draft || !tool) return
+    setDraft(null)
+
+    const pos = getPointer(e) ?? draft.current
+    const isClick = Math.hypot(pos.x - draft.start.x, pos.y - draft.start.y) * scale < MIN_DRAG_PX
+    const annotation = buildAnnotation(tool, draft.start, pos, pixelsPerFoot, isClick)
+    if (tool === 'text' || tool === 'callout') {
+      const text = window.prompt(tool === 'text' ? 'Text' : 'Callout text')
+      if (!text?.trim()) {
+        onToolDone?.()
+        return
+      }
+      annotation.text = text.trim()
+    }
+    onAnnotationAdd?.(annotation)
+    onToolDone?.()
+  }
+
+  const handleToolDblClick = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    e.cancelBubble = true
+    if (tool !== 'polyline') return
+    const pos = getPointer(e)
+    finishPolyline(pos ? [...polylinePoints, pos] : polylinePoints)
+  }
+
+  // Shape the tool would draw right now
+  const preview = useMemo(() => {
+    if (tool === 'polyline' && polylinePoints.length > 0) {
+      const [first, ...rest] = pointer ? [...polylinePoints, pointer] : polylinePoints
+      return createAnnotation('polyline', first.x, first.y, {
+        points: rest.map(point => ({ x: (point.x - first.x) / pixelsPerFoot, y: (point.y - first.y) / pixelsPerFoot }))
+      })
+    }
+    if (!tool || !draft || tool === 'text') return null
+    const isClick = Math.hypot(draft.current.x - draft.start.x, draft.current.y - draft.start.y) * scale < MIN_DRAG_PX
+    if (isClick) return null
+    const annotation = buildAnnotation(tool, draft.start, draft.current, pixelsPerFoot, false)
+    if (tool === 'callout') annotation.text = 'Callout'
+    return annotation
+  }, [tool, draft, polylinePoints, pointer, pixelsPerFoot, scale])
+
+  // Children are drawn around the group's origin, the annotation's anchor
+  const renderShape = (annotation: Annotation, isSelected: boolean) => {
+    const { style } = annotation
+    const strokeWidth = Math.max(style.strokeWidth * pixelsPerFoot, 1 / scale)
+    const dash = style.dashed ? [strokeWidth * 4, strokeWidth * 3] : undefined
+    const hitStrokeWidth = Math.max(strokeWidth, MIN_HIT_PX / scale)
+    const fontSize = style.fontSize * pixelsPerFoot
+    const points = (annotation.points || []).flatMap(point => [point.x * pixelsPerFoot, point.y * pixelsPerFoot])
+    const shadow = isSelected ? { shadowColor: '#2563eb', shadowBlur: 6 / scale, shadowOpacity: 0.6 } : {}
+
+    switch (annotation.kind) {
+      case 'text':
+        return (
+          <Text
+            text={annotation.text || ''}
+            fontSize={fontSize}
+            lineHeight={1.2}
+            fill={style.color}
+            {...shadow}
+          />
+        )
+      case 'arrow': {
+        const headSize = Math.max(strokeWidth * 4, 2 * pixelsPerFoot)
+        return (
+          <Arrow
+            points={[0, 0, ...points]}
+            stroke={style.color}
+            fill={style.color}
+            strokeWidth={strokeWidth}
+            pointerLength={headSize}
+            pointerWidth={headSize}
+            dash={dash}
+            hitStrokeWidth={hitStrokeWidth}
+            lineCap="round"
+            {...shadow}
+          />
+        )
+      }
+      case 'polyline':
+        return (
+          <Line
+            points={[0, 0, ...points]}
+            stroke={style.color}
+            strokeWidth={strokeWidth}
+            dash={dash}
+            hitStrokeWidth={hitStrokeWidth}
+            lineCap="round"
+            lineJoin="round"
+            {...shadow}
+          />
+        )
+      case 'rectangle': {
+        const width = (annotation.width || 0) * pixelsPerFoot
+        const height = (annotation.height || 0) * pixelsPerFoot
+        return (
+          <Rect
+            x={-width / 2}
+            y={-height / 2}
+            width={width}
+            height={height}
+            stroke={style.color}
+            strokeWidth={strokeWidth}
+            fill={style.fill}
+            dash={dash}
+            hitStrokeWidth={hitStrokeWidth}
+            {...shadow}
+          />
+        )
+      }
+      case 'ellipse':
+        return (
+          <Ellipse
+            radiusX={(annotation.width || 0) * pixelsPerFoot / 2}
+            radiusY={(annotation.height || 0) * pixelsPerFoot / 2}
+            stroke={style.color}
+            strokeWidth={strokeWidth}
+            fill={style.fill}
+            dash={dash}
+            hitStrokeWidth={hitStrokeWidth}
+            {...shadow}
+          />
+        )
+      case 'callout': {
+        // Leader from the middle of the box to the spot it points at, drawn under the box
+        const box = estimateTextSize(annotation.text || '', style.fontSize)
+        const padding = style.fontSize * CALLOUT_PADDING
+        const boxCenter = { x: (box.width / 2 + padding) * pixelsPerFoot, y: (box.height / 2 + padding) * pixelsPerFoot }
+        const target = { x: points[0] ?? 0, y: points[1] ?? 0 }
+        return (
+          <>
+            <Line
+              points={[boxCenter.x, boxCenter.y, target.x, target.y]}
+              stroke={style.color}
+              strokeWidth={strokeWidth}
+              dash={dash}
+              hitStrokeWidth={hitStrokeWidth}
+            />
+            <Circle x={target.x} y={target.y} radius={Math.max(strokeWidth * 1.5, 3 / scale)} fill={style.color} />
+            <Label>
+              <Tag fill={style.fill} stroke={style.color} strokeWidth={strokeWidth} cornerRadius={padding * pixelsPerFoot / 2} {...shadow} />
+              <Text
+                text={annotation.text || ''}
+                fontSize={fontSize}
+                lineHeight={1.2}
+                padding={padding * pixelsPerFoot}
+                fill={style.color}
+              />
+            </Label>
+          </>
+        )
+      }
+    }
+  }
+
+  return (
+    <>
+      {drawOrder.map(annotation => {
+        const isEditable = isEquipmentEditable(annotation, layerLookup)
+        const isSelected = selectedAnnotationIds.includes(annotation.id)
+        return (
+          <Group
+            key={annotation.id}
+            ref={(node) => {
+              if (node) nodeRefs.current.set(annotation.id, node)
+              else nodeRefs.current.delete(annotation.id)
+            }}
+            name="annotation"
+            id={annotation.id}
+            x={annotation.x}
+            y={annotation.y}
+            rotation={annotation.rotation}
+            draggable={isEditable && !annotation.locked && !tool}
+            listening={isEditable}
+            onPointerClick={(e) => handleClick(annotation, e)}
+            onPointerDblClick={(e) => {
+              e.cancelBubble = true
+              if (annotation.kind === 'text' || annotation.kind === 'callout') onAnnotationEdit?.(annotation.id)
+            }}
+            onDragStart={(e) => handleDragStart(annotation, e)}
+            onDragEnd={reportChanges}
+            onTransformEnd={reportChanges}
+          >
+            {renderShape(annotation, isSelected)}
+          </Group>
+        )
+      })}
+
+      {selected.length > 0 && !tool && (
+        <Transformer
+          ref={transformerRef}
+          flipEnabled={false}
+          resizeEnabled={!selectionLocked}
+          rotateEnabled={!selectionLocked}
+          keepRatio={selectionIsText}
+          enabledAnchors={selectionIsText ? ['top-left', 'top-right', 'bottom-left', 'bottom-right'] : undefined}
+          rotationSnaps={[0, 45, 90, 135, 180, 225, 270, 315]}
+          anchorSize={largeHandles ? 16 : 8}
+          borderStroke="#2563eb"
+          anchorStroke="#2563eb"
+          borderDash={selectionLocked ? [4, 4] : undefined}
+          // Shapes may shrink to a few screen pixels, not past them
+          boundBoxFunc={(oldBox, newBox) =>
+            (Math.abs(newBox.width) < 4 && Math.abs(newBox.width) < Math.abs(oldBox.width)) ||
+            (Math.abs(newBox.height) < 4 && Math.abs(newBox.height) < Math.abs(oldBox.height))
+              ? oldBox
+              : newBox}
+        />
+      )}
+
+      {/* Shape being drawn */}
+      {preview && (
+        <Group x={preview.x} y={preview.y} opacity={0.6} listening={false}>
+          {renderShape(preview, false)}
+        </Group>
+      )}
+
+      {/* Takes the pointer while a tool is on */}
+      {tool && viewport && (
+        <Rect
+          x={viewport.minX}
+          y={viewport.minY}
+          width={viewport.maxX - viewport.minX}
+          height={viewport.maxY - viewport.minY}
+          fill="transparent"
+          onPointerDown={handleToolPointerDown}
+          onPointerMove={handleToolPointerMove}
+          onPointerUp={handleToolPointerUp}
+          onPointerClick={(e) => { e.cancelBubble = true }}
+          onPointerDblClick={handleToolDblClick}
+        />
+      )}
+    </>
+  )
+}
+
+export default AnnotationLayer
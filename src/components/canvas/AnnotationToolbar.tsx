@@ -0,0 +1,120 @@
+'use client'
+
+import React from 'react'
+import { Annotation, AnnotationStyle } from '@/lib/equipment/types'
+import { ANNOTATION_COLORS } from '@/lib/equipment/annotations'
+
+interface AnnotationToolbarProps {
+  annotations: Annotation[] // the selected annotations
+  onStyleChange: (style: Partial<AnnotationStyle>) => void
+  onEditText?: () => void
+  className?: string
+}
+
+const LINE_WIDTHS = [0.25, 0.5, 1, 2] // feet
+const FONT_SIZES = [2, 3, 5, 8, 12, 20] // feet
+
+// Preset values plus the current one, which a resize on the canvas can leave between presets
+const withCurrent = (presets: number[], current: number) =>
+  presets.includes(current) ? presets : [...presets, current].sort((a, b) => a - b)
+
+// Styling for the selected annotations. Controls show the first annotation's style and
+// apply to all of them.
+const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
+  annotations,
+  onStyleChange,
+  onEditText,
+  className = ''
+}) => {
+  if (annotations.length === 0) return null
+  const { style } = annotations[0]
+  const fontSize = Math.round(style.fontSize * 10) / 10
+  const hasText = annotations.some(annotation => annotation.kind === 'text' || annotation.kind === 'callout')
+  const hasFill = annotations.some(annotation => annotation.kind === 'rectangle' || annotation.kind === 'ellipse' || annotation.kind === 'callout')
+  const hasLine = annotations.some(annotation => annotation.kind !== 'text')
+  const canEditText = annotations.length === 1 && hasText && onEditText
+  const selectClass = 'border border-gray-300 rounded px-1 py-0.5 text-gray-900 bg-white'
+
+  const swatch = (color: string | undefined, active: boolean, onClick: () => void, title: string) => (
+    <button
+      key={color ?? 'none'}
+      onClick={onClick}
+      className={`w-5 h-5 rounded border ${active ? 'ring-2 ring-blue-500 ring-offset-1' : 'border-gray-300'}`}
+      style={color
+        ? { backgroundColor: color }
+        : { background: 'linear-gradient(to top right, transparent 45%, #ef4444 45%, #ef4444 55%, transparent 55%)' }}
+      title={title}
+    />
+  )
+
+  return (
+    <div className={`flex items-center space-x-2 bg-white border border-gray-300 rounded shadow px-2 py-1 text-sm text-gray-700 ${className}`}>
+      <span className="font-medium">
+        {annotations.length === 1 ? 'Annotation' : `${annotations.length} annotations`}
+      </span>
+
+      {/* Color */}
+      <div className="flex items-center space-x-1" title="Color">
+        {ANNOTATION_COLORS.map(color => swatch(color, style.color === color, () => onStyleChange({ color }), color))}
+      </div>
+
+      {hasFill && (
+        <div className="flex items-center space-x-1 border-l border-gray-200 pl-2">
+          <span className="text-xs text-gray-500">Fill</span>
+          {swatch(undefined, !style.fill, () => onStyleChange({ fill: undefined }), 'No fill')}
+          {ANNOTATION_COLORS.map(color => swatch(color, style.fill === color, () => onStyleChange({ fill: color }), color))}
+        </div>
+      )}
+
+      {hasLine && (
+        <div className="flex items-center space-x-1 border-l border-gray-200 pl-2">
+          <select
+            value={style.strokeWidth}
+            onChange={(e) => onStyleChange({ strokeWidth: Number(e.target.value) })}
+            className={selectClass}
+            title="Line width"
+          >
+            {withCurrent(LINE_WIDTHS, style.strokeWidth).map(width => (
+              <option key={width} value={width}>{width} ft</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-1 cursor-pointer" title="Dashed line">
+            <input
+              type="checkbox"
+              checked={!!style.dashed}
+              onChange={(e) => onStyleChange({ dashed: e.target.checked })}
+            />
+            <span>Dashed</span>
+          </label>
+        </div>
+      )}
+
+      {hasText && (
+        <div className="flex items-center space-x-1 border-l border-gray-200 pl-2">
+          {/* Text is sized in feet, so it scales with the plan like everything else on it */}
+          <select
+            value={fontSize}
+            onChange={(e) => onStyleChange({ fontSize: Number(e.target.value) })}
+            className={selectClass}
+            title="Text size"
+          >
+            {withCurrent(FONT_SIZES, fontSize).map(size => (
+              <option key={size} value={size}>{size} ft text</option>
+            ))}
+          </select>
+          {canEditText && (
+            <button
+              onClick={onEditText}
+              className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50"
+              title="Edit text (or double-click it)"
+            >
+              Edit text
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AnnotationToolbar
@@ -0,0 +1,231 @@
+'use client'
+
+import React from 'react'
+import { EquipmentItem } from '@/lib/equipment/types'
+import { ArrayPlacementOptions, ArrayPattern, MAX_ARRAY_COPIES, getMaxArrayRows } from '@/lib/equipment/arrayPlacement'
+
+export type ArrayPickMode = 'origin' | 'path' | null
+
+interface ArrayPlacementPanelProps {
+  equipmentDefinitions: EquipmentItem[]
+  equipmentId: string | null
+  options: ArrayPlacementOptions
+  pickMode: ArrayPickMode // what the next canvas click sets
+  pathPointCount: number
+  copyCount: number // copies in the preview
+  conflictCount: number // preview copies that would break a clearance
+  onEquipmentChange: (equipmentId: string) => void
+  onOptionsChange: (updates: Partial<ArrayPlacementOptions>) => void
+  onPickModeChange: (mode: ArrayPickMode) => void
+  onPathClear: () => void
+  onPlace: () => void
+  onClose: () => void
+  className?: string
+}
+
+const PATTERNS: { value: ArrayPattern; label: string }[] = [
+  { value: 'row', label: 'Row' },
+  { value: 'grid', label: 'Grid' },
+  { value: 'arc', label: 'Arc' },
+  { value: 'path', label: 'Path' }
+]
+
+const ArrayPlacementPanel: React.FC<ArrayPlacementPanelProps> = ({
+  equipmentDefinitions,
+  equipmentId,
+  options,
+  pickMode,
+  pathPointCount,
+  copyCount,
+  conflictCount,
+  onEquipmentChange,
+  onOptionsChange,
+  onPickModeChange,
+  onPathClear,
+  onPlace,
+  onClose,
+  className = ''
+}) => {
+  const { pattern } = options
+  const isCurved = pattern === 'arc' || pattern === 'path'
+  const maxRows = getMaxArrayRows(options.count)
+
+  const numberField = (
+    label: string,
+    key: keyof ArrayPlacementOptions,
+    props: { min?: number; max?: number; step?: number; unit?: string } = {}
+  ) => (
+    <label className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+      <span>{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          value={options[key] as number}
+          min={props.min}
+          max={props.max}
+          step={props.step ?? 1}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value)
+            if (!isNaN(value)) onOptionsChange({ [key]: value })
+          }}
+          className="w-20 border border-gray-300 rounded px-2 py-0.5 text-sm text-gray-900 bg-white text-right"
+        />
+        {props.unit && <span className="w-6 text-xs text-gray-500">{props.unit}</span>}
+      </span>
+    </label>
+  )
+
+  const pickButton = (mode: Exclude<ArrayPickMode, null>, label: string) => (
+    <button
+      onClick={() => onPickModeChange(pickMode === mode ? null : mode)}
+      className={`flex-1 px-2 py-1 text-sm border rounded transition-colors ${
+        pickMode === mode
+          ? 'bg-purple-600 text-white border-purple-600'
+          : 'border-gray-300 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'
+      }`}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 flex flex-col ${className}`}>
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Array</h2>
+          <p className="text-xs text-gray-500">Place repeated copies of one item</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          title="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Equipment */}
+        <select
+          value={equipmentId || ''}
+          onChange={(e) => onEquipmentChange(e.target.value)}
+          className="w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-900 bg-white"
+        >
+          <option value="" disabled>Choose equipment…</option>
+          {equipmentDefinitions.map(def => (
+            <option key={def.id} value={def.id}>{def.name}</option>
+          ))}
+        </select>
+
+        {/* Pattern */}
+        <div className="grid grid-cols-4 gap-1">
+          {PATTERNS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onOptionsChange({ pattern: value })}
+              className={`px-2 py-1 text-sm border rounded transition-colors ${
+                pattern === value
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'border-gray-300 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Layout */}
+        <div className="space-y-2">
+          {numberField(pattern === 'grid' ? 'Columns' : 'Copies', 'count', { min: 1, max: MAX_ARRAY_COPIES })}
+          {pattern === 'grid' && numberField('Rows', 'rows', { min: 1, max: maxRows })}
+          {pattern === 'grid' && options.rows > maxRows && (
+            <p className="text-xs text-amber-600">
+              Limited to {maxRows} row{maxRows === 1 ? '' : 's'}, {MAX_ARRAY_COPIES} copies at most
+            </p>
+          )}
+          {(pattern === 'row' || pattern === 'grid') && numberField('Direction', 'angle', { step: 15, unit: '°' })}
+          {pattern === 'arc' && numberField('Radius', 'radius', { min: 1, unit: 'ft' })}
+          {pattern === 'arc' && numberField('Start angle', 'startAngle', { step: 15, unit: '°' })}
+          {numberField('Rotation', 'rotation', { step: 15, unit: '°' })}
+          {isCurved && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.followPath}
+                onChange={(e) => onOptionsChange({ followPath: e.target.checked })}
+              />
+              Turn copies to follow the {pattern}
+            </label>
+          )}
+        </div>
+
+        {/* Spacing */}
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-1">
+            <button
+              onClick={() => onOptionsChange({ spacingMode: 'gap' })}
+              className={`px-2 py-1 text-xs border rounded ${options.spacingMode === 'gap' ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700 dark:text-gray-200'}`}
+              title="Spacing is the gap between neighbouring clearance zones"
+            >
+              Clearance gap
+            </button>
+            <button
+              onClick={() => onOptionsChange({ spacingMode: 'center' })}
+              className={`px-2 py-1 text-xs border rounded ${options.spacingMode === 'center' ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700 dark:text-gray-200'}`}
+              title="Spacing is the distance between neighbouring centers"
+            >
+              Center to center
+            </button>
+          </div>
+          {numberField('Spacing', 'spacing', { min: 0, unit: 'ft' })}
+          {pattern === 'grid' && numberField('Row spacing', 'rowSpacing', { min: 0, unit: 'ft' })}
+        </div>
+
+        {/* Origin / path */}
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            {pattern === 'path'
+              ? pickButton('path', pickMode === 'path' ? 'Finish path' : 'Draw path')
+              : pickButton('origin', pattern === 'arc' ? 'Pick center' : 'Pick start')}
+            {pattern === 'path' && pathPointCount > 0 && (
+              <button
+                onClick={onPathClear}
+                className="px-2 py-1 text-sm border border-gray-300 text-red-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {pickMode === 'path'
+              ? `Click the canvas to add points (${pathPointCount} so far).`
+              : pickMode === 'origin'
+                ? 'Click the canvas to set the position.'
+                : pattern === 'path'
+                  ? 'Copies are spaced along the path from its first point.'
+                  : `The ${pattern === 'arc' ? 'arc is centred on' : 'first copy sits at'} the purple cross.`}
+          </p>
+        </div>
+      </div>
+
+      {/* Place */}
+      <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700 space-y-2">
+        {conflictCount > 0 && (
+          <p className="text-xs text-red-600">
+            {conflictCount} cop{conflictCount === 1 ? 'y' : 'ies'} would break a clearance
+          </p>
+        )}
+        <button
+          onClick={onPlace}
+          disabled={copyCount === 0}
+          className="w-full px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Place {copyCount} cop{copyCount === 1 ? 'y' : 'ies'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ArrayPlacementPanel
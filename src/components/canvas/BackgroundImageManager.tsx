@@ -3,6 +3,7 @@
 import React, { useState, useRef, useCallback } from 'react'
 import { BackgroundImage } from './BackgroundLayer'
 import GoogleMapsImport from './GoogleMapsImport'
+import { CanvasSettings } from '@/lib/project/types'
 
 interface BackgroundImageManagerProps {
   images: BackgroundImage[]
@@ -13,6 +14,7 @@ interface BackgroundImageManagerProps {
   selectedImageId: string | null
   isOpen: boolean
   onClose: () => void
+  canvasSettings: CanvasSettings
 }
 
 const BackgroundImageManager: React.FC<BackgroundImageManagerProps> = ({
@@ -23,7 +25,8 @@ const BackgroundImageManager: React.FC<BackgroundImageManagerProps> = ({
   onImageSelect,
   selectedImageId,
   isOpen,
-  onClose
+  onClose,
+  canvasSettings
 }) => {
   const [dragActive, setDragActive] = useState(false)
   const [uploading, setUploading] = useState(false)
@@ -125,8 +128,8 @@ const BackgroundImageManager: React.FC<BackgroundImageManagerProps> = ({
       opacity: 0.7,
       visible: true,
       locked: false,
-      width: config.widthFeet * 10, // Convert feet to pixels (10 pixels per foot)
-      height: config.heightFeet * 10
+      width: config.widthFeet * canvasSettings.pixelsPerFoot, // Convert feet to canvas pixels
+      height: config.heightFeet * canvasSettings.pixelsPerFoot
     }
     
     onImageAdd(newImage)
@@ -482,6 +485,7 @@ const BackgroundImageManager: React.FC<BackgroundImageManagerProps> = ({
         <GoogleMapsImport
           onImport={handleGoogleMapsImport}
           onClose={() => setShowGoogleMapsImport(false)}
+          canvasSettings={canvasSettings}
         />
       )}
     </div>
@@ -144,6 +144,8 @@ const BackgroundLayer: React.FC<BackgroundLayerProps> = ({
         return (
           <Group key={bgImage.id}>
             <KonvaImage
+              name="background-image"
+              id={bgImage.id}
               image={loadedImage}
               x={bgImage.x}
               y={bgImage.y}
@@ -1,7 +1,7 @@
 'use client'
 
-import React, { useRef, useEffect, useState, useCallback } from 'react'
-import { Stage, Layer } from 'react-konva'
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react'
+import { Stage, Layer, Rect } from 'react-konva'
 import Konva from 'konva'
 import GridLayer from './GridLayer'
 import EquipmentLayer from './EquipmentLayer'
@@ -13,7 +13,26 @@ import DistanceInputModal from './DistanceInputModal'
 import SimpleMeasurementTool, { SimpleMeasurement } from './SimpleMeasurementTool'
 import EnhancedMeasurementTool from './EnhancedMeasurementTool'
 import EnhancedCalibrateDialog from './EnhancedCalibrateDialog'
-import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
+import ClearanceVerificationTool from './ClearanceVerificationTool'
+import LotBoundaryLayer from './LotBoundaryLayer'
+import AlignmentToolbar from './AlignmentToolbar'
+import AnnotationLayer from './AnnotationLayer'
+import AnnotationToolbar from './AnnotationToolbar'
+import Minimap, { CanvasView } from './Minimap'
+import PlacementPreview from './PlacementPreview'
+import ContextMenu, { ContextMenuEntry, ContextMenuTarget, getContextMenuSections, useContextMenuProvider } from './ContextMenu'
+import { useShortcuts } from './KeyboardHandler'
+import { PlacedEquipment, EquipmentItem, ClearanceRule, ClearanceWaiver, LotBoundary, EquipmentTransform, EquipmentTransformKind, PlanLayer, Annotation, AnnotationKind, AnnotationStyle } from '@/lib/equipment/types'
+import { ClearanceViolation, buildEquipmentGeometry } from '@/lib/equipment/clearanceEngine'
+import { ClearanceSnapshot } from '@/lib/equipment/clearanceIndex'
+import { createLotBoundary, DEFAULT_SETBACK_FT } from '@/lib/equipment/lotBoundary'
+import { getDrawOrder, getLayerLookup, isEquipmentEditable } from '@/lib/equipment/layers'
+import { describeAnnotation, getAnnotationBounds } from '@/lib/equipment/annotations'
+import { alignEquipment, distributeEquipment, AlignMode, AlignReference, DistributeAxis } from '@/lib/equipment/alignment'
+import { CanvasSettings } from '@/lib/project/types'
+import { DEFAULT_CANVAS_SETTINGS } from '@/lib/project/canvasSettings'
+import { ShortcutCommandId, ShortcutMap, DEFAULT_SHORTCUTS, formatShortcut } from '@/lib/keyboard/shortcuts'
+import { Bounds, Point, boundsIntersect, polygonBounds, normalizeDegrees, transformPoints } from '@/lib/utils/geometry'
 
 interface CanvasEditorProps {
   width?: number
@@ -22,16 +41,62 @@ interface CanvasEditorProps {
   onEquipmentAdd?: (equipment: EquipmentItem, x: number, y: number) => void
   placedEquipment?: PlacedEquipment[]
   equipmentDefinitions?: EquipmentItem[]
+  clearanceRules?: ClearanceRule[]
+  clearanceWaivers?: ClearanceWaiver[]
+  clearance?: ClearanceSnapshot | null // The page's clearance index, for conflicts, culling and hit-testing
+  strictPlacement?: boolean // No-overlap mode: moves that would break a clearance are pushed clear or undone
+  onStrictPlacementChange?: (strictPlacement: boolean) => void
   onEquipmentSelect?: (equipment: PlacedEquipment | null) => void
   onEquipmentMove?: (equipmentId: string, x: number, y: number) => void
   onEquipmentRotate?: (equipmentId: string, rotation: number) => void
   onEquipmentDelete?: (equipmentId: string) => void
-  selectedEquipmentId?: string
+  selectedEquipmentIds?: string[]
+  onSelectionChange?: (equipmentIds: string[]) => void
+  onEquipmentTransform?: (transforms: EquipmentTransform[], kind: EquipmentTransformKind) => void
+  onMultipleEquipmentDelete?: (equipmentIds: string[]) => void
+  onEquipmentDuplicate?: (equipmentIds: string[]) => void
   backgroundImages?: BackgroundImage[]
   onBackgroundImageAdd?: (image: Omit<BackgroundImage, 'id'>) => void
   onBackgroundImageUpdate?: (imageId: string, updates: Partial<BackgroundImage>) => void
   onBackgroundImageDelete?: (imageId: string) => void
   onCanvasReady?: (canvasElement: HTMLElement) => void
+  focusBounds?: Bounds | null // Canvas region (in pixels) to zoom to whenever a new object is passed
+  lotBoundary?: LotBoundary | null
+  onLotBoundaryChange?: (boundary: LotBoundary | null) => void
+  canvasSettings?: CanvasSettings // Scale, site size and grid; the project's settings are the only source
+  onCanvasSettingsChange?: (updates: Partial<CanvasSettings>) => void
+  layers?: PlanLayer[] // Hidden layers are not drawn and locked ones cannot be selected
+  groupFilterId?: string | null // Limit the canvas to the members of one group
+  placementPreview?: PlacementPreviewState | null // Equipment about to be placed, drawn as ghosts
+  onCanvasPointPick?: ((point: Point) => void) | null // When set, canvas clicks pick a point (in pixels) instead
+  onPointerMove?: (point: Point | null) => void // Mouse position on the canvas in pixels, null once it leaves
+  shortcuts?: ShortcutMap // Keys for the tool hotkeys
+  annotations?: Annotation[]
+  selectedAnnotationIds?: string[]
+  onAnnotationSelectionChange?: (annotationIds: string[]) => void
+  onAnnotationAdd?: (annotation: Annotation) => void
+  onAnnotationsTransform?: (annotations: Annotation[]) => void
+  onAnnotationEdit?: (annotationId: string) => void // edit the text of a text or callout annotation
+  onAnnotationStyleChange?: (annotationIds: string[], style: Partial<AnnotationStyle>) => void
+}
+
+// Annotation tools, in toolbar order
+const ANNOTATION_TOOLS: Array<{ kind: AnnotationKind; icon: string; title: string }> = [
+  { kind: 'text', icon: 'T', title: 'Text - click where it goes' },
+  { kind: 'arrow', icon: '➔', title: 'Arrow - drag from tail to head' },
+  { kind: 'callout', icon: '💬', title: 'Callout - drag from the spot it points at to where the text goes' },
+  { kind: 'rectangle', icon: '▭', title: 'Rectangle - drag corner to corner' },
+  { kind: 'ellipse', icon: '◯', title: 'Ellipse - drag corner to corner' },
+  { kind: 'polyline', icon: '〰', title: 'Polyline - click each point, double-click to finish' }
+]
+const NO_ANNOTATIONS: Annotation[] = []
+const NO_VIOLATIONS: ClearanceViolation[] = []
+
+export interface PlacementPreviewState {
+  items: PlacedEquipment[]
+  conflictIds: Set<string>
+  origin?: Point | null
+  path?: Point[]
 }
 
 interface CanvasState {
@@ -40,6 +105,25 @@ interface CanvasState {
   y: number
 }
 
+const MIN_ZOOM = 0.04 // 4%, matches the Max Out button
+const MAX_ZOOM = 5
+const LONG_PRESS_MS = 500 // holding a finger or stylus this long opens the context menu
+const LONG_PRESS_SLOP = 10 // screen pixels the pointer may drift during a long press
+const TOUCH_HIT_SLOP = 12 // screen pixels a finger may miss equipment by
+
+// Whether the main pointer is a finger, so handles can be sized for touch
+function useCoarsePointer() {
+  const [coarse, setCoarse] = useState(false)
+  useEffect(() => {
+    const query = window.matchMedia('(pointer: coarse)')
+    const update = () => setCoarse(query.matches)
+    update()
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [])
+  return coarse
+}
+
 const CanvasEditor: React.FC<CanvasEditorProps> = ({
   width = 1200,
   height = 800,
@@ -47,25 +131,49 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
   onEquipmentAdd,
   placedEquipment = [],
   equipmentDefinitions,
+  clearanceRules,
+  clearanceWaivers,
+  clearance = null,
+  strictPlacement = false,
+  onStrictPlacementChange,
   onEquipmentSelect,
   onEquipmentMove,
   onEquipmentRotate,
   onEquipmentDelete,
-  selectedEquipmentId,
+  selectedEquipmentIds,
+  onSelectionChange,
+  onEquipmentTransform,
+  onMultipleEquipmentDelete,
+  onEquipmentDuplicate,
   backgroundImages = [],
   onBackgroundImageAdd,
   onBackgroundImageUpdate,
   onBackgroundImageDelete,
-  onCanvasReady
+  onCanvasReady,
+  focusBounds,
+  lotBoundary,
+  onLotBoundaryChange,
+  canvasSettings = DEFAULT_CANVAS_SETTINGS,
+  onCanvasSettingsChange,
+  layers,
+  groupFilterId,
+  placementPreview,
+  onCanvasPointPick,
+  onPointerMove,
+  shortcuts = DEFAULT_SHORTCUTS,
+  annotations = NO_ANNOTATIONS,
+  selectedAnnotationIds,
+  onAnnotationSelectionChange,
+  onAnnotationAdd,
+  onAnnotationsTransform,
+  onAnnotationEdit,
+  onAnnotationStyleChange
 }) => {
   const stageRef = useRef<Konva.Stage>(null)
   const [isClient, setIsClient] = useState(false)
   
-  // Canvas configuration for 1,000,000 sq ft (1000ft x 1000ft)
-  const CANVAS_AREA_SQ_FT = 1000000
-  const CANVAS_SIDE_FT = Math.sqrt(CANVAS_AREA_SQ_FT) // 1000 feet
-  const PIXELS_PER_FOOT = 10 // Optimized for performance with ultra-large areas
-  const CANVAS_SIZE_PIXELS = CANVAS_SIDE_FT * PIXELS_PER_FOOT // 10000 pixels
+  // Canvas scale and site size in pixels, from the project's canvas settings
+  const { pixelsPerFoot, width: canvasWidth, height: canvasHeight, gridSize, gridVisible, scaleBarVisible } = canvasSettings
   
   const [canvasState, setCanvasState] = useState<CanvasState>({
     scale: 0.2, // Start zoomed out to see more of the large area
@@ -73,10 +181,8 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
     y: 0
   })
   const [stageSize, setStageSize] = useState({ width, height })
-  const [gridVisible, setGridVisible] = useState(true)
   const [backgroundManagerOpen, setBackgroundManagerOpen] = useState(false)
   const [selectedBackgroundImageId, setSelectedBackgroundImageId] = useState<string | null>(null)
-  const [scaleBarVisible, setScaleBarVisible] = useState(true)
   const [measurementToolActive, setMeasurementToolActive] = useState(false)
   const [measurements, setMeasurements] = useState<Measurement[]>([])
   const [activeMeasurementTool, setActiveMeasurementTool] = useState<'area' | 'perimeter' | 'distance' | null>(null)
@@ -98,6 +204,36 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
     realWorldDistance?: number;
   } | null>(null)
   const [showCalibrateDialog, setShowCalibrateDialog] = useState(false)
+  const [clearanceCheckActive, setClearanceCheckActive] = useState(false)
+  const [smartGuidesEnabled, setSmartGuidesEnabled] = useState(true)
+  const [minimapVisible, setMinimapVisible] = useState(true)
+  const [drawingBoundary, setDrawingBoundary] = useState(false) // area tool clicks trace the lot boundary
+  const [selectToolActive, setSelectToolActive] = useState(false) // dragging on empty canvas draws a selection box
+  const [marquee, setMarquee] = useState<{ startX: number; startY: number; endX: number; endY: number; additive: boolean } | null>(null)
+  const suppressStageClickRef = useRef(false)
+  const pinchRef = useRef<{ center: Point; distance: number } | null>(null) // two-finger gesture in progress, in stage coordinates
+  const longPressRef = useRef<{ timer: ReturnType<typeof setTimeout>; x: number; y: number } | null>(null)
+  const ignoreTapRef = useRef(false) // the touch ended a long press or pinch, so its tap does nothing
+  const coarsePointer = useCoarsePointer()
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; title: string; sections: ContextMenuEntry[][] } | null>(null)
+  const [rotationSnap, setRotationSnap] = useState(15) // degrees; 0 rotates freely
+  const [rotationDraft, setRotationDraft] = useState<string | null>(null) // numeric rotation field while it is being edited
+  const [annotationTool, setAnnotationTool] = useState<AnnotationKind | null>(null) // annotation kind being drawn
+
+  // Exactly one selected item gets the numeric rotation field
+  const singleSelectedEquipment = selectedEquipmentIds?.length === 1
+    ? placedEquipment.find(eq => eq.id === selectedEquipmentIds[0])
+    : undefined
+
+  const commitRotationDraft = () => {
+    if (rotationDraft === null) return
+    const value = parseFloat(rotationDraft)
+    setRotationDraft(null)
+    if (singleSelectedEquipment && Number.isFinite(value)) {
+      const rotation = normalizeDegrees(value)
+      if (rotation !== singleSelectedEquipment.rotation) onEquipmentRotate?.(singleSelectedEquipment.id, rotation)
+    }
+  }
 
   // Handle canvas ready callback
   useEffect(() => {
@@ -164,9 +300,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
     const newScale = e.evt.deltaY > 0 ? oldScale / scaleBy : oldScale * scaleBy
 
     // Limit zoom range - allow zooming out to 4% to match Max Out button
-    const minScale = 0.04 // 4% minimum zoom
-    const maxScale = 5
-    const clampedScale = Math.max(minScale, Math.min(maxScale, newScale))
+    const clampedScale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, newScale))
 
     // Calculate new position to zoom towards mouse pointer
     const mousePointTo = {
@@ -203,8 +337,8 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
   // Reset canvas to center and default zoom for 250k sq ft canvas
   const resetCanvas = useCallback(() => {
     const defaultScale = 0.2 // 20% zoom for large canvas overview
-    const centerX = (stageSize.width / 2) - (CANVAS_SIZE_PIXELS / 2 * defaultScale)
-    const centerY = (stageSize.height / 2) - (CANVAS_SIZE_PIXELS / 2 * defaultScale)
+    const centerX = (stageSize.width / 2) - (canvasWidth / 2 * defaultScale)
+    const centerY = (stageSize.height / 2) - (canvasHeight / 2 * defaultScale)
     
     if (stageRef.current) {
       stageRef.current.scale({ x: defaultScale, y: defaultScale })
@@ -217,56 +351,11 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
       x: centerX,
       y: centerY
     })
-  }, [stageSize, CANVAS_SIZE_PIXELS])
-
-  // Fit canvas to show all equipment with proper centering and zoom
-  const fitToContent = useCallback(() => {
-    console.log('=== FIT TO CONTENT CALLED ===')
-    console.log('placedEquipment:', placedEquipment)
-    
-    if (!placedEquipment || placedEquipment.length === 0) {
-      console.log('No equipment to fit to, resetting canvas')
-      resetCanvas()
-      return
-    }
+  }, [stageSize, canvasWidth, canvasHeight])
 
-    // Calculate bounding box of all equipment including their clearance zones
-    let minX = Infinity, maxX = -Infinity
-    let minY = Infinity, maxY = -Infinity
-
-    placedEquipment.forEach(equipment => {
-      const equipmentDef = equipmentDefinitions?.find(def => def.id === equipment.equipmentId)
-      if (!equipmentDef) return
-
-      const dimensions = equipment.dimensions
-      const isCircular = dimensions.shape === 'circle'
-      
-      // Calculate equipment bounds including clearance
-      const clearance = equipmentDef.rideClearing || 0
-      const clearancePixels = clearance * PIXELS_PER_FOOT
-      
-      let equipmentMinX, equipmentMaxX, equipmentMinY, equipmentMaxY
-      
-      if (isCircular) {
-        const radius = (dimensions as any).radius * PIXELS_PER_FOOT
-        equipmentMinX = equipment.x - radius - clearancePixels
-        equipmentMaxX = equipment.x + radius + clearancePixels
-        equipmentMinY = equipment.y - radius - clearancePixels
-        equipmentMaxY = equipment.y + radius + clearancePixels
-      } else {
-        const width = (dimensions as any).width * PIXELS_PER_FOOT
-        const height = (dimensions as any).height * PIXELS_PER_FOOT
-        equipmentMinX = equipment.x - width/2 - clearancePixels
-        equipmentMaxX = equipment.x + width/2 + clearancePixels
-        equipmentMinY = equipment.y - height/2 - clearancePixels
-        equipmentMaxY = equipment.y + height/2 + clearancePixels
-      }
-      
-      minX = Math.min(minX, equipmentMinX)
-      maxX = Math.max(maxX, equipmentMaxX)
-      minY = Math.min(minY, equipmentMinY)
-      maxY = Math.max(maxY, equipmentMaxY)
-    })
+  // Zoom and center the view on a region of the canvas (in pixels)
+  const zoomToBounds = useCallback((bounds: Bounds) => {
+    let { minX, maxX, minY, maxY } = bounds
 
     // Add padding around the bounding box
     const padding = 100 // 100 pixels padding
@@ -275,11 +364,11 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
     minY -= padding
     maxY += padding
 
-    // Calculate the center of all equipment
+    // Calculate the center of the region
     const centerX = (minX + maxX) / 2
     const centerY = (minY + maxY) / 2
 
-    // Calculate required scale to fit all equipment in viewport
+    // Calculate required scale to fit the region in the viewport
     const contentWidth = maxX - minX
     const contentHeight = maxY - minY
     const scaleX = stageSize.width / contentWidth
@@ -310,7 +399,51 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
       x: newX,
       y: newY
     })
-  }, [placedEquipment, equipmentDefinitions, stageSize, resetCanvas])
+  }, [stageSize])
+
+  // Zoom to a region requested by the parent, e.g. a violation picked in the review panel
+  const handledFocusRef = useRef<Bounds | null>(null)
+  useEffect(() => {
+    if (focusBounds && focusBounds !== handledFocusRef.current) {
+      handledFocusRef.current = focusBounds
+      zoomToBounds(focusBounds)
+    }
+  }, [focusBounds, zoomToBounds])
+
+  // Switching to another measurement tool abandons a boundary tracing
+  useEffect(() => {
+    if (activeMeasurementTool !== 'area') setDrawingBoundary(false)
+  }, [activeMeasurementTool])
+
+  // Fit canvas to show all equipment with proper centering and zoom
+  const fitToContent = useCallback(() => {
+    console.log('=== FIT TO CONTENT CALLED ===')
+    console.log('placedEquipment:', placedEquipment)
+    
+    if (!placedEquipment || placedEquipment.length === 0) {
+      console.log('No equipment to fit to, resetting canvas')
+      resetCanvas()
+      return
+    }
+
+    // Calculate bounding box of all equipment including their clearance zones
+    let minX = Infinity, maxX = -Infinity
+    let minY = Infinity, maxY = -Infinity
+
+    placedEquipment.forEach(equipment => {
+      const equipmentDef = equipmentDefinitions?.find(def => def.id === equipment.equipmentId)
+      if (!equipmentDef) return
+
+      // Rotated footprint, clearance zone and operational zones, converted from feet to pixels
+      const { bounds } = buildEquipmentGeometry(equipment, equipmentDef, pixelsPerFoot)
+      minX = Math.min(minX, bounds.minX * pixelsPerFoot)
+      maxX = Math.max(maxX, bounds.maxX * pixelsPerFoot)
+      minY = Math.min(minY, bounds.minY * pixelsPerFoot)
+      maxY = Math.max(maxY, bounds.maxY * pixelsPerFoot)
+    })
+
+    zoomToBounds({ minX, maxX, minY, maxY })
+  }, [placedEquipment, equipmentDefinitions, resetCanvas, zoomToBounds, pixelsPerFoot])
 
   // Zoom in function
   const zoomIn = useCallback(() => {
@@ -319,7 +452,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
     const stage = stageRef.current
     const oldScale = stage.scaleX()
     const scaleBy = 1.1
-    const newScale = Math.min(5, oldScale * scaleBy) // Max zoom 5x
+    const newScale = Math.min(MAX_ZOOM, oldScale * scaleBy)
     
     // Zoom towards center of visible area
     const center = {
@@ -355,7 +488,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
     const stage = stageRef.current
     const oldScale = stage.scaleX()
     const scaleBy = 1.1
-    const newScale = Math.max(0.04, oldScale / scaleBy) // Min zoom 0.04x (4%)
+    const newScale = Math.max(MIN_ZOOM, oldScale / scaleBy)
     
     // Zoom towards center of visible area
     const center = {
@@ -384,14 +517,33 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
     })
   }, [stageSize])
 
-  // Calculate visible bounds for performance optimization
-  const getVisibleBounds = useCallback(() => {
-    const buffer = 1000 // pixels buffer for smooth scrolling
+  // Pan or zoom requested by the minimap, keeping the view center where it asked
+  const handleMinimapViewChange = useCallback((view: CanvasView) => {
+    const scale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.scale))
+    const ratio = scale / view.scale
+    const x = stageSize.width / 2 - (stageSize.width / 2 - view.x) * ratio
+    const y = stageSize.height / 2 - (stageSize.height / 2 - view.y) * ratio
+
+    if (stageRef.current) {
+      stageRef.current.scale({ x: scale, y: scale })
+      stageRef.current.position({ x, y })
+      stageRef.current.batchDraw()
+    }
+    setCanvasState({ scale, x, y })
+  }, [stageSize])
+
+  // Visible canvas region in pixels, used to cull the grid and equipment. The stage position
+  // is only read back when a pan ends, so a screen's worth of margin is drawn on every side.
+  const viewport = useMemo<Bounds>(() => {
+    const visibleWidth = stageSize.width / canvasState.scale
+    const visibleHeight = stageSize.height / canvasState.scale
+    const minX = -canvasState.x / canvasState.scale
+    const minY = -canvasState.y / canvasState.scale
     return {
-      minX: (-canvasState.x / canvasState.scale) - buffer,
-      maxX: ((-canvasState.x + stageSize.width) / canvasState.scale) + buffer,
-      minY: (-canvasState.y / canvasState.scale) - buffer,
-      maxY: ((-canvasState.y + stageSize.height) / canvasState.scale) + buffer
+      minX: minX - visibleWidth,
+      minY: minY - visibleHeight,
+      maxX: minX + visibleWidth * 2,
+      maxY: minY + visibleHeight * 2
     }
   }, [canvasState.x, canvasState.y, canvasState.scale, stageSize])
 
@@ -439,7 +591,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
       }
       
       area = Math.abs(area) / 2
-      value = area / (PIXELS_PER_FOOT * PIXELS_PER_FOOT) // Convert to square feet
+      value = area / (pixelsPerFoot * pixelsPerFoot) // Convert to square feet
       label = `Area: ${value.toFixed(0)} sq ft`
       
     } else if (activeMeasurementTool === 'perimeter') {
@@ -460,7 +612,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
         perimeter += Math.sqrt(dx * dx + dy * dy)
       }
       
-      value = perimeter / PIXELS_PER_FOOT // Convert to feet
+      value = perimeter / pixelsPerFoot // Convert to feet
       label = `Perimeter: ${value.toFixed(0)} ft`
     }
     
@@ -477,7 +629,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
     )
     
     console.log('Measurement completed:', completedMeasurement)
-  }, [activeMeasurementTool, simpleMeasurements, PIXELS_PER_FOOT])
+  }, [activeMeasurementTool, simpleMeasurements, pixelsPerFoot])
 
   // Enhanced measurement handlers
   const handleEnhancedMeasurementPointSet = useCallback((point: { x: number; y: number }) => {
@@ -502,14 +654,14 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
       const dx = point.x - currentMeasurement.firstPoint.x
       const dy = point.y - currentMeasurement.firstPoint.y
       const pixelDistance = Math.sqrt(dx * dx + dy * dy)
-      const calculatedDistance = pixelDistance / PIXELS_PER_FOOT
+      const calculatedDistance = pixelDistance / pixelsPerFoot
       
       // Show calibration dialog after a short delay
       setTimeout(() => {
         setShowCalibrateDialog(true)
       }, 500)
     }
-  }, [currentMeasurement, PIXELS_PER_FOOT])
+  }, [currentMeasurement, pixelsPerFoot])
 
   const handleEnhancedMeasurementEdit = useCallback((firstPoint: { x: number; y: number }, secondPoint: { x: number; y: number }) => {
     if (!currentMeasurement) return
@@ -528,7 +680,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
     const dx = currentMeasurement.secondPoint.x - currentMeasurement.firstPoint.x
     const dy = currentMeasurement.secondPoint.y - currentMeasurement.firstPoint.y
     const pixelDistance = Math.sqrt(dx * dx + dy * dy)
-    const scaleFactor = actualDistance / (pixelDistance / PIXELS_PER_FOOT)
+    const scaleFactor = actualDistance / (pixelDistance / pixelsPerFoot)
 
     // Update the measurement with real-world distance
     setCurrentMeasurement(prev => prev ? {
@@ -548,7 +700,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
 
     setShowCalibrateDialog(false)
     console.log('Scale calibrated with factor:', scaleFactor)
-  }, [currentMeasurement, PIXELS_PER_FOOT, backgroundImages, onBackgroundImageUpdate])
+  }, [currentMeasurement, pixelsPerFoot, backgroundImages, onBackgroundImageUpdate])
 
   const handleCalibrateEdit = useCallback(() => {
     setShowCalibrateDialog(false)
@@ -588,7 +740,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
           const distance = Math.sqrt(
             Math.pow(updatedPoints[1].x - updatedPoints[0].x, 2) + 
             Math.pow(updatedPoints[1].y - updatedPoints[0].y, 2)
-          ) / PIXELS_PER_FOOT
+          ) / pixelsPerFoot
           
           const completedMeasurement: SimpleMeasurement = {
             ...currentMeasurement,
@@ -621,10 +773,111 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
       
       setSimpleMeasurements(prev => [...prev, newMeasurement])
     }
-  }, [activeMeasurementTool, simpleMeasurements, PIXELS_PER_FOOT])
+  }, [activeMeasurementTool, simpleMeasurements, pixelsPerFoot])
   
+  const panEnabled = !measurementToolActive && !activeMeasurementTool && !selectToolActive && !annotationTool
+
+  // Align and distribute act on the current multi-selection as one transform
+  const getSelectedEquipment = () =>
+    placedEquipment.filter(eq => selectedEquipmentIds?.includes(eq.id))
+
+  const handleAlign = (mode: AlignMode, reference: AlignReference) => {
+    const transforms = alignEquipment(getSelectedEquipment(), equipmentDefinitions || [], mode, reference, pixelsPerFoot)
+    if (transforms.length > 0) onEquipmentTransform?.(transforms, 'align')
+  }
+
+  const handleDistribute = (axis: DistributeAxis, reference: AlignReference, gapFeet?: number) => {
+    const transforms = distributeEquipment(getSelectedEquipment(), equipmentDefinitions || [], axis, reference, pixelsPerFoot, gapFeet)
+    if (transforms.length > 0) onEquipmentTransform?.(transforms, 'distribute')
+  }
+
+  // Rubber-band selection: Shift+drag on empty canvas, or any drag while the Select tool is on.
+  // Pointer events, so a mouse, a finger and a stylus all work the same way.
+  const handleStagePointerDown = useCallback((e: Konva.KonvaEventObject<PointerEvent>) => {
+    const stage = e.target.getStage()
+    if (!stage || e.target !== stage || e.evt.button !== 0 || !e.evt.isPrimary) return
+    if (measurementToolActive || activeMeasurementTool) return
+    if (!selectToolActive && !e.evt.shiftKey) return
+
+    // Keep the stage still while the box is drawn
+    stage.draggable(false)
+    const pos = stage.getRelativePointerPosition()
+    if (!pos) return
+    setMarquee({ startX: pos.x, startY: pos.y, endX: pos.x, endY: pos.y, additive: e.evt.shiftKey })
+  }, [measurementToolActive, activeMeasurementTool, selectToolActive])
+
+  const handleStagePointerMove = useCallback((e: Konva.KonvaEventObject<PointerEvent>) => {
+    if (pinchRef.current) return
+    const pos = e.target.getStage()?.getRelativePointerPosition()
+    if (!pos) return
+    onPointerMove?.({ x: pos.x, y: pos.y })
+    if (!marquee) return
+    setMarquee(prev => prev && { ...prev, endX: pos.x, endY: pos.y })
+  }, [marquee, onPointerMove])
+
+  const handleStagePointerUp = useCallback(() => {
+    if (!marquee) return
+    stageRef.current?.draggable(panEnabled)
+    setMarquee(null)
+
+    // Treat a box smaller than a few screen pixels as a plain click
+    const box = {
+      minX: Math.min(marquee.startX, marquee.endX) / pixelsPerFoot,
+      minY: Math.min(marquee.startY, marquee.endY) / pixelsPerFoot,
+      maxX: Math.max(marquee.startX, marquee.endX) / pixelsPerFoot,
+      maxY: Math.max(marquee.startY, marquee.endY) / pixelsPerFoot
+    }
+    if ((box.maxX - box.minX) * pixelsPerFoot * canvasState.scale < 4 &&
+        (box.maxY - box.minY) * pixelsPerFoot * canvasState.scale < 4) {
+      return
+    }
+
+    const layerLookup = getLayerLookup(layers || [])
+    const hitIds = (clearance?.index.queryBounds(box) || [])
+      .filter(geometry => {
+        const placed = geometry.placed
+        if (!isEquipmentEditable(placed, layerLookup)) return false
+        if (groupFilterId && placed.groupId !== groupFilterId) return false
+        return boundsIntersect(polygonBounds(geometry.footprint), box)
+      })
+      .map(geometry => geometry.placed.id)
+
+    const existing = marquee.additive ? selectedEquipmentIds || [] : []
+    onSelectionChange?.(Array.from(new Set([...existing, ...hitIds])))
+    suppressStageClickRef.current = true
+  }, [marquee, panEnabled, pixelsPerFoot, canvasState.scale, clearance, layers, groupFilterId, selectedEquipmentIds, onSelectionChange])
+
+  // Topmost selectable item whose footprint is under a canvas point, or within `tolerance`
+  // pixels of it, looked up in the clearance index
+  const findEquipmentAt = useCallback((point: Point, tolerance: number = 0): PlacedEquipment | null => {
+    const hitIds = new Set((clearance?.index.hitTest(point, tolerance) || []).map(placed => placed.id))
+    if (hitIds.size === 0) return null
+    const layerLookup = getLayerLookup(layers || [])
+    return getDrawOrder(placedEquipment, layers || [])
+      .reverse()
+      .find(placed => hitIds.has(placed.id) &&
+        isEquipmentEditable(placed, layerLookup) &&
+        (!groupFilterId || placed.groupId === groupFilterId)) ?? null
+  }, [clearance, layers, placedEquipment, groupFilterId])
+
   // Handle stage click to deselect equipment when clicking on empty canvas
   const handleStageClick = useCallback((e: any) => {
+    // Right-clicks only open the context menu, and neither does a long press or pinch
+    if (e.evt?.button === 2 || ignoreTapRef.current) return
+
+    // The click that ends a selection box should not clear the selection
+    if (suppressStageClickRef.current) {
+      suppressStageClickRef.current = false
+      return
+    }
+
+    // A tool is waiting for a point, e.g. the array origin
+    if (onCanvasPointPick) {
+      const pos = e.target.getStage()?.getRelativePointerPosition()
+      if (pos) onCanvasPointPick({ x: pos.x, y: pos.y })
+      return
+    }
+
     // Check if we clicked on the stage itself (not on any equipment)
     const clickedOnEmpty = e.target === e.target.getStage()
     
@@ -651,15 +904,25 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
         return
       }
       
+      // A finger that lands just off a small item still picks it
+      if (e.evt?.pointerType && e.evt.pointerType !== 'mouse') {
+        const canvasPoint = stage.getRelativePointerPosition()
+        const equipment = canvasPoint && findEquipmentAt(canvasPoint, TOUCH_HIT_SLOP / canvasState.scale)
+        if (equipment) {
+          onEquipmentSelect?.(equipment)
+          return
+        }
+      }
+
       // Otherwise, deselect equipment
       onEquipmentSelect?.(null)
       setSelectedBackgroundImageId(null)
     }
-  }, [onEquipmentSelect, activeMeasurementTool, measurementToolActive, handleCanvasClick, canvasState])
+  }, [onEquipmentSelect, activeMeasurementTool, measurementToolActive, handleCanvasClick, canvasState, onCanvasPointPick, findEquipmentAt])
   
   // Handle stage double click for measurement tools
   const handleStageDoubleClick = useCallback((e: any) => {
-    if (!activeMeasurementTool) return
+    if (!activeMeasurementTool || ignoreTapRef.current) return
     
     const stage = e.target.getStage()
     const pos = stage.getPointerPosition()
@@ -670,6 +933,23 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
       const canvasY = (pos.y - canvasState.y) / canvasState.scale
       
       console.log('Double-click for measurement tool:', { x: canvasX, y: canvasY, activeMeasurementTool })
+
+      // A traced lot boundary replaces the current one instead of becoming a measurement
+      if (drawingBoundary) {
+        const tracing = simpleMeasurements.find(m => !m.completed)
+        if (tracing) {
+          const points = [...tracing.points, { x: canvasX, y: canvasY }]
+            .filter((point, index, all) => index === 0 || Math.hypot(point.x - all[index - 1].x, point.y - all[index - 1].y) > 1)
+            .map(point => ({ x: point.x / pixelsPerFoot, y: point.y / pixelsPerFoot }))
+          setSimpleMeasurements(prev => prev.filter(m => m.id !== tracing.id))
+          if (points.length >= 3) {
+            onLotBoundaryChange?.(createLotBoundary(points, lotBoundary?.setback ?? DEFAULT_SETBACK_FT))
+          }
+        }
+        setDrawingBoundary(false)
+        setActiveMeasurementTool(null)
+        return
+      }
       
       // Complete the current measurement
       setSimpleMeasurements(prev => {
@@ -695,7 +975,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
             area = Math.abs(area) / 2
             
             // Convert from pixels to square feet
-            const areaInSqFt = area / (PIXELS_PER_FOOT * PIXELS_PER_FOOT)
+            const areaInSqFt = area / (pixelsPerFoot * pixelsPerFoot)
             value = Math.round(areaInSqFt)
             label = `Area: ${value.toLocaleString()} sq ft`
           } else if (activeMeasurementTool === 'perimeter' && updatedPoints.length >= 2) {
@@ -712,7 +992,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
             perimeter += Math.sqrt(dx * dx + dy * dy)
             
             // Convert from pixels to feet
-            const perimeterInFt = perimeter / PIXELS_PER_FOOT
+            const perimeterInFt = perimeter / pixelsPerFoot
             value = Math.round(perimeterInFt)
             label = `Perimeter: ${value.toLocaleString()} ft`
           }
@@ -732,7 +1012,287 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
       // Deactivate the measurement tool
       setActiveMeasurementTool(null)
     }
-  }, [activeMeasurementTool, canvasState, PIXELS_PER_FOOT])
+  }, [activeMeasurementTool, canvasState, pixelsPerFoot, drawingBoundary, simpleMeasurements, lotBoundary, onLotBoundaryChange])
+
+  // Canvas region (in pixels) covered by a context menu target
+  const getTargetBounds = (target: ContextMenuTarget): Bounds | null => {
+    if (target.kind === 'equipment') {
+      const definitionsById = new Map((equipmentDefinitions || []).map(def => [def.id, def]))
+      const outlines = placedEquipment
+        .filter(placed => target.equipmentIds.includes(placed.id))
+        .flatMap(placed => buildEquipmentGeometry(placed, definitionsById.get(placed.equipmentId), pixelsPerFoot).clearance)
+      if (outlines.length === 0) return null
+      const bounds = polygonBounds(outlines)
+      return { minX: bounds.minX * pixelsPerFoot, minY: bounds.minY * pixelsPerFoot, maxX: bounds.maxX * pixelsPerFoot, maxY: bounds.maxY * pixelsPerFoot }
+    }
+    if (target.kind === 'backgroundImage') {
+      const { image } = target
+      const width = image.width * image.scaleX
+      const height = image.height * image.scaleY
+      // Konva rotates images about their top-left corner
+      return polygonBounds(transformPoints(
+        [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }],
+        { x: image.x, y: image.y },
+        image.rotation
+      ))
+    }
+    if (target.kind === 'annotation') {
+      const outlines = annotations
+        .filter(annotation => target.annotationIds.includes(annotation.id))
+        .map(annotation => getAnnotationBounds(annotation, pixelsPerFoot))
+      if (outlines.length === 0) return null
+      return polygonBounds(outlines.flatMap(bounds => [{ x: bounds.minX, y: bounds.minY }, { x: bounds.maxX, y: bounds.maxY }]))
+    }
+    return target.measurement.points.length > 0 ? polygonBounds(target.measurement.points) : null
+  }
+
+  // Entries the canvas itself offers: zooming to any target, and editing measurements
+  useContextMenuProvider('canvas', (target) => {
+    const entries: ContextMenuEntry[] = [{
+      id: 'zoom-to',
+      label: 'Zoom to',
+      onSelect: () => {
+        const bounds = getTargetBounds(target)
+        if (bounds) zoomToBounds(bounds)
+      }
+    }]
+    if (target.kind === 'measurement') {
+      const { measurement } = target
+      entries.push({
+        id: 'measurement-label',
+        label: 'Set label…',
+        onSelect: () => {
+          const label = window.prompt('Measurement label', measurement.label)
+          if (label === null) return
+          setSimpleMeasurements(prev => prev.map(m => m.id === measurement.id ? { ...m, label: label.trim() || measurement.label } : m))
+        }
+      }, {
+        id: 'measurement-delete',
+        label: 'Delete measurement',
+        danger: true,
+        onSelect: () => setSimpleMeasurements(prev => prev.filter(m => m.id !== measurement.id))
+      })
+    }
+    return entries
+  }, 10)
+
+  // Open the context menu for the equipment, annotation, image or measurement a node
+  // belongs to, at a viewport position. Below annotations and measurements, equipment
+  // within `tolerance` screen pixels of the position counts too.
+  const openContextMenu = (node: Konva.Node, x: number, y: number, tolerance: number = 0) => {
+    let target: ContextMenuTarget | null = null
+    let title = ''
+    const equipmentId = node.findAncestor('.equipment', true)?.id()
+    const annotationId = node.findAncestor('.annotation', true)?.id()
+    const imageId = node.findAncestor('.background-image', true)?.id()
+    const measurementId = node.findAncestor('.measurement', true)?.id()
+    const annotation = annotationId ? annotations.find(item => item.id === annotationId) : undefined
+    const image = imageId ? backgroundImages.find(bg => bg.id === imageId) : undefined
+    const measurement = measurementId ? simpleMeasurements.find(m => m.id === measurementId) : undefined
+    const stage = node.getStage()
+    const findEquipmentUnder = () => {
+      if (!stage || annotation || measurement) return undefined
+      const rect = stage.container().getBoundingClientRect()
+      const point = stage.getAbsoluteTransform().copy().invert().point({ x: x - rect.left, y: y - rect.top })
+      return findEquipmentAt(point, tolerance / stage.scaleX()) ?? undefined
+    }
+    const equipment = (equipmentId ? placedEquipment.find(placed => placed.id === equipmentId) : undefined) ?? findEquipmentUnder()
+
+    if (equipment) {
+      // Act on the whole selection when the item is part of it, otherwise select just this item
+      const selection = selectedEquipmentIds || []
+      const equipmentIds = selection.includes(equipment.id) ? selection : [equipment.id]
+      if (!selection.includes(equipment.id)) onSelectionChange?.(equipmentIds)
+      target = { kind: 'equipment', equipment, equipmentIds }
+      title = equipmentIds.length > 1
+        ? `${equipmentIds.length} items`
+        : equipment.customLabel || equipmentDefinitions?.find(def => def.id === equipment.equipmentId)?.name || 'Equipment'
+    } else if (annotation) {
+      const selection = selectedAnnotationIds || []
+      const annotationIds = selection.includes(annotation.id) ? selection : [annotation.id]
+      if (!selection.includes(annotation.id)) onAnnotationSelectionChange?.(annotationIds)
+      target = { kind: 'annotation', annotation, annotationIds }
+      title = annotationIds.length > 1 ? `${annotationIds.length} annotations` : describeAnnotation(annotation)
+    } else if (measurement) {
+      target = { kind: 'measurement', measurement }
+      title = measurement.label
+    } else if (image) {
+      setSelectedBackgroundImageId(image.id)
+      target = { kind: 'backgroundImage', image }
+      title = image.name
+    }
+
+    if (!target) {
+      setContextMenu(null)
+      return
+    }
+    setContextMenu({ x, y, title, sections: getContextMenuSections(target) })
+  }
+
+  // Right-click opens the context menu for the item under the pointer
+  const handleStageContextMenu = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    e.evt.preventDefault()
+    // Touch and stylus presses open it through the long-press timer instead
+    if (marquee || ignoreTapRef.current || (e.evt.pointerType && e.evt.pointerType !== 'mouse')) return
+    openContextMenu(e.target, e.evt.clientX, e.evt.clientY)
+  }
+
+  // Touch and stylus gestures. Holding still stands in for a right-click; a second finger
+  // turns any pan, drag or selection box into a pinch that zooms and pans the canvas.
+  const cancelLongPress = () => {
+    if (!longPressRef.current) return
+    clearTimeout(longPressRef.current.timer)
+    longPressRef.current = null
+  }
+
+  useEffect(() => cancelLongPress, [])
+
+  const handleLongPressStart = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    cancelLongPress()
+    if (!e.evt.isPrimary) return
+    ignoreTapRef.current = false
+    if (e.evt.pointerType === 'mouse') return
+
+    const { target } = e
+    const { clientX, clientY } = e.evt
+    longPressRef.current = {
+      x: clientX,
+      y: clientY,
+      timer: setTimeout(() => {
+        longPressRef.current = null
+        if (Konva.isDragging() || pinchRef.current) return
+        ignoreTapRef.current = true
+        openContextMenu(target, clientX, clientY, TOUCH_HIT_SLOP)
+      }, LONG_PRESS_MS)
+    }
+  }
+
+  const handleLongPressMove = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    const press = longPressRef.current
+    if (press && Math.hypot(e.evt.clientX - press.x, e.evt.clientY - press.y) > LONG_PRESS_SLOP) cancelLongPress()
+  }
+
+  // Midpoint of two touches in stage coordinates, and the distance between them
+  const getPinch = (stage: Konva.Stage, touches: TouchList) => {
+    const rect = stage.container().getBoundingClientRect()
+    const [a, b] = [touches[0], touches[1]]
+    return {
+      center: { x: (a.clientX + b.clientX) / 2 - rect.left, y: (a.clientY + b.clientY) / 2 - rect.top },
+      distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)
+    }
+  }
+
+  const handleStageTouchStart = (e: Konva.KonvaEventObject<TouchEvent>) => {
+    const stage = stageRef.current
+    if (!stage || e.evt.touches.length !== 2) return
+    cancelLongPress()
+    ignoreTapRef.current = true
+    if (stage.isDragging()) stage.stopDrag()
+    stage.find('.equipment').forEach(node => {
+      if (node.isDragging()) node.stopDrag()
+    })
+    stage.draggable(false)
+    setMarquee(null)
+    pinchRef.current = getPinch(stage, e.evt.touches)
+  }
+
+  const handleStageTouchMove = (e: Konva.KonvaEventObject<TouchEvent>) => {
+    const stage = stageRef.current
+    const previous = pinchRef.current
+    if (!stage || !previous || e.evt.touches.length !== 2) return
+    e.evt.preventDefault()
+
+    const pinch = getPinch(stage, e.evt.touches)
+    const oldScale = stage.scaleX()
+    const newScale = previous.distance > 0
+      ? Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, oldScale * pinch.distance / previous.distance))
+      : oldScale
+
+    // The canvas point under the previous midpoint follows the fingers
+    const pointTo = {
+      x: (previous.center.x - stage.x()) / oldScale,
+      y: (previous.center.y - stage.y()) / oldScale
+    }
+    const newPos = {
+      x: pinch.center.x - pointTo.x * newScale,
+      y: pinch.center.y - pointTo.y * newScale
+    }
+
+    stage.scale({ x: newScale, y: newScale })
+    stage.position(newPos)
+    stage.batchDraw()
+    pinchRef.current = pinch
+    setCanvasState({ scale: newScale, x: newPos.x, y: newPos.y })
+  }
+
+  const handleStageTouchEnd = (e: Konva.KonvaEventObject<TouchEvent>) => {
+    if (!pinchRef.current || e.evt.touches.length >= 2) return
+    pinchRef.current = null
+    stageRef.current?.draggable(panEnabled)
+  }
+
+  // The tap that ends a long press already opened the menu and should not also select
+  const handleEquipmentSelect = (equipment: PlacedEquipment) => {
+    if (!ignoreTapRef.current) onEquipmentSelect?.(equipment)
+  }
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), [])
+
+  // Tool toggles, shared by the toolbar buttons and their hotkeys
+  const toggleMeasureTool = () => {
+    if (measurementToolActive) {
+      // Reset measurement if already active
+      setCurrentMeasurement(null)
+      setMeasurementToolActive(false)
+      setMeasurementEditMode(false)
+    } else {
+      // Start new measurement
+      setCurrentMeasurement({
+        id: Date.now().toString(),
+        firstPoint: null,
+        secondPoint: null,
+        isComplete: false
+      })
+      setMeasurementToolActive(true)
+      setMeasurementEditMode(false)
+    }
+  }
+
+  const toggleAreaTool = () => {
+    setDrawingBoundary(false)
+    setActiveMeasurementTool(activeMeasurementTool === 'area' && !drawingBoundary ? null : 'area')
+  }
+
+  const toggleLotLineTool = () => {
+    if (drawingBoundary) {
+      setDrawingBoundary(false)
+      setActiveMeasurementTool(null)
+    } else {
+      setDrawingBoundary(true)
+      setActiveMeasurementTool('area')
+    }
+  }
+
+  useShortcuts(shortcuts, {
+    toolSelect: () => setSelectToolActive(!selectToolActive),
+    toolMeasure: toggleMeasureTool,
+    toolArea: toggleAreaTool,
+    toolPerimeter: () => setActiveMeasurementTool(activeMeasurementTool === 'perimeter' ? null : 'perimeter'),
+    toolDistance: () => setActiveMeasurementTool(activeMeasurementTool === 'distance' ? null : 'distance'),
+    toolLotLine: toggleLotLineTool,
+    toolText: () => setAnnotationTool(annotationTool === 'text' ? null : 'text'),
+    // Escape also puts down an annotation tool; the selection is cleared elsewhere
+    deselect: () => {
+      if (!annotationTool) return false
+      setAnnotationTool(null)
+    }
+  })
+
+  // Button tooltip with the command's current key, e.g. "Area Measurement Tool (A)"
+  const withShortcut = (title: string, commandId: ShortcutCommandId) => {
+    const key = formatShortcut(shortcuts, commandId)
+    return key ? `${title} (${key})` : title
+  }
 
   // Background image management functions
   const handleBackgroundImageAdd = useCallback((image: Omit<BackgroundImage, 'id'>) => {
@@ -902,13 +1462,13 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
               }
               
               // Fallback: fit entire canvas if no background images
-              const scaleX = stageSize.width / CANVAS_SIZE_PIXELS
-              const scaleY = stageSize.height / CANVAS_SIZE_PIXELS
+              const scaleX = stageSize.width / canvasWidth
+              const scaleY = stageSize.height / canvasHeight
               const fitScale = Math.min(scaleX, scaleY) * 0.9 // 90% to add some padding
               
               // Center the canvas in the viewport
-              const centerX = (stageSize.width - CANVAS_SIZE_PIXELS * fitScale) / 2
-              const centerY = (stageSize.height - CANVAS_SIZE_PIXELS * fitScale) / 2
+              const centerX = (stageSize.width - canvasWidth * fitScale) / 2
+              const centerY = (stageSize.height - canvasHeight * fitScale) / 2
               
               stage.scale({ x: fitScale, y: fitScale })
               stage.position({ x: centerX, y: centerY })
@@ -920,7 +1480,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
                 y: centerY
               })
               
-              console.log(`Max Out: Fit entire canvas (${CANVAS_SIZE_PIXELS}px) in viewport (${stageSize.width}x${stageSize.height}px) at ${Math.round(fitScale * 100)}% zoom`)
+              console.log(`Max Out: Fit entire canvas (${canvasWidth}x${canvasHeight}px) in viewport (${stageSize.width}x${stageSize.height}px) at ${Math.round(fitScale * 100)}% zoom`)
             }}
             className="px-3 py-1 bg-white border border-gray-300 rounded shadow hover:bg-gray-50 text-sm text-gray-900 text-center"
             title="Fit Entire Satellite Image in View"
@@ -929,7 +1489,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
           </button>
         </div>
         <button
-          onClick={() => setGridVisible(!gridVisible)}
+          onClick={() => onCanvasSettingsChange?.({ gridVisible: !gridVisible })}
           className={`px-3 py-1 border rounded shadow text-sm ${
             gridVisible 
               ? 'bg-blue-500 text-white border-blue-500' 
@@ -947,7 +1507,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
           Images
         </button>
         <button
-          onClick={() => setScaleBarVisible(!scaleBarVisible)}
+          onClick={() => onCanvasSettingsChange?.({ scaleBarVisible: !scaleBarVisible })}
           className={`px-3 py-1 border rounded shadow text-sm ${
             scaleBarVisible 
               ? 'bg-green-500 text-white border-green-500' 
@@ -957,33 +1517,27 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
         >
           Scale
         </button>
+        <button
+          onClick={() => setMinimapVisible(!minimapVisible)}
+          className={`px-3 py-1 border rounded shadow text-sm ${
+            minimapVisible 
+              ? 'bg-blue-500 text-white border-blue-500' 
+              : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+          }`}
+          title="Toggle Overview Map"
+        >
+          Map
+        </button>
         {/* Enhanced Measurement Controls */}
         <div className="flex space-x-1">
           <button
-            onClick={() => {
-              if (measurementToolActive) {
-                // Reset measurement if already active
-                setCurrentMeasurement(null)
-                setMeasurementToolActive(false)
-                setMeasurementEditMode(false)
-              } else {
-                // Start new measurement
-                setCurrentMeasurement({
-                  id: Date.now().toString(),
-                  firstPoint: null,
-                  secondPoint: null,
-                  isComplete: false
-                })
-                setMeasurementToolActive(true)
-                setMeasurementEditMode(false)
-              }
-            }}
+            onClick={toggleMeasureTool}
             className={`px-3 py-1 border rounded shadow text-sm transition-colors ${
               measurementToolActive && !measurementEditMode
                 ? 'bg-orange-500 text-white border-orange-500'
                 : 'bg-white text-gray-900 border-gray-300 hover:bg-gray-50'
             }`}
-            title="Start New Measurement"
+            title={withShortcut('Start New Measurement', 'toolMeasure')}
           >
             📏 Measure
           </button>
@@ -1028,13 +1582,25 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
         {/* Advanced Measurement Tools */}
         <div className="flex space-x-1">
           <button
-            onClick={() => setActiveMeasurementTool(activeMeasurementTool === 'area' ? null : 'area')}
+            onClick={() => setSelectToolActive(!selectToolActive)}
+            className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+              selectToolActive
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+            title={withShortcut('Box Select - drag on empty canvas to select several items (or hold Shift and drag). Shift/Ctrl-click toggles an item.', 'toolSelect')}
+          >
+            ⬚ Select
+          </button>
+
+          <button
+            onClick={toggleAreaTool}
             className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
-              activeMeasurementTool === 'area'
+              activeMeasurementTool === 'area' && !drawingBoundary
                 ? 'bg-green-500 text-white'
                 : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
             }`}
-            title="Area Measurement Tool"
+            title={withShortcut('Area Measurement Tool', 'toolArea')}
           >
             📐 Area
           </button>
@@ -1046,7 +1612,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
                 ? 'bg-blue-500 text-white'
                 : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
             }`}
-            title="Perimeter Measurement Tool"
+            title={withShortcut('Perimeter Measurement Tool', 'toolPerimeter')}
           >
             📏 Perimeter
           </button>
@@ -1058,28 +1624,187 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
                 ? 'bg-amber-500 text-white'
                 : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
             }`}
-            title="Distance Measurement Tool"
+            title={withShortcut('Distance Measurement Tool', 'toolDistance')}
           >
             📏 Distance
           </button>
           
+          <button
+            onClick={toggleLotLineTool}
+            className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+              drawingBoundary
+                ? 'bg-purple-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+            title={withShortcut('Trace the lot boundary: click each corner, double-click to finish', 'toolLotLine')}
+          >
+            🗺️ Lot Line
+          </button>
+          
+          <button
+            onClick={() => setClearanceCheckActive(!clearanceCheckActive)}
+            className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+              clearanceCheckActive
+                ? 'bg-red-500 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+            title="Check Clearance Violations"
+          >
+            ⚠️ Clearance
+          </button>
+          
+          <button
+            onClick={() => onStrictPlacementChange?.(!strictPlacement)}
+            className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+              strictPlacement
+                ? 'bg-red-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+            title="No Overlap Mode - push dropped equipment clear of other clearance zones"
+          >
+            🛡️ Strict
+          </button>
+
+          <button
+            onClick={() => setSmartGuidesEnabled(!smartGuidesEnabled)}
+            className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+              smartGuidesEnabled
+                ? 'bg-pink-500 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+            title="Smart Guides - snap dragged equipment to nearby edges, centers and clearance zones (hold Alt to skip)"
+          >
+            🧲 Guides
+          </button>
+        </div>
+
+        {/* Annotation tools: each draws one annotation, then hands back to selection */}
+        <div className="flex space-x-1">
+          {ANNOTATION_TOOLS.map(item => (
+            <button
+              key={item.kind}
+              onClick={() => setAnnotationTool(annotationTool === item.kind ? null : item.kind)}
+              className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+                annotationTool === item.kind
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+              title={item.kind === 'text' ? withShortcut(item.title, 'toolText') : item.title}
+            >
+              {item.icon}
+            </button>
+          ))}
+        </div>
 
+        {/* Rotation snapping and numeric entry for the selected item */}
+        <div className="flex items-center space-x-1 bg-white border border-gray-300 rounded px-2 py-1 text-sm text-gray-700">
+          <span title="Rotation handle snapping. Hold Alt while dragging to toggle it.">↻ Snap</span>
+          <select
+            value={rotationSnap}
+            onChange={(e) => setRotationSnap(Number(e.target.value))}
+            className="border border-gray-300 rounded px-1 py-0.5 text-gray-900 bg-white"
+          >
+            <option value={15}>15°</option>
+            <option value={45}>45°</option>
+            <option value={90}>90°</option>
+            <option value={0}>Off</option>
+          </select>
+          {singleSelectedEquipment && (
+            <>
+              <input
+                type="number"
+                step={rotationSnap || 1}
+                value={rotationDraft ?? String(Math.round(singleSelectedEquipment.rotation * 10) / 10)}
+                onChange={(e) => setRotationDraft(e.target.value)}
+                onBlur={commitRotationDraft}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRotationDraft()
+                  if (e.key === 'Escape') setRotationDraft(null)
+                }}
+                className="w-16 border border-gray-300 rounded px-1 py-0.5 text-gray-900 bg-white"
+                title="Rotation of the selected equipment in degrees (clockwise)"
+              />
+              <span>°</span>
+            </>
+          )}
         </div>
       </div>
 
       {/* Canvas Info removed - moved to Properties panel */}
 
+      {/* Align / distribute bar for multi-selections */}
+      {(selectedEquipmentIds?.length ?? 0) >= 2 && (
+        <AlignmentToolbar
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10"
+          selectionCount={selectedEquipmentIds!.length}
+          onAlign={handleAlign}
+          onDistribute={handleDistribute}
+        />
+      )}
+
+      {/* Style bar for selected annotations */}
+      {(selectedAnnotationIds?.length ?? 0) > 0 && (
+        <AnnotationToolbar
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10"
+          annotations={annotations.filter(annotation => selectedAnnotationIds!.includes(annotation.id))}
+          onStyleChange={(style) => onAnnotationStyleChange?.(selectedAnnotationIds!, style)}
+          onEditText={() => onAnnotationEdit?.(selectedAnnotationIds![0])}
+        />
+      )}
+
+      {/* Overview map with the visible region; drag or click to pan, scroll to zoom */}
+      {minimapVisible && (
+        <Minimap
+          className="absolute bottom-4 right-4 z-10"
+          canvasWidth={canvasWidth}
+          canvasHeight={canvasHeight}
+          pixelsPerFoot={pixelsPerFoot}
+          placedEquipment={placedEquipment}
+          equipmentDefinitions={equipmentDefinitions}
+          layers={layers}
+          backgroundImages={backgroundImages}
+          selectedEquipmentIds={selectedEquipmentIds}
+          view={canvasState}
+          stageSize={stageSize}
+          stageRef={stageRef}
+          onViewChange={handleMinimapViewChange}
+          onClose={() => setMinimapVisible(false)}
+        />
+      )}
+
       {/* Konva Stage */}
       <Stage
         ref={stageRef}
         width={stageSize.width}
         height={stageSize.height}
-        draggable={!measurementToolActive && !activeMeasurementTool}
+        draggable={panEnabled}
         onWheel={handleWheel}
         onDragEnd={handleDragEnd}
-        onClick={handleStageClick}
-        onDblClick={handleStageDoubleClick}
+        onPointerDown={(e) => {
+          handleLongPressStart(e)
+          handleStagePointerDown(e)
+        }}
+        onPointerMove={(e) => {
+          handleLongPressMove(e)
+          handleStagePointerMove(e)
+        }}
+        onPointerUp={() => {
+          cancelLongPress()
+          handleStagePointerUp()
+        }}
+        onPointerLeave={() => {
+          cancelLongPress()
+          onPointerMove?.(null)
+        }}
+        onPointerClick={handleStageClick}
+        onPointerDblClick={handleStageDoubleClick}
+        onContextMenu={handleStageContextMenu}
+        onTouchStart={handleStageTouchStart}
+        onTouchMove={handleStageTouchMove}
+        onTouchEnd={handleStageTouchEnd}
         className="border border-gray-300 bg-gray-50 flex-1"
+        // The canvas handles touch gestures itself, instead of the browser scrolling or zooming the page
+        style={{ touchAction: 'none', userSelect: 'none', WebkitUserSelect: 'none', WebkitTouchCallout: 'none' }}
         onContentMouseDown={() => {
           // Ensure canvas element is captured after stage is fully mounted
           if (stageRef.current && onCanvasReady) {
@@ -1091,7 +1816,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
           }
         }}
       >
-        {/* Background and Grid Layer */}
+        {/* Background Layer */}
         <Layer>
           {/* Background Images Layer */}
           <BackgroundLayer
@@ -1104,16 +1829,17 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
             editable={true}
             measurementToolActive={measurementToolActive || !!activeMeasurementTool}
           />
-          
-          {/* Grid Layer */}
+        </Layer>
+
+        {/* Grid Layer - never hit-tested, so Konva skips its hit canvas */}
+        <Layer listening={false}>
           <GridLayer
-            width={CANVAS_SIZE_PIXELS}
-            height={CANVAS_SIZE_PIXELS}
+            width={canvasWidth}
+            height={canvasHeight}
             scale={canvasState.scale}
-            x={canvasState.x}
-            y={canvasState.y}
+            viewport={viewport}
             visible={gridVisible}
-            gridSize={PIXELS_PER_FOOT} // 10 pixels = 1 foot for 250k sq ft canvas
+            gridSize={gridSize}
           />
         </Layer>
         
@@ -1123,13 +1849,46 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
             equipment={placedEquipment}
             equipmentDefinitions={equipmentDefinitions}
             scale={canvasState.scale}
-            onEquipmentSelect={onEquipmentSelect}
+            onEquipmentSelect={handleEquipmentSelect}
             onEquipmentMove={onEquipmentMove}
             onEquipmentRotate={onEquipmentRotate}
             onEquipmentDelete={onEquipmentDelete}
-            selectedEquipmentId={selectedEquipmentId}
+            selectedEquipmentIds={selectedEquipmentIds}
+            onSelectionChange={onSelectionChange}
+            onEquipmentTransform={onEquipmentTransform}
+            onEquipmentsDelete={onMultipleEquipmentDelete}
+            onEquipmentsDuplicate={onEquipmentDuplicate}
             snapToGrid={true}
-            gridSize={PIXELS_PER_FOOT}
+            gridSize={gridSize}
+            pixelsPerFoot={pixelsPerFoot}
+            strictPlacement={strictPlacement}
+            clearanceRules={clearanceRules}
+            clearance={clearance}
+            rotationSnap={rotationSnap}
+            smartGuides={smartGuidesEnabled}
+            layers={layers}
+            groupFilterId={groupFilterId}
+            viewport={viewport}
+            largeHandles={coarsePointer}
+          />
+        </Layer>
+
+        {/* Annotation Layer - text, arrows, callouts and shapes above the equipment */}
+        <Layer>
+          <AnnotationLayer
+            annotations={annotations}
+            scale={canvasState.scale}
+            pixelsPerFoot={pixelsPerFoot}
+            layers={layers}
+            selectedAnnotationIds={selectedAnnotationIds}
+            onSelectionChange={onAnnotationSelectionChange}
+            onAnnotationAdd={onAnnotationAdd}
+            onAnnotationsTransform={onAnnotationsTransform}
+            onAnnotationEdit={onAnnotationEdit}
+            tool={annotationTool}
+            onToolDone={() => setAnnotationTool(null)}
+            viewport={viewport}
+            largeHandles={coarsePointer}
           />
         </Layer>
         
@@ -1140,20 +1899,21 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
             isActive={measurementToolActive && !activeMeasurementTool}
             editMode={measurementEditMode}
             scale={canvasState.scale}
-            pixelsPerFoot={PIXELS_PER_FOOT}
+            pixelsPerFoot={pixelsPerFoot}
             currentMeasurement={currentMeasurement}
             onPointSet={handleEnhancedMeasurementPointSet}
             onMeasurementComplete={(distance) => {
               console.log('Enhanced measurement completed:', distance);
             }}
             onMeasurementEdit={handleEnhancedMeasurementEdit}
+            largeHandles={coarsePointer}
           />
           
           {/* Legacy Measurement Tool */}
           <MeasurementTool
             isActive={false} // Disabled in favor of enhanced tool
             scale={canvasState.scale}
-            pixelsPerFoot={PIXELS_PER_FOOT}
+            pixelsPerFoot={pixelsPerFoot}
             onMeasurementComplete={(measurement) => {
               setMeasurements(prev => [...prev, measurement]);
               console.log('New measurement:', measurement);
@@ -1165,7 +1925,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
           <SimpleMeasurementTool
             activeTool={activeMeasurementTool}
             scale={canvasState.scale}
-            pixelsPerFoot={PIXELS_PER_FOOT}
+            pixelsPerFoot={pixelsPerFoot}
             measurements={simpleMeasurements}
             onMeasurementComplete={(measurement) => {
               setSimpleMeasurements(prev => [...prev, measurement])
@@ -1173,20 +1933,77 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
             onMeasurementDelete={(id) => {
               setSimpleMeasurements(prev => prev.filter(m => m.id !== id))
             }}
+            largeHandles={coarsePointer}
+          />
+          
+          {/* Lot boundary, setback and equipment that breaks them */}
+          <LotBoundaryLayer
+            boundary={lotBoundary}
+            scale={canvasState.scale}
+            pixelsPerFoot={pixelsPerFoot}
+            placedEquipment={placedEquipment}
+            equipmentDefinitions={equipmentDefinitions || []}
+          />
+          
+          {/* Clearance Violations */}
+          <ClearanceVerificationTool
+            isActive={clearanceCheckActive}
+            scale={canvasState.scale}
+            pixelsPerFoot={pixelsPerFoot}
+            violations={clearance?.violations || NO_VIOLATIONS}
+            clearanceWaivers={clearanceWaivers}
           />
           
+          {/* Equipment about to be placed */}
+          {placementPreview && (
+            <PlacementPreview
+              items={placementPreview.items}
+              equipmentDefinitions={equipmentDefinitions || []}
+              conflictIds={placementPreview.conflictIds}
+              pixelsPerFoot={pixelsPerFoot}
+              scale={canvasState.scale}
+              origin={placementPreview.origin}
+              path={placementPreview.path}
+            />
+          )}
+
+          {/* Selection box */}
+          {marquee && (
+            <Rect
+              x={Math.min(marquee.startX, marquee.endX)}
+              y={Math.min(marquee.startY, marquee.endY)}
+              width={Math.abs(marquee.endX - marquee.startX)}
+              height={Math.abs(marquee.endY - marquee.startY)}
+              fill="rgba(37, 99, 235, 0.08)"
+              stroke="#2563eb"
+              strokeWidth={1 / canvasState.scale}
+              dash={[4 / canvasState.scale, 4 / canvasState.scale]}
+              listening={false}
+            />
+          )}
+
           {/* Scale Bar Overlay */}
           {scaleBarVisible && (
             <ScaleBar
               scale={canvasState.scale}
               canvasWidth={stageSize.width}
               canvasHeight={stageSize.height}
-              pixelsPerFoot={PIXELS_PER_FOOT}
+              pixelsPerFoot={pixelsPerFoot}
             />
           )}
         </Layer>
       </Stage>
       
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          title={contextMenu.title}
+          sections={contextMenu.sections}
+          onClose={closeContextMenu}
+        />
+      )}
+
       {/* Background Image Manager Modal */}
       <BackgroundImageManager
         images={backgroundImages}
@@ -1197,6 +2014,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
         selectedImageId={selectedBackgroundImageId}
         isOpen={backgroundManagerOpen}
         onClose={() => setBackgroundManagerOpen(false)}
+        canvasSettings={canvasSettings}
       />
       
       {/* Distance Input Modal */}
@@ -1214,7 +2032,7 @@ const CanvasEditor: React.FC<CanvasEditorProps> = ({
           ? Math.sqrt(
               Math.pow(currentMeasurement.secondPoint.x - currentMeasurement.firstPoint.x, 2) +
               Math.pow(currentMeasurement.secondPoint.y - currentMeasurement.firstPoint.y, 2)
-            ) / PIXELS_PER_FOOT
+            ) / pixelsPerFoot
           : 0
         }
         onSubmit={handleCalibrateSubmit}
@@ -2,7 +2,13 @@
 
 import React, { useState, useCallback } from 'react'
 import { ClearancePoint, CustomClearance, RectangularClearance, EquipmentClearance, EquipmentDimensions } from '@/lib/equipment/types'
-import { rectangularToCustomClearance, validateCustomClearance } from '@/lib/equipment/clearanceUtils'
+import {
+  toCustomClearance,
+  validateCustomClearance,
+  repairCustomClearance,
+  normalizeClearanceWinding,
+  generateClearancePolygonPoints
+} from '@/lib/equipment/clearanceUtils'
 
 interface ClearanceEditorProps {
   clearance: EquipmentClearance | undefined
@@ -12,6 +18,45 @@ interface ClearanceEditorProps {
   onClose: () => void
 }
 
+// Side-by-side outline of the current and repaired polygons over the equipment footprint
+function ClearancePreview({
+  current,
+  repaired,
+  dimensions
+}: {
+  current: CustomClearance
+  repaired: CustomClearance
+  dimensions: EquipmentDimensions
+}) {
+  const currentPoints = generateClearancePolygonPoints(current).filter(p => Number.isFinite(p.x) && Number.isFinite(p.y))
+  const repairedPoints = generateClearancePolygonPoints(repaired)
+  const halfWidth = dimensions.shape === 'circle' ? dimensions.radius : dimensions.width / 2
+  const halfHeight = dimensions.shape === 'circle' ? dimensions.radius : dimensions.height / 2
+
+  const allPoints = currentPoints.concat(repairedPoints, [{ x: -halfWidth, y: -halfHeight }, { x: halfWidth, y: halfHeight }])
+  const minX = Math.min(...allPoints.map(p => p.x))
+  const maxX = Math.max(...allPoints.map(p => p.x))
+  const minY = Math.min(...allPoints.map(p => p.y))
+  const maxY = Math.max(...allPoints.map(p => p.y))
+  const padding = Math.max(maxX - minX, maxY - minY) * 0.05 + 1
+  const toPath = (points: { x: number; y: number }[]) => points.map(p => `${p.x},${p.y}`).join(' ')
+
+  return (
+    <svg
+      viewBox={`${minX - padding} ${minY - padding} ${maxX - minX + padding * 2} ${maxY - minY + padding * 2}`}
+      className="w-full h-48 bg-gray-50 border border-gray-200 rounded"
+    >
+      {dimensions.shape === 'circle' ? (
+        <circle cx={0} cy={0} r={dimensions.radius} fill="#d1d5db" vectorEffect="non-scaling-stroke" stroke="#6b7280" />
+      ) : (
+        <rect x={-halfWidth} y={-halfHeight} width={halfWidth * 2} height={halfHeight * 2} fill="#d1d5db" vectorEffect="non-scaling-stroke" stroke="#6b7280" />
+      )}
+      <polygon points={toPath(currentPoints)} fill="rgba(239, 68, 68, 0.15)" stroke="#ef4444" strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+      <polygon points={toPath(repairedPoints)} fill="rgba(34, 197, 94, 0.2)" stroke="#16a34a" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  )
+}
+
 export default function ClearanceEditor({ 
   clearance, 
   dimensions, 
@@ -19,16 +64,12 @@ export default function ClearanceEditor({
   onChange, 
   onClose 
 }: ClearanceEditorProps) {
-  const [editMode, setEditMode] = useState<'rectangular' | 'custom'>('rectangular')
+  const [editMode, setEditMode] = useState<'rectangular' | 'radial' | 'offset' | 'custom'>(() =>
+    clearance?.type === 'radial' || clearance?.type === 'offset' ? clearance.type : 'rectangular'
+  )
   const [customClearance, setCustomClearance] = useState<CustomClearance>(() => {
-    if (clearance?.type === 'custom') {
-      return clearance
-    }
     // Convert existing clearance to custom or create default
-    const rectClearance: RectangularClearance = clearance?.type === 'rectangular' 
-      ? clearance 
-      : { type: 'rectangular', all: rideClearing }
-    return rectangularToCustomClearance(rectClearance, dimensions)
+    return toCustomClearance(clearance ?? { type: 'rectangular', all: rideClearing }, dimensions)
   })
 
   const [rectangularClearance, setRectangularClearance] = useState<RectangularClearance>(() => {
@@ -38,30 +79,40 @@ export default function ClearanceEditor({
     return { type: 'rectangular', all: rideClearing }
   })
 
+  const [offsetDistance, setOffsetDistance] = useState<number>(() =>
+    clearance?.type === 'radial' || clearance?.type === 'offset' ? clearance.distance : rideClearing
+  )
+
   const [selectedPointIndex, setSelectedPointIndex] = useState<number | null>(null)
   const [errors, setErrors] = useState<string[]>(() => {
-    // Validate initial custom clearance data
-    if (clearance?.type === 'custom') {
-      return validateCustomClearance(clearance)
-    }
-    // Convert existing clearance to custom or create default and validate
-    const rectClearance: RectangularClearance = clearance?.type === 'rectangular' 
-      ? clearance 
-      : { type: 'rectangular', all: rideClearing }
-    const initialCustomClearance = rectangularToCustomClearance(rectClearance, dimensions)
-    return validateCustomClearance(initialCustomClearance)
+    // Validate the initial custom clearance data
+    return validateCustomClearance(toCustomClearance(clearance ?? { type: 'rectangular', all: rideClearing }, dimensions), dimensions)
   })
 
-  // Validate and update custom clearance
+  const [repairPreview, setRepairPreview] = useState<{ clearance: CustomClearance; fixes: string[] } | null>(null)
+
+  // Validate and update custom clearance. Valid polygons are passed on with clockwise winding.
   const updateCustomClearance = useCallback((newClearance: CustomClearance) => {
-    const validationErrors = validateCustomClearance(newClearance)
+    const validationErrors = validateCustomClearance(newClearance, dimensions)
     setErrors(validationErrors)
     setCustomClearance(newClearance)
+    setRepairPreview(null)
     
     if (validationErrors.length === 0) {
-      onChange(newClearance)
+      onChange(normalizeClearanceWinding(newClearance))
     }
-  }, [onChange])
+  }, [onChange, dimensions])
+
+  // Work out a repaired polygon and show it next to the current one before applying it
+  const previewRepair = useCallback(() => {
+    setRepairPreview(repairCustomClearance(customClearance, dimensions))
+  }, [customClearance, dimensions])
+
+  const applyRepair = useCallback(() => {
+    if (!repairPreview) return
+    updateCustomClearance(repairPreview.clearance)
+    setSelectedPointIndex(null)
+  }, [repairPreview, updateCustomClearance])
 
   // Add a new point to the polygon
   const addPoint = useCallback(() => {
@@ -101,6 +152,13 @@ export default function ClearanceEditor({
     onChange(newClearance)
   }, [rectangularClearance, onChange])
 
+  // Switch to a distance-based mode, or update its distance
+  const updateOffsetClearance = useCallback((type: 'radial' | 'offset', distance: number) => {
+    setEditMode(type)
+    setOffsetDistance(distance)
+    onChange({ type, distance })
+  }, [onChange])
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto text-gray-900" style={{color: '#111827'}}>
@@ -128,6 +186,26 @@ export default function ClearanceEditor({
               >
                 Rectangular Clearance
               </button>
+              <button
+                onClick={() => updateOffsetClearance('radial', offsetDistance)}
+                className={`px-4 py-2 rounded ${
+                  editMode === 'radial'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Radial
+              </button>
+              <button
+                onClick={() => updateOffsetClearance('offset', offsetDistance)}
+                className={`px-4 py-2 rounded ${
+                  editMode === 'offset'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Offset Footprint
+              </button>
               <button
                 onClick={() => setEditMode('custom')}
                 className={`px-4 py-2 rounded ${
@@ -222,6 +300,29 @@ export default function ClearanceEditor({
             </div>
           )}
 
+          {/* Radial / Offset Clearance Editor */}
+          {(editMode === 'radial' || editMode === 'offset') && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1 text-gray-900" style={{color: '#111827 !important'}}>Clearance Distance (ft)</label>
+                <input
+                  type="number"
+                  value={offsetDistance}
+                  onChange={(e) => updateOffsetClearance(editMode, Math.max(0, parseFloat(e.target.value) || 0))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 hover:border-gray-400 bg-white"
+                  placeholder="0"
+                  min="0"
+                  step="0.5"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  {editMode === 'radial'
+                    ? 'Circle around the equipment center: a ring for round rides, the swept corners for rectangular ones'
+                    : 'Grows the footprint by this distance on every side, with rounded corners'}
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Custom Polygon Editor */}
           {editMode === 'custom' && (
             <div className="space-y-4">
@@ -239,7 +340,17 @@ export default function ClearanceEditor({
               {/* Error Messages */}
               {errors.length > 0 && (
                 <div className="bg-red-50 border border-red-200 rounded p-3">
-                  <h4 className="text-red-800 font-medium mb-1">Validation Errors:</h4>
+                  <div className="flex justify-between items-center mb-1">
+                    <h4 className="text-red-800 font-medium">Validation Errors:</h4>
+                    {!repairPreview && (
+                      <button
+                        onClick={previewRepair}
+                        className="px-3 py-1 bg-orange-500 text-white rounded text-sm hover:bg-orange-600"
+                      >
+                        Auto-repair
+                      </button>
+                    )}
+                  </div>
                   <ul className="text-red-700 text-sm">
                     {errors.map((error, index) => (
                       <li key={index}>• {error}</li>
@@ -248,6 +359,37 @@ export default function ClearanceEditor({
                 </div>
               )}
 
+              {/* Auto-repair Preview */}
+              {repairPreview && (
+                <div className="border border-green-200 bg-green-50 rounded p-3 space-y-3">
+                  <h4 className="text-green-800 font-medium">Repair Preview</h4>
+                  <ClearancePreview current={customClearance} repaired={repairPreview.clearance} dimensions={dimensions} />
+                  <p className="text-xs text-gray-600">
+                    Red dashed: current polygon. Green: repaired polygon. Gray: equipment footprint.
+                  </p>
+                  <ul className="text-green-800 text-sm">
+                    {repairPreview.fixes.length > 0
+                      ? repairPreview.fixes.map((fix, index) => <li key={index}>• {fix}</li>)
+                      : <li>• No automatic fixes available</li>}
+                  </ul>
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => setRepairPreview(null)}
+                      className="px-3 py-1 text-gray-600 border border-gray-300 rounded text-sm hover:bg-gray-50"
+                    >
+                      Discard
+                    </button>
+                    <button
+                      onClick={applyRepair}
+                      disabled={repairPreview.fixes.length === 0}
+                      className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:bg-gray-300"
+                    >
+                      Apply Repair
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Points List */}
               <div className="max-h-60 overflow-y-auto space-y-3">
                 {customClearance.points.map((point, index) => (
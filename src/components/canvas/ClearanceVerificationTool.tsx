@@ -2,24 +2,20 @@
 
 import React, { useState, useCallback, useMemo } from 'react'
 import { Line, Circle, Text, Group, Rect } from 'react-konva'
-import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
+import { ClearanceWaiver } from '@/lib/equipment/types'
+import { ClearanceViolation } from '@/lib/equipment/clearanceEngine'
+import { getWaiversByPair, findWaiver } from '@/lib/equipment/clearanceWaivers'
 
-export interface ClearanceViolation {
-  id: string
-  equipment1: PlacedEquipment
-  equipment2: PlacedEquipment
-  actualDistance: number
-  requiredDistance: number
-  severity: 'warning' | 'critical'
-  description: string
-}
+export type { ClearanceViolation } from '@/lib/equipment/clearanceEngine'
+
+const NO_VIOLATIONS: ClearanceViolation[] = []
 
 interface ClearanceVerificationToolProps {
   isActive: boolean
   scale: number
   pixelsPerFoot: number
-  placedEquipment: PlacedEquipment[]
-  equipmentDefinitions: EquipmentItem[]
+  violations: ClearanceViolation[] // from the page's clearance index
+  clearanceWaivers?: ClearanceWaiver[]
   onViolationSelect?: (violation: ClearanceViolation) => void
 }
 
@@ -27,91 +23,16 @@ const ClearanceVerificationTool: React.FC<ClearanceVerificationToolProps> = ({
   isActive,
   scale,
   pixelsPerFoot,
-  placedEquipment,
-  equipmentDefinitions,
+  violations: allViolations,
+  clearanceWaivers,
   onViolationSelect
 }) => {
   const [selectedViolation, setSelectedViolation] = useState<string | null>(null)
 
-  // Get equipment definition by ID
-  const getEquipmentDefinition = useCallback((equipmentId: string): EquipmentItem | undefined => {
-    return equipmentDefinitions.find(def => def.id === equipmentId)
-  }, [equipmentDefinitions])
-
-  // Calculate distance between two equipment centers
-  const calculateDistance = useCallback((eq1: PlacedEquipment, eq2: PlacedEquipment): number => {
-    const dx = eq2.x - eq1.x
-    const dy = eq2.y - eq1.y
-    const distanceInPixels = Math.sqrt(dx * dx + dy * dy)
-    return distanceInPixels / pixelsPerFoot
-  }, [pixelsPerFoot])
-
-  // Calculate minimum required clearance between two equipment items
-  const calculateRequiredClearance = useCallback((eq1: PlacedEquipment, eq2: PlacedEquipment): number => {
-    const def1 = getEquipmentDefinition(eq1.equipmentId)
-    const def2 = getEquipmentDefinition(eq2.equipmentId)
-    
-    if (!def1 || !def2) return 0
-
-    // Use the larger of the two clearance requirements
-    const clearance1 = typeof def1.clearance === 'number' ? def1.clearance : 0
-    const clearance2 = typeof def2.clearance === 'number' ? def2.clearance : 0
-    const rideClearance1 = def1.rideClearing || 0
-    const rideClearance2 = def2.rideClearing || 0
-    
-    // Total required clearance is the sum of both equipment's clearance requirements
-    const totalClearance = Math.max(clearance1, rideClearance1) + Math.max(clearance2, rideClearance2)
-    
-    // Add equipment dimensions (half of each equipment's largest dimension)
-    const getMaxDimension = (def: EquipmentItem): number => {
-      if (!def.dimensions) return 0
-      if (def.dimensions.shape === 'circle') {
-        return def.dimensions.radius
-      } else {
-        return Math.max(def.dimensions.width || 0, def.dimensions.height || 0) / 2
-      }
-    }
-    
-    const maxDim1 = getMaxDimension(def1)
-    const maxDim2 = getMaxDimension(def2)
-    
-    return totalClearance + maxDim1 + maxDim2
-  }, [getEquipmentDefinition])
+  // Violations are only drawn while the tool is on
+  const violations = isActive ? allViolations : NO_VIOLATIONS
 
-  // Find all clearance violations
-  const violations = useMemo((): ClearanceViolation[] => {
-    const foundViolations: ClearanceViolation[] = []
-    
-    for (let i = 0; i < placedEquipment.length; i++) {
-      for (let j = i + 1; j < placedEquipment.length; j++) {
-        const eq1 = placedEquipment[i]
-        const eq2 = placedEquipment[j]
-        
-        const actualDistance = calculateDistance(eq1, eq2)
-        const requiredDistance = calculateRequiredClearance(eq1, eq2)
-        
-        if (actualDistance < requiredDistance) {
-          const def1 = getEquipmentDefinition(eq1.equipmentId)
-          const def2 = getEquipmentDefinition(eq2.equipmentId)
-          
-          const shortfall = requiredDistance - actualDistance
-          const severity: 'warning' | 'critical' = shortfall > 10 ? 'critical' : 'warning'
-          
-          foundViolations.push({
-            id: `${eq1.id}-${eq2.id}`,
-            equipment1: eq1,
-            equipment2: eq2,
-            actualDistance,
-            requiredDistance,
-            severity,
-            description: `${def1?.name || 'Equipment'} and ${def2?.name || 'Equipment'} are ${shortfall.toFixed(1)} ft too close`
-          })
-        }
-      }
-    }
-    
-    return foundViolations
-  }, [placedEquipment, calculateDistance, calculateRequiredClearance, getEquipmentDefinition])
+  const waiversByPair = useMemo(() => getWaiversByPair(clearanceWaivers || []), [clearanceWaivers])
 
   const handleViolationClick = useCallback((violation: ClearanceViolation) => {
     setSelectedViolation(violation.id === selectedViolation ? null : violation.id)
@@ -124,7 +45,9 @@ const ClearanceVerificationTool: React.FC<ClearanceVerificationToolProps> = ({
   const renderViolations = () => {
     return violations.map((violation) => {
       const isSelected = selectedViolation === violation.id
-      const color = violation.severity === 'critical' ? '#EF4444' : '#F59E0B' // Red for critical, amber for warning
+      const isWaived = !!findWaiver(waiversByPair, violation)
+      // Gray once waived, otherwise red for critical and amber for warning
+      const color = isWaived ? '#9CA3AF' : violation.severity === 'critical' ? '#EF4444' : '#F59E0B'
       
       // Calculate midpoint for label
       const midX = (violation.equipment1.x + violation.equipment2.x) / 2
@@ -132,6 +55,19 @@ const ClearanceVerificationTool: React.FC<ClearanceVerificationToolProps> = ({
       
       return (
         <Group key={violation.id}>
+          {/* Shaded overlap between the two clearance zones */}
+          {violation.overlapRegions.map((region, index) => (
+            <Line
+              key={`${violation.id}-overlap-${index}`}
+              points={region.flatMap(point => [point.x * pixelsPerFoot, point.y * pixelsPerFoot])}
+              closed
+              fill={color}
+              opacity={isSelected ? 0.55 : 0.35}
+              onClick={() => handleViolationClick(violation)}
+              onTap={() => handleViolationClick(violation)}
+            />
+          ))}
+
           {/* Connection line */}
           <Line
             points={[
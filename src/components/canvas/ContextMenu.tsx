@@ -0,0 +1,155 @@
+'use client'
+
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { Annotation, PlacedEquipment } from '@/lib/equipment/types'
+import type { BackgroundImage } from './BackgroundLayer'
+import type { SimpleMeasurement } from './SimpleMeasurementTool'
+
+// What was right-clicked on the canvas
+export type ContextMenuTarget =
+  | { kind: 'equipment'; equipment: PlacedEquipment; equipmentIds: string[] } // equipmentIds: the clicked item, or the selection it belongs to
+  | { kind: 'annotation'; annotation: Annotation; annotationIds: string[] } // annotationIds: the clicked annotation, or the selection it belongs to
+  | { kind: 'backgroundImage'; image: BackgroundImage }
+  | { kind: 'measurement'; measurement: SimpleMeasurement }
+
+export interface ContextMenuEntry {
+  id: string
+  label: string
+  shortcut?: string // hint shown on the right, e.g. "Ctrl+D"
+  disabled?: boolean
+  danger?: boolean
+  onSelect: () => void
+}
+
+// Entries a tool adds for a target; return none to leave the menu alone
+export type ContextMenuProvider = (target: ContextMenuTarget) => ContextMenuEntry[]
+
+interface RegisteredProvider {
+  id: string
+  order: number
+  provider: ContextMenuProvider
+}
+
+let providers: RegisteredProvider[] = []
+
+// Add a provider; each provider's entries form one section of the menu, sections sorted by
+// order. Registering an id again replaces the earlier provider. Returns the unregister function.
+export function registerContextMenuProvider(id: string, provider: ContextMenuProvider, order = 100): () => void {
+  const registration = { id, order, provider }
+  providers = [...providers.filter(item => item.id !== id), registration].sort((a, b) => a.order - b.order)
+  return () => {
+    providers = providers.filter(item => item !== registration)
+  }
+}
+
+export function getContextMenuSections(target: ContextMenuTarget): ContextMenuEntry[][] {
+  return providers
+    .map(({ provider }) => provider(target))
+    .filter(entries => entries.length > 0)
+}
+
+// Register a provider for the lifetime of a component. The latest provider is always used,
+// so it can close over component state without re-registering.
+export function useContextMenuProvider(id: string, provider: ContextMenuProvider, order?: number) {
+  const providerRef = useRef(provider)
+  providerRef.current = provider
+  useEffect(() => registerContextMenuProvider(id, target => providerRef.current(target), order), [id, order])
+}
+
+interface ContextMenuProps {
+  x: number // viewport position of the click
+  y: number
+  title?: string
+  sections: ContextMenuEntry[][]
+  onClose: () => void
+}
+
+const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, title, sections, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null)
+  const [position, setPosition] = useState({ left: x, top: y })
+
+  // Keep the menu on screen when opened near the right or bottom edge
+  useLayoutEffect(() => {
+    const menu = menuRef.current
+    if (!menu) return
+    const { width, height } = menu.getBoundingClientRect()
+    setPosition({
+      left: Math.max(4, Math.min(x, window.innerWidth - width - 4)),
+      top: Math.max(4, Math.min(y, window.innerHeight - height - 4))
+    })
+    menu.querySelector<HTMLButtonElement>('button:not(:disabled)')?.focus()
+  }, [x, y])
+
+  // Close on a click or tap elsewhere, Escape, scrolling or resizing
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose()
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Handled keys stop here so canvas shortcuts do not also act on them
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        e.stopPropagation()
+        onClose()
+      } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        e.stopPropagation()
+        const buttons = Array.from(menuRef.current?.querySelectorAll<HTMLButtonElement>('button:not(:disabled)') || [])
+        const index = buttons.indexOf(document.activeElement as HTMLButtonElement)
+        const next = e.key === 'ArrowDown' ? index + 1 : index - 1
+        buttons[(next + buttons.length) % buttons.length]?.focus()
+      }
+    }
+    window.addEventListener('pointerdown', handlePointerDown, true)
+    window.addEventListener('keydown', handleKeyDown, true)
+    window.addEventListener('wheel', onClose, true)
+    window.addEventListener('resize', onClose)
+    window.addEventListener('blur', onClose)
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown, true)
+      window.removeEventListener('keydown', handleKeyDown, true)
+      window.removeEventListener('wheel', onClose, true)
+      window.removeEventListener('resize', onClose)
+      window.removeEventListener('blur', onClose)
+    }
+  }, [onClose])
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      className="fixed z-50 min-w-[200px] py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg text-sm"
+      style={position}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {title && (
+        <div className="px-3 py-1 text-xs font-medium text-gray-500 truncate max-w-[260px]">{title}</div>
+      )}
+      {sections.map((entries, index) => (
+        <div key={index} className={index > 0 || title ? 'border-t border-gray-100 dark:border-gray-700 mt-1 pt-1' : ''}>
+          {entries.map(entry => (
+            <button
+              key={entry.id}
+              role="menuitem"
+              disabled={entry.disabled}
+              onClick={() => {
+                onClose()
+                entry.onSelect()
+              }}
+              className={`w-full flex items-center justify-between gap-6 px-3 py-1 text-left focus:outline-none disabled:opacity-40 disabled:cursor-not-allowed ${
+                entry.danger
+                  ? 'text-red-600 hover:bg-red-50 focus:bg-red-50 dark:hover:bg-gray-700 dark:focus:bg-gray-700'
+                  : 'text-gray-800 dark:text-gray-200 hover:bg-gray-100 focus:bg-gray-100 dark:hover:bg-gray-700 dark:focus:bg-gray-700'
+              }`}
+            >
+              <span>{entry.label}</span>
+              {entry.shortcut && <span className="text-xs text-gray-400">{entry.shortcut}</span>}
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default ContextMenu
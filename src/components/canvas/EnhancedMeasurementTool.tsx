@@ -23,6 +23,7 @@ interface EnhancedMeasurementProps {
   onPointSet: (point: MeasurementPoint) => void
   onMeasurementComplete: (distance: number) => void
   onMeasurementEdit: (firstPoint: MeasurementPoint, secondPoint: MeasurementPoint) => void
+  largeHandles?: boolean // Bigger point handles for fingers
 }
 
 const EnhancedMeasurementTool: React.FC<EnhancedMeasurementProps> = ({
@@ -33,7 +34,8 @@ const EnhancedMeasurementTool: React.FC<EnhancedMeasurementProps> = ({
   currentMeasurement,
   onPointSet,
   onMeasurementComplete,
-  onMeasurementEdit
+  onMeasurementEdit,
+  largeHandles = false
 }) => {
   const [isDragging, setIsDragging] = useState(false)
   const [dragTarget, setDragTarget] = useState<'first' | 'second' | null>(null)
@@ -80,6 +82,8 @@ const EnhancedMeasurementTool: React.FC<EnhancedMeasurementProps> = ({
 
   const { firstPoint, secondPoint, isComplete } = currentMeasurement
 
+  const pointRadius = (largeHandles ? 16 : 8) / scale
+
   // Calculate distance if both points exist
   const distance = firstPoint && secondPoint ? calculateDistance(firstPoint, secondPoint) : 0
 
@@ -90,7 +94,7 @@ const EnhancedMeasurementTool: React.FC<EnhancedMeasurementProps> = ({
         <Circle
           x={firstPoint.x}
           y={firstPoint.y}
-          radius={8 / scale}
+          radius={pointRadius}
           fill={editMode ? "#3b82f6" : "#ef4444"}
           stroke="#ffffff"
           strokeWidth={2 / scale}
@@ -115,7 +119,7 @@ const EnhancedMeasurementTool: React.FC<EnhancedMeasurementProps> = ({
         <Circle
           x={secondPoint.x}
           y={secondPoint.y}
-          radius={8 / scale}
+          radius={pointRadius}
           fill={editMode ? "#3b82f6" : "#ef4444"}
           stroke="#ffffff"
           strokeWidth={2 / scale}
@@ -1,37 +1,172 @@
 'use client'
 
-import React from 'react'
-import { Group, Rect, Circle, Text, Line } from 'react-konva'
-import { PlacedEquipment, EquipmentItem, CustomClearance, RectangularClearance } from '@/lib/equipment/types'
+import React, { useState, useRef, useMemo, useEffect } from 'react'
+import { Group, Rect, Circle, Ring, Text, Line } from 'react-konva'
+import Konva from 'konva'
+import { PlacedEquipment, EquipmentItem, CustomClearance, RectangularClearance, ClearanceRule, EquipmentTransform, EquipmentTransformKind, PlanLayer } from '@/lib/equipment/types'
 import { equipmentLibrary } from '@/lib/equipment/library'
 import { generateClearancePolygonPoints, createDefaultClearance } from '@/lib/equipment/clearanceUtils'
+import { ClearanceSnapshot } from '@/lib/equipment/clearanceIndex'
+import { getOperationalZones, OperationalZoneKind } from '@/lib/equipment/operationalZones'
+import { buildEquipmentGeometry, ClearanceViolation } from '@/lib/equipment/clearanceEngine'
+import { findClearanceRule, getMaxRuleSeparation } from '@/lib/equipment/clearanceRules'
+import { findSmartSnap, SnapGuide } from '@/lib/equipment/smartGuides'
+import { getDrawOrder, getLayerLookup, isEquipmentEditable } from '@/lib/equipment/layers'
+import { Bounds, polygonBounds, rotatePoint, normalizeDegrees, snapDegrees } from '@/lib/utils/geometry'
 
 interface EquipmentLayerProps {
   equipment: PlacedEquipment[]
   equipmentDefinitions?: EquipmentItem[] // All equipment definitions (static + custom)
   scale: number
+  pixelsPerFoot: number // from the project's canvas settings
   onEquipmentSelect?: (equipment: PlacedEquipment) => void
+  onSelectionChange?: (equipmentIds: string[]) => void
   onEquipmentMove?: (equipmentId: string, x: number, y: number) => void
   onEquipmentRotate?: (equipmentId: string, rotation: number) => void
+  onEquipmentTransform?: (transforms: EquipmentTransform[], kind: EquipmentTransformKind) => void
   onEquipmentDelete?: (equipmentId: string) => void
-  selectedEquipmentId?: string
+  onEquipmentsDelete?: (equipmentIds: string[]) => void
+  onEquipmentsDuplicate?: (equipmentIds: string[]) => void
+  selectedEquipmentIds?: string[]
   snapToGrid?: boolean
   gridSize?: number
+  strictPlacement?: boolean // Push dropped or turned equipment out of other clearance zones, or reject the change
+  clearanceRules?: ClearanceRule[]
+  clearance?: ClearanceSnapshot | null // The page's clearance index, for live conflicts and culling
+  rotationSnap?: number // Step the rotation handle snaps to in degrees, 0 for free rotation. Holding Alt inverts it.
+  smartGuides?: boolean // Snap dragged equipment to neighbouring edges, centers and clearance zones. Alt skips it.
+  layers?: PlanLayer[] // Draw order and visibility. Hidden items still count for clearance checks.
+  groupFilterId?: string | null // Only draw the members of this group
+  viewport?: Bounds | null // Visible canvas region in pixels; items outside it are not drawn
+  largeHandles?: boolean // Bigger rotation handles and buttons for fingers
+}
+
+// Colors for ramp, backstage and overhang zones
+const zoneColors: Record<OperationalZoneKind, { fill: string; stroke: string }> = {
+  'entrance': { fill: 'rgba(34, 197, 94, 0.3)', stroke: '#16a34a' },
+  'exit': { fill: 'rgba(59, 130, 246, 0.3)', stroke: '#2563eb' },
+  'entrance-exit': { fill: 'rgba(20, 184, 166, 0.3)', stroke: '#0d9488' },
+  'backstage': { fill: 'rgba(107, 114, 128, 0.25)', stroke: '#4b5563' },
+  'overhang': { fill: 'rgba(168, 85, 247, 0.08)', stroke: '#9333ea' }
+}
+
+// Stable default so the clearance index is not fully re-checked on every render
+const NO_CLEARANCE_RULES: ClearanceRule[] = []
+const NO_SELECTION: string[] = []
+const NO_LAYERS: PlanLayer[] = []
+const NO_CONFLICTS: Set<string> = new Set()
+const SMART_GUIDE_RANGE_FT = 150 // how far away neighbours are considered for guides
+const TOUCH_HANDLE_SCALE = 2 // handles and buttons grow by this much for touch screens
+
+// Level of detail, by how many screen pixels one foot covers at the current zoom
+const LABEL_MIN_SCREEN_PX_PER_FT = 1 // smaller than this, labels are unreadable
+const DETAIL_MIN_SCREEN_PX_PER_FT = 0.5 // smaller than this, arcs, dashes and operational zones are skipped
+
+// Resolution items are cached at: the on-screen size rounded up to a power of two,
+// so zooming only re-caches when it crosses a step
+const getCachePixelRatio = (scale: number) => {
+  const screenRatio = scale * (typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1)
+  return Math.min(2, Math.pow(2, Math.ceil(Math.log2(Math.max(screenRatio, 1 / 64)))))
+}
+
+// Start positions of the selected items while the selection is dragged or rotated as a group
+interface GroupGesture {
+  anchorId?: string
+  center?: { x: number; y: number }
+  startAngle?: number
+  starts: Map<string, { x: number; y: number; rotation: number }>
 }
 
 const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
   equipment,
   equipmentDefinitions,
   scale,
+  pixelsPerFoot,
   onEquipmentSelect,
+  onSelectionChange,
   onEquipmentMove,
   onEquipmentRotate,
+  onEquipmentTransform,
   onEquipmentDelete,
-  selectedEquipmentId,
+  onEquipmentsDelete,
+  onEquipmentsDuplicate,
+  selectedEquipmentIds = NO_SELECTION,
   snapToGrid = true,
-  gridSize = 10
+  gridSize = 10,
+  strictPlacement = false,
+  clearanceRules = NO_CLEARANCE_RULES,
+  clearance = null,
+  rotationSnap = 15,
+  smartGuides = true,
+  layers = NO_LAYERS,
+  groupFilterId = null,
+  viewport = null,
+  largeHandles = false
 }) => {
-  const pixelsPerFoot = 10 // 10 pixels = 1 foot for large 250k sq ft canvas
+  const [conflictIds, setConflictIds] = useState<Set<string>>(NO_CONFLICTS) // moving items that break a clearance
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([])
+  const [rotationReadout, setRotationReadout] = useState<{ x: number; y: number; degrees: number; snapped: boolean } | null>(null)
+  const nodeRefs = useRef(new Map<string, Konva.Group>())
+  const groupGestureRef = useRef<GroupGesture | null>(null)
+  const selectionFrameRef = useRef<Konva.Group>(null)
+  const isGroupSelection = selectedEquipmentIds.length > 1
+  const handleScale = largeHandles ? TOUCH_HANDLE_SCALE : 1
+
+  // Combine static library with custom equipment definitions
+  const allEquipmentDefinitions = equipmentDefinitions || equipmentLibrary
+
+  const clearanceIndex = clearance?.index ?? null
+
+  // Items in view, bottom layer first. Selected items are always drawn so a drag or
+  // rotation can carry them off screen.
+  const drawOrder = useMemo(() => {
+    let visible = getDrawOrder(equipment, layers)
+    if (groupFilterId) visible = visible.filter(item => item.groupId === groupFilterId)
+    // Until the page has indexed the equipment, everything is drawn
+    if (!viewport || !clearance) return visible
+
+    const inView = new Set(clearance.index.queryBounds({
+      minX: viewport.minX / pixelsPerFoot,
+      minY: viewport.minY / pixelsPerFoot,
+      maxX: viewport.maxX / pixelsPerFoot,
+      maxY: viewport.maxY / pixelsPerFoot
+    }).map(geometry => geometry.placed.id))
+    return visible.filter(item => inView.has(item.id) || selectedEquipmentIds.includes(item.id))
+  }, [equipment, layers, groupFilterId, viewport, clearance, pixelsPerFoot, selectedEquipmentIds])
+
+  const screenPxPerFoot = pixelsPerFoot * scale
+  const showLabels = screenPxPerFoot >= LABEL_MIN_SCREEN_PX_PER_FT
+  const showDetail = screenPxPerFoot >= DETAIL_MIN_SCREEN_PX_PER_FT
+  const cachePixelRatio = getCachePixelRatio(scale)
+  const labelFontSize = Math.max(10, 12 / scale) // labels keep a readable size on screen
+
+  // Cache unselected items as bitmaps so panning and zooming redraw one image per item
+  // instead of every shape. An item is re-cached when its data or its look changes.
+  const cacheKeysRef = useRef(new WeakMap<Konva.Group, { placed: PlacedEquipment; definition?: EquipmentItem; key: string }>())
+  useEffect(() => {
+    const cacheKeys = cacheKeysRef.current
+    const definitionsById = new Map(allEquipmentDefinitions.map(def => [def.id, def]))
+    drawOrder.forEach(item => {
+      const node = nodeRefs.current.get(item.id)
+      if (!node) return
+      const isLive = selectedEquipmentIds.includes(item.id) || conflictIds.has(item.id)
+      if (isLive) {
+        if (cacheKeys.has(node)) {
+          node.clearCache()
+          cacheKeys.delete(node)
+        }
+        return
+      }
+      const definition = definitionsById.get(item.equipmentId)
+      const key = `${cachePixelRatio}:${showLabels ? labelFontSize : 0}:${showDetail}`
+      const cached = cacheKeys.get(node)
+      if (cached && cached.placed === item && cached.definition === definition && cached.key === key) return
+      node.clearCache()
+      node.cache({ pixelRatio: cachePixelRatio })
+      cacheKeys.set(node, { placed: item, definition, key })
+    })
+  }, [drawOrder, allEquipmentDefinitions, selectedEquipmentIds, conflictIds, cachePixelRatio, showLabels, labelFontSize, showDetail])
+  const layerLookup = useMemo(() => getLayerLookup(layers), [layers])
 
   // Snap position to grid
   const snapToGridPosition = (x: number, y: number) => {
@@ -42,29 +177,230 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
     return { x: snappedX, y: snappedY }
   }
 
+  // Where a dragged item lands: smart guides take an axis when they snap on it, the grid takes the rest
+  const getDragPosition = (placedEquipment: PlacedEquipment, rawX: number, rawY: number, evt?: MouseEvent) => {
+    const gridPosition = snapToGridPosition(rawX, rawY)
+    if (!smartGuides || evt?.altKey) return { ...gridPosition, snapped: false, guides: [] as SnapGuide[] }
+
+    const definition = allEquipmentDefinitions.find(def => def.id === placedEquipment.equipmentId)
+    const moving = buildEquipmentGeometry({ ...placedEquipment, x: rawX, y: rawY }, definition, pixelsPerFoot)
+    const threshold = 8 / scale / pixelsPerFoot // 8 screen pixels, in feet
+    const searchMargin = Math.max(SMART_GUIDE_RANGE_FT, threshold + getMaxRuleSeparation(clearanceRules))
+    const neighbours = clearanceIndex?.queryBounds(moving.bounds, searchMargin) ?? []
+    const snap = findSmartSnap(moving, neighbours, threshold, neighbour =>
+      findClearanceRule(clearanceRules, definition, neighbour.definition)?.minSeparation
+    )
+
+    return {
+      x: snap.snappedX ? rawX + snap.dx * pixelsPerFoot : gridPosition.x,
+      y: snap.snappedY ? rawY + snap.dy * pixelsPerFoot : gridPosition.y,
+      snapped: snap.snappedX || snap.snappedY,
+      guides: snap.guides
+    }
+  }
+
   const handleEquipmentClick = (placedEquipment: PlacedEquipment, e?: any) => {
     // Stop event propagation to prevent stage click handler from firing
     if (e) {
       e.cancelBubble = true
     }
+    // Right-clicks open the context menu and leave the selection to it
+    if (e?.evt?.button === 2) return
+
+    // Shift/Ctrl/Cmd-click adds or removes the item from the selection
+    const evt = e?.evt
+    if (evt && (evt.shiftKey || evt.ctrlKey || evt.metaKey) && onSelectionChange) {
+      onSelectionChange(
+        selectedEquipmentIds.includes(placedEquipment.id)
+          ? selectedEquipmentIds.filter(id => id !== placedEquipment.id)
+          : [...selectedEquipmentIds, placedEquipment.id]
+      )
+      return
+    }
     onEquipmentSelect?.(placedEquipment)
   }
 
-  const handleDragEnd = (equipmentId: string, e: any) => {
-    const rawX = e.target.x()
-    const rawY = e.target.y()
-    const { x, y } = snapToGridPosition(rawX, rawY)
+  const recordGroupStarts = (): GroupGesture['starts'] => {
+    const starts: GroupGesture['starts'] = new Map()
+    equipment.forEach(item => {
+      if (selectedEquipmentIds.includes(item.id) && !item.locked) {
+        starts.set(item.id, { x: item.x, y: item.y, rotation: item.rotation })
+      }
+    })
+    return starts
+  }
+
+  // Put the selection back where a group gesture started
+  const restoreGroupStarts = (starts: GroupGesture['starts']) => {
+    starts.forEach((start, id) => {
+      const node = nodeRefs.current.get(id)
+      node?.position({ x: start.x, y: start.y })
+      node?.rotation(start.rotation)
+    })
+  }
+
+  // Flag the moving items involved in the conflicts, re-rendering only when the set changes
+  const flagConflicts = (conflicts: ClearanceViolation[], movingIds: Set<string>) => {
+    const ids = new Set(conflicts
+      .flatMap(conflict => [conflict.equipment1.id, conflict.equipment2.id])
+      .filter(id => movingIds.has(id)))
+    if (ids.size === conflictIds.size && Array.from(ids).every(id => conflictIds.has(id))) return
+    setConflictIds(ids.size > 0 ? ids : NO_CONFLICTS)
+  }
+
+  // In strict placement, where a group gesture may land: pushed clear as a whole, or
+  // null to put the selection back
+  const getLegalGroupTransforms = (transforms: EquipmentTransform[]) => {
+    if (!strictPlacement || !clearanceIndex) return transforms
+    return clearanceIndex.findLegalTransform(transforms, snapToGrid ? gridSize : undefined, true)
+  }
+
+  // Dragging any selected item drags the whole selection with it
+  const handleDragStart = (placedEquipment: PlacedEquipment, e: Konva.KonvaEventObject<DragEvent | PointerEvent>) => {
+    if (e.target !== e.currentTarget) return
+    if (isGroupSelection && selectedEquipmentIds.includes(placedEquipment.id)) {
+      groupGestureRef.current = { anchorId: placedEquipment.id, starts: recordGroupStarts() }
+    }
+  }
+
+  // Flag the dragged equipment while its clearance intrudes on another item's zone
+  const handleDragMove = (placedEquipment: PlacedEquipment, e: Konva.KonvaEventObject<DragEvent | PointerEvent>) => {
+    // Ignore drags bubbling up from the rotation handle
+    if (e.target !== e.currentTarget) return
+
+    const gesture = groupGestureRef.current
+    if (gesture?.anchorId === placedEquipment.id) {
+      const start = gesture.starts.get(placedEquipment.id)!
+      const dx = e.target.x() - start.x
+      const dy = e.target.y() - start.y
+      const transforms = Array.from(gesture.starts.entries()).map(([id, itemStart]) => ({
+        id,
+        x: itemStart.x + dx,
+        y: itemStart.y + dy,
+        rotation: itemStart.rotation
+      }))
+      transforms.forEach(transform => {
+        if (transform.id === placedEquipment.id) return
+        nodeRefs.current.get(transform.id)?.position({ x: transform.x, y: transform.y })
+      })
+      selectionFrameRef.current?.position({ x: dx, y: dy })
+      if (clearanceIndex) flagConflicts(clearanceIndex.findTransformConflicts(transforms, true), new Set(gesture.starts.keys()))
+      return
+    }
+
+    const { x, y, snapped, guides } = getDragPosition(placedEquipment, e.target.x(), e.target.y(), e.evt)
+    if (guides.length > 0 || snapGuides.length > 0) setSnapGuides(guides)
+    // Pull the item onto the guide while dragging so it visibly locks in place
+    if (snapped) e.target.position({ x, y })
+    if (clearanceIndex) flagConflicts(clearanceIndex.findConflicts({ ...placedEquipment, x, y }), new Set([placedEquipment.id]))
+  }
+
+  const handleDragEnd = (placedEquipment: PlacedEquipment, e: Konva.KonvaEventObject<DragEvent | PointerEvent>) => {
+    if (e.target !== e.currentTarget) return
+    setConflictIds(NO_CONFLICTS)
+    setSnapGuides([])
+
+    const gesture = groupGestureRef.current
+    if (gesture?.anchorId === placedEquipment.id) {
+      groupGestureRef.current = null
+      // Snap the grabbed item and move the rest by the same amount
+      const start = gesture.starts.get(placedEquipment.id)!
+      const snapped = snapToGridPosition(e.target.x(), e.target.y())
+      const dx = snapped.x - start.x
+      const dy = snapped.y - start.y
+      selectionFrameRef.current?.position({ x: 0, y: 0 })
+      const transforms = getLegalGroupTransforms(Array.from(gesture.starts.entries()).map(([id, itemStart]) => ({
+        id,
+        x: itemStart.x + dx,
+        y: itemStart.y + dy,
+        rotation: itemStart.rotation
+      })))
+      if (!transforms) {
+        // No safe spot nearby - put the selection back where it was
+        restoreGroupStarts(gesture.starts)
+        return
+      }
+      transforms.forEach(transform => nodeRefs.current.get(transform.id)?.position({ x: transform.x, y: transform.y }))
+      onEquipmentTransform?.(transforms, 'move')
+      return
+    }
+
+    let { x, y } = getDragPosition(placedEquipment, e.target.x(), e.target.y(), e.evt)
+
+    if (strictPlacement && clearanceIndex) {
+      const legalPosition = clearanceIndex.findLegalPosition(
+        { ...placedEquipment, x, y },
+        snapToGrid ? gridSize : undefined
+      )
+      if (!legalPosition) {
+        // No safe spot nearby - put the equipment back where it was
+        e.target.x(placedEquipment.x)
+        e.target.y(placedEquipment.y)
+        return
+      }
+      x = legalPosition.x
+      y = legalPosition.y
+    }
     
     // Update the visual position immediately
     e.target.x(x)
     e.target.y(y)
     
-    onEquipmentMove?.(equipmentId, x, y)
+    onEquipmentMove?.(placedEquipment.id, x, y)
+  }
+
+  // Angle from the equipment center to the pointer, measured from the front (top) edge
+  const getHandleRotation = (placedEquipment: PlacedEquipment, e: Konva.KonvaEventObject<DragEvent | PointerEvent>) => {
+    const pointer = e.target.getLayer()?.getRelativePointerPosition()
+    if (!pointer) return null
+
+    const angle = Math.atan2(pointer.y - placedEquipment.y, pointer.x - placedEquipment.x)
+    const degrees = (angle * 180) / Math.PI + 90
+    const snapOn = (rotationSnap > 0) !== !!e.evt?.altKey
+    const step = snapOn ? rotationSnap || 15 : 0
+    return { pointer, degrees: snapDegrees(degrees, step), snapped: step > 0 }
   }
 
-  // Handle rotation
-  const handleRotation = (equipmentId: string, rotation: number) => {
-    onEquipmentRotate?.(equipmentId, rotation)
+  // Rotate the node (and with it the clearance and operational zones) while the handle is dragged
+  const handleRotateMove = (placedEquipment: PlacedEquipment, e: Konva.KonvaEventObject<DragEvent | PointerEvent>, handleY: number) => {
+    const rotation = getHandleRotation(placedEquipment, e)
+    if (rotation) {
+      nodeRefs.current.get(placedEquipment.id)?.rotation(rotation.degrees)
+      setRotationReadout({ x: rotation.pointer.x, y: rotation.pointer.y, degrees: rotation.degrees, snapped: rotation.snapped })
+      if (clearanceIndex) {
+        flagConflicts(clearanceIndex.findConflicts({ ...placedEquipment, rotation: rotation.degrees }), new Set([placedEquipment.id]))
+      }
+    }
+    // Keep the handle pinned above the equipment
+    e.target.x(0)
+    e.target.y(handleY)
+  }
+
+  // Commit the rotation once, so a drag is a single undo step
+  const handleRotateEnd = (placedEquipment: PlacedEquipment, e: Konva.KonvaEventObject<DragEvent | PointerEvent>, handleY: number) => {
+    const rotation = getHandleRotation(placedEquipment, e)
+    setRotationReadout(null)
+    setConflictIds(NO_CONFLICTS)
+    e.target.x(0)
+    e.target.y(handleY)
+    if (!rotation || rotation.degrees === placedEquipment.rotation) return
+
+    const node = nodeRefs.current.get(placedEquipment.id)
+    const [transform] = getLegalGroupTransforms([
+      { id: placedEquipment.id, x: placedEquipment.x, y: placedEquipment.y, rotation: rotation.degrees }
+    ]) ?? []
+    if (!transform) {
+      // No safe spot nearby - turn the equipment back
+      node?.rotation(placedEquipment.rotation)
+      return
+    }
+    if (transform.x !== placedEquipment.x || transform.y !== placedEquipment.y) {
+      // Pushed clear, so the rotation moves the item too
+      node?.position({ x: transform.x, y: transform.y })
+      onEquipmentTransform?.([transform], 'rotate')
+    } else {
+      onEquipmentRotate?.(placedEquipment.id, rotation.degrees)
+    }
   }
 
   // Handle keyboard events for deletion
@@ -75,12 +411,182 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
     }
   }
 
-  // Combine static library with custom equipment definitions
-  const allEquipmentDefinitions = equipmentDefinitions || equipmentLibrary
+  // Axis-aligned box around the selected footprints, in canvas pixels. Built from the
+  // items themselves, so the frame follows a move before the page re-indexes it.
+  const selectionBounds = useMemo(() => {
+    if (selectedEquipmentIds.length < 2) return null
+    const definitionsById = new Map(allEquipmentDefinitions.map(def => [def.id, def]))
+    const footprints = equipment
+      .filter(item => selectedEquipmentIds.includes(item.id))
+      .map(item => buildEquipmentGeometry(item, definitionsById.get(item.equipmentId), pixelsPerFoot).footprint)
+    if (footprints.length < 2) return null
+    const bounds = polygonBounds(footprints.flat())
+    return {
+      minX: bounds.minX * pixelsPerFoot,
+      minY: bounds.minY * pixelsPerFoot,
+      maxX: bounds.maxX * pixelsPerFoot,
+      maxY: bounds.maxY * pixelsPerFoot
+    }
+  }, [selectedEquipmentIds, allEquipmentDefinitions, equipment, pixelsPerFoot])
+
+  // Rotate the whole selection about the center of its bounding box
+  const handleGroupRotateStart = (e: Konva.KonvaEventObject<DragEvent | PointerEvent>) => {
+    if (!selectionBounds) return
+    const pointer = e.target.getLayer()?.getRelativePointerPosition()
+    if (!pointer) return
+    const center = {
+      x: (selectionBounds.minX + selectionBounds.maxX) / 2,
+      y: (selectionBounds.minY + selectionBounds.maxY) / 2
+    }
+    groupGestureRef.current = {
+      center,
+      startAngle: Math.atan2(pointer.y - center.y, pointer.x - center.x),
+      starts: recordGroupStarts()
+    }
+  }
+
+  const getGroupRotation = (e: Konva.KonvaEventObject<DragEvent | PointerEvent>): { transforms: EquipmentTransform[]; degrees: number } | null => {
+    const gesture = groupGestureRef.current
+    const pointer = e.target.getLayer()?.getRelativePointerPosition()
+    if (!gesture?.center || gesture.startAngle === undefined || !pointer) return null
+
+    const angle = Math.atan2(pointer.y - gesture.center.y, pointer.x - gesture.center.x)
+    const degrees = ((angle - gesture.startAngle) * 180) / Math.PI
+    const transforms = Array.from(gesture.starts.entries()).map(([id, start]) => {
+      const offset = rotatePoint({ x: start.x - gesture.center!.x, y: start.y - gesture.center!.y }, degrees)
+      return {
+        id,
+        x: gesture.center!.x + offset.x,
+        y: gesture.center!.y + offset.y,
+        rotation: normalizeDegrees(start.rotation + degrees)
+      }
+    })
+    return { transforms, degrees }
+  }
+
+  const handleGroupRotateMove = (e: Konva.KonvaEventObject<DragEvent | PointerEvent>, handleY: number) => {
+    const rotation = getGroupRotation(e)
+    if (rotation) {
+      rotation.transforms.forEach(transform => {
+        const node = nodeRefs.current.get(transform.id)
+        node?.position({ x: transform.x, y: transform.y })
+        node?.rotation(transform.rotation)
+      })
+      selectionFrameRef.current?.rotation(rotation.degrees)
+      const gesture = groupGestureRef.current
+      if (clearanceIndex && gesture) {
+        flagConflicts(clearanceIndex.findTransformConflicts(rotation.transforms, true), new Set(gesture.starts.keys()))
+      }
+    }
+    // Keep the handle pinned to the frame
+    e.target.x(0)
+    e.target.y(handleY)
+  }
+
+  const handleGroupRotateEnd = (e: Konva.KonvaEventObject<DragEvent | PointerEvent>, handleY: number) => {
+    const rotation = getGroupRotation(e)
+    const gesture = groupGestureRef.current
+    groupGestureRef.current = null
+    setConflictIds(NO_CONFLICTS)
+    selectionFrameRef.current?.rotation(0)
+    e.target.x(0)
+    e.target.y(handleY)
+    if (!rotation || !gesture || Math.abs(rotation.degrees) <= 0.01) return
+
+    const transforms = getLegalGroupTransforms(rotation.transforms)
+    if (!transforms) {
+      // No safe spot nearby - turn the selection back
+      restoreGroupStarts(gesture.starts)
+      return
+    }
+    transforms.forEach(transform => nodeRefs.current.get(transform.id)?.position({ x: transform.x, y: transform.y }))
+    onEquipmentTransform?.(transforms, 'rotate')
+  }
+
+  const renderSelectionFrame = () => {
+    if (!selectionBounds) return null
+    const padding = 6 / scale
+    const centerX = (selectionBounds.minX + selectionBounds.maxX) / 2
+    const centerY = (selectionBounds.minY + selectionBounds.maxY) / 2
+    const halfWidth = (selectionBounds.maxX - selectionBounds.minX) / 2 + padding
+    const halfHeight = (selectionBounds.maxY - selectionBounds.minY) / 2 + padding
+    const handleY = -halfHeight - 20 / scale
+    const buttonSize = 14 * handleScale / scale
+
+    return (
+      <Group x={centerX} y={centerY}>
+        <Group ref={selectionFrameRef}>
+          <Rect
+            x={-halfWidth}
+            y={-halfHeight}
+            width={halfWidth * 2}
+            height={halfHeight * 2}
+            stroke="#2563eb"
+            strokeWidth={1.5 / scale}
+            dash={[6 / scale, 4 / scale]}
+            listening={false}
+          />
+          <Rect
+            x={-0.5 / scale}
+            y={handleY}
+            width={1 / scale}
+            height={-handleY - halfHeight}
+            fill="#10b981"
+            listening={false}
+          />
+          <Circle
+            x={0}
+            y={handleY}
+            radius={7 * handleScale / scale}
+            fill="#10b981"
+            stroke="#ffffff"
+            strokeWidth={1 / scale}
+            draggable
+            onDragStart={handleGroupRotateStart}
+            onDragMove={(e) => handleGroupRotateMove(e, handleY)}
+            onDragEnd={(e) => handleGroupRotateEnd(e, handleY)}
+          />
+
+          {/* Duplicate and delete the whole selection */}
+          <Group
+            x={halfWidth - buttonSize * 2 - 4 / scale}
+            y={-halfHeight - buttonSize - 4 / scale}
+            onPointerClick={(e) => {
+              e.cancelBubble = true
+              onEquipmentsDuplicate?.(selectedEquipmentIds)
+            }}
+          >
+            <Rect width={buttonSize} height={buttonSize} fill="#2563eb" cornerRadius={2 / scale} />
+            <Text width={buttonSize} height={buttonSize} text="⧉" fontSize={10 / scale} fill="white" align="center" verticalAlign="middle" listening={false} />
+          </Group>
+          <Group
+            x={halfWidth - buttonSize}
+            y={-halfHeight - buttonSize - 4 / scale}
+            onPointerClick={(e) => {
+              e.cancelBubble = true
+              onEquipmentsDelete?.(selectedEquipmentIds)
+            }}
+          >
+            <Rect width={buttonSize} height={buttonSize} fill="#ef4444" cornerRadius={2 / scale} />
+            <Text width={buttonSize} height={buttonSize} text="×" fontSize={12 / scale} fill="white" align="center" verticalAlign="middle" listening={false} />
+          </Group>
+
+          <Text
+            x={-halfWidth}
+            y={halfHeight + 4 / scale}
+            text={`${selectedEquipmentIds.length} selected`}
+            fontSize={11 / scale}
+            fill="#2563eb"
+            listening={false}
+          />
+        </Group>
+      </Group>
+    )
+  }
 
   return (
     <Group>
-      {equipment.map(placedEquipment => {
+      {drawOrder.map(placedEquipment => {
         // Find the equipment definition in combined definitions
         const equipmentDef = allEquipmentDefinitions.find(
           (item: EquipmentItem) => item.id === placedEquipment.equipmentId
@@ -88,7 +594,9 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
         
         if (!equipmentDef) return null
 
-        const isSelected = selectedEquipmentId === placedEquipment.id
+        const isSelected = selectedEquipmentIds.includes(placedEquipment.id)
+        const isEditable = isEquipmentEditable(placedEquipment, layerLookup)
+        const isInConflict = conflictIds.has(placedEquipment.id)
         // Use the stored dimensions (which include custom dimensions) instead of library lookup
         const dimensions = placedEquipment.dimensions
         const isCircular = dimensions.shape === 'circle'
@@ -97,30 +605,38 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
         const width = isCircular ? (dimensions as any).radius * 2 * pixelsPerFoot : (dimensions as any).width * pixelsPerFoot
         const height = isCircular ? (dimensions as any).radius * 2 * pixelsPerFoot : (dimensions as any).height * pixelsPerFoot
         const radius = isCircular ? (dimensions as any).radius * pixelsPerFoot : 0
+        const rotationHandleY = (isCircular ? -radius : -height / 2) - 24 / scale
 
         return (
           <Group
             key={placedEquipment.id}
+            ref={(node) => {
+              if (node) nodeRefs.current.set(placedEquipment.id, node)
+              else nodeRefs.current.delete(placedEquipment.id)
+            }}
             x={placedEquipment.x}
             y={placedEquipment.y}
+            // Children are drawn centered on the origin, so x/y is the equipment center and rotation pivot
             rotation={placedEquipment.rotation}
-            // Set rotation origin to center of the equipment
-            offsetX={isCircular ? radius : width / 2}
-            offsetY={isCircular ? radius : height / 2}
-            draggable
-            onClick={(e) => handleEquipmentClick(placedEquipment, e)}
-            onDragEnd={(e) => handleDragEnd(placedEquipment.id, e)}
+            name="equipment"
+            id={placedEquipment.id}
+            draggable={isEditable && !placedEquipment.locked}
+            listening={isEditable}
+            onPointerClick={(e) => handleEquipmentClick(placedEquipment, e)}
+            onDragStart={(e) => handleDragStart(placedEquipment, e)}
+            onDragMove={(e) => handleDragMove(placedEquipment, e)}
+            onDragEnd={(e) => handleDragEnd(placedEquipment, e)}
             onKeyDown={(e: any) => handleKeyDown(placedEquipment.id, e)}
             tabIndex={0}
           >
             {/* Equipment Shape - Rectangle or Circle */}
             {isCircular ? (
               <Circle
-                x={0} // Circle is centered at the Group's origin (which is offset)
+                x={0} // Circle is centered at the Group's origin
                 y={0}
                 radius={radius}
                 fill={equipmentDef.color}
-                stroke={isSelected ? '#2563eb' : '#666666'}
+                stroke={isInConflict ? '#ef4444' : isSelected ? '#2563eb' : '#666666'}
                 strokeWidth={isSelected ? 3 : 1}
                 opacity={0.8}
               />
@@ -131,7 +647,7 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
                 width={width}
                 height={height}
                 fill={equipmentDef.color}
-                stroke={isSelected ? '#2563eb' : '#666666'}
+                stroke={isInConflict ? '#ef4444' : isSelected ? '#2563eb' : '#666666'}
                 strokeWidth={isSelected ? 3 : 1}
                 opacity={0.8}
                 cornerRadius={2}
@@ -139,11 +655,11 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
             )}
 
             {/* Equipment Label */}
-            <Text
-              text={placedEquipment.customLabel || equipmentDef.name}
+            {showLabels && <Text
+              text={`${placedEquipment.locked ? '🔒 ' : ''}${placedEquipment.customLabel || equipmentDef.name}`}
               x={isCircular ? -radius + 2 : -width / 2 + 2}
               y={isCircular ? -6 : -height / 2 + 2}
-              fontSize={Math.max(10, 12 / scale)}
+              fontSize={labelFontSize}
               fill={isSelected ? '#2563eb' : '#000000'}
               fontFamily="Arial"
               fontStyle="bold"
@@ -153,7 +669,7 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
               align="center"
               verticalAlign="middle"
               listening={false}
-            />
+            />}
 
             {/* Custom Clearance Zone */}
             {(() => {
@@ -163,60 +679,63 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
                 clearance = createDefaultClearance(dimensions, equipmentDef.rideClearing)
               }
               
-              // Debug logging for clearance rendering
-              console.log('EquipmentLayer - clearance rendering:', {
-                equipmentId: placedEquipment.id,
-                equipmentName: equipmentDef.name,
-                placedEquipmentClearance: placedEquipment.clearance,
-                finalClearance: clearance,
-                clearanceType: clearance?.type,
-                hasCustomClearance: clearance?.type === 'custom'
-              })
-              
               if (!clearance) return null
               
               if (clearance.type === 'custom') {
-                // Render custom polygon clearance with curves
-                const polygonPoints = generateClearancePolygonPoints(clearance)
-                
-                // Enhanced debug logging for custom clearance
-                console.log('EquipmentLayer - custom clearance details:', {
-                  clearanceData: clearance,
-                  polygonPointsCount: polygonPoints.length,
-                  polygonPoints: polygonPoints,
-                  pixelsPerFoot,
-                  equipmentPosition: { x: placedEquipment.x, y: placedEquipment.y },
-                  equipmentRotation: placedEquipment.rotation
-                })
+                // Render custom polygon clearance with curves; zoomed out, the corners alone will do
+                const polygonPoints = showDetail ? generateClearancePolygonPoints(clearance) : clearance.points
                 
-                if (polygonPoints.length < 3) {
-                  console.log('EquipmentLayer - insufficient polygon points:', polygonPoints.length)
-                  return null
-                }
+                if (polygonPoints.length < 3) return null
                 
                 // Convert points to pixel coordinates relative to equipment center
                 // The clearance points are in equipment-relative coordinates (feet)
-                // We need to convert them to pixel coordinates and center them around the equipment's origin
-                // This matches how the equipment shape is positioned (centered around rotation origin)
                 const pixelPoints = polygonPoints.flatMap(point => [
-                  (point.x * pixelsPerFoot) - (isCircular ? radius : width / 2),
-                  (point.y * pixelsPerFoot) - (isCircular ? radius : height / 2)
+                  point.x * pixelsPerFoot,
+                  point.y * pixelsPerFoot
                 ])
                 
-                console.log('EquipmentLayer - rendering custom clearance Line with pixelPoints:', pixelPoints)
-                
                 return (
                   <Line
                     points={pixelPoints}
                     closed={clearance.closed}
-                    fill="rgba(255, 0, 255, 0.3)" // Bright magenta fill for visibility
-                    stroke="#ff00ff" // Bright magenta stroke
+                    fill={isInConflict ? 'rgba(239, 68, 68, 0.35)' : 'rgba(255, 0, 255, 0.3)'} // Red while intruding, otherwise bright magenta
+                    stroke={isInConflict ? '#ef4444' : '#ff00ff'}
                     strokeWidth={4} // Thicker stroke for visibility
-                    dash={[10, 5]} // More prominent dashes
+                    dash={showDetail ? [10, 5] : undefined} // More prominent dashes
                     opacity={1.0} // Full opacity for debugging
                     listening={false}
                   />
                 )
+              } else if (clearance.type === 'radial' || clearance.type === 'offset') {
+                // Ring around circular equipment; swept circle or rounded offset around rectangles
+                const distance = clearance.distance * pixelsPerFoot
+                if (distance <= 0) return null
+
+                const zoneStyle = {
+                  fill: isInConflict ? 'rgba(239, 68, 68, 0.25)' : 'rgba(255, 165, 0, 0.1)',
+                  stroke: isInConflict ? '#ef4444' : '#ff8c00',
+                  strokeWidth: 2,
+                  dash: showDetail ? [8, 4] : undefined,
+                  opacity: 0.6,
+                  listening: false
+                }
+
+                if (isCircular) {
+                  return <Ring innerRadius={radius} outerRadius={radius + distance} {...zoneStyle} />
+                }
+                if (clearance.type === 'radial') {
+                  return <Circle radius={Math.hypot(width / 2, height / 2) + distance} {...zoneStyle} />
+                }
+                return (
+                  <Rect
+                    x={-width / 2 - distance}
+                    y={-height / 2 - distance}
+                    width={width + distance * 2}
+                    height={height + distance * 2}
+                    cornerRadius={showDetail ? distance : 0}
+                    {...zoneStyle}
+                  />
+                )
               } else {
                 // Render traditional rectangular clearance
                 const front = clearance.front ?? clearance.all ?? 0
@@ -229,10 +748,10 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
                 return isCircular ? (
                   <Circle
                     radius={radius + (Math.max(front, back, left, right) * pixelsPerFoot)}
-                    fill="rgba(255, 165, 0, 0.1)" // Light orange fill
-                    stroke="#ff8c00" // Orange stroke
+                    fill={isInConflict ? 'rgba(239, 68, 68, 0.25)' : 'rgba(255, 165, 0, 0.1)'} // Red while intruding, otherwise light orange
+                    stroke={isInConflict ? '#ef4444' : '#ff8c00'}
                     strokeWidth={2}
-                    dash={[8, 4]} // Dashed line
+                    dash={showDetail ? [8, 4] : undefined} // Dashed line
                     opacity={0.6}
                     listening={false}
                   />
@@ -242,10 +761,10 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
                     y={-height / 2 - (front * pixelsPerFoot)}
                     width={width + ((left + right) * pixelsPerFoot)}
                     height={height + ((front + back) * pixelsPerFoot)}
-                    fill="rgba(255, 165, 0, 0.1)" // Light orange fill
-                    stroke="#ff8c00" // Orange stroke
+                    fill={isInConflict ? 'rgba(239, 68, 68, 0.25)' : 'rgba(255, 165, 0, 0.1)'} // Red while intruding, otherwise light orange
+                    stroke={isInConflict ? '#ef4444' : '#ff8c00'}
                     strokeWidth={2}
-                    dash={[8, 4]} // Dashed line
+                    dash={showDetail ? [8, 4] : undefined} // Dashed line
                     opacity={0.6}
                     listening={false}
                   />
@@ -253,8 +772,22 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
               }
             })()}
 
-            {/* Selection Handles (when selected) */}
-            {isSelected && (
+            {/* Operational Zones - ramps, backstage and overhang rotate with the ride */}
+            {showDetail && getOperationalZones(equipmentDef, dimensions).map((zone, index) => (
+              <Line
+                key={`${zone.kind}-${index}`}
+                points={zone.points.flatMap(point => [point.x * pixelsPerFoot, point.y * pixelsPerFoot])}
+                closed
+                fill={zoneColors[zone.kind].fill}
+                stroke={isInConflict ? '#ef4444' : zoneColors[zone.kind].stroke}
+                strokeWidth={2}
+                dash={zone.kind === 'overhang' ? [4, 4] : undefined}
+                listening={false}
+              />
+            ))}
+
+            {/* Selection Handles (when selected alone; groups get a shared frame) */}
+            {isSelected && !isGroupSelection && (
               <>
                 {/* Corner handles for resizing */}
                 <Rect
@@ -268,71 +801,58 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
                   draggable={false}
                 />
                 
-                {/* Rotation handle */}
-                <Group>
+                {/* Rotation handle - kept a constant size on screen */}
+                {!placedEquipment.locked && <Group>
+                  {/* Rotation line */}
+                  <Rect
+                    x={-0.5 / scale} // Center the rotation line
+                    y={rotationHandleY}
+                    width={1 / scale}
+                    height={(isCircular ? -radius : -height / 2) - rotationHandleY}
+                    fill="#10b981"
+                    listening={false}
+                  />
                   <Circle
                     x={0}
-                    y={isCircular ? -radius - 15 : -height / 2 - 15}
-                    radius={6}
+                    y={rotationHandleY}
+                    radius={7 * handleScale / scale}
                     fill="#10b981"
                     stroke="#ffffff"
-                    strokeWidth={1}
+                    strokeWidth={1 / scale}
                     draggable
-                    onDragMove={(e) => {
-                      const stage = e.target.getStage()
-                      if (!stage) return
-                      
-                      const pointer = stage.getPointerPosition()
-                      if (!pointer) return
-                      
-                      const group = e.target.getParent()?.getParent()
-                      if (!group) return
-                      
-                      // Use the group's position as the center for rotation calculation
-                      const centerX = group.x()
-                      const centerY = group.y()
-                      
-                      const angle = Math.atan2(pointer.y - centerY, pointer.x - centerX)
-                      const degrees = (angle * 180) / Math.PI + 90
-                      
-                      handleRotation(placedEquipment.id, degrees)
-                      
-                      // Reset the rotation handle position to prevent it from moving
-                      e.target.x(0)
-                      e.target.y(isCircular ? -radius - 15 : -height / 2 - 15)
+                    onMouseEnter={(e) => {
+                      const container = e.target.getStage()?.container()
+                      if (container) container.style.cursor = 'grab'
                     }}
+                    onMouseLeave={(e) => {
+                      const container = e.target.getStage()?.container()
+                      if (container) container.style.cursor = ''
+                    }}
+                    onDragMove={(e) => handleRotateMove(placedEquipment, e, rotationHandleY)}
+                    onDragEnd={(e) => handleRotateEnd(placedEquipment, e, rotationHandleY)}
                   />
-                  {/* Rotation line */}
-                  <Rect
-                    x={-0.5} // Center the rotation line
-                    y={isCircular ? -radius - 20 : -height / 2 - 20}
-                    width={1}
-                    height={20}
-                    fill="#10b981"
-                    listening={false}
-                  />
-                </Group>
+                </Group>}
                 
                 {/* Delete button */}
                 <Rect
-                  x={isCircular ? radius - 6 : width / 2 - 6} // Adjust for centered rotation origin
-                  y={isCircular ? -radius - 6 : -height / 2 - 6}
-                  width={12}
-                  height={12}
+                  x={(isCircular ? radius : width / 2) - 6 * handleScale} // Adjust for centered rotation origin
+                  y={(isCircular ? -radius : -height / 2) - 6 * handleScale}
+                  width={12 * handleScale}
+                  height={12 * handleScale}
                   fill="#ef4444"
                   stroke="#ffffff"
                   strokeWidth={1}
                   cornerRadius={2}
-                  onClick={(e) => {
+                  onPointerClick={(e) => {
                     e.cancelBubble = true
                     onEquipmentDelete?.(placedEquipment.id)
                   }}
                 />
                 <Text
-                  x={isCircular ? radius - 3 : width / 2 - 3} // Center the delete button text
-                  y={isCircular ? -radius - 3 : -height / 2 - 3}
+                  x={(isCircular ? radius : width / 2) - 3 * handleScale} // Center the delete button text
+                  y={(isCircular ? -radius : -height / 2) - 3 * handleScale}
                   text="×"
-                  fontSize={8}
+                  fontSize={8 * handleScale}
                   fill="white"
                   align="center"
                   listening={false}
@@ -342,6 +862,52 @@ const EquipmentLayer: React.FC<EquipmentLayerProps> = ({
           </Group>
         )
       })}
+
+      {/* Group selection frame with rotation handle */}
+      {renderSelectionFrame()}
+
+      {/* Smart guides while dragging, with the gap to the neighbour */}
+      {snapGuides.map((guide, index) => {
+        const color = guide.kind === 'align' ? '#EC4899' : '#F97316'
+        const position = guide.position * pixelsPerFoot
+        const points = guide.orientation === 'vertical'
+          ? [position, guide.start * pixelsPerFoot, position, guide.end * pixelsPerFoot]
+          : [guide.start * pixelsPerFoot, position, guide.end * pixelsPerFoot, position]
+        return (
+          <Group key={`guide-${index}`} listening={false}>
+            <Line
+              points={points}
+              stroke={color}
+              strokeWidth={1 / scale}
+              dash={guide.kind === 'align' ? [4 / scale, 4 / scale] : undefined}
+            />
+            {guide.labelAt && guide.distance !== undefined && (
+              <Text
+                x={guide.labelAt.x * pixelsPerFoot + 4 / scale}
+                y={guide.labelAt.y * pixelsPerFoot + 4 / scale}
+                text={`${guide.distance.toFixed(1)} ft`}
+                fontSize={11 / scale}
+                fill={color}
+                fontStyle="bold"
+              />
+            )}
+          </Group>
+        )
+      })}
+
+      {/* Live angle while the rotation handle is dragged */}
+      {rotationReadout && (
+        <Text
+          x={rotationReadout.x + 12 / scale}
+          y={rotationReadout.y - 24 / scale}
+          text={`${Math.round(rotationReadout.degrees * 10) / 10}°${rotationReadout.snapped ? '' : ' (free)'}`}
+          fontSize={13 / scale}
+          fontStyle="bold"
+          fill="#047857"
+          padding={3 / scale}
+          listening={false}
+        />
+      )}
     </Group>
   )
 }
@@ -351,20 +917,23 @@ export default React.memo(EquipmentLayer, (prevProps, nextProps) => {
   // Custom comparison for performance optimization
   return (
     prevProps.equipment.length === nextProps.equipment.length &&
+    prevProps.equipmentDefinitions === nextProps.equipmentDefinitions &&
     prevProps.scale === nextProps.scale &&
-    prevProps.selectedEquipmentId === nextProps.selectedEquipmentId &&
+    prevProps.pixelsPerFoot === nextProps.pixelsPerFoot &&
+    (prevProps.selectedEquipmentIds || NO_SELECTION).join(',') === (nextProps.selectedEquipmentIds || NO_SELECTION).join(',') &&
     prevProps.snapToGrid === nextProps.snapToGrid &&
     prevProps.gridSize === nextProps.gridSize &&
-    // Deep compare equipment array (only if lengths match)
-    prevProps.equipment.every((prevEq, index) => {
-      const nextEq = nextProps.equipment[index]
-      return (
-        prevEq.id === nextEq.id &&
-        prevEq.x === nextEq.x &&
-        prevEq.y === nextEq.y &&
-        prevEq.rotation === nextEq.rotation &&
-        prevEq.equipmentId === nextEq.equipmentId
-      )
-    })
+    prevProps.strictPlacement === nextProps.strictPlacement &&
+    prevProps.clearance === nextProps.clearance &&
+    prevProps.rotationSnap === nextProps.rotationSnap &&
+    prevProps.smartGuides === nextProps.smartGuides &&
+    prevProps.clearanceRules === nextProps.clearanceRules &&
+    prevProps.layers === nextProps.layers &&
+    prevProps.groupFilterId === nextProps.groupFilterId &&
+    prevProps.viewport === nextProps.viewport &&
+    prevProps.largeHandles === nextProps.largeHandles &&
+    // Edits replace the placed item instead of changing it, so an unchanged item is the
+    // same object. This catches every field: lock, label, clearance, size and position.
+    prevProps.equipment.every((prevEq, index) => prevEq === nextProps.equipment[index])
   )
 })
@@ -0,0 +1,142 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Bounds } from '@/lib/utils/geometry'
+
+interface FrameTimeMonitorProps {
+  siteBounds: Bounds // whole site in canvas pixels; the pan sweep covers it
+  itemCount: number
+  onFocus: (bounds: Bounds) => void // zoom the canvas to a region
+  className?: string
+}
+
+interface FrameStats {
+  frames: number
+  average: number
+  p95: number
+  max: number
+}
+
+const SWEEP_COLUMNS = 12
+const SWEEP_ROWS = 8
+const SWEEP_FRAMES_PER_STOP = 2 // frames spent at each viewport before moving on
+
+const summarize = (frameTimes: number[]): FrameStats | null => {
+  if (frameTimes.length === 0) return null
+  const sorted = [...frameTimes].sort((a, b) => a - b)
+  return {
+    frames: sorted.length,
+    average: sorted.reduce((sum, time) => sum + time, 0) / sorted.length,
+    p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    max: sorted[sorted.length - 1]
+  }
+}
+
+// Viewports stepping across the site in a serpentine, one screen-sized window at a time
+const getSweepStops = (site: Bounds): Bounds[] => {
+  const stepX = (site.maxX - site.minX) / SWEEP_COLUMNS
+  const stepY = (site.maxY - site.minY) / SWEEP_ROWS
+  const stops: Bounds[] = []
+  for (let row = 0; row < SWEEP_ROWS; row++) {
+    for (let i = 0; i < SWEEP_COLUMNS; i++) {
+      const column = row % 2 === 0 ? i : SWEEP_COLUMNS - 1 - i
+      const minX = site.minX + column * stepX
+      const minY = site.minY + row * stepY
+      stops.push({ minX, minY, maxX: minX + stepX, maxY: minY + stepY })
+    }
+  }
+  return stops
+}
+
+// Frame time overlay for the large-layout benchmark (?benchmark=<count>). Records the
+// interval between animation frames while the user pans and zooms, or while a scripted
+// sweep moves the view across the whole site.
+const FrameTimeMonitor: React.FC<FrameTimeMonitorProps> = ({
+  siteBounds,
+  itemCount,
+  onFocus,
+  className = ''
+}) => {
+  const frameTimesRef = useRef<number[]>([])
+  const sweepRef = useRef<{ stops: Bounds[]; frame: number; startIndex: number } | null>(null)
+  const [stats, setStats] = useState<FrameStats | null>(null)
+  const [sweepResult, setSweepResult] = useState<FrameStats | null>(null)
+  const [sweeping, setSweeping] = useState(false)
+  const onFocusRef = useRef(onFocus)
+  onFocusRef.current = onFocus
+
+  useEffect(() => {
+    let frameId = 0
+    let last = performance.now()
+
+    const tick = (now: number) => {
+      frameTimesRef.current.push(now - last)
+      last = now
+
+      const sweep = sweepRef.current
+      if (sweep) {
+        const stop = Math.floor(sweep.frame / SWEEP_FRAMES_PER_STOP)
+        if (stop < sweep.stops.length) {
+          if (sweep.frame % SWEEP_FRAMES_PER_STOP === 0) onFocusRef.current(sweep.stops[stop])
+          sweep.frame++
+        } else {
+          const result = summarize(frameTimesRef.current.slice(sweep.startIndex))
+          setSweepResult(result)
+          setSweeping(false)
+          sweepRef.current = null
+        }
+      }
+      frameId = requestAnimationFrame(tick)
+    }
+    frameId = requestAnimationFrame(tick)
+
+    // Refresh the readout twice a second rather than every frame
+    const interval = setInterval(() => setStats(summarize(frameTimesRef.current)), 500)
+    return () => {
+      cancelAnimationFrame(frameId)
+      clearInterval(interval)
+    }
+  }, [itemCount])
+
+  const handleReset = () => {
+    frameTimesRef.current = []
+    setStats(null)
+    setSweepResult(null)
+  }
+
+  const handleSweep = () => {
+    sweepRef.current = { stops: getSweepStops(siteBounds), frame: 0, startIndex: frameTimesRef.current.length }
+    setSweepResult(null)
+    setSweeping(true)
+  }
+
+  const formatStats = (value: FrameStats | null) =>
+    value
+      ? `avg ${value.average.toFixed(1)} ms · p95 ${value.p95.toFixed(1)} ms · max ${value.max.toFixed(1)} ms (${value.frames} frames)`
+      : 'No frames yet'
+
+  return (
+    <div className={`bg-white/95 dark:bg-gray-800/95 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg px-3 py-2 text-xs text-gray-700 dark:text-gray-200 space-y-1 ${className}`}>
+      <div className="font-semibold">Benchmark · {itemCount} items</div>
+      <div>Frames: {formatStats(stats)}</div>
+      {sweepResult && <div className="text-blue-700 dark:text-blue-300">Pan sweep: {formatStats(sweepResult)}</div>}
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={handleSweep}
+          disabled={sweeping}
+          className="px-2 py-0.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {sweeping ? 'Sweeping…' : 'Run pan sweep'}
+        </button>
+        <button
+          onClick={handleReset}
+          className="px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default FrameTimeMonitor
@@ -5,13 +5,16 @@
 
 import React, { useState } from 'react';
 import { parseGoogleMapsUrl, generateSatelliteImageConfig, isGoogleMapsUrl, getLocationDescription } from '@/lib/utils/googleMapsParser';
+import { CanvasSettings } from '@/lib/project/types';
+import { getCanvasExtentFeet } from '@/lib/project/canvasSettings';
 
 interface GoogleMapsImportProps {
   onImport: (imageUrl: string, config: any) => void;
   onClose: () => void;
+  canvasSettings: CanvasSettings;
 }
 
-export default function GoogleMapsImport({ onImport, onClose }: GoogleMapsImportProps) {
+export default function GoogleMapsImport({ onImport, onClose, canvasSettings }: GoogleMapsImportProps) {
   const [url, setUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -33,7 +36,8 @@ export default function GoogleMapsImport({ onImport, onClose }: GoogleMapsImport
           mapsData.zoom,
           'ultra', // Use highest quality available
           'landscape', // Use landscape orientation for wide lots
-          2.0 // 2x coverage area for larger satellite image
+          2.0, // 2x coverage area for larger satellite image
+          getCanvasExtentFeet(canvasSettings)
         );
         setPreviewData({
           mapsData,
@@ -70,7 +74,8 @@ export default function GoogleMapsImport({ onImport, onClose }: GoogleMapsImport
         mapsData.zoom,
         'ultra', // Use highest quality available
         'landscape', // Use landscape orientation for wide lots
-        2.0 // 2x coverage area for larger satellite image
+        2.0, // 2x coverage area for larger satellite image
+        getCanvasExtentFeet(canvasSettings)
       );
       
       // Use the real Google Maps Static API with the configured API key
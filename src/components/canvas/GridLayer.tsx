@@ -1,90 +1,81 @@
 'use client'
 
 import React from 'react'
-import { Group, Line } from 'react-konva'
+import { Group, Shape } from 'react-konva'
+import Konva from 'konva'
+import { Bounds } from '@/lib/utils/geometry'
 
 interface GridLayerProps {
-  width: number
+  width: number // site size in pixels; no lines are drawn beyond it
   height: number
   gridSize?: number
   scale: number
-  x: number
-  y: number
+  viewport: Bounds // visible canvas region in pixels
   visible?: boolean
 }
 
+const MIN_LINE_SPACING_PX = 6 // closest on-screen spacing before the grid coarsens
+const MAJOR_LINE_EVERY = 5
+
+// Grid spacing for the zoom level: the base size times a power of five, so the major
+// lines of one level become the minor lines of the next
+const getGridSpacing = (gridSize: number, scale: number) => {
+  let spacing = gridSize
+  while (spacing * scale < MIN_LINE_SPACING_PX) spacing *= MAJOR_LINE_EVERY
+  return spacing
+}
+
 const GridLayer: React.FC<GridLayerProps> = ({
   width,
   height,
   gridSize = 50, // Default grid size in pixels (represents feet)
   scale,
-  x,
-  y,
+  viewport,
   visible = true
 }) => {
-  if (!visible) return null
+  if (!visible || gridSize <= 0) return null
 
-  // Performance optimization: Adaptive grid density based on zoom level
-  const getOptimalGridSize = (currentScale: number, baseGridSize: number) => {
-    if (currentScale < 0.15) return baseGridSize * 8  // Very zoomed out: fewer lines
-    if (currentScale < 0.3) return baseGridSize * 4   // Zoomed out: fewer lines
-    if (currentScale < 0.6) return baseGridSize * 2   // Medium zoom: some lines
-    return baseGridSize                               // Zoomed in: all lines
-  }
+  const spacing = getGridSpacing(gridSize, scale)
 
-  const optimizedGridSize = getOptimalGridSize(scale, gridSize)
-  const lines: JSX.Element[] = []
-  
-  // Calculate visible area with optimized padding
-  const padding = Math.min(200, width * 0.1) // Adaptive padding
-  const startX = Math.floor((-x - padding) / (optimizedGridSize * scale)) * optimizedGridSize
-  const endX = Math.ceil((width - x + padding) / (optimizedGridSize * scale)) * optimizedGridSize
-  const startY = Math.floor((-y - padding) / (optimizedGridSize * scale)) * optimizedGridSize
-  const endY = Math.ceil((height - y + padding) / (optimizedGridSize * scale)) * optimizedGridSize
+  // Lines covering the visible part of the site
+  const startX = Math.max(0, Math.floor(viewport.minX / spacing) * spacing)
+  const endX = Math.min(width, Math.ceil(viewport.maxX / spacing) * spacing)
+  const startY = Math.max(0, Math.floor(viewport.minY / spacing) * spacing)
+  const endY = Math.min(height, Math.ceil(viewport.maxY / spacing) * spacing)
+  if (startX > endX || startY > endY) return null
 
-  // Performance limit: Don't render more than 200 lines total
-  const maxLines = 200
-  const totalLinesX = Math.abs(endX - startX) / optimizedGridSize
-  const totalLinesY = Math.abs(endY - startY) / optimizedGridSize
-  
-  if (totalLinesX + totalLinesY > maxLines) {
-    // Skip rendering if too many lines would be created
-    return null
+  // All minor (or major) lines go into a single path, drawn in one stroke
+  const drawLines = (major: boolean) => (context: Konva.Context, shape: Konva.Shape) => {
+    context.beginPath()
+    for (let x = startX; x <= endX; x += spacing) {
+      if ((Math.round(x / spacing) % MAJOR_LINE_EVERY === 0) !== major) continue
+      context.moveTo(x, startY)
+      context.lineTo(x, endY)
+    }
+    for (let y = startY; y <= endY; y += spacing) {
+      if ((Math.round(y / spacing) % MAJOR_LINE_EVERY === 0) !== major) continue
+      context.moveTo(startX, y)
+      context.lineTo(endX, y)
+    }
+    context.strokeShape(shape)
   }
 
-  // Create vertical lines
-  for (let i = startX; i <= endX; i += optimizedGridSize) {
-    const isMainLine = i % (optimizedGridSize * 5) === 0 // Every 5th line is thicker (major grid)
-    lines.push(
-      <Line
-        key={`v-${i}`}
-        points={[i, startY, i, endY]}
-        stroke={isMainLine ? '#94a3b8' : '#e2e8f0'}
-        strokeWidth={isMainLine ? 1 : 0.5}
+  return (
+    <Group listening={false}>
+      <Shape
+        sceneFunc={drawLines(false)}
+        stroke="#e2e8f0"
+        strokeWidth={0.5}
         listening={false}
         perfectDrawEnabled={false}
       />
-    )
-  }
-
-  // Create horizontal lines
-  for (let i = startY; i <= endY; i += optimizedGridSize) {
-    const isMainLine = i % (optimizedGridSize * 5) === 0 // Every 5th line is thicker (major grid)
-    lines.push(
-      <Line
-        key={`h-${i}`}
-        points={[startX, i, endX, i]}
-        stroke={isMainLine ? '#94a3b8' : '#e2e8f0'}
-        strokeWidth={isMainLine ? 1 : 0.5}
+      <Shape
+        sceneFunc={drawLines(true)}
+        stroke="#94a3b8"
+        strokeWidth={1}
         listening={false}
         perfectDrawEnabled={false}
       />
-    )
-  }
-
-  return (
-    <Group listening={false}>
-      {lines}
     </Group>
   )
 }
@@ -97,8 +88,7 @@ export default React.memo(GridLayer, (prevProps, nextProps) => {
     prevProps.height === nextProps.height &&
     prevProps.gridSize === nextProps.gridSize &&
     prevProps.scale === nextProps.scale &&
-    prevProps.x === nextProps.x &&
-    prevProps.y === nextProps.y &&
+    prevProps.viewport === nextProps.viewport &&
     prevProps.visible === nextProps.visible
   )
 })
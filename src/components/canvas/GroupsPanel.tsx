@@ -0,0 +1,247 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { PlacedEquipment, EquipmentItem, EquipmentGroup } from '@/lib/equipment/types'
+import { getGroupMembers, summarizeEquipment, describeGroupSummary } from '@/lib/equipment/groups'
+
+interface GroupsPanelProps {
+  groups: EquipmentGroup[]
+  placedEquipment: PlacedEquipment[]
+  equipmentDefinitions: EquipmentItem[]
+  selectedEquipmentIds: string[]
+  filterGroupId: string | null // group the canvas is limited to, if any
+  onGroupCreate: (name: string) => void
+  onGroupRename: (groupId: string, name: string) => void
+  onGroupDelete: (groupId: string) => void
+  onGroupSelect: (groupId: string) => void
+  onEquipmentSelect: (equipmentId: string) => void
+  onRemoveFromGroup: () => void
+  onFilterChange: (groupId: string | null) => void
+  onClose: () => void
+  className?: string
+}
+
+const GroupsPanel: React.FC<GroupsPanelProps> = ({
+  groups,
+  placedEquipment,
+  equipmentDefinitions,
+  selectedEquipmentIds,
+  filterGroupId,
+  onGroupCreate,
+  onGroupRename,
+  onGroupDelete,
+  onGroupSelect,
+  onEquipmentSelect,
+  onRemoveFromGroup,
+  onFilterChange,
+  onClose,
+  className = ''
+}) => {
+  const [newGroupName, setNewGroupName] = useState('')
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameDraft, setRenameDraft] = useState('')
+
+  const definitionsById = useMemo(
+    () => new Map(equipmentDefinitions.map(def => [def.id, def])),
+    [equipmentDefinitions]
+  )
+
+  const summaries = useMemo(() => {
+    const result = new Map<string, string>()
+    groups.forEach(group => {
+      result.set(group.id, describeGroupSummary(summarizeEquipment(getGroupMembers(placedEquipment, group.id), equipmentDefinitions)))
+    })
+    return result
+  }, [groups, placedEquipment, equipmentDefinitions])
+
+  const selectionInGroup = placedEquipment.some(eq => eq.groupId && selectedEquipmentIds.includes(eq.id))
+
+  const toggleExpanded = (groupId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(groupId)) next.delete(groupId)
+      else next.add(groupId)
+      return next
+    })
+  }
+
+  const commitRename = () => {
+    const name = renameDraft.trim()
+    if (renamingId && name) onGroupRename(renamingId, name)
+    setRenamingId(null)
+  }
+
+  const handleCreate = () => {
+    onGroupCreate(newGroupName)
+    setNewGroupName('')
+  }
+
+  const iconButtonClass = 'w-6 h-6 flex items-center justify-center rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-700'
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 flex flex-col ${className}`}>
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Groups</h2>
+          <p className="text-xs text-gray-500">
+            {groups.length} group{groups.length === 1 ? '' : 's'}
+            {filterGroupId && (
+              <button onClick={() => onFilterChange(null)} className="ml-2 text-blue-600 hover:text-blue-800">
+                Show all
+              </button>
+            )}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          title="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Group tree */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {groups.length === 0 && (
+          <p className="px-2 py-4 text-sm text-gray-500">
+            Select equipment on the canvas and group it to move and report it together.
+          </p>
+        )}
+
+        {groups.map(group => {
+          const members = getGroupMembers(placedEquipment, group.id)
+          const isExpanded = expandedIds.has(group.id)
+          const isSelected = members.length > 0 && members.every(eq => selectedEquipmentIds.includes(eq.id))
+          const isFiltered = filterGroupId === group.id
+
+          return (
+            <div key={group.id}>
+              <div
+                onClick={() => onGroupSelect(group.id)}
+                className={`px-2 py-2 rounded text-sm cursor-pointer transition-colors ${
+                  isSelected ? 'bg-blue-100 text-blue-900' : 'text-gray-800 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      toggleExpanded(group.id)
+                    }}
+                    className={iconButtonClass}
+                    title={isExpanded ? 'Collapse' : 'Expand'}
+                  >
+                    {isExpanded ? '▾' : '▸'}
+                  </button>
+
+                  {renamingId === group.id ? (
+                    <input
+                      autoFocus
+                      value={renameDraft}
+                      onChange={(e) => setRenameDraft(e.target.value)}
+                      onClick={(e) => e.stopPropagation()}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename()
+                        if (e.key === 'Escape') setRenamingId(null)
+                      }}
+                      className="flex-1 min-w-0 border border-gray-300 rounded px-1 py-0.5 text-gray-900 bg-white"
+                    />
+                  ) : (
+                    <span
+                      className="flex-1 truncate font-medium"
+                      onDoubleClick={() => {
+                        setRenamingId(group.id)
+                        setRenameDraft(group.name)
+                      }}
+                      title="Double-click to rename"
+                    >
+                      {group.name}
+                    </span>
+                  )}
+
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onFilterChange(isFiltered ? null : group.id)
+                    }}
+                    className={`${iconButtonClass} ${isFiltered ? 'bg-blue-200' : ''}`}
+                    title={isFiltered ? 'Show all equipment' : 'Show only this group on the canvas'}
+                  >
+                    ⌕
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onGroupDelete(group.id)
+                    }}
+                    className={`${iconButtonClass} text-red-600`}
+                    title="Ungroup (keeps the equipment)"
+                  >
+                    ×
+                  </button>
+                </div>
+                <div className="ml-7 text-xs text-gray-500">{summaries.get(group.id)}</div>
+              </div>
+
+              {isExpanded && (
+                <div className="ml-7 border-l border-gray-200 dark:border-gray-700 pl-2 space-y-0.5">
+                  {members.map(eq => (
+                    <button
+                      key={eq.id}
+                      onClick={() => onEquipmentSelect(eq.id)}
+                      className={`w-full text-left px-2 py-1 rounded text-xs truncate transition-colors ${
+                        selectedEquipmentIds.includes(eq.id)
+                          ? 'bg-blue-50 text-blue-900'
+                          : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {eq.customLabel || definitionsById.get(eq.equipmentId)?.name || 'Equipment'}
+                    </button>
+                  ))}
+                  {members.length === 0 && <p className="px-2 py-1 text-xs text-gray-400 italic">Empty</p>}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Group the selection */}
+      {selectedEquipmentIds.length > 0 && (
+        <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 space-y-2">
+          <div className="flex gap-2">
+            <input
+              value={newGroupName}
+              onChange={(e) => setNewGroupName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreate()
+              }}
+              placeholder="Group name, e.g. Kiddieland"
+              className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm text-gray-900 bg-white"
+            />
+            <button
+              onClick={handleCreate}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              Group {selectedEquipmentIds.length}
+            </button>
+          </div>
+          {selectionInGroup && (
+            <button
+              onClick={onRemoveFromGroup}
+              className="text-xs text-red-600 hover:text-red-800"
+            >
+              Remove selection from its group
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default GroupsPanel
@@ -0,0 +1,115 @@
+'use client'
+
+import React from 'react'
+import { HistoryEntry } from '@/lib/history/commandHistory'
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]
+  position: number // number of entries currently applied
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (position: number) => void
+  onClear: () => void
+  onClose: () => void
+  className?: string
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  position,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+  onClear,
+  onClose,
+  className = ''
+}) => {
+  return (
+    <div className={`bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 flex flex-col ${className}`}>
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">History</h2>
+          <p className="text-xs text-gray-500">
+            {position} of {entries.length} steps applied
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          title="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Undo / Redo */}
+      <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 flex gap-2">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="flex-1 px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Undo (Ctrl+Z)"
+        >
+          ↶ Undo
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          className="flex-1 px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Redo (Ctrl+Shift+Z / Ctrl+Y)"
+        >
+          ↷ Redo
+        </button>
+      </div>
+
+      {/* Entry list, newest first. Clicking an entry undoes or redoes up to it. */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {entries.slice().reverse().map(entry => (
+          <button
+            key={`${entry.index}-${entry.timestamp}`}
+            onClick={() => onJump(entry.index + 1)}
+            className={`w-full text-left px-3 py-2 rounded text-sm transition-colors ${
+              entry.index === position - 1
+                ? 'bg-blue-100 text-blue-900'
+                : entry.isDone
+                ? 'text-gray-800 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'
+                : 'text-gray-400 italic hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="truncate">{entry.label}</span>
+              <span className="text-xs text-gray-400 ml-2">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+            </div>
+          </button>
+        ))}
+
+        <button
+          onClick={() => onJump(0)}
+          className={`w-full text-left px-3 py-2 rounded text-sm transition-colors ${
+            position === 0 ? 'bg-blue-100 text-blue-900' : 'text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700'
+          }`}
+        >
+          Start
+        </button>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClear}
+            className="text-xs text-red-600 hover:text-red-800"
+          >
+            Clear history
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default HistoryPanel
@@ -1,7 +1,37 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { PlacedEquipment } from '@/lib/equipment/types'
+import { ShortcutCommandId, ShortcutMap, DEFAULT_SHORTCUTS, findShortcutCommand } from '@/lib/keyboard/shortcuts'
+import { DEFAULT_CANVAS_SETTINGS } from '@/lib/project/canvasSettings'
+
+// Handlers for shortcut commands. Returning false leaves the key press to the browser.
+export type ShortcutHandlers = Partial<Record<ShortcutCommandId, () => void | boolean>>
+
+const isTyping = (e: Event) =>
+  e.target instanceof HTMLInputElement ||
+  e.target instanceof HTMLTextAreaElement ||
+  e.target instanceof HTMLSelectElement ||
+  (e.target instanceof HTMLElement && e.target.isContentEditable)
+
+// Run commands from the shortcut map while the component is mounted. Each caller handles
+// its own commands; keys for commands nobody handles are left alone.
+export function useShortcuts(shortcuts: ShortcutMap, handlers: ShortcutHandlers) {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Prevent shortcuts when typing in input fields
+      if (isTyping(e)) return
+      const commandId = findShortcutCommand(shortcuts, e)
+      const handler = commandId && handlersRef.current[commandId]
+      if (handler && handler() !== false) e.preventDefault()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [shortcuts])
+}
 
 interface KeyboardHandlerProps {
   selectedEquipmentIds: string[]
@@ -12,8 +42,23 @@ interface KeyboardHandlerProps {
   onDeselectAll: () => void
   onUndo?: () => void
   onRedo?: () => void
+  onCopy?: () => string | null // clipboard text for the selection, if any
+  onPaste?: (text: string) => boolean // whether the text was pasted as equipment
+  shortcuts?: ShortcutMap
+  nudgeStep?: number // pixels moved by an arrow key
+  largeNudgeStep?: number // pixels moved by Shift+arrow, usually the grid size
+  rotationStep?: number // degrees turned by R and Shift+R
+  onNudge?: (dx: number, dy: number) => void
+  onRotate?: (degrees: number) => void
+  onShowShortcuts?: () => void
+  selectedAnnotationIds?: string[] // delete, duplicate and nudge act on these while any are selected
+  onAnnotationsDelete?: (annotationIds: string[]) => void
+  onAnnotationsDuplicate?: (annotationIds: string[]) => void
+  onAnnotationsNudge?: (dx: number, dy: number) => void
 }
 
+const NO_ANNOTATIONS: string[] = []
+
 const KeyboardHandler: React.FC<KeyboardHandlerProps> = ({
   selectedEquipmentIds,
   placedEquipment,
@@ -22,75 +67,86 @@ const KeyboardHandler: React.FC<KeyboardHandlerProps> = ({
   onSelectAll,
   onDeselectAll,
   onUndo,
-  onRedo
+  onRedo,
+  onCopy,
+  onPaste,
+  shortcuts = DEFAULT_SHORTCUTS,
+  nudgeStep = DEFAULT_CANVAS_SETTINGS.pixelsPerFoot,
+  largeNudgeStep = DEFAULT_CANVAS_SETTINGS.gridSize,
+  rotationStep = 15,
+  onNudge,
+  onRotate,
+  onShowShortcuts,
+  selectedAnnotationIds = NO_ANNOTATIONS,
+  onAnnotationsDelete,
+  onAnnotationsDuplicate,
+  onAnnotationsNudge
 }) => {
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Prevent shortcuts when typing in input fields
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
-        return
-      }
-
-      const isCtrlOrCmd = e.ctrlKey || e.metaKey
-      const isShift = e.shiftKey
-
-      switch (e.key) {
-        case 'Delete':
-        case 'Backspace':
-          if (selectedEquipmentIds.length > 0) {
-            e.preventDefault()
-            onEquipmentDelete(selectedEquipmentIds)
-          }
-          break
-
-        case 'd':
-        case 'D':
-          if (isCtrlOrCmd && selectedEquipmentIds.length > 0) {
-            e.preventDefault()
-            onEquipmentDuplicate(selectedEquipmentIds)
-          }
-          break
-
-        case 'a':
-        case 'A':
-          if (isCtrlOrCmd) {
-            e.preventDefault()
-            onSelectAll()
-          }
-          break
-
-        case 'Escape':
-          e.preventDefault()
-          onDeselectAll()
-          break
+  const hasSelection = selectedEquipmentIds.length > 0
+  const hasAnnotationSelection = selectedAnnotationIds.length > 0
+  const nudge = (dx: number, dy: number) => {
+    if (hasAnnotationSelection && onAnnotationsNudge) return onAnnotationsNudge(dx, dy)
+    if (!hasSelection || !onNudge) return false
+    onNudge(dx, dy)
+  }
+  const rotate = (degrees: number) => {
+    if (!hasSelection || !onRotate) return false
+    onRotate(degrees)
+  }
 
-        case 'z':
-        case 'Z':
-          if (isCtrlOrCmd && !isShift && onUndo) {
-            e.preventDefault()
-            onUndo()
-          } else if (isCtrlOrCmd && isShift && onRedo) {
-            e.preventDefault()
-            onRedo()
-          }
-          break
+  useShortcuts(shortcuts, {
+    delete: () => {
+      if (hasAnnotationSelection && onAnnotationsDelete) return onAnnotationsDelete(selectedAnnotationIds)
+      if (!hasSelection) return false
+      onEquipmentDelete(selectedEquipmentIds)
+    },
+    duplicate: () => {
+      if (hasAnnotationSelection && onAnnotationsDuplicate) return onAnnotationsDuplicate(selectedAnnotationIds)
+      if (!hasSelection) return false
+      onEquipmentDuplicate(selectedEquipmentIds)
+    },
+    selectAll: onSelectAll,
+    deselect: onDeselectAll,
+    undo: onUndo,
+    redo: onRedo,
+    nudgeLeft: () => nudge(-nudgeStep, 0),
+    nudgeRight: () => nudge(nudgeStep, 0),
+    nudgeUp: () => nudge(0, -nudgeStep),
+    nudgeDown: () => nudge(0, nudgeStep),
+    nudgeLeftGrid: () => nudge(-largeNudgeStep, 0),
+    nudgeRightGrid: () => nudge(largeNudgeStep, 0),
+    nudgeUpGrid: () => nudge(0, -largeNudgeStep),
+    nudgeDownGrid: () => nudge(0, largeNudgeStep),
+    rotateClockwise: () => rotate(rotationStep),
+    rotateCounterClockwise: () => rotate(-rotationStep),
+    showShortcuts: onShowShortcuts
+  })
 
-        case 'y':
-        case 'Y':
-          if (isCtrlOrCmd && onRedo) {
-            e.preventDefault()
-            onRedo()
-          }
-          break
-
-        default:
-          break
+  useEffect(() => {
+    // Ctrl/Cmd+C and Ctrl/Cmd+V go through the copy and paste events, which can use the
+    // system clipboard without asking for permission
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isTyping(e) || !onCopy || !e.clipboardData) return
+      if (window.getSelection()?.toString()) return // copying page text
+      const text = onCopy()
+      if (text) {
+        e.clipboardData.setData('text/plain', text)
+        e.preventDefault()
       }
     }
 
-    window.addEventListener('keydown', handleKeyDown)
-    return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [selectedEquipmentIds, onEquipmentDelete, onEquipmentDuplicate, onSelectAll, onDeselectAll, onUndo, onRedo])
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTyping(e) || !onPaste || !e.clipboardData) return
+      if (onPaste(e.clipboardData.getData('text/plain'))) e.preventDefault()
+    }
+
+    window.addEventListener('copy', handleCopy)
+    window.addEventListener('paste', handlePaste)
+    return () => {
+      window.removeEventListener('copy', handleCopy)
+      window.removeEventListener('paste', handlePaste)
+    }
+  }, [onCopy, onPaste])
 
   return null // This component doesn't render anything
 }
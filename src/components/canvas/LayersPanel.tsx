@@ -0,0 +1,223 @@
+'use client'
+
+import React, { useState } from 'react'
+import { PlanLayer } from '@/lib/equipment/types'
+import { createLayer, moveLayer, DEFAULT_LAYER_ID, SUGGESTED_LAYER_NAMES } from '@/lib/equipment/layers'
+
+interface LayersPanelProps {
+  layers: PlanLayer[]
+  activeLayerId: string // layer new equipment is placed on
+  equipmentCounts: Record<string, number>
+  selectionCount: number
+  onActiveLayerChange: (layerId: string) => void
+  onLayersChange: (layers: PlanLayer[], label: string) => void
+  onLayerDelete: (layerId: string) => void
+  onMoveSelectionToLayer: (layerId: string) => void
+  onClose: () => void
+  className?: string
+}
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  activeLayerId,
+  equipmentCounts,
+  selectionCount,
+  onActiveLayerChange,
+  onLayersChange,
+  onLayerDelete,
+  onMoveSelectionToLayer,
+  onClose,
+  className = ''
+}) => {
+  const [newLayerName, setNewLayerName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameDraft, setRenameDraft] = useState('')
+
+  const updateLayer = (layerId: string, updates: Partial<PlanLayer>, label: string) => {
+    onLayersChange(layers.map(layer => layer.id === layerId ? { ...layer, ...updates } : layer), label)
+  }
+
+  const handleAddLayer = () => {
+    const layer = createLayer(newLayerName)
+    onLayersChange([...layers, layer], `Add layer ${layer.name}`)
+    onActiveLayerChange(layer.id)
+    setNewLayerName('')
+  }
+
+  const commitRename = () => {
+    const layer = layers.find(item => item.id === renamingId)
+    const name = renameDraft.trim()
+    if (layer && name && name !== layer.name) {
+      updateLayer(layer.id, { name }, `Rename layer ${layer.name}`)
+    }
+    setRenamingId(null)
+  }
+
+  const handleDelete = (layer: PlanLayer) => {
+    const count = equipmentCounts[layer.id] || 0
+    if (count > 0 && !confirm(`Delete layer "${layer.name}"? Its ${count} item(s) will move to the ${layers.find(item => item.id === DEFAULT_LAYER_ID)?.name || 'default'} layer.`)) {
+      return
+    }
+    onLayerDelete(layer.id)
+  }
+
+  const iconButtonClass = 'w-6 h-6 flex items-center justify-center rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed'
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 flex flex-col ${className}`}>
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Layers</h2>
+          <p className="text-xs text-gray-500">New equipment goes on the active layer</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          title="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Layer list, top of the stack first */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+          <div
+            key={layer.id}
+            onClick={() => onActiveLayerChange(layer.id)}
+            className={`px-2 py-2 rounded text-sm cursor-pointer transition-colors ${
+              layer.id === activeLayerId
+                ? 'bg-blue-100 text-blue-900'
+                : 'text-gray-800 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            <div className="flex items-center gap-1">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  updateLayer(layer.id, { visible: !layer.visible }, `${layer.visible ? 'Hide' : 'Show'} layer ${layer.name}`)
+                }}
+                className={iconButtonClass}
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+              >
+                {layer.visible ? '👁' : '◌'}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  updateLayer(layer.id, { locked: !layer.locked }, `${layer.locked ? 'Unlock' : 'Lock'} layer ${layer.name}`)
+                }}
+                className={iconButtonClass}
+                title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+              >
+                {layer.locked ? '🔒' : '🔓'}
+              </button>
+
+              {renamingId === layer.id ? (
+                <input
+                  autoFocus
+                  value={renameDraft}
+                  onChange={(e) => setRenameDraft(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename()
+                    if (e.key === 'Escape') setRenamingId(null)
+                  }}
+                  className="flex-1 min-w-0 border border-gray-300 rounded px-1 py-0.5 text-gray-900 bg-white"
+                />
+              ) : (
+                <span
+                  className={`flex-1 truncate ${layer.visible ? '' : 'text-gray-400 italic'}`}
+                  onDoubleClick={() => {
+                    setRenamingId(layer.id)
+                    setRenameDraft(layer.name)
+                  }}
+                  title="Double-click to rename"
+                >
+                  {layer.name}
+                </span>
+              )}
+              <span className="text-xs text-gray-400">{equipmentCounts[layer.id] || 0}</span>
+
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onLayersChange(moveLayer(layers, layer.id, 'up'), `Raise layer ${layer.name}`)
+                }}
+                disabled={index === layers.length - 1}
+                className={iconButtonClass}
+                title="Move up (draw above)"
+              >
+                ▲
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onLayersChange(moveLayer(layers, layer.id, 'down'), `Lower layer ${layer.name}`)
+                }}
+                disabled={index === 0}
+                className={iconButtonClass}
+                title="Move down (draw below)"
+              >
+                ▼
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleDelete(layer)
+                }}
+                disabled={layer.id === DEFAULT_LAYER_ID}
+                className={`${iconButtonClass} text-red-600`}
+                title={layer.id === DEFAULT_LAYER_ID ? 'The default layer cannot be deleted' : 'Delete layer'}
+              >
+                ×
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Move selection */}
+      {selectionCount > 0 && (
+        <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => onMoveSelectionToLayer(activeLayerId)}
+            className="w-full px-3 py-1 text-sm border border-gray-300 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            Move {selectionCount} selected to {layers.find(layer => layer.id === activeLayerId)?.name}
+          </button>
+        </div>
+      )}
+
+      {/* Add layer */}
+      <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 flex gap-2">
+        <input
+          value={newLayerName}
+          onChange={(e) => setNewLayerName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && newLayerName.trim()) handleAddLayer()
+          }}
+          list="layer-name-suggestions"
+          placeholder="New layer name"
+          className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm text-gray-900 bg-white"
+        />
+        <datalist id="layer-name-suggestions">
+          {SUGGESTED_LAYER_NAMES
+            .filter(name => !layers.some(layer => layer.name === name))
+            .map(name => <option key={name} value={name} />)}
+        </datalist>
+        <button
+          onClick={handleAddLayer}
+          disabled={!newLayerName.trim()}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default LayersPanel
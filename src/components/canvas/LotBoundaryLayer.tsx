@@ -0,0 +1,118 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Line, Text, Group } from 'react-konva'
+import { PlacedEquipment, EquipmentItem, LotBoundary } from '@/lib/equipment/types'
+import { buildEquipmentGeometry } from '@/lib/equipment/clearanceEngine'
+import { checkBoundaryPlacement, isValidLotBoundary } from '@/lib/equipment/lotBoundary'
+import { polygonArea } from '@/lib/utils/geometry'
+
+interface LotBoundaryLayerProps {
+  boundary: LotBoundary | null | undefined
+  scale: number
+  pixelsPerFoot: number
+  placedEquipment: PlacedEquipment[]
+  equipmentDefinitions: EquipmentItem[]
+}
+
+const LotBoundaryLayer: React.FC<LotBoundaryLayerProps> = ({
+  boundary,
+  scale,
+  pixelsPerFoot,
+  placedEquipment,
+  equipmentDefinitions
+}) => {
+  // Items that leave the lot or reach into the setback, with the outline that does
+  const flagged = useMemo(() => {
+    if (!isValidLotBoundary(boundary)) return []
+    const definitionsById = new Map(equipmentDefinitions.map(def => [def.id, def]))
+
+    return placedEquipment.flatMap(placed => {
+      const geometry = buildEquipmentGeometry(placed, definitionsById.get(placed.equipmentId), pixelsPerFoot)
+      const violation = checkBoundaryPlacement(geometry, boundary)
+      if (!violation) return []
+      const outline = violation.part === 'footprint' ? geometry.footprint : geometry.clearance
+      return [{ violation, outline }]
+    })
+  }, [boundary, placedEquipment, equipmentDefinitions, pixelsPerFoot])
+
+  if (!isValidLotBoundary(boundary)) return null
+
+  const boundaryPoints = boundary.points.flatMap(point => [point.x * pixelsPerFoot, point.y * pixelsPerFoot])
+  const labelPoint = boundary.points.reduce((top, point) => point.y < top.y ? point : top)
+
+  return (
+    <Group listening={false}>
+      {/* Setback strip: a wide stroke along the property line, clipped to the lot */}
+      {boundary.setback > 0 && (
+        <Group
+          clipFunc={(ctx) => {
+            ctx.beginPath()
+            boundary.points.forEach((point, index) => {
+              if (index === 0) ctx.moveTo(point.x * pixelsPerFoot, point.y * pixelsPerFoot)
+              else ctx.lineTo(point.x * pixelsPerFoot, point.y * pixelsPerFoot)
+            })
+            ctx.closePath()
+          }}
+        >
+          <Line
+            points={boundaryPoints}
+            closed
+            stroke="#F97316"
+            strokeWidth={boundary.setback * 2 * pixelsPerFoot}
+            lineJoin="round"
+            opacity={0.15}
+          />
+        </Group>
+      )}
+
+      {/* Property line */}
+      <Line
+        points={boundaryPoints}
+        closed
+        stroke="#7C3AED"
+        strokeWidth={3 / scale}
+        dash={[12 / scale, 6 / scale]}
+      />
+      <Text
+        x={labelPoint.x * pixelsPerFoot}
+        y={labelPoint.y * pixelsPerFoot - 18 / scale}
+        text={`Lot: ${Math.round(polygonArea(boundary.points)).toLocaleString()} sq ft${boundary.setback > 0 ? ` • ${boundary.setback} ft setback` : ''}`}
+        fontSize={12 / scale}
+        fill="#7C3AED"
+        fontStyle="bold"
+      />
+
+      {/* Equipment outside the lot or in the setback */}
+      {flagged.map(({ violation, outline }) => {
+        const color = violation.severity === 'critical' ? '#EF4444' : '#F59E0B'
+        return (
+          <Group key={`boundary-${violation.id}`}>
+            <Line
+              points={outline.flatMap(point => [point.x * pixelsPerFoot, point.y * pixelsPerFoot])}
+              closed
+              stroke={color}
+              strokeWidth={3 / scale}
+              fill={color}
+              opacity={0.35}
+            />
+            <Text
+              x={violation.equipment.x}
+              y={violation.equipment.y}
+              text={violation.description}
+              fontSize={10 / scale}
+              fill={color}
+              fontStyle="bold"
+              align="center"
+              width={160 / scale}
+              offsetX={80 / scale}
+              wrap="word"
+            />
+          </Group>
+        )
+      })}
+    </Group>
+  )
+}
+
+export default LotBoundaryLayer
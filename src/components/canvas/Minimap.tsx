@@ -0,0 +1,241 @@
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Stage, Layer, Group, Rect, Shape, Image as KonvaImage } from 'react-konva'
+import Konva from 'konva'
+import { PlacedEquipment, EquipmentItem, PlanLayer } from '@/lib/equipment/types'
+import { buildEquipmentGeometry } from '@/lib/equipment/clearanceEngine'
+import { getLayerLookup, isEquipmentVisible } from '@/lib/equipment/layers'
+import { Point } from '@/lib/utils/geometry'
+import { BackgroundImage } from './BackgroundLayer'
+
+export interface CanvasView {
+  scale: number
+  x: number
+  y: number
+}
+
+interface MinimapProps {
+  canvasWidth: number // site size in pixels
+  canvasHeight: number
+  pixelsPerFoot: number
+  placedEquipment: PlacedEquipment[]
+  equipmentDefinitions?: EquipmentItem[]
+  layers?: PlanLayer[]
+  backgroundImages: BackgroundImage[]
+  selectedEquipmentIds?: string[]
+  view: CanvasView // the main stage's zoom and position
+  stageSize: { width: number; height: number }
+  stageRef: React.RefObject<Konva.Stage> // main stage, followed live while it is dragged
+  onViewChange: (view: CanvasView) => void
+  onClose?: () => void
+  className?: string
+}
+
+const MAX_SIZE_PX = 200 // longer side of the minimap
+const ZOOM_STEP = 1.2
+const NO_DEFINITIONS: EquipmentItem[] = []
+const NO_LAYERS: PlanLayer[] = []
+const NO_SELECTION: string[] = []
+
+const Minimap: React.FC<MinimapProps> = ({
+  canvasWidth,
+  canvasHeight,
+  pixelsPerFoot,
+  placedEquipment,
+  equipmentDefinitions = NO_DEFINITIONS,
+  layers = NO_LAYERS,
+  backgroundImages,
+  selectedEquipmentIds = NO_SELECTION,
+  view,
+  stageSize,
+  stageRef,
+  onViewChange,
+  onClose,
+  className = ''
+}) => {
+  const [images, setImages] = useState<Map<string, HTMLImageElement>>(new Map())
+  const [dragPosition, setDragPosition] = useState<Point | null>(null) // main stage position mid-pan
+  const grabOffsetRef = useRef<Point | null>(null) // canvas offset from the view center while dragging the minimap
+  const footprintCacheRef = useRef(new WeakMap<PlacedEquipment, { definition?: EquipmentItem; points: Point[] }>())
+
+  // Minimap pixels per canvas pixel
+  const ratio = Math.min(MAX_SIZE_PX / canvasWidth, MAX_SIZE_PX / canvasHeight)
+  const mapWidth = Math.round(canvasWidth * ratio)
+  const mapHeight = Math.round(canvasHeight * ratio)
+
+  // Load background images for the overview, each URL once
+  const requestedUrlsRef = useRef(new Set<string>())
+  useEffect(() => {
+    backgroundImages.forEach(image => {
+      if (requestedUrlsRef.current.has(image.url)) return
+      requestedUrlsRef.current.add(image.url)
+      const element = new window.Image()
+      element.crossOrigin = 'anonymous'
+      element.onload = () => setImages(prev => new Map(prev).set(image.url, element))
+      element.src = image.url
+    })
+  }, [backgroundImages])
+
+  // Follow the main stage while it is being panned; its state only updates when the pan ends
+  useEffect(() => {
+    const stage = stageRef.current
+    if (!stage) return
+    stage.on('dragmove.minimap', (e) => {
+      if (e.target === stage) setDragPosition({ x: stage.x(), y: stage.y() })
+    })
+    return () => {
+      stage.off('dragmove.minimap')
+    }
+  }, [stageRef])
+
+  useEffect(() => {
+    setDragPosition(null)
+  }, [view])
+
+  // Footprints of the visible equipment in canvas pixels, rebuilt only for items that changed
+  const footprints = useMemo(() => {
+    const definitionsById = new Map(equipmentDefinitions.map(def => [def.id, def]))
+    const layerLookup = getLayerLookup(layers)
+    const selected = new Set(selectedEquipmentIds)
+    const result = { normal: [] as Point[][], selected: [] as Point[][] }
+
+    placedEquipment.forEach(placed => {
+      if (!isEquipmentVisible(placed, layerLookup)) return
+      const definition = definitionsById.get(placed.equipmentId)
+      let cached = footprintCacheRef.current.get(placed)
+      if (!cached || cached.definition !== definition) {
+        const { footprint } = buildEquipmentGeometry(placed, definition, pixelsPerFoot)
+        cached = { definition, points: footprint.map(point => ({ x: point.x * pixelsPerFoot, y: point.y * pixelsPerFoot })) }
+        footprintCacheRef.current.set(placed, cached)
+      }
+      ;(selected.has(placed.id) ? result.selected : result.normal).push(cached.points)
+    })
+    return result
+  }, [placedEquipment, equipmentDefinitions, layers, selectedEquipmentIds, pixelsPerFoot])
+
+  const drawFootprints = (polygons: Point[][]) => (context: Konva.Context, shape: Konva.Shape) => {
+    context.beginPath()
+    polygons.forEach(points => {
+      points.forEach((point, index) => {
+        if (index === 0) context.moveTo(point.x, point.y)
+        else context.lineTo(point.x, point.y)
+      })
+      context.closePath()
+    })
+    context.fillShape(shape)
+  }
+
+  // Visible region of the main stage, in canvas pixels
+  const position = dragPosition || view
+  const visible = {
+    x: -position.x / view.scale,
+    y: -position.y / view.scale,
+    width: stageSize.width / view.scale,
+    height: stageSize.height / view.scale
+  }
+
+  const centerOn = (center: Point, scale: number = view.scale) => {
+    onViewChange({
+      scale,
+      x: stageSize.width / 2 - center.x * scale,
+      y: stageSize.height / 2 - center.y * scale
+    })
+  }
+
+  const getCanvasPoint = (e: Konva.KonvaEventObject<PointerEvent | WheelEvent>): Point | null => {
+    const pointer = e.target.getStage()?.getPointerPosition()
+    return pointer ? { x: pointer.x / ratio, y: pointer.y / ratio } : null
+  }
+
+  // Pressing inside the viewport rectangle grabs it; pressing elsewhere jumps there
+  const handlePointerDown = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    const point = getCanvasPoint(e)
+    if (!point) return
+    const inside = point.x >= visible.x && point.x <= visible.x + visible.width &&
+      point.y >= visible.y && point.y <= visible.y + visible.height
+    const center = { x: visible.x + visible.width / 2, y: visible.y + visible.height / 2 }
+    grabOffsetRef.current = inside ? { x: point.x - center.x, y: point.y - center.y } : { x: 0, y: 0 }
+    if (!inside) centerOn(point)
+  }
+
+  const handlePointerMove = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    const offset = grabOffsetRef.current
+    const point = getCanvasPoint(e)
+    if (!offset || !point) return
+    centerOn({ x: point.x - offset.x, y: point.y - offset.y })
+  }
+
+  const handlePointerUp = () => {
+    grabOffsetRef.current = null
+  }
+
+  // Scrolling zooms the main view about its center
+  const handleWheel = (e: Konva.KonvaEventObject<WheelEvent>) => {
+    e.evt.preventDefault()
+    const center = { x: visible.x + visible.width / 2, y: visible.y + visible.height / 2 }
+    centerOn(center, e.evt.deltaY > 0 ? view.scale / ZOOM_STEP : view.scale * ZOOM_STEP)
+  }
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded shadow-lg overflow-hidden ${className}`}>
+      <div className="flex items-center justify-between px-2 py-0.5 text-xs text-gray-600 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+        <span>Overview</span>
+        {onClose && (
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Hide overview">
+            ✕
+          </button>
+        )}
+      </div>
+      <Stage
+        width={mapWidth}
+        height={mapHeight}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        onWheel={handleWheel}
+        style={{ cursor: 'pointer', touchAction: 'none' }}
+      >
+        <Layer listening={false}>
+          <Group scaleX={ratio} scaleY={ratio}>
+            <Rect width={canvasWidth} height={canvasHeight} fill="#f8fafc" />
+            {backgroundImages.filter(image => image.visible).map(image => {
+              const element = images.get(image.url)
+              if (!element) return null
+              return (
+                <KonvaImage
+                  key={image.id}
+                  image={element}
+                  x={image.x}
+                  y={image.y}
+                  width={image.width}
+                  height={image.height}
+                  scaleX={image.scaleX}
+                  scaleY={image.scaleY}
+                  rotation={image.rotation}
+                  opacity={image.opacity}
+                />
+              )
+            })}
+            <Shape sceneFunc={drawFootprints(footprints.normal)} fill="#475569" perfectDrawEnabled={false} />
+            <Shape sceneFunc={drawFootprints(footprints.selected)} fill="#2563eb" perfectDrawEnabled={false} />
+          </Group>
+        </Layer>
+        <Layer listening={false}>
+          <Rect
+            x={visible.x * ratio}
+            y={visible.y * ratio}
+            width={visible.width * ratio}
+            height={visible.height * ratio}
+            stroke="#ef4444"
+            strokeWidth={1.5}
+            fill="rgba(239, 68, 68, 0.08)"
+          />
+        </Layer>
+      </Stage>
+    </div>
+  )
+}
+
+export default Minimap
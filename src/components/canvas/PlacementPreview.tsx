@@ -0,0 +1,80 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Group, Line, Circle } from 'react-konva'
+import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
+import { buildEquipmentGeometry } from '@/lib/equipment/clearanceEngine'
+import { Point } from '@/lib/utils/geometry'
+
+interface PlacementPreviewProps {
+  items: PlacedEquipment[] // copies that are about to be placed
+  equipmentDefinitions: EquipmentItem[]
+  conflictIds: Set<string> // copies that would break a clearance
+  pixelsPerFoot: number
+  scale: number
+  origin?: Point | null // pixels
+  path?: Point[] // pixels
+}
+
+const toPixels = (points: Point[], pixelsPerFoot: number) =>
+  points.flatMap(point => [point.x * pixelsPerFoot, point.y * pixelsPerFoot])
+
+// Ghost outlines of equipment that is being laid out but not yet placed
+const PlacementPreview: React.FC<PlacementPreviewProps> = ({
+  items,
+  equipmentDefinitions,
+  conflictIds,
+  pixelsPerFoot,
+  scale,
+  origin,
+  path = []
+}) => {
+  const outlines = useMemo(() => {
+    const definitionsById = new Map(equipmentDefinitions.map(def => [def.id, def]))
+    return items.map(item => {
+      const geometry = buildEquipmentGeometry(item, definitionsById.get(item.equipmentId), pixelsPerFoot)
+      return {
+        id: item.id,
+        footprint: toPixels(geometry.footprint, pixelsPerFoot),
+        clearance: toPixels(geometry.clearance, pixelsPerFoot)
+      }
+    })
+  }, [items, equipmentDefinitions, pixelsPerFoot])
+
+  const strokeWidth = 1.5 / scale
+
+  return (
+    <Group listening={false}>
+      {path.length > 1 && (
+        <Line
+          points={path.flatMap(point => [point.x, point.y])}
+          stroke="#7c3aed"
+          strokeWidth={strokeWidth}
+          dash={[6 / scale, 4 / scale]}
+        />
+      )}
+      {path.map((point, index) => (
+        <Circle key={index} x={point.x} y={point.y} radius={4 / scale} fill="#7c3aed" />
+      ))}
+
+      {outlines.map(outline => {
+        const color = conflictIds.has(outline.id) ? '#dc2626' : '#2563eb'
+        return (
+          <Group key={outline.id}>
+            <Line points={outline.clearance} closed stroke={color} strokeWidth={strokeWidth} dash={[4 / scale, 4 / scale]} opacity={0.7} />
+            <Line points={outline.footprint} closed fill={color} opacity={0.35} stroke={color} strokeWidth={strokeWidth} />
+          </Group>
+        )
+      })}
+
+      {origin && (
+        <Group x={origin.x} y={origin.y}>
+          <Line points={[-8 / scale, 0, 8 / scale, 0]} stroke="#7c3aed" strokeWidth={strokeWidth} />
+          <Line points={[0, -8 / scale, 0, 8 / scale]} stroke="#7c3aed" strokeWidth={strokeWidth} />
+        </Group>
+      )}
+    </Group>
+  )
+}
+
+export default PlacementPreview
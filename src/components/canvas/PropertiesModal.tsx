@@ -1,18 +1,56 @@
 'use client'
 
-import React from 'react'
+import React, { useEffect, useState } from 'react'
+import { CanvasSettings } from '@/lib/project/types'
+import { getCanvasExtentFeet, setCanvasExtentFeet, MAX_CANVAS_SIDE_FT } from '@/lib/project/canvasSettings'
 
 interface PropertiesModalProps {
   isOpen: boolean
   onClose: () => void
+  canvasSettings: CanvasSettings
+  onCanvasSettingsChange: (updates: Partial<CanvasSettings>) => void
 }
 
 const PropertiesModal: React.FC<PropertiesModalProps> = ({
   isOpen,
-  onClose
+  onClose,
+  canvasSettings,
+  onCanvasSettingsChange
 }) => {
+  // Edited copy of the settings, applied on "Apply Settings"
+  const [widthFeet, setWidthFeet] = useState(0)
+  const [heightFeet, setHeightFeet] = useState(0)
+  const [gridFeet, setGridFeet] = useState(1)
+  const [gridVisible, setGridVisible] = useState(true)
+  const [scaleBarVisible, setScaleBarVisible] = useState(true)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const extent = getCanvasExtentFeet(canvasSettings)
+    setWidthFeet(extent.widthFeet)
+    setHeightFeet(extent.heightFeet)
+    setGridFeet(canvasSettings.gridSize / canvasSettings.pixelsPerFoot)
+    setGridVisible(canvasSettings.gridVisible)
+    setScaleBarVisible(canvasSettings.scaleBarVisible)
+  }, [isOpen, canvasSettings])
+
   if (!isOpen) return null
 
+  const { pixelsPerFoot } = canvasSettings
+  const extent = getCanvasExtentFeet(canvasSettings)
+
+  const handleApply = () => {
+    const resized = setCanvasExtentFeet(canvasSettings, widthFeet, heightFeet)
+    onCanvasSettingsChange({
+      width: resized.width,
+      height: resized.height,
+      gridSize: Math.max(1, gridFeet) * pixelsPerFoot,
+      gridVisible,
+      scaleBarVisible
+    })
+    onClose()
+  }
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg shadow-xl w-96 max-h-[80vh] overflow-y-auto">
@@ -35,9 +73,9 @@ const PropertiesModal: React.FC<PropertiesModalProps> = ({
           <div className="bg-gray-50 p-3 rounded-lg">
             <h4 className="text-sm font-medium text-gray-700 mb-2">Canvas Info</h4>
             <div className="space-y-1 text-sm text-gray-600">
-              <div><span className="font-medium">Size:</span> 250,000 sq ft</div>
-              <div><span className="font-medium">Dimensions:</span> 500' × 500'</div>
-              <div><span className="font-medium">Scale:</span> 10 px/ft</div>
+              <div><span className="font-medium">Size:</span> {(extent.widthFeet * extent.heightFeet).toLocaleString()} sq ft</div>
+              <div><span className="font-medium">Dimensions:</span> {extent.widthFeet.toLocaleString()}&apos; × {extent.heightFeet.toLocaleString()}&apos;</div>
+              <div><span className="font-medium">Scale:</span> {pixelsPerFoot} px/ft</div>
             </div>
           </div>
           
@@ -46,19 +84,52 @@ const PropertiesModal: React.FC<PropertiesModalProps> = ({
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Canvas Scale
             </label>
-            <div className="text-sm text-gray-600">10 pixels = 1 foot</div>
+            <div className="text-sm text-gray-600">{pixelsPerFoot} pixels = 1 foot</div>
+          </div>
+
+          {/* Site Size */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Site Size (feet)
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={100}
+                max={MAX_CANVAS_SIDE_FT}
+                step={100}
+                value={widthFeet}
+                onChange={(e) => setWidthFeet(parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                title="Width in feet"
+              />
+              <span className="text-sm text-gray-500">×</span>
+              <input
+                type="number"
+                min={100}
+                max={MAX_CANVAS_SIDE_FT}
+                step={100}
+                value={heightFeet}
+                onChange={(e) => setHeightFeet(parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                title="Height in feet"
+              />
+            </div>
+            <div className="text-xs text-gray-500 mt-1">100&apos; to {MAX_CANVAS_SIDE_FT.toLocaleString()}&apos; per side</div>
           </div>
 
           {/* Grid Size */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Grid Size
+              Grid Size (feet)
             </label>
             <input 
               type="number" 
-              defaultValue={50}
+              min={1}
+              value={gridFeet}
+              onChange={(e) => setGridFeet(parseFloat(e.target.value) || 0)}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Grid size in pixels"
+              placeholder="Grid size in feet"
             />
           </div>
 
@@ -77,9 +148,13 @@ const PropertiesModal: React.FC<PropertiesModalProps> = ({
             <h4 className="text-sm font-medium text-gray-700 mb-2">Display Settings</h4>
             <div className="space-y-2">
               <label className="flex items-center">
-                <input type="checkbox" defaultChecked className="mr-2" />
+                <input type="checkbox" checked={gridVisible} onChange={(e) => setGridVisible(e.target.checked)} className="mr-2" />
                 <span className="text-sm text-gray-600">Show grid</span>
               </label>
+              <label className="flex items-center">
+                <input type="checkbox" checked={scaleBarVisible} onChange={(e) => setScaleBarVisible(e.target.checked)} className="mr-2" />
+                <span className="text-sm text-gray-600">Show scale bar</span>
+              </label>
               <label className="flex items-center">
                 <input type="checkbox" defaultChecked className="mr-2" />
                 <span className="text-sm text-gray-600">Show equipment labels</span>
@@ -113,7 +188,7 @@ const PropertiesModal: React.FC<PropertiesModalProps> = ({
             Cancel
           </button>
           <button
-            onClick={onClose}
+            onClick={handleApply}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
           >
             Apply Settings
@@ -0,0 +1,188 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  SHORTCUT_COMMANDS,
+  ShortcutCategory,
+  ShortcutCommandId,
+  ShortcutOverrides,
+  resolveShortcutMap,
+  findShortcutConflicts,
+  formatKeyBinding,
+  getEventBinding
+} from '@/lib/keyboard/shortcuts'
+
+interface ShortcutsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  overrides: ShortcutOverrides
+  onOverridesChange: (overrides: ShortcutOverrides) => void
+}
+
+const CATEGORIES: ShortcutCategory[] = ['Edit', 'Move', 'Tools', 'Help']
+
+const sameKeys = (a: string[], b: string[]) => a.length === b.length && a.every((key, index) => key === b[index])
+
+// Every keyboard command with its keys; keys can be added, removed and reset
+const ShortcutsModal: React.FC<ShortcutsModalProps> = ({
+  isOpen,
+  onClose,
+  overrides,
+  onOverridesChange
+}) => {
+  const [recordingId, setRecordingId] = useState<ShortcutCommandId | null>(null) // command waiting for a new key
+  const shortcuts = useMemo(() => resolveShortcutMap(overrides), [overrides])
+  const conflicts = useMemo(() => findShortcutConflicts(shortcuts), [shortcuts])
+  const conflictsByBinding = useMemo(() => new Map(conflicts.map(conflict => [conflict.binding, conflict.commandIds])), [conflicts])
+  const labels = useMemo(() => new Map(SHORTCUT_COMMANDS.map(command => [command.id, command.label])), [])
+
+  const setKeys = (id: ShortcutCommandId, keys: string[]) => {
+    const rest = { ...overrides }
+    delete rest[id]
+    const defaults = SHORTCUT_COMMANDS.find(command => command.id === id)!.defaultKeys
+    onOverridesChange(sameKeys(keys, defaults) ? rest : { ...rest, [id]: keys })
+  }
+
+  // Keys pressed while the dialog is open belong to it, so canvas shortcuts do not fire.
+  // Stopping propagation still lets Tab and Enter work on the dialog's buttons.
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.stopPropagation()
+      if (!recordingId) {
+        if (e.key === 'Escape') onClose()
+        return
+      }
+
+      e.preventDefault()
+      const binding = getEventBinding(e)
+      if (!binding) return // wait for the key that goes with the modifiers
+      if (binding !== 'Escape') {
+        const keys = shortcuts[recordingId]
+        if (!keys.includes(binding)) setKeys(recordingId, [...keys, binding])
+      }
+      setRecordingId(null)
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  })
+
+  useEffect(() => {
+    if (!isOpen) setRecordingId(null)
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[34rem] max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Keyboard Shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {conflicts.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {conflicts.map(conflict => (
+                <div key={conflict.binding}>
+                  <span className="font-medium">{formatKeyBinding(conflict.binding)}</span> is bound to{' '}
+                  {conflict.commandIds.map(id => labels.get(id)).join(' and ')}; only {labels.get(conflict.commandIds[0])} runs.
+                </div>
+              ))}
+            </div>
+          )}
+
+          {CATEGORIES.map(category => (
+            <div key={category}>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">{category}</h4>
+              <div className="divide-y divide-gray-100">
+                {SHORTCUT_COMMANDS.filter(command => command.category === category).map(command => {
+                  const keys = shortcuts[command.id]
+                  const isRecording = recordingId === command.id
+                  return (
+                    <div key={command.id} className="flex items-center justify-between gap-3 py-1.5">
+                      <span className="text-sm text-gray-700">{command.label}</span>
+                      <div className="flex flex-wrap items-center justify-end gap-1">
+                        {keys.map(binding => {
+                          const sharedWith = (conflictsByBinding.get(binding) || []).filter(id => id !== command.id)
+                          return (
+                            <span
+                              key={binding}
+                              className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-xs font-mono ${
+                                sharedWith.length > 0 ? 'bg-red-50 border-red-300 text-red-700' : 'bg-gray-50 border-gray-300 text-gray-700'
+                              }`}
+                              title={sharedWith.length > 0 ? `Also bound to ${sharedWith.map(id => labels.get(id)).join(', ')}` : undefined}
+                            >
+                              {formatKeyBinding(binding)}
+                              <button
+                                onClick={() => setKeys(command.id, keys.filter(key => key !== binding))}
+                                className="text-gray-400 hover:text-red-600"
+                                title="Remove this key"
+                              >
+                                ×
+                              </button>
+                            </span>
+                          )
+                        })}
+                        <button
+                          onClick={() => setRecordingId(isRecording ? null : command.id)}
+                          className={`px-1.5 py-0.5 rounded border text-xs ${
+                            isRecording ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+                          }`}
+                          title="Add a key for this command"
+                        >
+                          {isRecording ? 'Press a key…' : '+'}
+                        </button>
+                        {overrides[command.id] && (
+                          <button
+                            onClick={() => setKeys(command.id, command.defaultKeys)}
+                            className="px-1.5 py-0.5 text-xs text-blue-600 hover:text-blue-800"
+                            title={`Default: ${command.defaultKeys.map(formatKeyBinding).join(', ') || 'none'}`}
+                          >
+                            Reset
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-2 p-4 border-t border-gray-200">
+          <span className="text-xs text-gray-500">Changes are saved in this browser.</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onOverridesChange({})}
+              disabled={Object.keys(overrides).length === 0}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 disabled:opacity-50 transition-colors"
+            >
+              Reset All
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ShortcutsModal
@@ -26,6 +26,7 @@ interface SimpleMeasurementToolProps {
   onMeasurementDelete: (id: string) => void
   onCanvasClick?: (x: number, y: number) => void
   onCanvasDoubleClick?: (x: number, y: number) => void
+  largeHandles?: boolean // Bigger delete buttons for fingers
 }
 
 const SimpleMeasurementTool: React.FC<SimpleMeasurementToolProps> = ({
@@ -34,7 +35,8 @@ const SimpleMeasurementTool: React.FC<SimpleMeasurementToolProps> = ({
   pixelsPerFoot,
   measurements,
   onMeasurementComplete,
-  onMeasurementDelete
+  onMeasurementDelete,
+  largeHandles = false
 }) => {
   const [currentPoints, setCurrentPoints] = useState<MeasurementPoint[]>([])
   const [isDrawing, setIsDrawing] = useState(false)
@@ -181,7 +183,7 @@ const SimpleMeasurementTool: React.FC<SimpleMeasurementToolProps> = ({
     <Group>
       {/* Render completed measurements */}
       {measurements.map((measurement) => (
-        <Group key={measurement.id}>
+        <Group key={measurement.id} name="measurement" id={measurement.id}>
           {/* Measurement lines/polygon */}
           <Line
             points={measurement.points.flatMap(p => [p.x, p.y])}
@@ -223,25 +225,23 @@ const SimpleMeasurementTool: React.FC<SimpleMeasurementToolProps> = ({
           <Circle
             x={measurement.points[0].x + 40 / scale}
             y={measurement.points[0].y - 25 / scale}
-            radius={8 / scale}
+            radius={(largeHandles ? 16 : 8) / scale}
             fill="red"
             opacity={0.8}
-            onClick={() => onMeasurementDelete(measurement.id)}
-            onTap={() => onMeasurementDelete(measurement.id)}
+            onPointerClick={() => onMeasurementDelete(measurement.id)}
           />
           <Text
             x={measurement.points[0].x + 40 / scale}
             y={measurement.points[0].y - 25 / scale}
             text="×"
-            fontSize={10 / scale}
+            fontSize={(largeHandles ? 20 : 10) / scale}
             fill="white"
             fontStyle="bold"
             align="center"
             verticalAlign="middle"
-            offsetX={3 / scale}
-            offsetY={5 / scale}
-            onClick={() => onMeasurementDelete(measurement.id)}
-            onTap={() => onMeasurementDelete(measurement.id)}
+            offsetX={(largeHandles ? 6 : 3) / scale}
+            offsetY={(largeHandles ? 10 : 5) / scale}
+            onPointerClick={() => onMeasurementDelete(measurement.id)}
           />
         </Group>
       ))}
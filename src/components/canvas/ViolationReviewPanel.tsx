@@ -0,0 +1,197 @@
+'use client'
+
+import React, { useState, useMemo } from 'react'
+import { ClearanceWaiver } from '@/lib/equipment/types'
+import { ClearanceViolation } from '@/lib/equipment/clearanceEngine'
+import { createClearanceWaiver, getWaiversByPair, findWaiver, sortViolationsBySeverity } from '@/lib/equipment/clearanceWaivers'
+
+interface ViolationReviewPanelProps {
+  violations: ClearanceViolation[]
+  waivers: ClearanceWaiver[]
+  onViolationFocus: (violation: ClearanceViolation) => void
+  onWaiversChange: (waivers: ClearanceWaiver[]) => void
+  onClose: () => void
+  className?: string
+}
+
+const ViolationReviewPanel: React.FC<ViolationReviewPanelProps> = ({
+  violations,
+  waivers,
+  onViolationFocus,
+  onWaiversChange,
+  onClose,
+  className = ''
+}) => {
+  const [showWaived, setShowWaived] = useState(true)
+  const [waivingId, setWaivingId] = useState<string | null>(null)
+  const [waiverForm, setWaiverForm] = useState({ reason: '', author: 'Lot Planner User', date: new Date().toISOString().split('T')[0] })
+
+  const waiversByPair = useMemo(() => getWaiversByPair(waivers), [waivers])
+  const sortedViolations = useMemo(() => sortViolationsBySeverity(violations), [violations])
+  const openViolations = sortedViolations.filter(violation => !findWaiver(waiversByPair, violation))
+  const waivedViolations = sortedViolations.filter(violation => findWaiver(waiversByPair, violation))
+  const criticalCount = openViolations.filter(violation => violation.severity === 'critical').length
+
+  const startWaiver = (violation: ClearanceViolation) => {
+    setWaivingId(violation.id)
+    setWaiverForm(prev => ({ ...prev, reason: '', date: new Date().toISOString().split('T')[0] }))
+  }
+
+  const submitWaiver = (violation: ClearanceViolation) => {
+    if (!waiverForm.reason.trim()) return
+    const waiver = createClearanceWaiver(
+      violation,
+      waiverForm.reason.trim(),
+      waiverForm.author.trim() || 'Lot Planner User',
+      new Date(`${waiverForm.date}T12:00:00`).toISOString()
+    )
+    onWaiversChange([...waivers, waiver])
+    setWaivingId(null)
+  }
+
+  const revokeWaiver = (waiver: ClearanceWaiver) => {
+    onWaiversChange(waivers.filter(w => w.id !== waiver.id))
+  }
+
+  const renderViolation = (violation: ClearanceViolation) => {
+    const waiver = findWaiver(waiversByPair, violation)
+    const isCritical = violation.severity === 'critical'
+    const badgeClass = waiver
+      ? 'bg-gray-100 text-gray-600'
+      : isCritical ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+
+    return (
+      <div
+        key={violation.id}
+        className={`border rounded-lg p-3 text-sm ${waiver ? 'border-gray-200 bg-gray-50' : isCritical ? 'border-red-200' : 'border-amber-200'}`}
+      >
+        <button
+          onClick={() => onViolationFocus(violation)}
+          className="w-full text-left"
+          title="Zoom to violation"
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${badgeClass}`}>
+              {waiver ? 'Waived' : isCritical ? 'Critical' : 'Warning'}
+            </span>
+            <span className="text-xs text-gray-500">🔍 Zoom</span>
+          </div>
+          <p className="text-gray-900 dark:text-gray-100">{violation.description}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {violation.actualDistance.toFixed(1)} ft apart, {violation.requiredDistance.toFixed(1)} ft required
+          </p>
+        </button>
+
+        {waiver ? (
+          <div className="mt-2 pt-2 border-t border-gray-200 text-xs text-gray-600">
+            <p><span className="font-medium">Reason:</span> {waiver.reason}</p>
+            <p><span className="font-medium">By:</span> {waiver.author} on {new Date(waiver.date).toLocaleDateString()}</p>
+            <button
+              onClick={() => revokeWaiver(waiver)}
+              className="mt-1 text-red-600 hover:text-red-800"
+            >
+              Revoke waiver
+            </button>
+          </div>
+        ) : waivingId === violation.id ? (
+          <div className="mt-2 pt-2 border-t border-gray-200 space-y-2">
+            <textarea
+              value={waiverForm.reason}
+              onChange={(e) => setWaiverForm(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder="Reason, e.g. approved by fire marshal"
+              rows={2}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-gray-900"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={waiverForm.author}
+                onChange={(e) => setWaiverForm(prev => ({ ...prev, author: e.target.value }))}
+                placeholder="Approved by"
+                className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-gray-900"
+              />
+              <input
+                type="date"
+                value={waiverForm.date}
+                onChange={(e) => setWaiverForm(prev => ({ ...prev, date: e.target.value }))}
+                className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-gray-900"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setWaivingId(null)}
+                className="px-2 py-1 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => submitWaiver(violation)}
+                disabled={!waiverForm.reason.trim()}
+                className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300"
+              >
+                Save Waiver
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => startWaiver(violation)}
+            className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+          >
+            ✍️ Waive…
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 flex flex-col ${className}`}>
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Clearance Review</h2>
+          <p className="text-xs text-gray-500">
+            {openViolations.length} open ({criticalCount} critical), {waivedViolations.length} waived
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          title="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Violation list */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {openViolations.length === 0 && (
+          <div className="text-center py-6 text-gray-500 text-sm">
+            <div className="text-3xl mb-2">✅</div>
+            <p>No open clearance violations</p>
+          </div>
+        )}
+        {openViolations.map(renderViolation)}
+
+        {waivedViolations.length > 0 && (
+          <div className="pt-2">
+            <button
+              onClick={() => setShowWaived(!showWaived)}
+              className="text-xs font-medium text-gray-600 hover:text-gray-800 mb-2"
+            >
+              {showWaived ? '▼' : '▶'} Waived ({waivedViolations.length})
+            </button>
+            {showWaived && (
+              <div className="space-y-2">
+                {waivedViolations.map(renderViolation)}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ViolationReviewPanel
@@ -17,7 +17,7 @@ interface EquipmentLibraryProps {
   isCollapsed?: boolean
 }
 
-const categoryLabels: Record<EquipmentCategory, string> = {
+export const categoryLabels: Record<EquipmentCategory, string> = {
   'mega-rides': 'Mega Rides',
   'rides': 'Rides',
   'kiddy-rides': 'Kiddy Rides',
@@ -1000,6 +1000,8 @@ const EquipmentLibrary: React.FC<EquipmentLibraryProps> = ({
                               <br />
                               {equipment.clearance.type === 'rectangular' && equipment.clearance.all ? 
                                 `${equipment.clearance.all}' all sides` :
+                                equipment.clearance.type === 'radial' ? `${equipment.clearance.distance}' radial` :
+                                equipment.clearance.type === 'offset' ? `${equipment.clearance.distance}' offset` :
                                 equipment.clearance.type === 'custom' ? 'Custom polygon' : 'Custom'
                               }
                             </div>
@@ -4,6 +4,19 @@ import React, { useState, useEffect } from 'react'
 import { PDFExportOptions, PDFMetadata, PDFExporter } from '@/lib/export/pdfExport'
 import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
 import { BackgroundImage } from '@/components/canvas/BackgroundLayer'
+import { ProjectExtras, CanvasSettings } from '@/lib/project/types'
+import { DEFAULT_CANVAS_SETTINGS, getCanvasExtentFeet } from '@/lib/project/canvasSettings'
+import { filterEquipmentByLayers } from '@/lib/equipment/layers'
+
+// Site size line for the PDF footer
+const describeCanvasArea = (settings: CanvasSettings) => {
+  const { widthFeet, heightFeet } = getCanvasExtentFeet(settings)
+  return `${Math.round(widthFeet * heightFeet).toLocaleString()} sq ft (${Math.round(widthFeet)}' × ${Math.round(heightFeet)}')`
+}
+
+// Scale line for the PDF footer, at the 72 pixels per inch the scale bar uses
+const describeCanvasScale = (settings: CanvasSettings) =>
+  `1" = ${Number((72 / settings.pixelsPerFoot).toFixed(1))} feet`
 
 interface PDFExportModalProps {
   isOpen: boolean
@@ -13,6 +26,8 @@ interface PDFExportModalProps {
   equipmentDefinitions: EquipmentItem[]
   backgroundImages: BackgroundImage[]
   projectName: string
+  projectExtras?: ProjectExtras
+  onLayerCaptureChange?: (layerIds: string[] | null) => void // show only these layers on the canvas while it is captured
 }
 
 export default function PDFExportModal({
@@ -22,7 +37,9 @@ export default function PDFExportModal({
   placedEquipment,
   equipmentDefinitions,
   backgroundImages,
-  projectName
+  projectName,
+  projectExtras = {},
+  onLayerCaptureChange
 }: PDFExportModalProps) {
   const [exporting, setExporting] = useState(false)
   const [actualCanvasElement, setActualCanvasElement] = useState<HTMLElement | null>(canvasElement)
@@ -55,6 +72,9 @@ export default function PDFExportModal({
     includeClearanceZones: true,
     includeDimensions: true,
     includeScale: true,
+    includeViolationReport: true,
+    includeWaivedViolations: true,
+    includeAnnotationNotes: true,
     paperSize: 'letter',
     orientation: 'landscape',
     title: `${projectName} Layout`,
@@ -67,11 +87,34 @@ export default function PDFExportModal({
     projectName,
     createdBy: 'Lot Planner User',
     createdDate: new Date().toLocaleDateString(),
-    scale: '1" = 10 feet',
-    totalArea: '250,000 sq ft (500\' × 500\')',
+    scale: describeCanvasScale(projectExtras.canvasSettings || DEFAULT_CANVAS_SETTINGS),
+    totalArea: describeCanvasArea(projectExtras.canvasSettings || DEFAULT_CANVAS_SETTINGS),
     equipmentCount: placedEquipment.length
   })
 
+  // Keep the scale and site size in step with the project's canvas settings
+  const canvasSettings = projectExtras.canvasSettings
+  useEffect(() => {
+    if (isOpen) {
+      const settings = canvasSettings || DEFAULT_CANVAS_SETTINGS
+      setMetadata(prev => ({ ...prev, scale: describeCanvasScale(settings), totalArea: describeCanvasArea(settings) }))
+    }
+  }, [isOpen, canvasSettings])
+
+  // Layers to include, starting from the ones visible on the canvas
+  const layers = projectExtras.layers
+  const hasLayerChoice = !!layers && layers.length > 1
+  const [includedLayerIds, setIncludedLayerIds] = useState<string[]>([])
+  useEffect(() => {
+    if (isOpen) {
+      setIncludedLayerIds((layers || []).filter(layer => layer.visible).map(layer => layer.id))
+    }
+  }, [isOpen, layers])
+
+  const toggleLayer = (layerId: string, included: boolean) => {
+    setIncludedLayerIds(prev => included ? [...prev, layerId] : prev.filter(id => id !== layerId))
+  }
+
   const handleExport = async () => {
     console.log('PDF Export - Canvas element:', actualCanvasElement)
     if (!actualCanvasElement) {
@@ -82,19 +125,30 @@ export default function PDFExportModal({
 
     setExporting(true)
     try {
+      const options = hasLayerChoice ? { ...exportOptions, includedLayerIds } : exportOptions
+      const exportedEquipment = hasLayerChoice ? filterEquipmentByLayers(placedEquipment, layers!, includedLayerIds) : placedEquipment
+
+      // Redraw the canvas with just the included layers before it is captured
+      if (hasLayerChoice && onLayerCaptureChange) {
+        onLayerCaptureChange(includedLayerIds)
+        await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+      }
+
       await PDFExporter.exportToPDF(
         actualCanvasElement,
         placedEquipment,
         equipmentDefinitions,
         backgroundImages,
-        exportOptions,
-        { ...metadata, equipmentCount: placedEquipment.length }
+        options,
+        { ...metadata, equipmentCount: exportedEquipment.length },
+        projectExtras
       )
       onClose()
     } catch (error) {
       console.error('PDF export failed:', error)
       alert(`PDF export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
+      onLayerCaptureChange?.(null)
       setExporting(false)
     }
   }
@@ -280,7 +334,73 @@ export default function PDFExportModal({
                       ⊞ Grid Lines
                     </span>
                   </label>
+
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={exportOptions.includeViolationReport}
+                      onChange={(e) => setExportOptions(prev => ({ 
+                        ...prev, 
+                        includeViolationReport: e.target.checked 
+                      }))}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-3 text-sm text-gray-700">
+                      🚧 Clearance & Lot Boundary Report
+                    </span>
+                  </label>
+
+                  <label className="flex items-center ml-7">
+                    <input
+                      type="checkbox"
+                      checked={exportOptions.includeWaivedViolations}
+                      disabled={!exportOptions.includeViolationReport}
+                      onChange={(e) => setExportOptions(prev => ({ 
+                        ...prev, 
+                        includeWaivedViolations: e.target.checked 
+                      }))}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-3 text-sm text-gray-700">
+                      Show waived violations ({projectExtras.clearanceWaivers?.length || 0} waivers)
+                    </span>
+                  </label>
+
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={!!exportOptions.includeAnnotationNotes}
+                      onChange={(e) => setExportOptions(prev => ({ 
+                        ...prev, 
+                        includeAnnotationNotes: e.target.checked 
+                      }))}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-3 text-sm text-gray-700">
+                      📝 Notes page with annotation text
+                    </span>
+                  </label>
                 </div>
+
+                {/* Layers */}
+                {hasLayerChoice && (
+                  <div className="space-y-3">
+                    <h4 className="font-medium text-gray-900">Layers</h4>
+                    {layers!.slice().reverse().map(layer => (
+                      <label key={layer.id} className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={includedLayerIds.includes(layer.id)}
+                          onChange={(e) => toggleLayer(layer.id, e.target.checked)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <span className="ml-3 text-sm text-gray-700">
+                          {layer.name}{layer.visible ? '' : ' (hidden)'}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -393,6 +513,10 @@ export default function PDFExportModal({
                   {exportOptions.includeEquipmentLabels && <p>• Equipment legend and labels</p>}
                   {exportOptions.includeScale && <p>• Scale bar for measurements</p>}
                   <p>• Equipment details page with specifications</p>
+                  {exportOptions.includeViolationReport && (
+                    <p>• Clearance review{exportOptions.includeWaivedViolations ? ' with waiver justifications' : ' (open violations only)'}</p>
+                  )}
+                  {exportOptions.includeAnnotationNotes && <p>• Notes page listing text and callout annotations</p>}
                   <p>• Professional formatting for permits/presentations</p>
                 </div>
               </div>
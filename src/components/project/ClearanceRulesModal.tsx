@@ -0,0 +1,204 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { ClearanceRule, EquipmentCategory, EquipmentItem } from '@/lib/equipment/types'
+import { createClearanceRule } from '@/lib/equipment/clearanceRules'
+import { categoryLabels } from '@/components/equipment/EquipmentLibrary'
+
+interface ClearanceRulesModalProps {
+  isOpen: boolean
+  onClose: () => void
+  rules: ClearanceRule[]
+  equipmentDefinitions: EquipmentItem[]
+  onRulesChange: (rules: ClearanceRule[]) => void
+}
+
+const categories = Object.keys(categoryLabels) as EquipmentCategory[]
+
+export default function ClearanceRulesModal({
+  isOpen,
+  onClose,
+  rules,
+  equipmentDefinitions,
+  onRulesChange
+}: ClearanceRulesModalProps) {
+  // Edits are made on a draft and only applied when the user confirms
+  const [draftRules, setDraftRules] = useState<ClearanceRule[]>(rules)
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraftRules(rules)
+    }
+  }, [isOpen, rules])
+
+  if (!isOpen) return null
+
+  const updateRule = (ruleId: string, updates: Partial<ClearanceRule>) => {
+    setDraftRules(prev => prev.map(rule => rule.id === ruleId ? { ...rule, ...updates } : rule))
+  }
+
+  const addRule = () => {
+    setDraftRules(prev => [...prev, createClearanceRule('rides', 'rides', 10)])
+  }
+
+  const deleteRule = (ruleId: string) => {
+    setDraftRules(prev => prev.filter(rule => rule.id !== ruleId))
+  }
+
+  const handleApply = () => {
+    onRulesChange(draftRules.filter(rule => rule.minSeparation > 0))
+    onClose()
+  }
+
+  const renderEquipmentSelect = (
+    rule: ClearanceRule,
+    category: EquipmentCategory,
+    value: string | undefined,
+    field: 'equipmentIdA' | 'equipmentIdB'
+  ) => (
+    <select
+      value={value || ''}
+      onChange={(e) => updateRule(rule.id, { [field]: e.target.value || undefined })}
+      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-gray-900 bg-white"
+    >
+      <option value="">Any {categoryLabels[category]}</option>
+      {equipmentDefinitions
+        .filter(equipment => equipment.category === category)
+        .map(equipment => (
+          <option key={equipment.id} value={equipment.id}>{equipment.name}</option>
+        ))}
+    </select>
+  )
+
+  const renderCategorySelect = (
+    rule: ClearanceRule,
+    value: EquipmentCategory,
+    field: 'categoryA' | 'categoryB'
+  ) => (
+    <select
+      value={value}
+      onChange={(e) => {
+        // A specific equipment choice no longer applies once the category changes
+        const idField = field === 'categoryA' ? 'equipmentIdA' : 'equipmentIdB'
+        updateRule(rule.id, { [field]: e.target.value as EquipmentCategory, [idField]: undefined })
+      }}
+      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-gray-900 bg-white"
+    >
+      {categories.map(category => (
+        <option key={category} value={category}>{categoryLabels[category]}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[80vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Clearance Rules</h2>
+              <p className="text-sm text-gray-600">
+                Minimum footprint-to-footprint separation between categories. Rules replace the ride clearing zone for matching pairs.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Close"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Rule matrix */}
+        <div className="p-6 overflow-y-auto flex-1">
+          {draftRules.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <div className="text-4xl mb-2">📏</div>
+              <p>No clearance rules yet. Equipment uses its own clearance zones.</p>
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-2 font-medium">Category A</th>
+                  <th className="py-2 pr-2 font-medium">Equipment A</th>
+                  <th className="py-2 pr-2 font-medium">Category B</th>
+                  <th className="py-2 pr-2 font-medium">Equipment B</th>
+                  <th className="py-2 pr-2 font-medium w-24">Min (ft)</th>
+                  <th className="py-2 pr-2 font-medium">Note</th>
+                  <th className="py-2 w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {draftRules.map(rule => (
+                  <tr key={rule.id} className="border-b border-gray-100">
+                    <td className="py-2 pr-2">{renderCategorySelect(rule, rule.categoryA, 'categoryA')}</td>
+                    <td className="py-2 pr-2">{renderEquipmentSelect(rule, rule.categoryA, rule.equipmentIdA, 'equipmentIdA')}</td>
+                    <td className="py-2 pr-2">{renderCategorySelect(rule, rule.categoryB, 'categoryB')}</td>
+                    <td className="py-2 pr-2">{renderEquipmentSelect(rule, rule.categoryB, rule.equipmentIdB, 'equipmentIdB')}</td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={rule.minSeparation}
+                        onChange={(e) => updateRule(rule.id, { minSeparation: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-gray-900"
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="text"
+                        value={rule.note || ''}
+                        placeholder="e.g. fire code"
+                        onChange={(e) => updateRule(rule.id, { note: e.target.value || undefined })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-gray-900"
+                      />
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => deleteRule(rule.id)}
+                        className="text-red-500 hover:text-red-700 transition-colors"
+                        title="Delete rule"
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <button
+            onClick={addRule}
+            className="mt-4 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+          >
+            ➕ Add Rule
+          </button>
+        </div>
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Apply Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
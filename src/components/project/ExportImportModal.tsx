@@ -1,7 +1,7 @@
 'use client'
 
 import React, { useState, useRef } from 'react'
-import { ExportOptions, ImportResult } from '@/lib/project/types'
+import { ExportOptions, ImportResult, ProjectExtras } from '@/lib/project/types'
 import { ProjectManager } from '@/lib/project/projectManager'
 import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
 import { BackgroundImage } from '@/components/canvas/BackgroundLayer'
@@ -15,6 +15,7 @@ interface ExportImportModalProps {
   equipmentDefinitions: EquipmentItem[]
   customEquipmentCount: number
   projectName: string
+  projectExtras?: ProjectExtras
 }
 
 export default function ExportImportModal({
@@ -25,7 +26,8 @@ export default function ExportImportModal({
   backgroundImages,
   equipmentDefinitions,
   customEquipmentCount,
-  projectName
+  projectName,
+  projectExtras
 }: ExportImportModalProps) {
   const [activeTab, setActiveTab] = useState<'export' | 'import'>('export')
   const [exportOptions, setExportOptions] = useState<ExportOptions>({
@@ -50,7 +52,8 @@ export default function ExportImportModal({
         equipmentDefinitions,
         customEquipmentCount,
         exportFileName,
-        exportOptions
+        exportOptions,
+        projectExtras
       )
       
       ProjectManager.downloadProject(projectData, exportFileName)
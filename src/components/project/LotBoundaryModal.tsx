@@ -0,0 +1,213 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { LotBoundary, PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
+import {
+  createLotBoundary,
+  parseBoundaryPoints,
+  findBoundaryViolations,
+  isValidLotBoundary,
+  DEFAULT_SETBACK_FT
+} from '@/lib/equipment/lotBoundary'
+import { polygonArea } from '@/lib/utils/geometry'
+
+interface LotBoundaryModalProps {
+  isOpen: boolean
+  onClose: () => void
+  boundary: LotBoundary | null
+  placedEquipment: PlacedEquipment[]
+  equipmentDefinitions: EquipmentItem[]
+  onBoundaryChange: (boundary: LotBoundary | null) => void
+  pixelsPerFoot: number
+}
+
+// Vertices as editable text, one "x, y" pair (in feet) per line
+const formatPoints = (boundary: LotBoundary | null) =>
+  boundary ? boundary.points.map(point => `${Math.round(point.x * 10) / 10}, ${Math.round(point.y * 10) / 10}`).join('\n') : ''
+
+export default function LotBoundaryModal({
+  isOpen,
+  onClose,
+  boundary,
+  placedEquipment,
+  equipmentDefinitions,
+  onBoundaryChange,
+  pixelsPerFoot
+}: LotBoundaryModalProps) {
+  const [pointsText, setPointsText] = useState('')
+  const [setback, setSetback] = useState(DEFAULT_SETBACK_FT)
+  const [parseError, setParseError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setPointsText(formatPoints(boundary))
+      setSetback(boundary?.setback ?? DEFAULT_SETBACK_FT)
+      setParseError(null)
+    }
+  }, [isOpen, boundary])
+
+  if (!isOpen) return null
+
+  // Parse the draft so the summary reflects what will be applied
+  let draft: LotBoundary | null = null
+  let draftError = parseError
+  if (pointsText.trim()) {
+    try {
+      draft = createLotBoundary(parseBoundaryPoints(pointsText), setback)
+    } catch (error) {
+      draftError = error instanceof Error ? error.message : 'Invalid boundary points'
+    }
+  }
+  const violations = findBoundaryViolations(placedEquipment, equipmentDefinitions, draft, pixelsPerFoot)
+
+  const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = () => {
+      try {
+        const points = parseBoundaryPoints(String(reader.result))
+        setPointsText(formatPoints(createLotBoundary(points)))
+        setParseError(null)
+      } catch (error) {
+        setParseError(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+    reader.readAsText(file)
+    event.target.value = ''
+  }
+
+  const handleApply = () => {
+    if (pointsText.trim() && !isValidLotBoundary(draft)) return
+    onBoundaryChange(draft)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Lot Boundary</h2>
+              <p className="text-sm text-gray-600">
+                Property line and setback. Trace it on the canvas with 🗺️ Lot Line, or paste / import the corner points.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Close"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Setback (ft)
+            </label>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={setback}
+              onChange={(e) => setSetback(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Corner points (x, y in feet, one per line)
+              </label>
+              <label className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm cursor-pointer">
+                📂 Import File
+                <input
+                  type="file"
+                  accept=".json,.geojson,.csv,.txt"
+                  onChange={handleFileImport}
+                  className="hidden"
+                />
+              </label>
+            </div>
+            <textarea
+              value={pointsText}
+              onChange={(e) => {
+                setPointsText(e.target.value)
+                setParseError(null)
+              }}
+              rows={8}
+              placeholder={'0, 0\n500, 0\n500, 400\n0, 400'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Also accepts a JSON array of [x, y] pairs or a GeoJSON Polygon in feet.
+            </p>
+          </div>
+
+          {draftError && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {draftError}
+            </div>
+          )}
+
+          {draft && (
+            <div className="bg-gray-50 p-4 rounded-lg text-sm text-gray-600 space-y-1">
+              <div className="flex justify-between">
+                <span>Corners:</span>
+                <span className="font-medium">{draft.points.length}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Lot Area:</span>
+                <span className="font-medium">{Math.round(polygonArea(draft.points)).toLocaleString()} sq ft</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Equipment Flagged:</span>
+                <span className={`font-medium ${violations.length > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {violations.length}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex justify-between">
+          <button
+            onClick={() => {
+              onBoundaryChange(null)
+              onClose()
+            }}
+            disabled={!boundary}
+            className="px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+          >
+            Remove Boundary
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!!draftError}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+            >
+              Apply Boundary
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
+import { equipmentLibrary } from '@/lib/equipment/library'
+import { CanvasSettings } from '@/lib/project/types'
+import { createCanvasSettings, fitCanvasToContent } from '@/lib/project/canvasSettings'
+
+export const BENCHMARK_ITEM_COUNT = 2000
+export const BENCHMARK_MAX_ITEM_COUNT = 10000 // larger fixtures take too long to generate and draw
+
+const ROW_WIDTH_FT = 6000
+const SPACING_FT = 15 // gap between neighbouring items
+const ROTATIONS = [0, 90, 0, 45, 180, 0, 270, 30]
+
+export interface BenchmarkLayout {
+  placedEquipment: PlacedEquipment[]
+  canvasSettings: CanvasSettings
+}
+
+// Widest extent of an item in feet, however it is rotated
+const getSpan = (definition: EquipmentItem) => {
+  const dimensions = definition.dimensions
+  return dimensions.shape === 'circle'
+    ? dimensions.radius * 2
+    : Math.hypot(dimensions.width, dimensions.height)
+}
+
+// Deterministic layout of `count` items cycling through the library, packed in rows,
+// for measuring frame times on a large fair. The site grows to fit it.
+export function createBenchmarkLayout(
+  count: number = BENCHMARK_ITEM_COUNT,
+  definitions: EquipmentItem[] = equipmentLibrary,
+  baseSettings: CanvasSettings = createCanvasSettings()
+): BenchmarkLayout {
+  const { pixelsPerFoot } = baseSettings
+  const placedEquipment: PlacedEquipment[] = []
+  let cursorX = 0
+  let cursorY = 0
+  let rowHeight = 0
+
+  for (let i = 0; i < count; i++) {
+    const definition = definitions[i % definitions.length]
+    const span = getSpan(definition) + (definition.rideClearing || 0) * 2
+    if (cursorX > 0 && cursorX + span > ROW_WIDTH_FT) {
+      cursorX = 0
+      cursorY += rowHeight + SPACING_FT
+      rowHeight = 0
+    }
+
+    placedEquipment.push({
+      id: `benchmark_${i}`,
+      equipmentId: definition.id,
+      x: (cursorX + span / 2) * pixelsPerFoot,
+      y: (cursorY + span / 2) * pixelsPerFoot,
+      rotation: ROTATIONS[i % ROTATIONS.length],
+      dimensions: definition.dimensions,
+      clearance: definition.clearance
+    })
+
+    cursorX += span + SPACING_FT
+    rowHeight = Math.max(rowHeight, span)
+  }
+
+  return {
+    placedEquipment,
+    canvasSettings: fitCanvasToContent(baseSettings, { placedEquipment, backgroundImages: [], equipmentDefinitions: definitions })
+  }
+}
@@ -0,0 +1,110 @@
+import { PlacedEquipment, EquipmentItem, EquipmentTransform } from './types'
+import { buildEquipmentGeometry } from './clearanceEngine'
+import { Bounds, polygonBounds } from '@/lib/utils/geometry'
+
+export type AlignMode = 'left' | 'right' | 'top' | 'bottom' | 'centerX' | 'centerY'
+export type DistributeAxis = 'horizontal' | 'vertical'
+export type AlignReference = 'footprint' | 'clearance' // outline the edges are measured on
+
+interface ArrangeItem {
+  placed: PlacedEquipment
+  bounds: Bounds // feet, of the rotated outline
+}
+
+// Rotated outline bounds for each item, in feet
+function getArrangeItems(
+  placed: PlacedEquipment[],
+  definitions: EquipmentItem[],
+  reference: AlignReference,
+  pixelsPerFoot: number
+): ArrangeItem[] {
+  const definitionsById = new Map(definitions.map(def => [def.id, def]))
+  return placed.map(item => {
+    const geometry = buildEquipmentGeometry(item, definitionsById.get(item.equipmentId), pixelsPerFoot)
+    const outline = reference === 'footprint' ? geometry.footprint : geometry.clearance.concat(geometry.footprint)
+    return { placed: item, bounds: polygonBounds(outline) }
+  })
+}
+
+// Shift an item by a distance in feet, keeping its rotation
+function translate(item: ArrangeItem, dxFeet: number, dyFeet: number, pixelsPerFoot: number): EquipmentTransform {
+  return {
+    id: item.placed.id,
+    x: item.placed.x + dxFeet * pixelsPerFoot,
+    y: item.placed.y + dyFeet * pixelsPerFoot,
+    rotation: item.placed.rotation
+  }
+}
+
+// Line up the selection's edges or centers with the outermost edge (or middle) of the selection
+export function alignEquipment(
+  placed: PlacedEquipment[],
+  definitions: EquipmentItem[],
+  mode: AlignMode,
+  reference: AlignReference,
+  pixelsPerFoot: number
+): EquipmentTransform[] {
+  if (placed.length < 2) return []
+  const items = getArrangeItems(placed, definitions, reference, pixelsPerFoot)
+  const selection = polygonBounds(items.flatMap(item => [
+    { x: item.bounds.minX, y: item.bounds.minY },
+    { x: item.bounds.maxX, y: item.bounds.maxY }
+  ]))
+
+  return items.map(item => {
+    const { bounds } = item
+    switch (mode) {
+      case 'left':
+        return translate(item, selection.minX - bounds.minX, 0, pixelsPerFoot)
+      case 'right':
+        return translate(item, selection.maxX - bounds.maxX, 0, pixelsPerFoot)
+      case 'top':
+        return translate(item, 0, selection.minY - bounds.minY, pixelsPerFoot)
+      case 'bottom':
+        return translate(item, 0, selection.maxY - bounds.maxY, pixelsPerFoot)
+      case 'centerX':
+        return translate(item, (selection.minX + selection.maxX) / 2 - (bounds.minX + bounds.maxX) / 2, 0, pixelsPerFoot)
+      case 'centerY':
+        return translate(item, 0, (selection.minY + selection.maxY) / 2 - (bounds.minY + bounds.maxY) / 2, pixelsPerFoot)
+    }
+  })
+}
+
+// Space items out along an axis in their current order. Without a gap the first and last
+// items stay put and the free space between them is shared evenly; with a gap (feet) the
+// items are packed from the first one with exactly that space between outlines.
+export function distributeEquipment(
+  placed: PlacedEquipment[],
+  definitions: EquipmentItem[],
+  axis: DistributeAxis,
+  reference: AlignReference,
+  pixelsPerFoot: number,
+  gapFeet?: number
+): EquipmentTransform[] {
+  if (placed.length < 2 || (gapFeet === undefined && placed.length < 3)) return []
+
+  const horizontal = axis === 'horizontal'
+  const min = (bounds: Bounds) => horizontal ? bounds.minX : bounds.minY
+  const size = (bounds: Bounds) => horizontal ? bounds.maxX - bounds.minX : bounds.maxY - bounds.minY
+
+  const items = getArrangeItems(placed, definitions, reference, pixelsPerFoot)
+    .sort((a, b) => min(a.bounds) - min(b.bounds))
+
+  let gap = gapFeet
+  if (gap === undefined) {
+    const first = items[0].bounds
+    const last = items[items.length - 1].bounds
+    const span = min(last) + size(last) - min(first)
+    const occupied = items.reduce((total, item) => total + size(item.bounds), 0)
+    gap = (span - occupied) / (items.length - 1)
+  }
+
+  let cursor = min(items[0].bounds)
+  return items.map(item => {
+    const offset = cursor - min(item.bounds)
+    cursor += size(item.bounds) + gap!
+    return horizontal
+      ? translate(item, offset, 0, pixelsPerFoot)
+      : translate(item, 0, offset, pixelsPerFoot)
+  })
+}
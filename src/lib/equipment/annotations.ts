@@ -0,0 +1,114 @@
+import { Annotation, AnnotationKind, AnnotationStyle } from './types'
+import { Bounds, Point, normalizeDegrees, polygonBounds, transformPoints } from '@/lib/utils/geometry'
+
+export const ANNOTATION_KIND_NAMES: Record<AnnotationKind, string> = {
+  text: 'Text',
+  arrow: 'Arrow',
+  callout: 'Callout',
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  polyline: 'Polyline'
+}
+
+export const ANNOTATION_COLORS = ['#1f2937', '#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#2563eb', '#7c3aed', '#ffffff']
+
+export const DEFAULT_ANNOTATION_STYLE: AnnotationStyle = {
+  color: '#1f2937',
+  strokeWidth: 0.5,
+  fontSize: 5
+}
+
+// Size a click-placed annotation gets, in feet, when no size was dragged out
+export const DEFAULT_SHAPE_SIZE = { width: 40, height: 20 }
+export const DEFAULT_ARROW_LENGTH = 40
+export const DEFAULT_CALLOUT_OFFSET = { x: 20, y: -20 } // from the spot a callout points at to its text box
+
+const LINE_HEIGHT = 1.2 // text line height as a multiple of the font size
+const CHARACTER_WIDTH = 0.6 // average character width as a multiple of the font size
+export const CALLOUT_PADDING = 0.4 // callout box padding as a multiple of the font size
+
+export function createAnnotation(
+  kind: AnnotationKind,
+  x: number,
+  y: number,
+  fields: Partial<Omit<Annotation, 'id' | 'kind' | 'x' | 'y'>> = {}
+): Annotation {
+  return {
+    id: `annotation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    kind,
+    x,
+    y,
+    rotation: 0,
+    ...fields,
+    style: { ...DEFAULT_ANNOTATION_STYLE, ...(kind === 'callout' ? { fill: '#ffffff' } : {}), ...fields.style }
+  }
+}
+
+// Short name for menus, the undo history and the PDF notes, e.g. Callout "Gate 3 – ticket booth"
+export function describeAnnotation(annotation: Annotation): string {
+  const text = annotation.text?.trim().replace(/\s+/g, ' ')
+  if (!text) return ANNOTATION_KIND_NAMES[annotation.kind]
+  return `${ANNOTATION_KIND_NAMES[annotation.kind]} "${text.length > 40 ? `${text.slice(0, 39)}…` : text}"`
+}
+
+// Estimated size of a block of text in feet. The canvas measures text exactly when it draws,
+// this is for bounds outside of it.
+export function estimateTextSize(text: string, fontSize: number): { width: number; height: number } {
+  const lines = text.split('\n')
+  return {
+    width: Math.max(...lines.map(line => line.length), 1) * fontSize * CHARACTER_WIDTH,
+    height: lines.length * fontSize * LINE_HEIGHT
+  }
+}
+
+// Outline in feet around the anchor, before rotation
+function getLocalOutline(annotation: Annotation): Point[] {
+  const { kind, style } = annotation
+  const points = annotation.points || []
+  if (kind === 'rectangle' || kind === 'ellipse') {
+    const halfWidth = (annotation.width || 0) / 2
+    const halfHeight = (annotation.height || 0) / 2
+    return [
+      { x: -halfWidth, y: -halfHeight },
+      { x: halfWidth, y: -halfHeight },
+      { x: halfWidth, y: halfHeight },
+      { x: -halfWidth, y: halfHeight }
+    ]
+  }
+  if (kind === 'arrow' || kind === 'polyline') return [{ x: 0, y: 0 }, ...points]
+
+  const padding = kind === 'callout' ? style.fontSize * CALLOUT_PADDING : 0
+  const size = estimateTextSize(annotation.text || '', style.fontSize)
+  return [
+    { x: 0, y: 0 },
+    { x: size.width + padding * 2, y: 0 },
+    { x: size.width + padding * 2, y: size.height + padding * 2 },
+    { x: 0, y: size.height + padding * 2 },
+    ...points
+  ]
+}
+
+// Canvas region (in pixels) an annotation covers
+export function getAnnotationBounds(annotation: Annotation, pixelsPerFoot: number): Bounds {
+  const outline = getLocalOutline(annotation).map(point => ({ x: point.x * pixelsPerFoot, y: point.y * pixelsPerFoot }))
+  return polygonBounds(transformPoints(outline, { x: annotation.x, y: annotation.y }, annotation.rotation))
+}
+
+// Apply a move, rotation or resize from the canvas. The scale stretches the annotation's own
+// geometry: the size of shapes, the points of lines, and the font of text.
+export function transformAnnotation(
+  annotation: Annotation,
+  transform: { x: number; y: number; rotation: number; scaleX: number; scaleY: number }
+): Annotation {
+  const { scaleX, scaleY } = transform
+  const next: Annotation = { ...annotation, x: transform.x, y: transform.y, rotation: normalizeDegrees(transform.rotation) }
+  if (scaleX === 1 && scaleY === 1) return next
+
+  if (annotation.width !== undefined) next.width = annotation.width * scaleX
+  if (annotation.height !== undefined) next.height = annotation.height * scaleY
+  if (annotation.points) next.points = annotation.points.map(point => ({ x: point.x * scaleX, y: point.y * scaleY }))
+  if (annotation.kind === 'text' || annotation.kind === 'callout') {
+    next.style = { ...annotation.style, fontSize: annotation.style.fontSize * scaleY }
+  }
+  return next
+}
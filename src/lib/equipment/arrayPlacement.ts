@@ -0,0 +1,187 @@
+import { PlacedEquipment, EquipmentItem } from './types'
+import { buildEquipmentGeometry } from './clearanceEngine'
+import { Point, normalizeDegrees } from '@/lib/utils/geometry'
+
+export type ArrayPattern = 'row' | 'grid' | 'arc' | 'path'
+export type ArraySpacingMode = 'center' | 'gap' // center-to-center, or gap between clearance zones
+
+export interface ArrayPlacementOptions {
+  pattern: ArrayPattern
+  count: number              // copies in a row, on an arc or along a path
+  rows: number               // grid only; `count` is the number of columns
+  spacingMode: ArraySpacingMode
+  spacing: number            // feet between copies along the row, arc or path
+  rowSpacing: number         // feet between grid rows
+  angle: number              // direction of a row or grid's columns, in degrees clockwise from +x
+  radius: number             // arc radius in feet, measured from the origin
+  startAngle: number         // where on the arc the first copy sits, in degrees
+  rotation: number           // rotation of each copy, relative to the path when followPath is set
+  followPath: boolean        // turn copies on an arc or path to face along it
+}
+
+export interface ArraySlot {
+  x: number                  // center in feet
+  y: number
+  rotation: number
+}
+
+export const MAX_ARRAY_COPIES = 500
+
+export const DEFAULT_ARRAY_OPTIONS: ArrayPlacementOptions = {
+  pattern: 'row',
+  count: 10,
+  rows: 3,
+  spacingMode: 'gap',
+  spacing: 0,
+  rowSpacing: 0,
+  angle: 0,
+  radius: 100,
+  startAngle: -90,
+  rotation: 0,
+  followPath: true
+}
+
+// Most grid rows that fit in MAX_ARRAY_COPIES with `count` columns
+export const getMaxArrayRows = (count: number) =>
+  Math.max(1, Math.floor(MAX_ARRAY_COPIES / Math.max(1, Math.floor(count))))
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180
+const toDegrees = (radians: number) => radians * 180 / Math.PI
+const unit = (degrees: number): Point => ({ x: Math.cos(toRadians(degrees)), y: Math.sin(toRadians(degrees)) })
+
+// Width of an item's clearance envelope measured along a direction, in feet
+function getEnvelopeExtent(definition: EquipmentItem, rotation: number, direction: Point): number {
+  const prototype: PlacedEquipment = {
+    id: 'array_prototype',
+    equipmentId: definition.id,
+    x: 0,
+    y: 0,
+    rotation,
+    dimensions: definition.dimensions,
+    clearance: definition.clearance
+  }
+  const { clearance, footprint } = buildEquipmentGeometry(prototype, definition, 1)
+  const projections = clearance.concat(footprint).map(point => point.x * direction.x + point.y * direction.y)
+  return Math.max(...projections) - Math.min(...projections)
+}
+
+// Center-to-center step in feet between neighbouring copies. `rotation` is the copy's
+// rotation relative to `direction`, the way the copies are laid out.
+function getStep(definition: EquipmentItem, spacing: number, mode: ArraySpacingMode, rotation: number, direction: number): number {
+  if (mode === 'center') return Math.max(0, spacing)
+  return getEnvelopeExtent(definition, rotation, unit(direction)) + Math.max(0, spacing)
+}
+
+function layoutRow(definition: EquipmentItem, options: ArrayPlacementOptions, origin: Point): ArraySlot[] {
+  const along = unit(options.angle)
+  const across = unit(options.angle + 90)
+  const rows = options.pattern === 'grid' ? options.rows : 1
+  const step = getStep(definition, options.spacing, options.spacingMode, options.rotation, options.angle)
+  const rowStep = getStep(definition, options.rowSpacing, options.spacingMode, options.rotation, options.angle + 90)
+
+  const slots: ArraySlot[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < options.count; column++) {
+      slots.push({
+        x: origin.x + along.x * step * column + across.x * rowStep * row,
+        y: origin.y + along.y * step * column + across.y * rowStep * row,
+        rotation: normalizeDegrees(options.rotation)
+      })
+    }
+  }
+  return slots
+}
+
+// Copies around a circle centred on the origin, clockwise from startAngle
+function layoutArc(definition: EquipmentItem, options: ArrayPlacementOptions, origin: Point): ArraySlot[] {
+  const radius = Math.max(1, options.radius)
+  // Measured across the tangent, which is the direction neighbours sit in
+  const step = options.followPath
+    ? getStep(definition, options.spacing, options.spacingMode, options.rotation, 0)
+    : getStep(definition, options.spacing, options.spacingMode, options.rotation, options.startAngle + 90)
+  // The step is the chord between neighbours; stop before the circle closes on itself
+  const angleStep = step >= radius * 2 ? 180 : toDegrees(2 * Math.asin(step / (radius * 2)))
+  const count = angleStep > 0 ? Math.min(options.count, Math.floor(360 / angleStep + 1e-9)) : options.count
+
+  return Array.from({ length: count }, (_, i) => {
+    const angle = options.startAngle + angleStep * i
+    const position = unit(angle)
+    return {
+      x: origin.x + position.x * radius,
+      y: origin.y + position.y * radius,
+      rotation: normalizeDegrees(options.followPath ? options.rotation + angle + 90 : options.rotation)
+    }
+  })
+}
+
+// Copies walked along a polyline (in feet) from its first point, one step apart
+function layoutPath(definition: EquipmentItem, options: ArrayPlacementOptions, path: Point[]): ArraySlot[] {
+  if (path.length < 2) return []
+  const firstDirection = toDegrees(Math.atan2(path[1].y - path[0].y, path[1].x - path[0].x))
+  const step = options.followPath
+    ? getStep(definition, options.spacing, options.spacingMode, options.rotation, 0)
+    : getStep(definition, options.spacing, options.spacingMode, options.rotation, firstDirection)
+  const count = step > 0 ? options.count : 1 // copies with no spacing would all stack on the first point
+
+  const slots: ArraySlot[] = []
+  let distanceToNext = 0 // along the path, from the current vertex
+  for (let i = 0; i < path.length - 1 && slots.length < count; i++) {
+    const start = path[i]
+    const end = path[i + 1]
+    const length = Math.hypot(end.x - start.x, end.y - start.y)
+    const direction = toDegrees(Math.atan2(end.y - start.y, end.x - start.x))
+
+    while (distanceToNext <= length + 1e-9 && slots.length < count) {
+      const t = length > 0 ? distanceToNext / length : 0
+      slots.push({
+        x: start.x + (end.x - start.x) * t,
+        y: start.y + (end.y - start.y) * t,
+        rotation: normalizeDegrees(options.followPath ? options.rotation + direction : options.rotation)
+      })
+      distanceToNext += step
+    }
+    distanceToNext -= length
+  }
+  return slots
+}
+
+// Centers and rotations of the copies, in feet. Rows and grids start at the origin; arcs
+// are centred on it; paths follow the given points.
+export function computeArraySlots(
+  definition: EquipmentItem,
+  options: ArrayPlacementOptions,
+  origin: Point,
+  path: Point[] = []
+): ArraySlot[] {
+  const count = Math.max(1, Math.min(MAX_ARRAY_COPIES, Math.floor(options.count)))
+  // Rows are clamped too, so a grid never lays out more than MAX_ARRAY_COPIES slots
+  const rows = Math.max(1, Math.min(getMaxArrayRows(count), Math.floor(options.rows)))
+  const clamped = { ...options, count, rows }
+  const slots = options.pattern === 'arc'
+    ? layoutArc(definition, clamped, origin)
+    : options.pattern === 'path'
+      ? layoutPath(definition, clamped, path)
+      : layoutRow(definition, clamped, origin)
+  return slots.slice(0, MAX_ARRAY_COPIES)
+}
+
+// Placed copies for the slots, with fresh ids, on the given layer
+export function createArrayEquipment(
+  definition: EquipmentItem,
+  slots: ArraySlot[],
+  pixelsPerFoot: number,
+  layerId?: string
+): PlacedEquipment[] {
+  const batch = `${Date.now()}_${Math.random().toString(36).substr(2, 5)}`
+  return slots.map((slot, index) => ({
+    id: `equipment_${batch}_${index}`,
+    equipmentId: definition.id,
+    x: slot.x * pixelsPerFoot,
+    y: slot.y * pixelsPerFoot,
+    rotation: slot.rotation,
+    dimensions: definition.dimensions,
+    clearance: definition.clearance,
+    customLabel: undefined,
+    layerId
+  }))
+}
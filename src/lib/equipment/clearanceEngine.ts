@@ -0,0 +1,279 @@
+import { PlacedEquipment, EquipmentItem, ClearanceRule } from './types'
+import { resolvePlacedClearance, getClearanceOutline } from './clearanceUtils'
+import { findClearanceRule, getMaxRuleSeparation } from './clearanceRules'
+import { OperationalZone, getOperationalZones, operationalZoneLabels } from './operationalZones'
+import {
+  Point,
+  Bounds,
+  PenetrationVector,
+  transformPoints,
+  circleToPolygon,
+  polygonBounds,
+  boundsIntersect,
+  polygonsIntersect,
+  polygonDistance,
+  polygonIntersection,
+  polygonArea,
+  penetrationVector,
+  offsetPolygon
+} from '@/lib/utils/geometry'
+import { SpatialIndex } from '@/lib/utils/spatialIndex'
+
+// World-space geometry of a placed item, in feet
+export interface EquipmentGeometry {
+  placed: PlacedEquipment
+  definition?: EquipmentItem
+  center: Point
+  footprint: Point[]   // rotated outline of the equipment itself
+  clearance: Point[]   // rotated outline of its clearance zone (footprint if it has none)
+  zones: OperationalZone[] // rotated ramp, backstage and overhang zones
+  bounds: Bounds       // bounding box of the clearance envelope and zones
+}
+
+export interface ClearanceViolation {
+  id: string
+  equipment1: PlacedEquipment
+  equipment2: PlacedEquipment
+  actualDistance: number        // footprint edge-to-edge separation in feet
+  requiredDistance: number      // separation needed for the clearance zones to stop overlapping
+  ruleId?: string               // clearance rule that set the required distance, if any
+  severity: 'warning' | 'critical'
+  description: string
+  overlapRegions: Point[][]     // clearance or zone overlap in world feet, as convex pieces
+  overlapArea: number           // square feet
+  separation: PenetrationVector // how far equipment2 must move (in feet) to clear equipment1
+}
+
+// Build rotated footprint and clearance polygons for a placed item
+export function buildEquipmentGeometry(
+  placed: PlacedEquipment,
+  definition: EquipmentItem | undefined,
+  pixelsPerFoot: number
+): EquipmentGeometry {
+  const center = { x: placed.x / pixelsPerFoot, y: placed.y / pixelsPerFoot }
+  const dimensions = placed.dimensions
+
+  const localFootprint: Point[] = dimensions.shape === 'circle'
+    ? circleToPolygon({ x: 0, y: 0 }, dimensions.radius)
+    : [
+        { x: -dimensions.width / 2, y: -dimensions.height / 2 },
+        { x: dimensions.width / 2, y: -dimensions.height / 2 },
+        { x: dimensions.width / 2, y: dimensions.height / 2 },
+        { x: -dimensions.width / 2, y: dimensions.height / 2 }
+      ]
+
+  const clearance = resolvePlacedClearance(placed, definition)
+  const localClearance = clearance ? getClearanceOutline(clearance, dimensions) : []
+
+  const footprint = transformPoints(localFootprint, center, placed.rotation)
+  const clearancePolygon = localClearance.length >= 3
+    ? transformPoints(localClearance, center, placed.rotation)
+    : footprint
+
+  const zones = getOperationalZones(definition, dimensions).map(zone => ({
+    kind: zone.kind,
+    points: transformPoints(zone.points, center, placed.rotation)
+  }))
+
+  return {
+    placed,
+    definition,
+    center,
+    footprint,
+    clearance: clearancePolygon,
+    zones,
+    bounds: polygonBounds(clearancePolygon.concat(footprint, ...zones.map(zone => zone.points)))
+  }
+}
+
+// Compare two items and describe the conflict, if their clearance zones overlap.
+// When a clearance rule governs the pair, its minimum separation replaces the zone check.
+// Either item standing in the other's ramp, backstage or overhang zone is always critical.
+export function checkClearancePair(
+  a: EquipmentGeometry,
+  b: EquipmentGeometry,
+  rule?: ClearanceRule
+): ClearanceViolation | null {
+  const violation = rule ? checkRuleSeparation(a, b, rule) : checkClearanceOverlap(a, b)
+  const intrusions = findZoneIntrusions(a, b)
+  if (intrusions.length === 0) return violation
+
+  const zoneRegions = intrusions.flatMap(intrusion => intrusion.regions)
+  const zoneArea = zoneRegions.reduce((total, region) => total + polygonArea(region), 0)
+  const deepest = intrusions.reduce((max, intrusion) =>
+    intrusion.separation.depth > max.separation.depth ? intrusion : max
+  )
+  const zoneDescription = intrusions
+    .map(intrusion => `${getDisplayName(intrusion.intruder)} is in the ${operationalZoneLabels[intrusion.zone.kind]} of ${getDisplayName(intrusion.owner)}`)
+    .filter((text, index, all) => all.indexOf(text) === index)
+    .join('; ')
+
+  if (violation) {
+    return {
+      ...violation,
+      severity: 'critical',
+      description: `${violation.description}; ${zoneDescription}`,
+      overlapRegions: violation.overlapRegions.concat(zoneRegions),
+      overlapArea: violation.overlapArea + zoneArea,
+      separation: deepest.separation.depth > violation.separation.depth ? deepest.separation : violation.separation
+    }
+  }
+
+  const actualDistance = polygonDistance(a.footprint, b.footprint)
+  return {
+    id: `${a.placed.id}-${b.placed.id}`,
+    equipment1: a.placed,
+    equipment2: b.placed,
+    actualDistance,
+    requiredDistance: actualDistance + deepest.separation.depth,
+    severity: 'critical',
+    description: zoneDescription,
+    overlapRegions: zoneRegions,
+    overlapArea: zoneArea,
+    separation: deepest.separation
+  }
+}
+
+interface ZoneIntrusion {
+  owner: EquipmentGeometry
+  intruder: EquipmentGeometry
+  zone: OperationalZone
+  regions: Point[][]
+  separation: PenetrationVector  // pushes b away from a, like the violation's separation
+}
+
+// Operational zones of either item that the other item's footprint stands in
+function findZoneIntrusions(a: EquipmentGeometry, b: EquipmentGeometry): ZoneIntrusion[] {
+  if (a.zones.length === 0 && b.zones.length === 0) return []
+  if (!boundsIntersect(a.bounds, b.bounds)) return []
+
+  const intrusions: ZoneIntrusion[] = []
+  const collect = (owner: EquipmentGeometry, intruder: EquipmentGeometry) => {
+    for (const zone of owner.zones) {
+      if (!polygonsIntersect(zone.points, intruder.footprint)) continue
+      const separation = owner === a
+        ? penetrationVector(zone.points, intruder.footprint)
+        : penetrationVector(intruder.footprint, zone.points)
+      // Merely touching the edge of a zone is fine
+      if (!separation) continue
+      intrusions.push({
+        owner,
+        intruder,
+        zone,
+        regions: polygonIntersection(zone.points, intruder.footprint),
+        separation
+      })
+    }
+  }
+  collect(a, b)
+  collect(b, a)
+  return intrusions
+}
+
+// Overlap between the two clearance envelopes
+function checkClearanceOverlap(a: EquipmentGeometry, b: EquipmentGeometry): ClearanceViolation | null {
+  if (!boundsIntersect(a.bounds, b.bounds)) return null
+  if (!polygonsIntersect(a.clearance, b.clearance)) return null
+
+  const separation = penetrationVector(a.clearance, b.clearance)
+  if (!separation) return null
+
+  const overlapRegions = polygonIntersection(a.clearance, b.clearance)
+  const overlapArea = overlapRegions.reduce((total, region) => total + polygonArea(region), 0)
+  const actualDistance = polygonDistance(a.footprint, b.footprint)
+
+  // A ride standing inside another ride's zone is critical; zones merely touching is a warning
+  const footprintIntrudes =
+    actualDistance === 0 ||
+    polygonsIntersect(a.footprint, b.clearance) ||
+    polygonsIntersect(b.footprint, a.clearance)
+  const severity: 'warning' | 'critical' = footprintIntrudes ? 'critical' : 'warning'
+
+  return {
+    id: `${a.placed.id}-${b.placed.id}`,
+    equipment1: a.placed,
+    equipment2: b.placed,
+    actualDistance,
+    requiredDistance: actualDistance + separation.depth,
+    severity,
+    description: `${getDisplayName(a)} and ${getDisplayName(b)} are ${separation.depth.toFixed(1)} ft too close`,
+    overlapRegions,
+    overlapArea,
+    separation
+  }
+}
+
+// Footprints must stay rule.minSeparation apart. Growing each footprint by half the
+// separation turns this into an overlap test, and the overlap gives the push-out vector.
+function checkRuleSeparation(a: EquipmentGeometry, b: EquipmentGeometry, rule: ClearanceRule): ClearanceViolation | null {
+  const required = rule.minSeparation
+  if (!boundsIntersect(polygonBounds(a.footprint), polygonBounds(b.footprint), required)) return null
+
+  const actualDistance = polygonDistance(a.footprint, b.footprint)
+  if (actualDistance >= required) return null
+
+  const zoneA = offsetPolygon(a.footprint, required / 2)
+  const zoneB = offsetPolygon(b.footprint, required / 2)
+  const separation = penetrationVector(zoneA, zoneB) ?? { x: 0, y: 0, depth: required - actualDistance }
+
+  const overlapRegions = polygonIntersection(zoneA, zoneB)
+  const overlapArea = overlapRegions.reduce((total, region) => total + polygonArea(region), 0)
+  const shortfall = required - actualDistance
+
+  // Touching footprints, or less than half the required gap, is critical
+  const severity: 'warning' | 'critical' = actualDistance === 0 || shortfall > required / 2 ? 'critical' : 'warning'
+
+  return {
+    id: `${a.placed.id}-${b.placed.id}`,
+    equipment1: a.placed,
+    equipment2: b.placed,
+    actualDistance,
+    requiredDistance: required,
+    ruleId: rule.id,
+    severity,
+    description: `${getDisplayName(a)} and ${getDisplayName(b)} need ${required.toFixed(1)} ft apart (${shortfall.toFixed(1)} ft short)`,
+    overlapRegions,
+    overlapArea,
+    separation
+  }
+}
+
+function getDisplayName(geometry: EquipmentGeometry): string {
+  return geometry.placed.customLabel || geometry.definition?.name || 'Equipment'
+}
+
+// Find every pair of placed items whose clearance zones overlap. Candidate pairs come
+// from a spatial grid so only neighbouring items are compared.
+export function findClearanceViolations(
+  placedEquipment: PlacedEquipment[],
+  equipmentDefinitions: EquipmentItem[],
+  pixelsPerFoot: number,
+  clearanceRules: ClearanceRule[] = []
+): ClearanceViolation[] {
+  const definitionsById = new Map(equipmentDefinitions.map(def => [def.id, def]))
+  const geometries = new Map<string, EquipmentGeometry>()
+  const index = new SpatialIndex<string>()
+
+  for (const placed of placedEquipment) {
+    const geometry = buildEquipmentGeometry(placed, definitionsById.get(placed.equipmentId), pixelsPerFoot)
+    geometries.set(placed.id, geometry)
+    index.insert(placed.id, geometry.bounds)
+  }
+
+  // Rules can require more room than the clearance zones cover, so widen the search
+  const ruleMargin = getMaxRuleSeparation(clearanceRules)
+  const violations: ClearanceViolation[] = []
+  geometries.forEach((geometry, id) => {
+    for (const neighbourId of index.query(geometry.bounds, ruleMargin)) {
+      // Each pair is checked once, with the lower id first so violation ids are stable
+      if (neighbourId <= id) continue
+      const neighbour = geometries.get(neighbourId)
+      if (!neighbour) continue
+      const rule = findClearanceRule(clearanceRules, geometry.definition, neighbour.definition)
+      const violation = checkClearancePair(geometry, neighbour, rule)
+      if (violation) violations.push(violation)
+    }
+  })
+
+  return violations
+}
@@ -0,0 +1,309 @@
+import { PlacedEquipment, EquipmentItem, ClearanceRule, EquipmentTransform } from './types'
+import { EquipmentGeometry, ClearanceViolation, buildEquipmentGeometry, checkClearancePair } from './clearanceEngine'
+import { findClearanceRule, getMaxRuleSeparation } from './clearanceRules'
+import { Bounds, Point, boundsIntersect, isPointInPolygon, pointToSegmentDistance } from '@/lib/utils/geometry'
+import { SpatialIndex } from '@/lib/utils/spatialIndex'
+
+// Cell size in feet; a little larger than a typical ride plus its clearance
+const DEFAULT_CELL_SIZE_FT = 50
+
+// Order-independent key for a pair of placed items
+export function getPairKey(id1: string, id2: string): string {
+  return id1 < id2 ? `${id1}-${id2}` : `${id2}-${id1}`
+}
+
+// The index as of one sync, with the violations it found. Each sync makes a new snapshot,
+// so components that read from the index know when to update.
+export interface ClearanceSnapshot {
+  index: ClearanceIndex
+  violations: ClearanceViolation[]
+}
+
+// Incrementally maintained index of placed equipment geometry and clearance violations.
+// Call sync() with the current placed equipment after every change; only items whose
+// object identity (or definition) changed are rebuilt and re-checked against neighbours.
+// Passing a different clearance rules array re-checks everything.
+export class ClearanceIndex {
+  readonly pixelsPerFoot: number
+  private readonly index: SpatialIndex<string>
+  private readonly geometries = new Map<string, EquipmentGeometry>()
+  private readonly violations = new Map<string, ClearanceViolation>()
+  private readonly pairsById = new Map<string, Set<string>>()
+  private rules: ClearanceRule[] = []
+  private ruleMargin = 0
+
+  constructor(pixelsPerFoot: number, cellSize: number = DEFAULT_CELL_SIZE_FT) {
+    this.pixelsPerFoot = pixelsPerFoot
+    this.index = new SpatialIndex<string>(cellSize)
+  }
+
+  get size(): number {
+    return this.geometries.size
+  }
+
+  // Bring the index up to date with the current placed equipment
+  sync(
+    placedEquipment: PlacedEquipment[],
+    equipmentDefinitions: EquipmentItem[],
+    clearanceRules: ClearanceRule[] = this.rules
+  ): void {
+    const definitionsById = new Map(equipmentDefinitions.map(def => [def.id, def]))
+    const present = new Set<string>()
+    const dirty: string[] = []
+    const rulesChanged = clearanceRules !== this.rules
+    if (rulesChanged) {
+      this.rules = clearanceRules
+      this.ruleMargin = getMaxRuleSeparation(clearanceRules)
+    }
+
+    for (const placed of placedEquipment) {
+      present.add(placed.id)
+      const definition = definitionsById.get(placed.equipmentId)
+      const cached = this.geometries.get(placed.id)
+      if (cached && cached.placed === placed && cached.definition === definition) {
+        if (rulesChanged) dirty.push(placed.id)
+        continue
+      }
+
+      const geometry = buildEquipmentGeometry(placed, definition, this.pixelsPerFoot)
+      this.geometries.set(placed.id, geometry)
+      this.index.insert(placed.id, geometry.bounds)
+      dirty.push(placed.id)
+    }
+
+    // Drop deleted items
+    Array.from(this.geometries.keys()).forEach(id => {
+      if (present.has(id)) return
+      this.clearPairs(id)
+      this.geometries.delete(id)
+      this.index.remove(id)
+    })
+
+    // Re-check moved, rotated, added or redefined items against their neighbours only
+    dirty.forEach(id => this.clearPairs(id))
+    const checked = new Set<string>()
+    for (const id of dirty) {
+      const geometry = this.geometries.get(id)
+      if (!geometry) continue
+
+      for (const neighbourId of this.index.query(geometry.bounds, this.ruleMargin)) {
+        if (neighbourId === id) continue
+        const pairKey = getPairKey(id, neighbourId)
+        if (checked.has(pairKey)) continue
+        checked.add(pairKey)
+
+        const neighbour = this.geometries.get(neighbourId)
+        if (!neighbour) continue
+        const [first, second] = id < neighbourId ? [geometry, neighbour] : [neighbour, geometry]
+        const rule = findClearanceRule(this.rules, first.definition, second.definition)
+        const violation = checkClearancePair(first, second, rule)
+        if (violation) this.addPair(pairKey, first.placed.id, second.placed.id, violation)
+      }
+    }
+  }
+
+  getViolations(): ClearanceViolation[] {
+    return Array.from(this.violations.values())
+  }
+
+  getGeometry(id: string): EquipmentGeometry | undefined {
+    return this.geometries.get(id)
+  }
+
+  // Items whose clearance envelope touches the given bounds (in feet)
+  queryBounds(bounds: Bounds, margin: number = 0): EquipmentGeometry[] {
+    return this.index.query(bounds, margin)
+      .map(id => this.geometries.get(id))
+      .filter((geometry): geometry is EquipmentGeometry => !!geometry)
+  }
+
+  // Violations a placed item would cause at a hypothetical position, ignoring itself and
+  // the items in ignoreIds, e.g. the rest of a selection that moves with it
+  findConflicts(candidate: PlacedEquipment, definition?: EquipmentItem, ignoreIds?: Set<string>): ClearanceViolation[] {
+    const geometry = buildEquipmentGeometry(
+      candidate,
+      definition ?? this.geometries.get(candidate.id)?.definition,
+      this.pixelsPerFoot
+    )
+
+    const conflicts: ClearanceViolation[] = []
+    for (const neighbourId of this.index.query(geometry.bounds, this.ruleMargin)) {
+      if (neighbourId === candidate.id || ignoreIds?.has(neighbourId)) continue
+      const neighbour = this.geometries.get(neighbourId)
+      if (!neighbour) continue
+      const rule = findClearanceRule(this.rules, geometry.definition, neighbour.definition)
+      const violation = candidate.id < neighbourId
+        ? checkClearancePair(geometry, neighbour, rule)
+        : checkClearancePair(neighbour, geometry, rule)
+      if (violation) conflicts.push(violation)
+    }
+    return conflicts
+  }
+
+  // Nearest conflict-free position (in pixels) for a candidate placement, found by
+  // repeatedly pushing it out of the deepest overlap. Prefers grid-snapped positions
+  // when gridSize is given. Returns null if no legal position is found nearby.
+  findLegalPosition(
+    candidate: PlacedEquipment,
+    gridSize?: number,
+    definition?: EquipmentItem,
+    maxIterations: number = 12
+  ): { x: number; y: number } | null {
+    const isLegal = (x: number, y: number) => this.findConflicts({ ...candidate, x, y }, definition).length === 0
+    let x = candidate.x
+    let y = candidate.y
+
+    for (let i = 0; i <= maxIterations; i++) {
+      const conflicts = this.findConflicts({ ...candidate, x, y }, definition)
+      if (conflicts.length === 0) {
+        if (!gridSize) return { x, y }
+
+        // Try the surrounding grid points, closest first, and fall back to the exact position
+        const snapOptions = [Math.floor, Math.ceil].flatMap(roundX =>
+          [Math.floor, Math.ceil].map(roundY => ({
+            x: roundX(x / gridSize) * gridSize,
+            y: roundY(y / gridSize) * gridSize
+          }))
+        ).sort((a, b) => Math.hypot(a.x - x, a.y - y) - Math.hypot(b.x - x, b.y - y))
+        return snapOptions.find(option => isLegal(option.x, option.y)) ?? { x, y }
+      }
+
+      const deepest = conflicts.reduce((max, conflict) =>
+        conflict.separation.depth > max.separation.depth ? conflict : max
+      )
+      // The separation vector pushes equipment2 away from equipment1
+      const direction = deepest.equipment2.id === candidate.id ? 1 : -1
+      const distance = (deepest.separation.depth + 0.05) * this.pixelsPerFoot
+      x += deepest.separation.x * direction * distance
+      y += deepest.separation.y * direction * distance
+    }
+
+    return null
+  }
+
+  // Violations a move, rotation, align or distribute of several items would cause. Each
+  // moved item is checked at its new place against the items that stay put. Pairs of moved
+  // items are checked against each other too, except pairs already in violation, unless the
+  // transform is rigid: moving or turning a selection as one piece keeps them apart.
+  findTransformConflicts(transforms: EquipmentTransform[], rigid: boolean = false): ClearanceViolation[] {
+    const movedIds = new Set(transforms.map(transform => transform.id))
+    const moved = this.getTransformedEquipment(transforms)
+    const conflicts = moved.flatMap(placed => this.findConflicts(placed, undefined, movedIds))
+    if (rigid) return conflicts
+
+    const geometries = moved.map(placed =>
+      buildEquipmentGeometry(placed, this.geometries.get(placed.id)?.definition, this.pixelsPerFoot)
+    )
+    geometries.forEach((a, i) => {
+      for (const b of geometries.slice(i + 1)) {
+        if (this.violations.has(getPairKey(a.placed.id, b.placed.id))) continue
+        if (!boundsIntersect(a.bounds, b.bounds, this.ruleMargin)) continue
+        const [first, second] = a.placed.id < b.placed.id ? [a, b] : [b, a]
+        const rule = findClearanceRule(this.rules, first.definition, second.definition)
+        const violation = checkClearancePair(first, second, rule)
+        if (violation) conflicts.push(violation)
+      }
+    })
+    return conflicts
+  }
+
+  // The transform strict placement allows: the transform itself when it causes no
+  // conflicts, otherwise the same transform shifted out of the deepest overlap with the
+  // items that stay put, preferring a grid-aligned shift when gridSize is given. Returns
+  // null when the moved items conflict with each other or no clear spot is found nearby.
+  findLegalTransform(
+    transforms: EquipmentTransform[],
+    gridSize?: number,
+    rigid: boolean = false,
+    maxIterations: number = 12
+  ): EquipmentTransform[] | null {
+    const movedIds = new Set(transforms.map(transform => transform.id))
+    const shift = (dx: number, dy: number) =>
+      transforms.map(transform => ({ ...transform, x: transform.x + dx, y: transform.y + dy }))
+    const findShiftConflicts = (dx: number, dy: number) => this.findTransformConflicts(shift(dx, dy), rigid)
+
+    let dx = 0
+    let dy = 0
+    for (let i = 0; i <= maxIterations; i++) {
+      const conflicts = findShiftConflicts(dx, dy)
+      if (conflicts.length === 0) {
+        if (!gridSize || (dx === 0 && dy === 0)) return shift(dx, dy)
+
+        // Try the surrounding grid steps, smallest change first, and fall back to the exact shift
+        const snapOptions = [Math.floor, Math.ceil].flatMap(roundX =>
+          [Math.floor, Math.ceil].map(roundY => ({
+            x: roundX(dx / gridSize) * gridSize,
+            y: roundY(dy / gridSize) * gridSize
+          }))
+        ).sort((a, b) => Math.hypot(a.x - dx, a.y - dy) - Math.hypot(b.x - dx, b.y - dy))
+        const snapped = snapOptions.find(option => findShiftConflicts(option.x, option.y).length === 0)
+        return snapped ? shift(snapped.x, snapped.y) : shift(dx, dy)
+      }
+
+      // Moving the whole set cannot separate two of its own items
+      if (conflicts.some(conflict => movedIds.has(conflict.equipment1.id) && movedIds.has(conflict.equipment2.id))) {
+        return null
+      }
+
+      const deepest = conflicts.reduce((max, conflict) =>
+        conflict.separation.depth > max.separation.depth ? conflict : max
+      )
+      // The separation vector pushes equipment2 away from equipment1
+      const direction = movedIds.has(deepest.equipment2.id) ? 1 : -1
+      const distance = (deepest.separation.depth + 0.05) * this.pixelsPerFoot
+      dx += deepest.separation.x * direction * distance
+      dy += deepest.separation.y * direction * distance
+    }
+
+    return null
+  }
+
+  // Items whose footprint contains the canvas point (in pixels), or passes within
+  // `tolerance` pixels of it, in no particular order
+  hitTest(point: Point, tolerance: number = 0): PlacedEquipment[] {
+    const pointInFeet = { x: point.x / this.pixelsPerFoot, y: point.y / this.pixelsPerFoot }
+    const toleranceFeet = tolerance / this.pixelsPerFoot
+    const isNear = (footprint: Point[]) => footprint.some((vertex, i) =>
+      pointToSegmentDistance(pointInFeet, vertex, footprint[(i + 1) % footprint.length]) <= toleranceFeet
+    )
+
+    return this.index.queryPoint(pointInFeet, toleranceFeet)
+      .map(id => this.geometries.get(id))
+      .filter((geometry): geometry is EquipmentGeometry => !!geometry &&
+        (isPointInPolygon(pointInFeet, geometry.footprint) || (toleranceFeet > 0 && isNear(geometry.footprint))))
+      .map(geometry => geometry.placed)
+  }
+
+  // Indexed items at the places a transform moves them to
+  private getTransformedEquipment(transforms: EquipmentTransform[]): PlacedEquipment[] {
+    return transforms.flatMap(transform => {
+      const placed = this.geometries.get(transform.id)?.placed
+      return placed ? [{ ...placed, x: transform.x, y: transform.y, rotation: transform.rotation }] : []
+    })
+  }
+
+  private addPair(pairKey: string, id1: string, id2: string, violation: ClearanceViolation): void {
+    this.violations.set(pairKey, violation)
+    for (const id of [id1, id2]) {
+      let pairs = this.pairsById.get(id)
+      if (!pairs) {
+        pairs = new Set()
+        this.pairsById.set(id, pairs)
+      }
+      pairs.add(pairKey)
+    }
+  }
+
+  private clearPairs(id: string): void {
+    const pairs = this.pairsById.get(id)
+    if (!pairs) return
+    pairs.forEach(pairKey => {
+      const violation = this.violations.get(pairKey)
+      this.violations.delete(pairKey)
+      if (!violation) return
+      const otherId = violation.equipment1.id === id ? violation.equipment2.id : violation.equipment1.id
+      this.pairsById.get(otherId)?.delete(pairKey)
+    })
+    this.pairsById.delete(id)
+  }
+}
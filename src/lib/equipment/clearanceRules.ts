@@ -0,0 +1,58 @@
+import { ClearanceRule, EquipmentCategory, EquipmentItem } from './types'
+
+function matchesSide(category: EquipmentCategory, equipmentId: string | undefined, definition: EquipmentItem): boolean {
+  return category === definition.category && (!equipmentId || equipmentId === definition.id)
+}
+
+function ruleMatches(rule: ClearanceRule, def1: EquipmentItem, def2: EquipmentItem): boolean {
+  return (
+    (matchesSide(rule.categoryA, rule.equipmentIdA, def1) && matchesSide(rule.categoryB, rule.equipmentIdB, def2)) ||
+    (matchesSide(rule.categoryA, rule.equipmentIdA, def2) && matchesSide(rule.categoryB, rule.equipmentIdB, def1))
+  )
+}
+
+// Number of equipment ids a rule pins down; more specific rules win
+function ruleSpecificity(rule: ClearanceRule): number {
+  return (rule.equipmentIdA ? 1 : 0) + (rule.equipmentIdB ? 1 : 0)
+}
+
+// Find the rule that governs a pair of definitions. The most specific match wins;
+// between equally specific rules the larger separation is used.
+export function findClearanceRule(
+  rules: ClearanceRule[],
+  def1: EquipmentItem | undefined,
+  def2: EquipmentItem | undefined
+): ClearanceRule | undefined {
+  if (!def1 || !def2 || rules.length === 0) return undefined
+
+  let best: ClearanceRule | undefined
+  for (const rule of rules) {
+    if (!ruleMatches(rule, def1, def2)) continue
+    if (
+      !best ||
+      ruleSpecificity(rule) > ruleSpecificity(best) ||
+      (ruleSpecificity(rule) === ruleSpecificity(best) && rule.minSeparation > best.minSeparation)
+    ) {
+      best = rule
+    }
+  }
+  return best
+}
+
+// Largest separation any rule asks for, used to widen neighbour searches
+export function getMaxRuleSeparation(rules: ClearanceRule[]): number {
+  return rules.reduce((max, rule) => Math.max(max, rule.minSeparation || 0), 0)
+}
+
+export function createClearanceRule(
+  categoryA: EquipmentCategory,
+  categoryB: EquipmentCategory,
+  minSeparation: number
+): ClearanceRule {
+  return {
+    id: `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    categoryA,
+    categoryB,
+    minSeparation
+  }
+}
@@ -1,4 +1,15 @@
-import { ClearancePoint, CustomClearance, RectangularClearance, EquipmentClearance, EquipmentDimensions } from './types'
+import { ClearancePoint, CustomClearance, RectangularClearance, RadialClearance, OffsetClearance, EquipmentClearance, EquipmentDimensions, EquipmentItem, PlacedEquipment } from './types'
+import {
+  Point,
+  circleToPolygon,
+  offsetPolygon,
+  convexHull,
+  isPointInPolygon,
+  segmentsIntersect,
+  pointToSegmentDistance,
+  signedPolygonArea,
+  polygonArea
+} from '@/lib/utils/geometry'
 
 // Convert rectangular clearance to custom clearance polygon
 export function rectangularToCustomClearance(
@@ -38,16 +49,87 @@ export function rectangularToCustomClearance(
   }
 }
 
-// Create default rectangular clearance from equipment
+// Convert a radial or offset clearance to an editable custom polygon, using
+// 90 degree arcs for the round parts
+export function offsetToCustomClearance(
+  clearance: RadialClearance | OffsetClearance,
+  dimensions: EquipmentDimensions
+): CustomClearance {
+  const arc = { curveType: 'arc' as const, curveAngle: 90 as const, curveDirection: 'clockwise' as const }
+
+  if (dimensions.shape === 'circle' || clearance.type === 'radial') {
+    const radius = getFootprintRadius(dimensions) + clearance.distance
+    return {
+      type: 'custom',
+      points: [
+        { x: radius, y: 0, ...arc },
+        { x: 0, y: radius, ...arc },
+        { x: -radius, y: 0, ...arc },
+        { x: 0, y: -radius, ...arc }
+      ],
+      closed: true
+    }
+  }
+
+  const halfWidth = dimensions.width / 2
+  const halfHeight = dimensions.height / 2
+  const d = clearance.distance
+  const straight = { curveType: 'none' as const }
+
+  // Straight sides alternate with quarter-circle corners, clockwise from the top-left
+  return {
+    type: 'custom',
+    points: [
+      { x: -halfWidth, y: -halfHeight - d, ...straight },
+      { x: halfWidth, y: -halfHeight - d, ...arc },
+      { x: halfWidth + d, y: -halfHeight, ...straight },
+      { x: halfWidth + d, y: halfHeight, ...arc },
+      { x: halfWidth, y: halfHeight + d, ...straight },
+      { x: -halfWidth, y: halfHeight + d, ...arc },
+      { x: -halfWidth - d, y: halfHeight, ...straight },
+      { x: -halfWidth - d, y: -halfHeight, ...arc }
+    ],
+    closed: true
+  }
+}
+
+// Convert any clearance to a custom polygon for editing
+export function toCustomClearance(
+  clearance: EquipmentClearance,
+  dimensions: EquipmentDimensions
+): CustomClearance {
+  switch (clearance.type) {
+    case 'custom':
+      return clearance
+    case 'rectangular':
+      if (dimensions.shape === 'circle') {
+        // Circles draw rectangular clearance as a ring of the largest side value
+        const distance = Math.max(clearance.front ?? clearance.all ?? 0, clearance.back ?? clearance.all ?? 0, clearance.left ?? clearance.all ?? 0, clearance.right ?? clearance.all ?? 0)
+        return offsetToCustomClearance({ type: 'radial', distance }, dimensions)
+      }
+      return rectangularToCustomClearance(clearance, dimensions)
+    case 'radial':
+    case 'offset':
+      return offsetToCustomClearance(clearance, dimensions)
+  }
+}
+
+// Distance from the center to the furthest point of the footprint
+function getFootprintRadius(dimensions: EquipmentDimensions): number {
+  return dimensions.shape === 'circle'
+    ? dimensions.radius
+    : Math.hypot(dimensions.width / 2, dimensions.height / 2)
+}
+
+// Create the default clearance zone for a ride clearing distance: a ring around
+// circular equipment and a rounded offset around rectangular equipment
 export function createDefaultClearance(
   dimensions: EquipmentDimensions,
   rideClearing: number = 0
-): CustomClearance {
-  const defaultClearance: RectangularClearance = {
-    type: 'rectangular',
-    all: rideClearing
-  }
-  return rectangularToCustomClearance(defaultClearance, dimensions)
+): EquipmentClearance {
+  return dimensions.shape === 'circle'
+    ? { type: 'radial', distance: rideClearing }
+    : { type: 'offset', distance: rideClearing }
 }
 
 // Calculate curve points between two clearance points
@@ -87,9 +169,13 @@ export function calculateCurvePoints(
   const startAngle = Math.atan2(point1.y - centerY, point1.x - centerX)
   const endAngle = Math.atan2(point2.y - centerY, point2.x - centerX)
   
-  let angleStep = (endAngle - startAngle) / segments
-  if (direction === 'clockwise' && angleStep > 0) angleStep -= 2 * Math.PI
-  if (direction === 'counterclockwise' && angleStep < 0) angleStep += 2 * Math.PI
+  // Take the short way round so arcs crossing the -180/180 degree seam don't sweep backwards;
+  // a half circle goes the way of the curve direction (clockwise is increasing angle on screen)
+  let sweep = endAngle - startAngle
+  if (sweep > Math.PI + 1e-9) sweep -= 2 * Math.PI
+  if (sweep < -Math.PI - 1e-9) sweep += 2 * Math.PI
+  if (Math.abs(Math.abs(sweep) - Math.PI) < 1e-6) sweep = direction === 'clockwise' ? Math.PI : -Math.PI
+  const angleStep = sweep / segments
   
   const points: { x: number; y: number }[] = []
   for (let i = 0; i <= segments; i++) {
@@ -136,8 +222,95 @@ export function generateClearancePolygonPoints(clearance: CustomClearance): { x:
   return allPoints
 }
 
-// Validate custom clearance polygon
-export function validateCustomClearance(clearance: CustomClearance): string[] {
+// Points closer than this (in feet) are treated as the same point
+const POINT_TOLERANCE = 0.01
+
+type CurveAttributes = Pick<ClearancePoint, 'curveType' | 'curveAngle' | 'curveDirection'>
+
+// Each polygon edge as a polyline (arcs expanded), tagged with the index of its start point
+function getClearanceEdges(points: ClearancePoint[]): { index: number; points: Point[] }[] {
+  return points.map((point, index) => ({
+    index,
+    points: calculateCurvePoints(point, points[(index + 1) % points.length])
+  }))
+}
+
+function isDegenerateEdge(from: ClearancePoint, to: ClearancePoint): boolean {
+  return Math.hypot(to.x - from.x, to.y - from.y) < POINT_TOLERANCE
+}
+
+// Pairs of edges (by start point index) that cross each other. Edges sharing a
+// vertex only count if they meet somewhere other than that vertex.
+export function findClearanceSelfIntersections(clearance: CustomClearance): [number, number][] {
+  const count = clearance.points.length
+  if (count < 4) return []
+
+  const edges = getClearanceEdges(clearance.points)
+  const crossings: [number, number][] = []
+
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      const a = edges[i].points
+      const b = edges[j].points
+      const nextToEachOther = j === i + 1
+      const wrapsAround = i === 0 && j === count - 1
+
+      let crosses = false
+      for (let m = 0; m < a.length - 1 && !crosses; m++) {
+        for (let n = 0; n < b.length - 1 && !crosses; n++) {
+          // Skip the sub-segments that meet at the shared vertex
+          if (nextToEachOther && m === a.length - 2 && n === 0) continue
+          if (wrapsAround && m === 0 && n === b.length - 2) continue
+          crosses = segmentsIntersect(a[m], a[m + 1], b[n], b[n + 1])
+        }
+      }
+      if (crosses) crossings.push([i, j])
+    }
+  }
+
+  return crossings
+}
+
+// Outline of the equipment footprint in feet, relative to its center. Circles use
+// a circumscribed octagon so every point of the circle lies inside it.
+function getFootprintOutline(dimensions: EquipmentDimensions): Point[] {
+  if (dimensions.shape === 'circle') {
+    return circleToPolygon({ x: 0, y: 0 }, dimensions.radius / Math.cos(Math.PI / 8), 8)
+  }
+  const halfWidth = dimensions.width / 2
+  const halfHeight = dimensions.height / 2
+  return [
+    { x: -halfWidth, y: -halfHeight },
+    { x: halfWidth, y: -halfHeight },
+    { x: halfWidth, y: halfHeight },
+    { x: -halfWidth, y: halfHeight }
+  ]
+}
+
+// True when the clearance polygon fully contains the equipment footprint (touching is allowed)
+export function clearanceEnclosesFootprint(clearance: CustomClearance, dimensions: EquipmentDimensions): boolean {
+  const polygon = generateClearancePolygonPoints(clearance)
+  if (polygon.length < 3) return false
+
+  const onBoundary = (point: Point) => polygon.some((vertex, i) =>
+    pointToSegmentDistance(point, vertex, polygon[(i + 1) % polygon.length]) < POINT_TOLERANCE
+  )
+  const footprint = dimensions.shape === 'circle'
+    ? circleToPolygon({ x: 0, y: 0 }, dimensions.radius, 16)
+    : getFootprintOutline(dimensions)
+
+  // Every footprint vertex inside, and no clearance vertex cutting into the footprint
+  return (
+    footprint.every(point => isPointInPolygon(point, polygon) || onBoundary(point)) &&
+    !polygon.some(point => isPointInPolygon(point, footprint) && !footprint.some((vertex, i) =>
+      pointToSegmentDistance(point, vertex, footprint[(i + 1) % footprint.length]) < POINT_TOLERANCE
+    ))
+  )
+}
+
+// Validate custom clearance polygon. Pass the equipment dimensions to also check
+// that the polygon encloses the footprint.
+export function validateCustomClearance(clearance: CustomClearance, dimensions?: EquipmentDimensions): string[] {
   const errors: string[] = []
   
   if (clearance.points.length < 3) {
@@ -154,10 +327,151 @@ export function validateCustomClearance(clearance: CustomClearance): string[] {
       errors.push(`Invalid curve angle: ${point.curveAngle}. Must be 45, 90, or 180 degrees`)
     }
   }
+
+  if (clearance.points.length < 3) return errors
+
+  // Zero-length edges, and arcs with nothing to curve between. The remaining checks
+  // need a well-formed outline, so stop here if there are any.
+  const errorCount = errors.length
+  clearance.points.forEach((point, index) => {
+    const next = clearance.points[(index + 1) % clearance.points.length]
+    if (!isDegenerateEdge(point, next)) return
+    const nextNumber = (index + 1) % clearance.points.length + 1
+    errors.push(point.curveType === 'arc'
+      ? `Point ${index + 1}: curved edge to point ${nextNumber} has zero length`
+      : `Points ${index + 1} and ${nextNumber} are at the same position`)
+  })
+
+  if (errors.length > errorCount) return errors
+
+  const crossings = findClearanceSelfIntersections(clearance)
+  crossings.forEach(([i, j]) => {
+    errors.push(`Edge from point ${i + 1} crosses edge from point ${j + 1}`)
+  })
+  if (crossings.length === 0 && polygonArea(generateClearancePolygonPoints(clearance)) < POINT_TOLERANCE) {
+    errors.push('Clearance polygon has no area')
+    return errors
+  }
+
+  if (dimensions && !clearanceEnclosesFootprint(clearance, dimensions)) {
+    errors.push('Clearance polygon does not enclose the equipment footprint')
+  }
   
   return errors
 }
 
+function getCurveAttributes(point: ClearancePoint): CurveAttributes {
+  return { curveType: point.curveType, curveAngle: point.curveAngle, curveDirection: point.curveDirection }
+}
+
+// Curve of an edge walked in the opposite direction; the arc center stays put
+function flipCurve(curve: CurveAttributes): CurveAttributes {
+  if (curve.curveType !== 'arc') return curve
+  return { ...curve, curveDirection: curve.curveDirection === 'counterclockwise' ? 'clockwise' : 'counterclockwise' }
+}
+
+// Reverse point order, keeping every edge's curve attached to the same edge
+function reverseClearancePoints(points: ClearancePoint[]): ClearancePoint[] {
+  const count = points.length
+  return points.slice().reverse().map((point, k) => {
+    // Reversed point k is original point count-1-k; its outgoing edge was the original
+    // edge arriving from the previous point
+    const previous = points[(2 * count - 2 - k) % count]
+    return { x: point.x, y: point.y, ...flipCurve(getCurveAttributes(previous)) }
+  })
+}
+
+// Clockwise on screen (y-down) is positive signed area
+export function normalizeClearanceWinding(clearance: CustomClearance): CustomClearance {
+  const area = signedPolygonArea(generateClearancePolygonPoints(clearance))
+  return area < 0 ? { ...clearance, points: reverseClearancePoints(clearance.points) } : clearance
+}
+
+// Uncross edges i and j (by start index) by reversing the points between them
+function uncrossEdges(points: ClearancePoint[], i: number, j: number): ClearancePoint[] {
+  const straight: CurveAttributes = { curveType: 'none' }
+  const between = points.slice(i + 1, j + 1)
+  const reversed = reverseClearancePoints(between)
+  // The two reconnected edges become straight
+  return [
+    ...points.slice(0, i),
+    { x: points[i].x, y: points[i].y, ...straight },
+    ...reversed.slice(0, -1),
+    { ...reversed[reversed.length - 1], ...straight },
+    ...points.slice(j + 1)
+  ]
+}
+
+function isRepairable(clearance: CustomClearance): boolean {
+  return clearance.points.length >= 3
+}
+
+// Fix what validateCustomClearance complains about, as far as possible. Returns the
+// repaired polygon and a description of each change; the input is left untouched.
+export function repairCustomClearance(
+  clearance: CustomClearance,
+  dimensions?: EquipmentDimensions
+): { clearance: CustomClearance; fixes: string[] } {
+  const fixes: string[] = []
+  let points = clearance.points.map(point => ({ ...point }))
+
+  // Unsupported curve angles fall back to a quarter circle
+  const badAngles = points.filter(point => point.curveAngle && ![45, 90, 180].includes(point.curveAngle))
+  if (badAngles.length > 0) {
+    badAngles.forEach(point => { point.curveAngle = 90 })
+    fixes.push(`Reset ${badAngles.length} invalid curve angle${badAngles.length === 1 ? '' : 's'} to 90°`)
+  }
+
+  // Duplicate points and the zero-length (possibly curved) edges between them
+  const deduped = points.filter((point, index) =>
+    index === 0 || !isDegenerateEdge(points[index - 1], point)
+  )
+  if (deduped.length > 1 && isDegenerateEdge(deduped[deduped.length - 1], deduped[0])) deduped.pop()
+  if (deduped.length < points.length) {
+    fixes.push(`Removed ${points.length - deduped.length} duplicate point${points.length - deduped.length === 1 ? '' : 's'}`)
+    points = deduped
+  }
+
+  let repaired: CustomClearance = { ...clearance, points, closed: true }
+  if (!clearance.closed && isRepairable(repaired)) {
+    fixes.push('Closed the polygon')
+  }
+
+  // Uncross edges one pair at a time, then straighten arcs if they still cross
+  let crossings = findClearanceSelfIntersections(repaired)
+  if (crossings.length > 0) {
+    for (let attempt = 0; attempt < points.length * points.length && crossings.length > 0; attempt++) {
+      const [i, j] = crossings[0]
+      repaired = { ...repaired, points: uncrossEdges(repaired.points, i, j) }
+      crossings = findClearanceSelfIntersections(repaired)
+    }
+    if (crossings.length > 0) {
+      repaired = { ...repaired, points: repaired.points.map(point => ({ x: point.x, y: point.y, curveType: 'none' as const })) }
+      crossings = findClearanceSelfIntersections(repaired)
+    }
+    if (crossings.length > 0) {
+      repaired = { ...repaired, points: convexHull(repaired.points).map(point => ({ x: point.x, y: point.y, curveType: 'none' as const })) }
+    }
+    fixes.push('Untangled self-intersecting edges')
+  }
+
+  // Grow the polygon to the convex hull of itself and the footprint
+  if (dimensions && isRepairable(repaired) && !clearanceEnclosesFootprint(repaired, dimensions)) {
+    const hull = convexHull(generateClearancePolygonPoints(repaired).concat(getFootprintOutline(dimensions)))
+    const simplified = hull.length > 20 ? convexHull(repaired.points.map(p => ({ x: p.x, y: p.y })).concat(getFootprintOutline(dimensions))) : hull
+    repaired = { ...repaired, points: simplified.map(point => ({ x: point.x, y: point.y, curveType: 'none' as const })) }
+    fixes.push('Expanded the polygon to enclose the equipment footprint')
+  }
+
+  const wound = normalizeClearanceWinding(repaired)
+  if (wound !== repaired) {
+    fixes.push('Reordered points clockwise')
+    repaired = wound
+  }
+
+  return { clearance: repaired, fixes }
+}
+
 // Check if a point is inside a custom clearance polygon
 export function isPointInClearance(
   x: number,
@@ -191,3 +505,52 @@ export function isPointInClearance(
   
   return inside
 }
+
+// Resolve the clearance that applies to a placed item: its own clearance, or a
+// default zone built from the definition's ride clearing distance
+export function resolvePlacedClearance(
+  placed: PlacedEquipment,
+  definition?: EquipmentItem
+): EquipmentClearance | undefined {
+  if (placed.clearance) return placed.clearance
+  if (definition?.rideClearing && definition.rideClearing > 0) {
+    return createDefaultClearance(placed.dimensions, definition.rideClearing)
+  }
+  return undefined
+}
+
+// Outline of a clearance zone in equipment-relative feet, matching how EquipmentLayer draws it
+export function getClearanceOutline(
+  clearance: EquipmentClearance,
+  dimensions: EquipmentDimensions
+): { x: number; y: number }[] {
+  if (clearance.type === 'custom') {
+    return generateClearancePolygonPoints(clearance)
+  }
+
+  if (clearance.type === 'radial' || clearance.type === 'offset') {
+    if (clearance.distance <= 0) return []
+    if (dimensions.shape === 'circle' || clearance.type === 'radial') {
+      return circleToPolygon({ x: 0, y: 0 }, getFootprintRadius(dimensions) + clearance.distance)
+    }
+    const halfWidth = dimensions.width / 2
+    const halfHeight = dimensions.height / 2
+    return offsetPolygon([
+      { x: -halfWidth, y: -halfHeight },
+      { x: halfWidth, y: -halfHeight },
+      { x: halfWidth, y: halfHeight },
+      { x: -halfWidth, y: halfHeight }
+    ], clearance.distance)
+  }
+
+  const front = clearance.front ?? clearance.all ?? 0
+  const back = clearance.back ?? clearance.all ?? 0
+  const left = clearance.left ?? clearance.all ?? 0
+  const right = clearance.right ?? clearance.all ?? 0
+
+  if (dimensions.shape === 'circle') {
+    return circleToPolygon({ x: 0, y: 0 }, dimensions.radius + Math.max(front, back, left, right))
+  }
+
+  return rectangularToCustomClearance(clearance, dimensions).points.map(point => ({ x: point.x, y: point.y }))
+}
@@ -0,0 +1,40 @@
+import { ClearanceWaiver } from './types'
+import { ClearanceViolation } from './clearanceEngine'
+import { getPairKey } from './clearanceIndex'
+
+export function createClearanceWaiver(
+  violation: ClearanceViolation,
+  reason: string,
+  author: string,
+  date: string = new Date().toISOString()
+): ClearanceWaiver {
+  const [equipmentId1, equipmentId2] = [violation.equipment1.id, violation.equipment2.id].sort()
+  return {
+    id: `waiver_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    equipmentId1,
+    equipmentId2,
+    reason,
+    author,
+    date
+  }
+}
+
+// Waivers keyed by the pair of placed items they cover
+export function getWaiversByPair(waivers: ClearanceWaiver[]): Map<string, ClearanceWaiver> {
+  return new Map(waivers.map(waiver => [getPairKey(waiver.equipmentId1, waiver.equipmentId2), waiver]))
+}
+
+export function findWaiver(
+  waiversByPair: Map<string, ClearanceWaiver>,
+  violation: ClearanceViolation
+): ClearanceWaiver | undefined {
+  return waiversByPair.get(getPairKey(violation.equipment1.id, violation.equipment2.id))
+}
+
+// Critical first, then by how far short of the required distance the pair is
+export function sortViolationsBySeverity(violations: ClearanceViolation[]): ClearanceViolation[] {
+  return violations.slice().sort((a, b) => {
+    if (a.severity !== b.severity) return a.severity === 'critical' ? -1 : 1
+    return (b.requiredDistance - b.actualDistance) - (a.requiredDistance - a.actualDistance)
+  })
+}
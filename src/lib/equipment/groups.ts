@@ -0,0 +1,62 @@
+import { PlacedEquipment, EquipmentItem, EquipmentGroup } from './types'
+
+export interface GroupSummary {
+  count: number
+  area: number      // total footprint area in square feet
+  capacity: number  // riders
+  weight: number    // pounds
+}
+
+export function createEquipmentGroup(name: string): EquipmentGroup {
+  return {
+    id: `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: name.trim() || 'Group'
+  }
+}
+
+export function getGroupMembers(placed: PlacedEquipment[], groupId: string): PlacedEquipment[] {
+  return placed.filter(item => item.groupId === groupId)
+}
+
+// Add every other member of the groups the given items belong to
+export function expandToGroups(equipmentIds: string[], placed: PlacedEquipment[]): string[] {
+  const ids = new Set(equipmentIds)
+  const groupIds = new Set(placed.filter(item => ids.has(item.id) && item.groupId).map(item => item.groupId))
+  if (groupIds.size === 0) return equipmentIds
+  placed.forEach(item => {
+    if (item.groupId && groupIds.has(item.groupId)) ids.add(item.id)
+  })
+  return Array.from(ids)
+}
+
+function getFootprintArea(placed: PlacedEquipment): number {
+  const dimensions = placed.dimensions
+  return dimensions.shape === 'circle'
+    ? Math.PI * dimensions.radius * dimensions.radius
+    : dimensions.width * dimensions.height
+}
+
+// Totals for a set of placed items, e.g. one group
+export function summarizeEquipment(placed: PlacedEquipment[], definitions: EquipmentItem[]): GroupSummary {
+  const definitionsById = new Map(definitions.map(def => [def.id, def]))
+  return placed.reduce((summary, item) => {
+    const definition = definitionsById.get(item.equipmentId)
+    return {
+      count: summary.count + 1,
+      area: summary.area + getFootprintArea(item),
+      capacity: summary.capacity + (definition?.capacity || 0),
+      weight: summary.weight + (definition?.weight || 0)
+    }
+  }, { count: 0, area: 0, capacity: 0, weight: 0 })
+}
+
+// One-line summary, e.g. "6 items · 4,200 sq ft · 96 riders · 180,000 lbs"
+export function describeGroupSummary(summary: GroupSummary): string {
+  const parts = [
+    `${summary.count} item${summary.count === 1 ? '' : 's'}`,
+    `${Math.round(summary.area).toLocaleString()} sq ft`
+  ]
+  if (summary.capacity > 0) parts.push(`${summary.capacity.toLocaleString()} riders`)
+  if (summary.weight > 0) parts.push(`${summary.weight.toLocaleString()} lbs`)
+  return parts.join(' · ')
+}
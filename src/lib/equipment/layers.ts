@@ -0,0 +1,79 @@
+import { PlacedEquipment, PlanLayer } from './types'
+
+// Anything drawn on a layer: placed equipment, and annotations, which use the same helpers
+type LayeredItem = Pick<PlacedEquipment, 'layerId'>
+
+export const DEFAULT_LAYER_ID = 'default'
+export const SUGGESTED_LAYER_NAMES = ['Rides', 'Food', 'Utilities', 'Back Lot']
+
+export function createLayer(name: string): PlanLayer {
+  return {
+    id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: name.trim() || 'Layer',
+    visible: true,
+    locked: false
+  }
+}
+
+export function createDefaultLayers(): PlanLayer[] {
+  return [{ id: DEFAULT_LAYER_ID, name: 'General', visible: true, locked: false }]
+}
+
+// Layers for a loaded project. Projects saved before layers existed get the default
+// layer, which also holds any item whose layer is missing.
+export function normalizeLayers(layers: PlanLayer[] | undefined): PlanLayer[] {
+  if (!layers || layers.length === 0) return createDefaultLayers()
+  if (layers.some(layer => layer.id === DEFAULT_LAYER_ID)) return layers
+  return [...createDefaultLayers(), ...layers]
+}
+
+// Id of the layer an item is on, falling back to the default layer
+export function getLayerId(placed: LayeredItem, layers: PlanLayer[]): string {
+  return placed.layerId && layers.some(layer => layer.id === placed.layerId) ? placed.layerId : DEFAULT_LAYER_ID
+}
+
+export function getLayerLookup(layers: PlanLayer[]): Map<string, PlanLayer> {
+  return new Map(layers.map(layer => [layer.id, layer]))
+}
+
+function findLayer(placed: LayeredItem, lookup: Map<string, PlanLayer>): PlanLayer | undefined {
+  return (placed.layerId && lookup.get(placed.layerId)) || lookup.get(DEFAULT_LAYER_ID)
+}
+
+export function isEquipmentVisible(placed: LayeredItem, lookup: Map<string, PlanLayer>): boolean {
+  return findLayer(placed, lookup)?.visible ?? true
+}
+
+// Visible and unlocked, so it can be selected and edited on the canvas
+export function isEquipmentEditable(placed: LayeredItem, lookup: Map<string, PlanLayer>): boolean {
+  const layer = findLayer(placed, lookup)
+  return !layer || (layer.visible && !layer.locked)
+}
+
+// Visible items in draw order: by layer, then by their order within the project
+export function getDrawOrder<T extends LayeredItem>(placed: T[], layers: PlanLayer[]): T[] {
+  const lookup = getLayerLookup(layers)
+  const order = new Map(layers.map((layer, index) => [layer.id, index]))
+  return placed
+    .filter(item => isEquipmentVisible(item, lookup))
+    .map((item, index) => ({ item, index, layer: order.get(getLayerId(item, layers)) ?? 0 }))
+    .sort((a, b) => a.layer - b.layer || a.index - b.index)
+    .map(({ item }) => item)
+}
+
+// Move a layer one step up (drawn later) or down the stack
+export function moveLayer(layers: PlanLayer[], layerId: string, direction: 'up' | 'down'): PlanLayer[] {
+  const index = layers.findIndex(layer => layer.id === layerId)
+  const target = direction === 'up' ? index + 1 : index - 1
+  if (index === -1 || target < 0 || target >= layers.length) return layers
+  const result = layers.slice()
+  result[index] = layers[target]
+  result[target] = layers[index]
+  return result
+}
+
+// Items on the given layers, e.g. the layers chosen for a PDF export
+export function filterEquipmentByLayers<T extends LayeredItem>(placed: T[], layers: PlanLayer[], layerIds: string[]): T[] {
+  const included = new Set(layerIds)
+  return placed.filter(item => included.has(getLayerId(item, layers)))
+}
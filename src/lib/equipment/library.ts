@@ -69,7 +69,9 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 126,
     turnAroundTime: 3,
     verticalHeight: 56,
-    rideClearing: 6
+    rideClearing: 6,
+    // Operational zones
+    ramps: [{"type":"exit","side":"front","offset":9,"width":48,"depth":8}]
   },
   {
     id: 'dizzy-dragon',
@@ -103,7 +105,9 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 210,
     turnAroundTime: 3,
     verticalHeight: 56,
-    rideClearing: 3
+    rideClearing: 3,
+    // Operational zones
+    ramps: [{"type":"entrance","side":"front","offset":22,"width":28,"depth":8}]
   },
   {
     id: 'euro-wheel',
@@ -137,7 +141,9 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 180,
     turnAroundTime: 3,
     verticalHeight: 48,
-    rideClearing: 21
+    rideClearing: 21,
+    // Operational zones
+    ramps: [{"type":"entrance","side":"front","offset":14,"width":32,"depth":8}]
   },
   {
     id: 'freak-out',
@@ -171,7 +177,10 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 159,
     turnAroundTime: 3,
     verticalHeight: 42,
-    rideClearing: 10
+    rideClearing: 10,
+    // Operational zones
+    ramps: [{"type":"entrance-exit","side":"front","offset":17,"width":53,"depth":8}],
+    overhangRadius: 5
   },
   {
     id: 'himalaya',
@@ -188,7 +197,8 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 253,
     turnAroundTime: 3,
     verticalHeight: 44,
-    rideClearing: 22
+    rideClearing: 22,
+    backstageDepth: 16
   },
   {
     id: 'magic-maze',
@@ -205,7 +215,9 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 126,
     turnAroundTime: 3,
     verticalHeight: 56,
-    rideClearing: 6
+    rideClearing: 6,
+    // Operational zones
+    ramps: [{"type":"exit","side":"front","offset":9,"width":48,"depth":8}]
   },
   {
     id: 'mgr',
@@ -273,7 +285,9 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 108,
     turnAroundTime: 3,
     verticalHeight: 48,
-    rideClearing: 6
+    rideClearing: 6,
+    // Operational zones
+    ramps: [{"type":"exit","side":"front","offset":16,"width":28,"depth":8}]
   },
   {
     id: 'ring',
@@ -290,7 +304,9 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 360,
     turnAroundTime: 3,
     verticalHeight: 48,
-    rideClearing: 16
+    rideClearing: 16,
+    // Operational zones
+    ramps: [{"type":"exit","side":"front","offset":7,"width":46,"depth":8}]
   },
   {
     id: 'rockstar',
@@ -307,7 +323,10 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 120,
     turnAroundTime: 3,
     verticalHeight: 40,
-    rideClearing: 10
+    rideClearing: 10,
+    // Operational zones
+    ramps: [{"type":"exit","side":"front","offset":22,"width":50,"depth":8}],
+    backstageDepth: 6
   },
   {
     id: 'sand-storm',
@@ -324,7 +343,9 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 120,
     turnAroundTime: 3,
     verticalHeight: 40,
-    rideClearing: 10
+    rideClearing: 10,
+    // Operational zones
+    ramps: [{"type":"exit","side":"front","offset":20,"width":48,"depth":8}]
   },
   {
     id: 'sizzler',
@@ -375,7 +396,9 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 121,
     turnAroundTime: 3,
     verticalHeight: 44,
-    rideClearing: 10
+    rideClearing: 10,
+    // Operational zones
+    ramps: [{"type":"entrance","side":"front","offset":7,"width":24,"depth":8}]
   },
   {
     id: 'starship',
@@ -392,7 +415,10 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 224,
     turnAroundTime: 3,
     verticalHeight: 45,
-    rideClearing: 10
+    rideClearing: 10,
+    // Operational zones
+    ramps: [{"type":"entrance","side":"front","offset":4,"width":46,"depth":8}],
+    backstageDepth: 13
   },
   {
     id: 'swings',
@@ -460,7 +486,9 @@ export const equipmentLibrary: EquipmentItem[] = [
     capacity: 64,
     turnAroundTime: 3,
     verticalHeight: 32,
-    rideClearing: 9
+    rideClearing: 9,
+    // Operational zones
+    ramps: [{"type":"exit","side":"front","offset":13.5,"width":13,"depth":8}]
   },
   {
     id: 'zero-gravity',
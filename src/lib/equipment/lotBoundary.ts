@@ -0,0 +1,133 @@
+import { PlacedEquipment, EquipmentItem, LotBoundary } from './types'
+import { EquipmentGeometry, buildEquipmentGeometry } from './clearanceEngine'
+import { Point, polygonArea, isPolygonInside, outlineDistance } from '@/lib/utils/geometry'
+
+export const DEFAULT_SETBACK_FT = 10
+
+export interface BoundaryViolation {
+  id: string                     // placed equipment id
+  equipment: PlacedEquipment
+  kind: 'outside' | 'setback'
+  part: 'footprint' | 'clearance'
+  severity: 'warning' | 'critical'
+  distance: number               // feet from the property line (0 when crossing it)
+  description: string
+}
+
+export function createLotBoundary(points: Point[], setback: number = DEFAULT_SETBACK_FT): LotBoundary {
+  return {
+    points: points.map(point => ({ x: point.x, y: point.y })),
+    setback: Math.max(0, setback)
+  }
+}
+
+export function isValidLotBoundary(boundary: LotBoundary | null | undefined): boundary is LotBoundary {
+  return !!boundary && boundary.points.length >= 3 && polygonArea(boundary.points) > 0
+}
+
+// Check one placed item against the lot. The footprint leaving the lot is critical;
+// the clearance zone leaving it, or either reaching into the setback, is a warning.
+export function checkBoundaryPlacement(geometry: EquipmentGeometry, boundary: LotBoundary): BoundaryViolation | null {
+  const name = geometry.placed.customLabel || geometry.definition?.name || 'Equipment'
+  const parts: Array<{ part: BoundaryViolation['part']; polygon: Point[] }> = [
+    { part: 'footprint', polygon: geometry.footprint },
+    { part: 'clearance', polygon: geometry.clearance }
+  ]
+
+  // Leaving the lot outranks the setback, and the footprint outranks the clearance
+  for (const { part, polygon } of parts) {
+    if (isPolygonInside(polygon, boundary.points)) continue
+    return {
+      id: geometry.placed.id,
+      equipment: geometry.placed,
+      kind: 'outside',
+      part,
+      severity: part === 'footprint' ? 'critical' : 'warning',
+      distance: 0,
+      description: part === 'footprint'
+        ? `${name} is outside the lot boundary`
+        : `${name}'s clearance zone extends past the lot boundary`
+    }
+  }
+
+  if (boundary.setback <= 0) return null
+
+  for (const { part, polygon } of parts) {
+    const distance = outlineDistance(polygon, boundary.points)
+    if (distance >= boundary.setback) continue
+    return {
+      id: geometry.placed.id,
+      equipment: geometry.placed,
+      kind: 'setback',
+      part,
+      severity: 'warning',
+      distance,
+      description: `${name}${part === 'clearance' ? `'s clearance zone` : ''} is ${distance.toFixed(1)} ft from the property line (${boundary.setback} ft setback)`
+    }
+  }
+
+  return null
+}
+
+// Every placed item that leaves the lot or reaches into its setback
+export function findBoundaryViolations(
+  placedEquipment: PlacedEquipment[],
+  equipmentDefinitions: EquipmentItem[],
+  boundary: LotBoundary | null | undefined,
+  pixelsPerFoot: number
+): BoundaryViolation[] {
+  if (!isValidLotBoundary(boundary)) return []
+
+  const definitionsById = new Map(equipmentDefinitions.map(def => [def.id, def]))
+  const violations: BoundaryViolation[] = []
+  for (const placed of placedEquipment) {
+    const geometry = buildEquipmentGeometry(placed, definitionsById.get(placed.equipmentId), pixelsPerFoot)
+    const violation = checkBoundaryPlacement(geometry, boundary)
+    if (violation) violations.push(violation)
+  }
+  return violations
+}
+
+// Read boundary vertices (in feet) from pasted text: one "x, y" pair per line,
+// a JSON array of [x, y] pairs or {x, y} objects, or a GeoJSON Polygon
+export function parseBoundaryPoints(text: string): Point[] {
+  const trimmed = text.trim()
+  if (!trimmed) return []
+
+  let points: Point[] = []
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed)
+    const coordinates = data?.type === 'Polygon' ? data.coordinates?.[0]
+      : data?.geometry?.type === 'Polygon' ? data.geometry.coordinates?.[0]
+      : data
+    if (!Array.isArray(coordinates)) throw new Error('Expected an array of points or a GeoJSON Polygon')
+
+    points = coordinates.map((entry: unknown) => {
+      if (Array.isArray(entry)) return { x: Number(entry[0]), y: Number(entry[1]) }
+      const point = entry as { x?: unknown; y?: unknown }
+      return { x: Number(point?.x), y: Number(point?.y) }
+    })
+  } else {
+    points = trimmed.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        const [x, y] = line.split(/[\s,;]+/).map(Number)
+        return { x, y }
+      })
+  }
+
+  if (points.some(point => !Number.isFinite(point.x) || !Number.isFinite(point.y))) {
+    throw new Error('Every point needs a numeric x and y')
+  }
+
+  // GeoJSON rings repeat the first point at the end
+  const first = points[0]
+  const last = points[points.length - 1]
+  if (points.length > 3 && first.x === last.x && first.y === last.y) {
+    points = points.slice(0, -1)
+  }
+
+  if (points.length < 3) throw new Error('A lot boundary needs at least 3 points')
+  return points
+}
@@ -0,0 +1,86 @@
+import { EquipmentItem, EquipmentDimensions, RampZone } from './types'
+import { Point, circleToPolygon, offsetPolygon } from '@/lib/utils/geometry'
+
+export type OperationalZoneKind = RampZone['type'] | 'backstage' | 'overhang'
+
+// An area around a ride that other equipment must stay out of
+export interface OperationalZone {
+  kind: OperationalZoneKind
+  points: Point[]  // in feet, relative to the equipment center before rotation
+}
+
+export const operationalZoneLabels: Record<OperationalZoneKind, string> = {
+  'entrance': 'entrance ramp',
+  'exit': 'exit ramp',
+  'entrance-exit': 'entrance/exit ramp',
+  'backstage': 'backstage area',
+  'overhang': 'overhang'
+}
+
+function getHalfExtents(dimensions: EquipmentDimensions): { halfWidth: number; halfHeight: number } {
+  return dimensions.shape === 'circle'
+    ? { halfWidth: dimensions.radius, halfHeight: dimensions.radius }
+    : { halfWidth: dimensions.width / 2, halfHeight: dimensions.height / 2 }
+}
+
+function rectangle(minX: number, minY: number, maxX: number, maxY: number): Point[] {
+  return [
+    { x: minX, y: minY },
+    { x: maxX, y: minY },
+    { x: maxX, y: maxY },
+    { x: minX, y: maxY }
+  ]
+}
+
+// Outline of a ramp against one side of the ride, clipped to the length of that side
+function getRampOutline(ramp: RampZone, halfWidth: number, halfHeight: number): Point[] | null {
+  const alongFront = ramp.side === 'front' || ramp.side === 'back'
+  const sideHalfLength = alongFront ? halfWidth : halfHeight
+  const start = Math.max(-sideHalfLength, -sideHalfLength + ramp.offset)
+  const end = Math.min(sideHalfLength, -sideHalfLength + ramp.offset + ramp.width)
+  if (end <= start || ramp.depth <= 0) return null
+
+  switch (ramp.side) {
+    case 'front':
+      return rectangle(start, -halfHeight - ramp.depth, end, -halfHeight)
+    case 'back':
+      return rectangle(start, halfHeight, end, halfHeight + ramp.depth)
+    case 'left':
+      return rectangle(-halfWidth - ramp.depth, start, -halfWidth, end)
+    case 'right':
+      return rectangle(halfWidth, start, halfWidth + ramp.depth, end)
+  }
+}
+
+// Ramp, backstage and overhang zones for a ride, in its local (unrotated) frame
+export function getOperationalZones(
+  definition: EquipmentItem | undefined,
+  dimensions: EquipmentDimensions
+): OperationalZone[] {
+  if (!definition) return []
+
+  const { halfWidth, halfHeight } = getHalfExtents(dimensions)
+  const zones: OperationalZone[] = []
+
+  definition.ramps?.forEach(ramp => {
+    const points = getRampOutline(ramp, halfWidth, halfHeight)
+    if (points) zones.push({ kind: ramp.type, points })
+  })
+
+  // Backstage sits behind the ride, opposite the front
+  if (definition.backstageDepth && definition.backstageDepth > 0) {
+    zones.push({
+      kind: 'backstage',
+      points: rectangle(-halfWidth, halfHeight, halfWidth, halfHeight + definition.backstageDepth)
+    })
+  }
+
+  if (definition.overhangRadius && definition.overhangRadius > 0) {
+    const points = dimensions.shape === 'circle'
+      ? circleToPolygon({ x: 0, y: 0 }, dimensions.radius + definition.overhangRadius)
+      : offsetPolygon(rectangle(-halfWidth, -halfHeight, halfWidth, halfHeight), definition.overhangRadius)
+    zones.push({ kind: 'overhang', points })
+  }
+
+  return zones
+}
@@ -0,0 +1,169 @@
+import { EquipmentGeometry } from './clearanceEngine'
+import { Bounds, Point, polygonBounds } from '@/lib/utils/geometry'
+
+// A guide line in world feet. Vertical guides sit at x = position, horizontal ones at y = position.
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal'
+  position: number
+  start: number                  // extent along the line, in feet
+  end: number
+  kind: 'align' | 'clearance' | 'separation'
+  distance?: number              // footprint gap to the neighbour in feet, when they are apart
+  labelAt?: Point
+}
+
+export interface SmartSnapResult {
+  dx: number                     // feet to add to the dragged item's x / y
+  dy: number
+  snappedX: boolean
+  snappedY: boolean
+  guides: SnapGuide[]
+}
+
+interface Box {
+  footprint: Bounds
+  clearance: Bounds
+}
+
+interface Candidate {
+  offset: number
+  kind: SnapGuide['kind']
+  target: number                 // world coordinate of the line snapped to
+  neighbour: Box
+}
+
+type Axis = 'x' | 'y'
+
+const toBox = (geometry: EquipmentGeometry): Box => ({
+  footprint: polygonBounds(geometry.footprint),
+  clearance: polygonBounds(geometry.clearance.concat(geometry.footprint))
+})
+
+const lo = (bounds: Bounds, axis: Axis) => axis === 'x' ? bounds.minX : bounds.minY
+const hi = (bounds: Bounds, axis: Axis) => axis === 'x' ? bounds.maxX : bounds.maxY
+const mid = (bounds: Bounds, axis: Axis) => (lo(bounds, axis) + hi(bounds, axis)) / 2
+const other = (axis: Axis): Axis => axis === 'x' ? 'y' : 'x'
+
+const rangesOverlap = (a: Bounds, b: Bounds, axis: Axis) =>
+  lo(a, axis) <= hi(b, axis) && hi(a, axis) >= lo(b, axis)
+
+// Every way the moving box could line up with one neighbour along an axis
+function collectCandidates(
+  moving: Box,
+  neighbour: Box,
+  axis: Axis,
+  minSeparation: number | undefined
+): Candidate[] {
+  const candidates: Candidate[] = []
+  const add = (source: number, target: number, kind: Candidate['kind']) =>
+    candidates.push({ offset: target - source, kind, target, neighbour })
+
+  // Edges and centers of the footprints
+  const movingLines = [lo(moving.footprint, axis), mid(moving.footprint, axis), hi(moving.footprint, axis)]
+  const neighbourLines = [lo(neighbour.footprint, axis), mid(neighbour.footprint, axis), hi(neighbour.footprint, axis)]
+  movingLines.forEach(source => neighbourLines.forEach(target => add(source, target, 'align')))
+
+  // Side by side: the closest legal spot, only when the items face each other across this axis
+  if (!rangesOverlap(moving.clearance, neighbour.clearance, other(axis))) return candidates
+  if (minSeparation !== undefined) {
+    // A clearance rule sets the footprint gap instead of the clearance zones
+    add(lo(moving.footprint, axis), hi(neighbour.footprint, axis) + minSeparation, 'separation')
+    add(hi(moving.footprint, axis), lo(neighbour.footprint, axis) - minSeparation, 'separation')
+  } else {
+    add(lo(moving.clearance, axis), hi(neighbour.clearance, axis), 'clearance')
+    add(hi(moving.clearance, axis), lo(neighbour.clearance, axis), 'clearance')
+  }
+  return candidates
+}
+
+// Clearance and separation snaps win ties, since they place items at the legal minimum
+const kindPriority: Record<Candidate['kind'], number> = { separation: 0, clearance: 1, align: 2 }
+
+function pickSnap(candidates: Candidate[], threshold: number): Candidate | undefined {
+  return candidates
+    .filter(candidate => Math.abs(candidate.offset) <= threshold)
+    .sort((a, b) => Math.abs(a.offset) - Math.abs(b.offset) || kindPriority[a.kind] - kindPriority[b.kind])[0]
+}
+
+const shift = (bounds: Bounds, dx: number, dy: number): Bounds => ({
+  minX: bounds.minX + dx,
+  minY: bounds.minY + dy,
+  maxX: bounds.maxX + dx,
+  maxY: bounds.maxY + dy
+})
+
+// Guide line for a snap along an axis, labelled with the footprint gap across it
+function buildGuide(candidate: Candidate, moving: Box, axis: Axis): SnapGuide {
+  const across = other(axis)
+  const { neighbour } = candidate
+  const outline = candidate.kind === 'clearance' ? 'clearance' : 'footprint'
+  const start = Math.min(lo(moving[outline], across), lo(neighbour[outline], across))
+  const end = Math.max(hi(moving[outline], across), hi(neighbour[outline], across))
+
+  // Edge-to-edge gap between the footprints: along the axis for side-by-side snaps,
+  // across it for alignment (items in a row or a column)
+  const gapAxis = candidate.kind === 'align' ? across : axis
+  const gap = Math.max(
+    lo(neighbour.footprint, gapAxis) - hi(moving.footprint, gapAxis),
+    lo(moving.footprint, gapAxis) - hi(neighbour.footprint, gapAxis)
+  )
+
+  let labelAt: Point | undefined
+  if (gap > 0) {
+    const gapMid = (Math.max(lo(moving.footprint, gapAxis), lo(neighbour.footprint, gapAxis)) +
+      Math.min(hi(moving.footprint, gapAxis), hi(neighbour.footprint, gapAxis))) / 2
+    const along = candidate.kind === 'align' ? gapMid : (start + end) / 2
+    labelAt = axis === 'x' ? { x: candidate.target, y: along } : { x: along, y: candidate.target }
+  }
+
+  return {
+    orientation: axis === 'x' ? 'vertical' : 'horizontal',
+    position: candidate.target,
+    start,
+    end,
+    kind: candidate.kind,
+    distance: gap > 0 ? gap : undefined,
+    labelAt
+  }
+}
+
+// Snap a dragged item's edges and centers to its neighbours' edges and centers, and its
+// clearance envelope against theirs, within `threshold` feet. `getMinSeparation` returns
+// the clearance rule gap for a neighbour, if a rule governs the pair.
+export function findSmartSnap(
+  moving: EquipmentGeometry,
+  neighbours: EquipmentGeometry[],
+  threshold: number,
+  getMinSeparation: (neighbour: EquipmentGeometry) => number | undefined = () => undefined
+): SmartSnapResult {
+  const movingBox = toBox(moving)
+  const neighbourBoxes = neighbours
+    .filter(neighbour => neighbour.placed.id !== moving.placed.id)
+    .map(neighbour => ({ box: toBox(neighbour), minSeparation: getMinSeparation(neighbour) }))
+
+  const candidatesFor = (axis: Axis) => neighbourBoxes.flatMap(({ box, minSeparation }) =>
+    collectCandidates(movingBox, box, axis, minSeparation)
+  )
+  const snapX = pickSnap(candidatesFor('x'), threshold)
+  const snapY = pickSnap(candidatesFor('y'), threshold)
+  const dx = snapX?.offset ?? 0
+  const dy = snapY?.offset ?? 0
+
+  // Show every line the snapped item now sits on, not just the one that pulled it
+  const snappedBox: Box = {
+    footprint: shift(movingBox.footprint, dx, dy),
+    clearance: shift(movingBox.clearance, dx, dy)
+  }
+  const guides: SnapGuide[] = []
+  const addGuides = (axis: Axis, snap: Candidate | undefined) => {
+    if (!snap) return
+    neighbourBoxes
+      .flatMap(({ box, minSeparation }) => collectCandidates(snappedBox, box, axis, minSeparation))
+      .filter(candidate => Math.abs(candidate.offset) < 1e-6)
+      .forEach(candidate => guides.push(buildGuide(candidate, snappedBox, axis)))
+  }
+  addGuides('x', snapX)
+  addGuides('y', snapY)
+
+  return { dx, dy, snappedX: !!snapX, snappedY: !!snapY, guides }
+}
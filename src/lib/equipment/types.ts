@@ -41,7 +41,20 @@ export interface RectangularClearance {
   all?: number    // uniform clearance in feet
 }
 
-export type EquipmentClearance = RectangularClearance | CustomClearance
+// Circular clearance around the equipment center: a ring around circular rides,
+// and the circle swept by a rectangle's corners for rectangular ones
+export interface RadialClearance {
+  type: 'radial'
+  distance: number  // clearance in feet beyond the footprint
+}
+
+// The footprint grown by a uniform distance, with rounded corners
+export interface OffsetClearance {
+  type: 'offset'
+  distance: number  // clearance in feet
+}
+
+export type EquipmentClearance = RectangularClearance | CustomClearance | RadialClearance | OffsetClearance
 
 export interface EquipmentItem {
   id: string
@@ -61,6 +74,23 @@ export interface EquipmentItem {
   verticalHeight?: number    // height in feet
   rideClearing?: number      // ride clearance in feet (different from safety clearance)
   cost?: number              // estimated cost
+  // Operational zones (parsed from the ride notes)
+  ramps?: RampZone[]         // entrance/exit ramps along the ride's sides
+  backstageDepth?: number    // service area behind the ride in feet
+  overhangRadius?: number    // how far moving parts swing past the footprint in feet
+}
+
+// Sides of an unrotated ride; the front is the top edge (-y), matching rectangular clearance
+export type EquipmentSide = 'front' | 'back' | 'left' | 'right'
+
+// A ramp sitting against one side of the ride. Offsets run left-to-right along the
+// front and back, and top-to-bottom along the left and right sides.
+export interface RampZone {
+  type: 'entrance' | 'exit' | 'entrance-exit'
+  side: EquipmentSide
+  offset: number  // feet from the start of the side to the ramp
+  width: number   // feet of the side the ramp covers
+  depth: number   // feet the ramp extends out from the ride
 }
 
 export type EquipmentCategory = 
@@ -74,6 +104,50 @@ export type EquipmentCategory =
   | 'home'
   | 'bunks'
 
+// Minimum footprint-to-footprint separation between two kinds of equipment.
+// Rules match pairs in either order; equipment ids narrow a rule to specific definitions.
+export interface ClearanceRule {
+  id: string
+  categoryA: EquipmentCategory
+  categoryB: EquipmentCategory
+  equipmentIdA?: string
+  equipmentIdB?: string
+  minSeparation: number  // in feet
+  note?: string
+}
+
+// Sign-off for a clearance violation between two specific placed items,
+// e.g. an exception approved by the fire marshal
+export interface ClearanceWaiver {
+  id: string
+  equipmentId1: string  // placed equipment ids, lower id first
+  equipmentId2: string
+  reason: string
+  author: string
+  date: string          // ISO date the waiver was granted
+}
+
+// Property line of the lot. Equipment must stay inside it and clear of the setback strip.
+export interface LotBoundary {
+  points: { x: number; y: number }[]  // in feet from the canvas origin
+  setback: number                      // in feet, measured inward from the property line
+}
+
+// User-defined layer of the site plan, e.g. Rides or Food. Layers are drawn in list order.
+export interface PlanLayer {
+  id: string
+  name: string
+  visible: boolean
+  locked: boolean                  // locked items are drawn but cannot be selected or moved
+}
+
+// Named cluster of placed equipment, e.g. "Kiddieland", selected and moved as a unit.
+// Members point at their group through PlacedEquipment.groupId.
+export interface EquipmentGroup {
+  id: string
+  name: string
+}
+
 export interface EquipmentLibrary {
   categories: Record<EquipmentCategory, EquipmentItem[]>
   searchIndex: Map<string, EquipmentItem[]>
@@ -88,5 +162,47 @@ export interface PlacedEquipment {
   dimensions: EquipmentDimensions  // Store actual dimensions used
   clearance?: EquipmentClearance   // Custom or default clearance
   customLabel?: string
+  layerId?: string                 // layer the item is drawn on, the default layer when unset
+  groupId?: string                 // named group the item belongs to, if any
+  locked?: boolean                 // pinned in place: still selectable, but not moved or rotated
   metadata?: Record<string, any>
 }
+
+// New position and rotation for one placed item, as produced by group edits on the canvas
+export interface EquipmentTransform {
+  id: string
+  x: number
+  y: number
+  rotation: number
+}
+
+export type EquipmentTransformKind = 'move' | 'rotate' | 'align' | 'distribute'
+
+export type AnnotationKind = 'text' | 'arrow' | 'callout' | 'rectangle' | 'ellipse' | 'polyline'
+
+// Look of an annotation. Sizes are in feet so they scale with the plan.
+export interface AnnotationStyle {
+  color: string                    // lines and text
+  fill?: string                    // inside of rectangles, ellipses and callout boxes; none when unset
+  strokeWidth: number              // in feet
+  dashed?: boolean
+  fontSize: number                 // in feet, for text and callouts
+}
+
+// Note or markup drawn on the plan, e.g. "Gate 3 – ticket booth" or an arrow to first aid.
+// x/y is the anchor in canvas pixels, like PlacedEquipment: the top-left of text and callout
+// boxes, the center of rectangles and ellipses, and the first point of arrows and polylines.
+export interface Annotation {
+  id: string
+  kind: AnnotationKind
+  x: number
+  y: number
+  rotation: number                 // degrees clockwise about the anchor
+  text?: string                    // text and callouts
+  width?: number                   // in feet, rectangles and ellipses
+  height?: number                  // in feet
+  points?: { x: number; y: number }[] // in feet from the anchor: the rest of an arrow or polyline, or the spot a callout points at
+  style: AnnotationStyle
+  layerId?: string                 // layer the annotation is drawn on, the default layer when unset
+  locked?: boolean
+}
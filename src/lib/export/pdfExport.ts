@@ -1,7 +1,16 @@
 import jsPDF from 'jspdf'
 import html2canvas from 'html2canvas'
-import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
+import { PlacedEquipment, EquipmentItem, EquipmentGroup, Annotation } from '@/lib/equipment/types'
 import { BackgroundImage } from '@/components/canvas/BackgroundLayer'
+import { ProjectExtras } from '@/lib/project/types'
+import { DEFAULT_CANVAS_SETTINGS } from '@/lib/project/canvasSettings'
+import { ClearanceViolation, findClearanceViolations } from '@/lib/equipment/clearanceEngine'
+import { getWaiversByPair, findWaiver, sortViolationsBySeverity } from '@/lib/equipment/clearanceWaivers'
+import { BoundaryViolation, findBoundaryViolations } from '@/lib/equipment/lotBoundary'
+import { filterEquipmentByLayers } from '@/lib/equipment/layers'
+import { getGroupMembers, summarizeEquipment, describeGroupSummary } from '@/lib/equipment/groups'
+import { ANNOTATION_KIND_NAMES } from '@/lib/equipment/annotations'
+import { polygonArea } from '@/lib/utils/geometry'
 
 export interface PDFExportOptions {
   includeBackground: boolean
@@ -9,12 +18,16 @@ export interface PDFExportOptions {
   includeClearanceZones: boolean
   includeDimensions: boolean
   includeScale: boolean
+  includeViolationReport: boolean
+  includeWaivedViolations: boolean
+  includeAnnotationNotes?: boolean // list the text of text and callout annotations on a Notes page
   paperSize: 'letter' | 'legal' | 'a4' | 'a3'
   orientation: 'portrait' | 'landscape'
   title: string
   subtitle?: string
   showGrid: boolean
   quality: 'low' | 'medium' | 'high'
+  includedLayerIds?: string[] // layers whose equipment is listed and reported, all when unset
 }
 
 export interface PDFMetadata {
@@ -27,7 +40,6 @@ export interface PDFMetadata {
 }
 
 export class PDFExporter {
-  private static readonly PIXELS_PER_FOOT = 10
   private static readonly PAPER_SIZES = {
     letter: { width: 8.5, height: 11 },
     legal: { width: 8.5, height: 14 },
@@ -40,13 +52,19 @@ export class PDFExporter {
    */
   static async exportToPDF(
     canvasElement: HTMLElement,
-    placedEquipment: PlacedEquipment[],
+    allPlacedEquipment: PlacedEquipment[],
     equipmentDefinitions: EquipmentItem[],
     backgroundImages: BackgroundImage[],
     options: PDFExportOptions,
-    metadata: PDFMetadata
+    metadata: PDFMetadata,
+    projectExtras: ProjectExtras = {}
   ): Promise<void> {
     try {
+      const pixelsPerFoot = (projectExtras.canvasSettings || DEFAULT_CANVAS_SETTINGS).pixelsPerFoot
+      const placedEquipment = options.includedLayerIds
+        ? filterEquipmentByLayers(allPlacedEquipment, projectExtras.layers || [], options.includedLayerIds)
+        : allPlacedEquipment
+
       // Create PDF document
       const paperSize = this.PAPER_SIZES[options.paperSize]
       const pdf = new jsPDF({
@@ -105,12 +123,12 @@ export class PDFExporter {
 
       // Add scale bar if requested
       if (options.includeScale) {
-        this.addScaleBar(pdf, layoutX, layoutY + layoutHeight + 0.1, layoutWidth)
+        this.addScaleBar(pdf, layoutX, layoutY + layoutHeight + 0.1, layoutWidth, pixelsPerFoot)
       }
 
       // Add equipment legend
       if (options.includeEquipmentLabels) {
-        this.addEquipmentLegend(pdf, placedEquipment, equipmentDefinitions, pageWidth, pageHeight, margin)
+        this.addEquipmentLegend(pdf, placedEquipment, equipmentDefinitions, projectExtras.groups || [], pageWidth, pageHeight, margin)
       }
 
       // Add footer
@@ -119,7 +137,35 @@ export class PDFExporter {
       // Add equipment details page
       if (placedEquipment.length > 0) {
         pdf.addPage()
-        this.addEquipmentDetailsPage(pdf, placedEquipment, equipmentDefinitions, options, metadata, pageWidth, pageHeight, margin)
+        this.addEquipmentDetailsPage(pdf, placedEquipment, equipmentDefinitions, projectExtras.groups || [], options, metadata, pixelsPerFoot, pageWidth, pageHeight, margin)
+      }
+
+      // Add notes page. Annotations themselves are drawn on the captured layout.
+      const notes = (options.includedLayerIds
+        ? filterEquipmentByLayers(projectExtras.annotations || [], projectExtras.layers || [], options.includedLayerIds)
+        : projectExtras.annotations || []
+      ).filter(annotation => (annotation.kind === 'text' || annotation.kind === 'callout') && annotation.text?.trim())
+      if (options.includeAnnotationNotes && notes.length > 0) {
+        pdf.addPage()
+        this.addAnnotationNotesPage(pdf, notes, metadata, pixelsPerFoot, pageWidth, pageHeight, margin)
+      }
+
+      // Add clearance review page
+      if (options.includeViolationReport) {
+        const violations = findClearanceViolations(
+          placedEquipment,
+          equipmentDefinitions,
+          pixelsPerFoot,
+          projectExtras.clearanceRules || []
+        )
+        const boundaryViolations = findBoundaryViolations(
+          placedEquipment,
+          equipmentDefinitions,
+          projectExtras.lotBoundary,
+          pixelsPerFoot
+        )
+        pdf.addPage()
+        this.addViolationReportPage(pdf, violations, boundaryViolations, projectExtras, options, metadata, pageWidth, pageHeight, margin)
       }
 
       // Save PDF
@@ -226,11 +272,12 @@ export class PDFExporter {
     pdf: jsPDF, 
     x: number, 
     y: number, 
-    maxWidth: number
+    maxWidth: number,
+    pixelsPerFoot: number
   ): void {
     const scaleBarWidth = Math.min(2, maxWidth * 0.3) // 2 inches or 30% of layout width
     const scaleBarHeight = 0.1
-    const feetRepresented = Math.round((scaleBarWidth * 72) / this.PIXELS_PER_FOOT) // Convert inches to pixels to feet
+    const feetRepresented = Math.round((scaleBarWidth * 72) / pixelsPerFoot) // Convert inches to pixels to feet
 
     // Draw scale bar
     pdf.setFillColor(0, 0, 0)
@@ -248,6 +295,7 @@ export class PDFExporter {
     pdf: jsPDF,
     placedEquipment: PlacedEquipment[],
     equipmentDefinitions: EquipmentItem[],
+    groups: EquipmentGroup[],
     pageWidth: number,
     pageHeight: number,
     margin: number
@@ -271,11 +319,21 @@ export class PDFExporter {
       }
     })
 
+    // Groups with equipment in this export, with their totals
+    const groupLines = groups
+      .map(group => ({ group, members: getGroupMembers(placedEquipment, group.id) }))
+      .filter(({ members }) => members.length > 0)
+      .map(({ group, members }) => ({
+        name: group.name,
+        summary: describeGroupSummary(summarizeEquipment(members, equipmentDefinitions))
+      }))
+
     // Add legend box
     const legendX = pageWidth - margin - 2.5
     const legendY = margin + 1.5
     const legendWidth = 2.3
-    const legendHeight = Math.min(uniqueEquipment.size * 0.25 + 0.5, pageHeight - legendY - margin)
+    const groupsHeight = groupLines.length > 0 ? groupLines.length * 0.35 + 0.3 : 0
+    const legendHeight = Math.min(uniqueEquipment.size * 0.25 + 0.5 + groupsHeight, pageHeight - legendY - margin)
 
     pdf.setDrawColor(0, 0, 0)
     pdf.setLineWidth(0.01)
@@ -298,6 +356,25 @@ export class PDFExporter {
         itemY += lineHeight
       }
     })
+
+    if (groupLines.length === 0) return
+    itemY += 0.1
+    pdf.setFontSize(10)
+    pdf.setFont('helvetica', 'bold')
+    pdf.text('Groups', legendX + 0.1, itemY)
+    itemY += lineHeight
+
+    groupLines.forEach(line => {
+      if (itemY + lineHeight * 1.5 < legendY + legendHeight - 0.1) {
+        pdf.setFontSize(8)
+        pdf.setFont('helvetica', 'bold')
+        pdf.text(`• ${line.name}`, legendX + 0.1, itemY)
+        pdf.setFontSize(7)
+        pdf.setFont('helvetica', 'normal')
+        pdf.text(line.summary, legendX + 0.2, itemY + 0.14)
+        itemY += 0.35
+      }
+    })
   }
 
   private static addFooter(
@@ -319,8 +396,10 @@ export class PDFExporter {
     pdf: jsPDF,
     placedEquipment: PlacedEquipment[],
     equipmentDefinitions: EquipmentItem[],
+    groups: EquipmentGroup[],
     options: PDFExportOptions,
     metadata: PDFMetadata,
+    pixelsPerFoot: number,
     pageWidth: number,
     pageHeight: number,
     margin: number
@@ -373,8 +452,8 @@ export class PDFExporter {
 
         // Equipment details
         pdf.setFont('helvetica', 'normal')
-        const positionX = Math.round(placed.x / this.PIXELS_PER_FOOT)
-        const positionY = Math.round(placed.y / this.PIXELS_PER_FOOT)
+        const positionX = Math.round(placed.x / pixelsPerFoot)
+        const positionY = Math.round(placed.y / pixelsPerFoot)
         
         pdf.text(`Position: (${positionX}', ${positionY}')`, margin + 0.4, currentY)
         currentY += lineHeight
@@ -413,7 +492,194 @@ export class PDFExporter {
     currentY += lineHeight
     pdf.text(`Categories: ${equipmentByCategory.size}`, margin + 0.2, currentY)
 
+    // Group totals
+    const groupsWithMembers = groups
+      .map(group => ({ group, members: getGroupMembers(placedEquipment, group.id) }))
+      .filter(({ members }) => members.length > 0)
+    if (groupsWithMembers.length > 0) {
+      currentY += sectionSpacing
+      if (currentY + lineHeight * (groupsWithMembers.length + 2) > pageHeight - margin) {
+        pdf.addPage()
+        this.addHeader(pdf, 'Equipment Details (continued)', metadata, pageWidth, margin)
+        currentY = margin + 1
+      }
+      pdf.setFontSize(12)
+      pdf.setFont('helvetica', 'bold')
+      pdf.text('Groups', margin, currentY)
+      currentY += lineHeight + 0.1
+
+      pdf.setFontSize(9)
+      groupsWithMembers.forEach(({ group, members }) => {
+        pdf.setFont('helvetica', 'bold')
+        pdf.text(group.name, margin + 0.2, currentY)
+        pdf.setFont('helvetica', 'normal')
+        pdf.text(describeGroupSummary(summarizeEquipment(members, equipmentDefinitions)), margin + 2.2, currentY)
+        currentY += lineHeight
+      })
+    }
+
     // Add footer
     this.addFooter(pdf, metadata, pageWidth, pageHeight, margin)
   }
+
+  private static addAnnotationNotesPage(
+    pdf: jsPDF,
+    annotations: Annotation[],
+    metadata: PDFMetadata,
+    pixelsPerFoot: number,
+    pageWidth: number,
+    pageHeight: number,
+    margin: number
+  ): void {
+    this.addHeader(pdf, 'Notes', metadata, pageWidth, margin)
+
+    let currentY = margin + 1
+    const lineHeight = 0.15
+    const textWidth = pageWidth - margin * 2 - 0.4
+
+    pdf.setFontSize(9)
+    annotations.forEach((annotation, index) => {
+      const lines: string[] = pdf.splitTextToSize(annotation.text!.trim(), textWidth)
+      if (currentY + lineHeight * (lines.length + 2) > pageHeight - margin) {
+        this.addFooter(pdf, metadata, pageWidth, pageHeight, margin)
+        pdf.addPage()
+        this.addHeader(pdf, 'Notes (continued)', metadata, pageWidth, margin)
+        currentY = margin + 1
+      }
+
+      pdf.setFont('helvetica', 'bold')
+      const positionX = Math.round(annotation.x / pixelsPerFoot)
+      const positionY = Math.round(annotation.y / pixelsPerFoot)
+      pdf.text(`${index + 1}. ${ANNOTATION_KIND_NAMES[annotation.kind]} at (${positionX}', ${positionY}')`, margin + 0.2, currentY)
+      currentY += lineHeight
+
+      pdf.setFont('helvetica', 'normal')
+      pdf.text(lines, margin + 0.4, currentY)
+      currentY += lineHeight * lines.length + 0.1
+    })
+
+    this.addFooter(pdf, metadata, pageWidth, pageHeight, margin)
+  }
+
+  private static addViolationReportPage(
+    pdf: jsPDF,
+    violations: ClearanceViolation[],
+    boundaryViolations: BoundaryViolation[],
+    projectExtras: ProjectExtras,
+    options: PDFExportOptions,
+    metadata: PDFMetadata,
+    pageWidth: number,
+    pageHeight: number,
+    margin: number
+  ): void {
+    this.addHeader(pdf, 'Clearance Review', metadata, pageWidth, margin)
+
+    let currentY = margin + 1
+    const lineHeight = 0.15
+    const sectionSpacing = 0.3
+
+    const waiversByPair = getWaiversByPair(projectExtras.clearanceWaivers || [])
+    const sorted = sortViolationsBySeverity(violations)
+    const open = sorted.filter(violation => !findWaiver(waiversByPair, violation))
+    const waived = sorted.filter(violation => findWaiver(waiversByPair, violation))
+
+    const ensureSpace = (lines: number) => {
+      if (currentY + lineHeight * lines > pageHeight - margin) {
+        this.addFooter(pdf, metadata, pageWidth, pageHeight, margin)
+        pdf.addPage()
+        this.addHeader(pdf, 'Clearance Review (continued)', metadata, pageWidth, margin)
+        currentY = margin + 1
+      }
+    }
+
+    const addViolation = (violation: ClearanceViolation) => {
+      const waiver = findWaiver(waiversByPair, violation)
+      ensureSpace(waiver ? 4 : 3)
+
+      pdf.setFont('helvetica', 'bold')
+      const label = waiver ? 'WAIVED' : violation.severity.toUpperCase()
+      pdf.text(`[${label}] ${violation.description}`, margin + 0.2, currentY, { maxWidth: pageWidth - margin * 2 - 0.2 })
+      currentY += lineHeight
+
+      pdf.setFont('helvetica', 'normal')
+      pdf.text(
+        `Actual: ${violation.actualDistance.toFixed(1)}' • Required: ${violation.requiredDistance.toFixed(1)}' • Overlap: ${violation.overlapArea.toFixed(0)} sq ft`,
+        margin + 0.4,
+        currentY
+      )
+      currentY += lineHeight
+
+      if (waiver) {
+        pdf.text(
+          `Waived by ${waiver.author} on ${new Date(waiver.date).toLocaleDateString()}: ${waiver.reason}`,
+          margin + 0.4,
+          currentY,
+          { maxWidth: pageWidth - margin * 2 - 0.4 }
+        )
+        currentY += lineHeight
+      }
+
+      currentY += lineHeight
+    }
+
+    // Open violations
+    pdf.setFontSize(12)
+    pdf.setFont('helvetica', 'bold')
+    pdf.text(`Open Violations (${open.length})`, margin, currentY)
+    currentY += lineHeight + 0.1
+
+    pdf.setFontSize(9)
+    if (open.length === 0) {
+      pdf.setFont('helvetica', 'normal')
+      pdf.text('No open clearance violations.', margin + 0.2, currentY)
+      currentY += lineHeight
+    }
+    open.forEach(addViolation)
+
+    // Waived violations are listed with their justification, or only counted
+    currentY += sectionSpacing
+    ensureSpace(3)
+    pdf.setFontSize(12)
+    pdf.setFont('helvetica', 'bold')
+    pdf.text(`Waived Violations (${waived.length})`, margin, currentY)
+    currentY += lineHeight + 0.1
+
+    pdf.setFontSize(9)
+    if (options.includeWaivedViolations) {
+      waived.forEach(addViolation)
+    } else if (waived.length > 0) {
+      pdf.setFont('helvetica', 'normal')
+      pdf.text(`${waived.length} waived violation(s) excluded from this report.`, margin + 0.2, currentY)
+      currentY += lineHeight
+    }
+
+    // Equipment outside the lot or inside its setback
+    const boundary = projectExtras.lotBoundary
+    if (boundary) {
+      currentY += sectionSpacing
+      ensureSpace(4)
+      pdf.setFontSize(12)
+      pdf.setFont('helvetica', 'bold')
+      pdf.text(`Lot Boundary (${boundaryViolations.length} flagged)`, margin, currentY)
+      currentY += lineHeight + 0.1
+
+      pdf.setFontSize(9)
+      pdf.setFont('helvetica', 'normal')
+      pdf.text(
+        `Lot area: ${Math.round(polygonArea(boundary.points)).toLocaleString()} sq ft • Setback: ${boundary.setback}'`,
+        margin + 0.2,
+        currentY
+      )
+      currentY += lineHeight * 2
+
+      boundaryViolations.forEach(violation => {
+        ensureSpace(2)
+        pdf.setFont('helvetica', 'bold')
+        pdf.text(`[${violation.severity.toUpperCase()}] ${violation.description}`, margin + 0.2, currentY, { maxWidth: pageWidth - margin * 2 - 0.2 })
+        currentY += lineHeight * 2
+      })
+    }
+
+    this.addFooter(pdf, metadata, pageWidth, pageHeight, margin)
+  }
 }
@@ -0,0 +1,154 @@
+// A reversible edit. execute() is called when the command is first run and on redo.
+export interface Command {
+  label: string
+  timestamp: number
+  coalesceKey?: string      // consecutive commands with the same key are merged into one step
+  size: number              // rough memory cost in bytes, used to bound the history
+  execute(): void
+  undo(): void
+  merge?(next: Command): Command | null
+}
+
+export interface HistoryEntry {
+  index: number
+  label: string
+  timestamp: number
+  isDone: boolean           // false for entries that have been undone and can be redone
+}
+
+const DEFAULT_MAX_ENTRIES = 200
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024
+const DEFAULT_COALESCE_MS = 1000
+
+// Undo/redo stack of commands. Commands past the cursor are the redo branch and are
+// dropped when a new command runs. The oldest entries are evicted once the stack
+// exceeds its entry count or estimated memory budget.
+export class CommandHistory {
+  private commands: Command[] = []
+  private cursor = 0 // number of commands currently applied
+  private totalSize = 0
+  private readonly listeners = new Set<() => void>()
+
+  constructor(
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES,
+    private readonly maxBytes: number = DEFAULT_MAX_BYTES,
+    private readonly coalesceMs: number = DEFAULT_COALESCE_MS
+  ) {}
+
+  get canUndo(): boolean {
+    return this.cursor > 0
+  }
+
+  get canRedo(): boolean {
+    return this.cursor < this.commands.length
+  }
+
+  get position(): number {
+    return this.cursor
+  }
+
+  get estimatedSize(): number {
+    return this.totalSize
+  }
+
+  // Run a command and record it, merging it into the previous step when it continues it
+  execute(command: Command): void {
+    command.execute()
+    this.dropRedoBranch()
+
+    const previous = this.commands[this.commands.length - 1]
+    if (
+      previous &&
+      command.coalesceKey &&
+      previous.coalesceKey === command.coalesceKey &&
+      command.timestamp - previous.timestamp <= this.coalesceMs &&
+      previous.merge
+    ) {
+      const merged = previous.merge(command)
+      if (merged) {
+        this.totalSize += merged.size - previous.size
+        this.commands[this.commands.length - 1] = merged
+        this.evict()
+        this.notify()
+        return
+      }
+    }
+
+    this.commands.push(command)
+    this.cursor = this.commands.length
+    this.totalSize += command.size
+    this.evict()
+    this.notify()
+  }
+
+  undo(): Command | null {
+    if (!this.canUndo) return null
+    const command = this.commands[--this.cursor]
+    command.undo()
+    this.notify()
+    return command
+  }
+
+  redo(): Command | null {
+    if (!this.canRedo) return null
+    const command = this.commands[this.cursor++]
+    command.execute()
+    this.notify()
+    return command
+  }
+
+  // Undo or redo until exactly `position` commands are applied
+  goTo(position: number): void {
+    const target = Math.max(0, Math.min(this.commands.length, position))
+    while (this.cursor > target) this.commands[--this.cursor].undo()
+    while (this.cursor < target) this.commands[this.cursor++].execute()
+    this.notify()
+  }
+
+  clear(): void {
+    this.commands = []
+    this.cursor = 0
+    this.totalSize = 0
+    this.notify()
+  }
+
+  getEntries(): HistoryEntry[] {
+    return this.commands.map((command, index) => ({
+      index,
+      label: command.label,
+      timestamp: command.timestamp,
+      isDone: index < this.cursor
+    }))
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private dropRedoBranch(): void {
+    if (this.cursor === this.commands.length) return
+    this.commands.slice(this.cursor).forEach(command => {
+      this.totalSize -= command.size
+    })
+    this.commands = this.commands.slice(0, this.cursor)
+  }
+
+  private evict(): void {
+    // Always keep the latest command so it can be undone
+    while (
+      this.commands.length > 1 &&
+      (this.commands.length > this.maxEntries || this.totalSize > this.maxBytes)
+    ) {
+      const evicted = this.commands.shift()!
+      this.totalSize -= evicted.size
+      this.cursor = Math.max(0, this.cursor - 1)
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+}
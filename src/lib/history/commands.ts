@@ -0,0 +1,181 @@
+import { Command } from './commandHistory'
+
+type Setter<T> = (update: (prev: T) => T) => void
+
+interface ItemChange<T> {
+  before?: T   // undefined when the item was added
+  after?: T    // undefined when the item was removed
+  index: number // position in the list the item is inserted back at
+}
+
+interface ListCommand<T> extends Command {
+  changes: Map<string, ItemChange<T>>
+}
+
+interface ValueCommand<T> extends Command {
+  after: T
+}
+
+// Rough in-memory size of a value. Strings are shared between snapshots, so only
+// count what actually differs between the before and after versions of an item.
+function estimateSize(value: unknown): number {
+  if (typeof value === 'string') return value.length * 2
+  if (typeof value === 'number' || typeof value === 'boolean') return 8
+  if (Array.isArray(value)) return value.reduce((total: number, item) => total + estimateSize(item), 16)
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce((total: number, item) => total + estimateSize(item), 16)
+  }
+  return 0
+}
+
+function estimateChangeSize<T>(change: ItemChange<T>): number {
+  if (!change.before || !change.after) return estimateSize(change.before ?? change.after)
+
+  const before = change.before as Record<string, unknown>
+  const after = change.after as Record<string, unknown>
+  let size = 64
+  Object.keys({ ...before, ...after }).forEach(key => {
+    if (before[key] !== after[key]) size += estimateSize(before[key]) + estimateSize(after[key])
+  })
+  return size
+}
+
+function applyChanges<T extends { id: string }>(list: T[], changes: Map<string, ItemChange<T>>, forward: boolean): T[] {
+  const result = list.slice()
+  const inserts: Array<{ item: T; index: number }> = []
+
+  changes.forEach((change, id) => {
+    const target = forward ? change.after : change.before
+    const position = result.findIndex(item => item.id === id)
+    if (!target) {
+      if (position !== -1) result.splice(position, 1)
+    } else if (position !== -1) {
+      result[position] = target
+    } else {
+      inserts.push({ item: target, index: change.index })
+    }
+  })
+
+  inserts
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ item, index }) => result.splice(Math.min(index, result.length), 0, item))
+  return result
+}
+
+function diffById<T extends { id: string }>(before: T[], after: T[]): Map<string, ItemChange<T>> {
+  const changes = new Map<string, ItemChange<T>>()
+  const afterIndex = new Map(after.map((item, index) => [item.id, index]))
+
+  before.forEach((item, index) => {
+    const position = afterIndex.get(item.id)
+    if (position === undefined) {
+      changes.set(item.id, { before: item, index })
+    } else if (after[position] !== item) {
+      changes.set(item.id, { before: item, after: after[position], index: position })
+    }
+  })
+
+  const beforeIds = new Set(before.map(item => item.id))
+  after.forEach((item, index) => {
+    if (!beforeIds.has(item.id)) changes.set(item.id, { after: item, index })
+  })
+
+  return changes
+}
+
+function createChangesCommand<T extends { id: string }>(
+  label: string,
+  setter: Setter<T[]>,
+  changes: Map<string, ItemChange<T>>,
+  coalesceKey?: string,
+  timestamp: number = Date.now()
+): ListCommand<T> {
+  let size = 0
+  changes.forEach(change => {
+    size += estimateChangeSize(change)
+  })
+
+  return {
+    label,
+    timestamp,
+    coalesceKey,
+    size,
+    execute: () => setter(prev => applyChanges(prev, changes, true)),
+    undo: () => setter(prev => applyChanges(prev, changes, false)),
+    merge: (next: Command) => {
+      if (!('changes' in next)) return null
+      const nextChanges = (next as ListCommand<T>).changes
+
+      // Keep the earliest before and the latest after for every item touched
+      const merged = new Map(changes)
+      nextChanges.forEach((change, id) => {
+        const existing = merged.get(id)
+        if (!existing) {
+          merged.set(id, change)
+          return
+        }
+        if (!existing.before && !change.after) {
+          merged.delete(id)
+          return
+        }
+        merged.set(id, { before: existing.before, after: change.after, index: existing.before ? existing.index : change.index })
+      })
+      return createChangesCommand(next.label, setter, merged, coalesceKey, next.timestamp)
+    },
+    changes
+  }
+}
+
+// Edit to a list of items with ids (placed equipment, background images, rules...).
+// Only the items that differ between the two snapshots are stored.
+export function createListCommand<T extends { id: string }>(
+  label: string,
+  setter: Setter<T[]>,
+  before: T[],
+  after: T[],
+  coalesceKey?: string
+): Command | null {
+  const changes = diffById(before, after)
+  if (changes.size === 0) return null
+  return createChangesCommand(label, setter, changes, coalesceKey)
+}
+
+// Replace a single value, e.g. the lot boundary or the equipment library state
+export function createValueCommand<T>(
+  label: string,
+  setter: Setter<T>,
+  before: T,
+  after: T,
+  coalesceKey?: string,
+  timestamp: number = Date.now()
+): ValueCommand<T> | null {
+  if (before === after) return null
+
+  return {
+    label,
+    timestamp,
+    coalesceKey,
+    size: estimateSize(before) + estimateSize(after),
+    execute: () => setter(() => after),
+    undo: () => setter(() => before),
+    merge: (next: Command) => {
+      if (!('after' in next)) return null
+      return createValueCommand(next.label, setter, before, (next as ValueCommand<T>).after, coalesceKey, next.timestamp)
+    },
+    after
+  }
+}
+
+// Several commands applied and undone as one step
+export function createCompositeCommand(label: string, commands: Array<Command | null>): Command | null {
+  const parts = commands.filter((command): command is Command => !!command)
+  if (parts.length === 0) return null
+
+  return {
+    label,
+    timestamp: Date.now(),
+    size: parts.reduce((total, command) => total + command.size, 0),
+    execute: () => parts.forEach(command => command.execute()),
+    undo: () => parts.slice().reverse().forEach(command => command.undo())
+  }
+}
@@ -0,0 +1,183 @@
+// Keyboard shortcuts: every command the keyboard can run, its default keys, and the
+// user's remapped keys, which are kept in localStorage.
+//
+// A key binding is a string of modifiers and a key joined by "+", modifiers in the order
+// Mod, Alt, Shift: "Mod+Shift+Z", "Shift+ArrowLeft", "R", "?". Mod is Ctrl, or Cmd on a Mac.
+// Letters are upper case; other keys use their KeyboardEvent.key name ("Delete", "Escape").
+
+export type ShortcutCommandId =
+  | 'delete'
+  | 'duplicate'
+  | 'selectAll'
+  | 'deselect'
+  | 'undo'
+  | 'redo'
+  | 'nudgeLeft'
+  | 'nudgeRight'
+  | 'nudgeUp'
+  | 'nudgeDown'
+  | 'nudgeLeftGrid'
+  | 'nudgeRightGrid'
+  | 'nudgeUpGrid'
+  | 'nudgeDownGrid'
+  | 'rotateClockwise'
+  | 'rotateCounterClockwise'
+  | 'toolSelect'
+  | 'toolMeasure'
+  | 'toolArea'
+  | 'toolPerimeter'
+  | 'toolDistance'
+  | 'toolLotLine'
+  | 'toolText'
+  | 'showShortcuts'
+
+export type ShortcutCategory = 'Edit' | 'Move' | 'Tools' | 'Help'
+
+export interface ShortcutCommand {
+  id: ShortcutCommandId
+  label: string
+  category: ShortcutCategory
+  defaultKeys: string[]
+}
+
+// Every command, in the order the shortcuts dialog lists them. When a key is bound to
+// more than one command, the first one here runs.
+export const SHORTCUT_COMMANDS: ShortcutCommand[] = [
+  { id: 'undo', label: 'Undo', category: 'Edit', defaultKeys: ['Mod+Z'] },
+  { id: 'redo', label: 'Redo', category: 'Edit', defaultKeys: ['Mod+Shift+Z', 'Mod+Y'] },
+  { id: 'delete', label: 'Delete selection', category: 'Edit', defaultKeys: ['Delete', 'Backspace'] },
+  { id: 'duplicate', label: 'Duplicate selection', category: 'Edit', defaultKeys: ['Mod+D'] },
+  { id: 'selectAll', label: 'Select all', category: 'Edit', defaultKeys: ['Mod+A'] },
+  { id: 'deselect', label: 'Clear selection', category: 'Edit', defaultKeys: ['Escape'] },
+  { id: 'nudgeLeft', label: 'Nudge left 1 ft', category: 'Move', defaultKeys: ['ArrowLeft'] },
+  { id: 'nudgeRight', label: 'Nudge right 1 ft', category: 'Move', defaultKeys: ['ArrowRight'] },
+  { id: 'nudgeUp', label: 'Nudge up 1 ft', category: 'Move', defaultKeys: ['ArrowUp'] },
+  { id: 'nudgeDown', label: 'Nudge down 1 ft', category: 'Move', defaultKeys: ['ArrowDown'] },
+  { id: 'nudgeLeftGrid', label: 'Nudge left one grid square', category: 'Move', defaultKeys: ['Shift+ArrowLeft'] },
+  { id: 'nudgeRightGrid', label: 'Nudge right one grid square', category: 'Move', defaultKeys: ['Shift+ArrowRight'] },
+  { id: 'nudgeUpGrid', label: 'Nudge up one grid square', category: 'Move', defaultKeys: ['Shift+ArrowUp'] },
+  { id: 'nudgeDownGrid', label: 'Nudge down one grid square', category: 'Move', defaultKeys: ['Shift+ArrowDown'] },
+  { id: 'rotateClockwise', label: 'Rotate clockwise', category: 'Move', defaultKeys: ['R'] },
+  { id: 'rotateCounterClockwise', label: 'Rotate counter-clockwise', category: 'Move', defaultKeys: ['Shift+R'] },
+  { id: 'toolSelect', label: 'Box select', category: 'Tools', defaultKeys: ['V'] },
+  { id: 'toolMeasure', label: 'Measure / calibrate', category: 'Tools', defaultKeys: ['M'] },
+  { id: 'toolArea', label: 'Area measurement', category: 'Tools', defaultKeys: ['A'] },
+  { id: 'toolPerimeter', label: 'Perimeter measurement', category: 'Tools', defaultKeys: ['P'] },
+  { id: 'toolDistance', label: 'Distance measurement', category: 'Tools', defaultKeys: ['D'] },
+  { id: 'toolLotLine', label: 'Trace lot line', category: 'Tools', defaultKeys: ['L'] },
+  { id: 'toolText', label: 'Text annotation', category: 'Tools', defaultKeys: ['T'] },
+  { id: 'showShortcuts', label: 'Keyboard shortcuts', category: 'Help', defaultKeys: ['?'] }
+]
+
+export type ShortcutMap = Record<ShortcutCommandId, string[]>
+
+// Commands whose keys the user changed; the others keep their defaults
+export type ShortcutOverrides = Partial<ShortcutMap>
+
+export interface ShortcutConflict {
+  binding: string
+  commandIds: ShortcutCommandId[]
+}
+
+const STORAGE_KEY = 'lotplanner_shortcuts'
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock'])
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+export function resolveShortcutMap(overrides: ShortcutOverrides = {}): ShortcutMap {
+  return SHORTCUT_COMMANDS.reduce((map, command) => {
+    map[command.id] = overrides[command.id] ?? command.defaultKeys
+    return map
+  }, {} as ShortcutMap)
+}
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = resolveShortcutMap()
+
+// The binding a key press makes, or null for a lone modifier key
+export function getEventBinding(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null
+
+  // Letters come from the character the key types, so Ctrl+Z is the key labelled Z on
+  // QWERTZ and AZERTY keyboards too. Only when a modifier turns the character into
+  // something else, like Alt on a Mac, does the physical key stand in for it.
+  const typedLetter = /^[a-z]$/i.test(e.key) ? e.key.toUpperCase() : undefined
+  const physicalLetter = e.altKey || e.ctrlKey || e.metaKey ? /^Key([A-Z])$/.exec(e.code)?.[1] : undefined
+  const letter = typedLetter ?? physicalLetter
+  // Digits come from the physical key, so Shift cannot change them
+  const digit = /^Digit([0-9])$/.exec(e.code)?.[1]
+  const named = e.key === ' ' || e.key === 'Spacebar' ? 'Space' : e.key
+  const key = letter ?? digit ?? (named.length === 1 ? named.toUpperCase() : named)
+  // Shift is part of a symbol like "?" already; only record it for named keys, letters and digits
+  const symbol = !letter && !digit && key.length === 1
+
+  const parts: string[] = []
+  if (e.ctrlKey || e.metaKey) parts.push('Mod')
+  if (e.altKey) parts.push('Alt')
+  if (e.shiftKey && !symbol) parts.push('Shift')
+  parts.push(key)
+  return parts.join('+')
+}
+
+// The command a key press runs, if any
+export function findShortcutCommand(map: ShortcutMap, e: KeyboardEvent): ShortcutCommandId | null {
+  const binding = getEventBinding(e)
+  if (!binding) return null
+  return SHORTCUT_COMMANDS.find(command => map[command.id].includes(binding))?.id ?? null
+}
+
+// Keys bound to more than one command
+export function findShortcutConflicts(map: ShortcutMap): ShortcutConflict[] {
+  const commandsByBinding = new Map<string, ShortcutCommandId[]>()
+  SHORTCUT_COMMANDS.forEach(command => {
+    map[command.id].forEach(binding => {
+      commandsByBinding.set(binding, [...(commandsByBinding.get(binding) || []), command.id])
+    })
+  })
+  return Array.from(commandsByBinding, ([binding, commandIds]) => ({ binding, commandIds }))
+    .filter(conflict => conflict.commandIds.length > 1)
+}
+
+// A binding as shown to the user, e.g. "Ctrl+Shift+Z" or "⌘⇧Z" on a Mac
+export function formatKeyBinding(binding: string): string {
+  const names: Record<string, string> = {
+    ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓', Escape: 'Esc', Delete: 'Del'
+  }
+  const parts = binding.split('+').map(part => names[part] ?? part)
+  if (isMac()) {
+    const symbols: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' }
+    return parts.map(part => symbols[part] ?? part).join('')
+  }
+  return parts.map(part => part === 'Mod' ? 'Ctrl' : part).join('+')
+}
+
+// The first key of a command, formatted, for hints on buttons and menus
+export function formatShortcut(map: ShortcutMap, id: ShortcutCommandId): string | undefined {
+  const binding = map[id][0]
+  return binding ? formatKeyBinding(binding) : undefined
+}
+
+export function loadShortcutOverrides(): ShortcutOverrides {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+    const overrides: ShortcutOverrides = {}
+    SHORTCUT_COMMANDS.forEach(({ id }) => {
+      const keys = stored?.[id]
+      if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) overrides[id] = keys
+    })
+    return overrides
+  } catch (error) {
+    console.error('Failed to load keyboard shortcuts:', error)
+    return {}
+  }
+}
+
+export function saveShortcutOverrides(overrides: ShortcutOverrides) {
+  try {
+    if (Object.keys(overrides).length === 0) {
+      localStorage.removeItem(STORAGE_KEY)
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides))
+    }
+  } catch (error) {
+    console.error('Failed to save keyboard shortcuts:', error)
+  }
+}
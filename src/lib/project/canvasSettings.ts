@@ -0,0 +1,127 @@
+import { CanvasSettings, ProjectData } from './types'
+import { PlacedEquipment } from '@/lib/equipment/types'
+import { buildEquipmentGeometry } from '@/lib/equipment/clearanceEngine'
+import { rotatePoint } from '@/lib/utils/geometry'
+
+export const DEFAULT_PIXELS_PER_FOOT = 10
+export const DEFAULT_CANVAS_SIDE_FT = 1000
+export const MAX_CANVAS_SIDE_FT = 10000 // about two miles across
+const EXTENT_STEP_FT = 100 // extents grown to fit content are rounded up to this
+const SETTINGS_HONORED_SINCE = '1.1.0' // first file version whose canvas settings were actually used
+const CENTERED_POSITIONS_SINCE = '1.1.0' // first file version whose equipment x/y is the drawn center
+
+// Settings for a new project: a 1000' x 1000' site with a one-foot grid
+export function createCanvasSettings(overrides: Partial<CanvasSettings> = {}): CanvasSettings {
+  const pixelsPerFoot = overrides.pixelsPerFoot || DEFAULT_PIXELS_PER_FOOT
+  return {
+    width: DEFAULT_CANVAS_SIDE_FT * pixelsPerFoot,
+    height: DEFAULT_CANVAS_SIDE_FT * pixelsPerFoot,
+    gridSize: pixelsPerFoot,
+    gridVisible: true,
+    scaleBarVisible: true,
+    measurementToolActive: false,
+    ...overrides,
+    pixelsPerFoot
+  }
+}
+
+export const DEFAULT_CANVAS_SETTINGS: CanvasSettings = createCanvasSettings()
+
+// Site size in feet
+export function getCanvasExtentFeet(settings: CanvasSettings): { widthFeet: number; heightFeet: number } {
+  return {
+    widthFeet: settings.width / settings.pixelsPerFoot,
+    heightFeet: settings.height / settings.pixelsPerFoot
+  }
+}
+
+// Resize the site, keeping the pixel scale
+export function setCanvasExtentFeet(settings: CanvasSettings, widthFeet: number, heightFeet: number): CanvasSettings {
+  const clamp = (feet: number) => Math.min(MAX_CANVAS_SIDE_FT, Math.max(EXTENT_STEP_FT, feet))
+  return {
+    ...settings,
+    width: clamp(widthFeet) * settings.pixelsPerFoot,
+    height: clamp(heightFeet) * settings.pixelsPerFoot
+  }
+}
+
+type ProjectContent = Pick<ProjectData, 'placedEquipment' | 'backgroundImages'> &
+  Partial<Pick<ProjectData, 'equipmentDefinitions' | 'lotBoundary'>>
+
+// Far right and bottom edges of everything in the project, in pixels
+function getContentExtent(content: ProjectContent, pixelsPerFoot: number): { maxX: number; maxY: number } {
+  let maxX = 0
+  let maxY = 0
+  const definitionsById = new Map((content.equipmentDefinitions || []).map(def => [def.id, def]))
+
+  content.placedEquipment.forEach(placed => {
+    const { bounds } = buildEquipmentGeometry(placed, definitionsById.get(placed.equipmentId), pixelsPerFoot)
+    maxX = Math.max(maxX, bounds.maxX * pixelsPerFoot)
+    maxY = Math.max(maxY, bounds.maxY * pixelsPerFoot)
+  })
+  content.backgroundImages.forEach(image => {
+    maxX = Math.max(maxX, (image.x || 0) + (image.width || 0) * (image.scaleX || 1))
+    maxY = Math.max(maxY, (image.y || 0) + (image.height || 0) * (image.scaleY || 1))
+  })
+  content.lotBoundary?.points.forEach(point => {
+    maxX = Math.max(maxX, point.x * pixelsPerFoot)
+    maxY = Math.max(maxY, point.y * pixelsPerFoot)
+  })
+  return { maxX, maxY }
+}
+
+// Grow the site so nothing in the project lies beyond it
+export function fitCanvasToContent(settings: CanvasSettings, content: ProjectContent): CanvasSettings {
+  const { maxX, maxY } = getContentExtent(content, settings.pixelsPerFoot)
+  const step = EXTENT_STEP_FT * settings.pixelsPerFoot
+  const limit = MAX_CANVAS_SIDE_FT * settings.pixelsPerFoot
+  const width = Math.min(limit, Math.max(settings.width, Math.ceil(maxX / step) * step))
+  const height = Math.min(limit, Math.max(settings.height, Math.ceil(maxY / step) * step))
+  if (width === settings.width && height === settings.height) return settings
+  return { ...settings, width, height }
+}
+
+// Canvas settings for a loaded project. Projects saved before the canvas read its
+// settings (file version 1.0.0, or auto-saves without settings) were always drawn at
+// 10 px/ft on a 1000' canvas with a one-foot grid, whatever they recorded - the save
+// dialog wrote 5000 x 5000 px and a 50 px grid - so those values are replaced.
+export function migrateCanvasSettings(
+  settings: Partial<CanvasSettings> | undefined,
+  version: string | undefined,
+  content: ProjectContent
+): CanvasSettings {
+  const isLegacy = !settings || !version || compareVersions(version, SETTINGS_HONORED_SINCE) < 0
+  const migrated = isLegacy
+    ? createCanvasSettings({
+        gridVisible: settings?.gridVisible ?? true,
+        scaleBarVisible: settings?.scaleBarVisible ?? true
+      })
+    : createCanvasSettings(settings)
+  return fitCanvasToContent(migrated, content)
+}
+
+// Equipment positions for a loaded project. Before file version 1.1.0 each item was drawn
+// with its group offset by half its size, so its center sat at x/y - R(rotation)·(w/2, h/2)
+// rather than at x/y. Those items are moved to where they were drawn, at the 10 px/ft
+// every such file was drawn at. Run this once per load.
+export function migratePlacedEquipment(placedEquipment: PlacedEquipment[], version: string | undefined): PlacedEquipment[] {
+  if (version && compareVersions(version, CENTERED_POSITIONS_SINCE) >= 0) return placedEquipment
+  return placedEquipment.map(placed => {
+    const dimensions = placed.dimensions
+    if (!dimensions) return placed
+    const halfWidth = (dimensions.shape === 'circle' ? dimensions.radius : dimensions.width / 2) * DEFAULT_PIXELS_PER_FOOT
+    const halfHeight = (dimensions.shape === 'circle' ? dimensions.radius : dimensions.height / 2) * DEFAULT_PIXELS_PER_FOOT
+    const offset = rotatePoint({ x: halfWidth, y: halfHeight }, placed.rotation)
+    return { ...placed, x: placed.x - offset.x, y: placed.y - offset.y }
+  })
+}
+
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0)
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0)
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0)
+    if (difference !== 0) return difference
+  }
+  return 0
+}
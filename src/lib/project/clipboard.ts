@@ -0,0 +1,295 @@
+import { PlacedEquipment, EquipmentItem, EquipmentGroup, EquipmentCategory, EquipmentDimensions, EquipmentClearance, ClearancePoint } from '@/lib/equipment/types'
+import { createEquipmentGroup } from '@/lib/equipment/groups'
+import { Point } from '@/lib/utils/geometry'
+
+/*
+ * Equipment clipboard format
+ *
+ * Copying equipment puts a JSON document on the system clipboard as plain text, so a
+ * section of one layout can be pasted into another project (or another browser tab):
+ *
+ *   {
+ *     "format": "lotplanner/equipment",
+ *     "version": 1,
+ *     "equipment": [                  // the copied items
+ *       {
+ *         "equipmentId": "ferris-wheel",  // id of an entry in "definitions"
+ *         "x": -42.5, "y": 10,            // center in feet, relative to the middle of the copied items
+ *         "rotation": 90,                 // degrees clockwise
+ *         "dimensions": { ... },          // as placed, including custom sizes
+ *         "clearance": { ... },           // optional, as placed
+ *         "customLabel": "Main wheel",    // optional
+ *         "groupId": "group_1"            // optional, id of an entry in "groups"
+ *       }
+ *     ],
+ *     "definitions": [ ... ],         // the EquipmentItem of every equipmentId used
+ *     "groups": [ { "id": "group_1", "name": "Kiddieland" } ]
+ *   }
+ *
+ * Positions are in feet so a paste keeps real-world distances whatever the target
+ * project's scale. Layer assignments are not copied; pasted items go on the active layer.
+ */
+
+export const CLIPBOARD_FORMAT = 'lotplanner/equipment'
+export const CLIPBOARD_VERSION = 1
+
+export interface ClipboardEquipment {
+  equipmentId: string
+  x: number
+  y: number
+  rotation: number
+  dimensions: PlacedEquipment['dimensions']
+  clearance?: PlacedEquipment['clearance']
+  customLabel?: string
+  groupId?: string
+}
+
+export interface EquipmentClipboard {
+  format: typeof CLIPBOARD_FORMAT
+  version: number
+  equipment: ClipboardEquipment[]
+  definitions: EquipmentItem[]
+  groups: EquipmentGroup[]
+}
+
+export interface PasteResult {
+  placedEquipment: PlacedEquipment[]
+  addedDefinitions: EquipmentItem[] // definitions the target project did not have
+  addedGroups: EquipmentGroup[]
+  renamedDefinitionCount: number // definitions given a new id because the id was taken by a different item
+}
+
+// Serialize placed items and the definitions they use. Returns null for an empty selection.
+export function serializeEquipmentClipboard(
+  placed: PlacedEquipment[],
+  definitions: EquipmentItem[],
+  groups: EquipmentGroup[],
+  pixelsPerFoot: number
+): string | null {
+  if (placed.length === 0) return null
+
+  // Middle of the item centers, so a paste lands centred on the cursor
+  const xs = placed.map(item => item.x)
+  const ys = placed.map(item => item.y)
+  const middleX = (Math.min(...xs) + Math.max(...xs)) / 2
+  const middleY = (Math.min(...ys) + Math.max(...ys)) / 2
+
+  const usedDefinitionIds = new Set(placed.map(item => item.equipmentId))
+  const usedGroupIds = new Set(placed.map(item => item.groupId).filter(Boolean))
+
+  const clipboard: EquipmentClipboard = {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    equipment: placed.map(item => ({
+      equipmentId: item.equipmentId,
+      x: (item.x - middleX) / pixelsPerFoot,
+      y: (item.y - middleY) / pixelsPerFoot,
+      rotation: item.rotation,
+      dimensions: item.dimensions,
+      clearance: item.clearance,
+      customLabel: item.customLabel,
+      groupId: item.groupId
+    })),
+    definitions: definitions.filter(def => usedDefinitionIds.has(def.id)),
+    groups: groups.filter(group => usedGroupIds.has(group.id))
+  }
+  return JSON.stringify(clipboard, null, 2)
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const readString = (value: unknown) => typeof value === 'string' ? value : undefined
+const readNumber = (value: unknown) => isNumber(value) ? value : undefined
+
+// Each entry read by `read`, dropping the ones it rejects
+const readList = <T>(value: unknown, read: (item: unknown) => T | null): T[] =>
+  (Array.isArray(value) ? value : []).flatMap(item => {
+    const result = read(item)
+    return result ? [result] : []
+  })
+
+// A rectangle's width and height or a circle's radius, in feet
+function readDimensions(value: unknown): EquipmentDimensions | null {
+  if (!isObject(value)) return null
+  const depth = readNumber(value.depth)
+  if (value.shape === 'circle' && isNumber(value.radius)) {
+    return { shape: 'circle', radius: value.radius, depth }
+  }
+  if (value.shape === 'rectangle' && isNumber(value.width) && isNumber(value.height)) {
+    return { shape: 'rectangle', width: value.width, height: value.height, depth }
+  }
+  return null
+}
+
+function readClearancePoint(value: unknown): ClearancePoint | null {
+  if (!isObject(value) || !isNumber(value.x) || !isNumber(value.y)) return null
+  return {
+    x: value.x,
+    y: value.y,
+    curveType: value.curveType === 'arc' || value.curveType === 'none' ? value.curveType : undefined,
+    curveAngle: value.curveAngle === 45 || value.curveAngle === 90 || value.curveAngle === 180 ? value.curveAngle : undefined,
+    curveDirection: value.curveDirection === 'clockwise' || value.curveDirection === 'counterclockwise' ? value.curveDirection : undefined
+  }
+}
+
+// Any of the clearance zone shapes; anything else is dropped and the default zone applies
+function readClearance(value: unknown): EquipmentClearance | undefined {
+  if (!isObject(value)) return undefined
+  switch (value.type) {
+    case 'rectangular':
+      return {
+        type: 'rectangular',
+        front: readNumber(value.front),
+        back: readNumber(value.back),
+        left: readNumber(value.left),
+        right: readNumber(value.right),
+        all: readNumber(value.all)
+      }
+    case 'custom':
+      return { type: 'custom', points: readList(value.points, readClearancePoint), closed: value.closed !== false }
+    case 'radial':
+    case 'offset':
+      return isNumber(value.distance) ? { type: value.type, distance: value.distance } : undefined
+    default:
+      return undefined
+  }
+}
+
+function readEquipment(value: unknown): ClipboardEquipment | null {
+  if (!isObject(value)) return null
+  const dimensions = readDimensions(value.dimensions)
+  if (typeof value.equipmentId !== 'string' || !isNumber(value.x) || !isNumber(value.y) || !dimensions) return null
+  return {
+    equipmentId: value.equipmentId,
+    x: value.x,
+    y: value.y,
+    rotation: readNumber(value.rotation) ?? 0,
+    dimensions,
+    clearance: readClearance(value.clearance),
+    customLabel: readString(value.customLabel),
+    groupId: readString(value.groupId)
+  }
+}
+
+// The fields the planner relies on are checked, with a missing category or color set the
+// way a new library item's is; the optional specifications are kept as copied
+function readDefinition(value: unknown): EquipmentItem | null {
+  if (!isObject(value)) return null
+  const dimensions = readDimensions(value.dimensions)
+  if (typeof value.id !== 'string' || typeof value.name !== 'string' || !dimensions) return null
+  return {
+    ...(value as Partial<EquipmentItem>),
+    id: value.id,
+    name: value.name,
+    category: (readString(value.category) ?? 'equipment') as EquipmentCategory,
+    color: readString(value.color) ?? '#6B7280',
+    dimensions,
+    clearance: readClearance(value.clearance)
+  }
+}
+
+function readGroup(value: unknown): EquipmentGroup | null {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null
+  return { id: value.id, name: value.name }
+}
+
+// Read clipboard text. Returns null for anything that is not a valid equipment clipboard,
+// including ordinary text, so callers can let other paste handling take over.
+export function parseEquipmentClipboard(text: string): EquipmentClipboard | null {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (!isObject(data) || data.format !== CLIPBOARD_FORMAT) return null
+  if (typeof data.version !== 'number' || data.version > CLIPBOARD_VERSION) return null
+  if (!Array.isArray(data.equipment) || !Array.isArray(data.definitions)) return null
+
+  const equipment = readList(data.equipment, readEquipment)
+  const definitions = readList(data.definitions, readDefinition)
+  const groups = readList(data.groups, readGroup)
+  if (equipment.length === 0) return null
+
+  return { format: CLIPBOARD_FORMAT, version: data.version, equipment, definitions, groups }
+}
+
+// Whether two definitions describe the same equipment, ignoring key order
+function isSameDefinition(a: EquipmentItem, b: EquipmentItem): boolean {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical)
+    if (!isObject(value)) return value
+    return Object.keys(value).sort().reduce<Record<string, unknown>>((result, key) => {
+      if (value[key] !== undefined) result[key] = canonical(value[key])
+      return result
+    }, {})
+  }
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b))
+}
+
+// Placed items for a paste centred on `at` (pixels). Definitions the project already has
+// are reused; a copied definition whose id is taken by a different item in this project
+// is added under a new id, so existing equipment is never redefined.
+export function pasteEquipmentClipboard(
+  clipboard: EquipmentClipboard,
+  projectDefinitions: EquipmentItem[],
+  at: Point,
+  pixelsPerFoot: number,
+  layerId?: string
+): PasteResult {
+  const definitionsById = new Map(projectDefinitions.map(def => [def.id, def]))
+  const takenIds = new Set(definitionsById.keys())
+  const idMap = new Map<string, string>()
+  const addedDefinitions: EquipmentItem[] = []
+  let renamedDefinitionCount = 0
+
+  clipboard.definitions.forEach(definition => {
+    const existing = definitionsById.get(definition.id)
+    if (existing && isSameDefinition(existing, definition)) {
+      idMap.set(definition.id, definition.id)
+      return
+    }
+
+    // Pasted before under another id?
+    const match = projectDefinitions.find(def => isSameDefinition({ ...def, id: definition.id }, definition))
+    if (match) {
+      idMap.set(definition.id, match.id)
+      return
+    }
+
+    let id = definition.id
+    if (takenIds.has(id)) {
+      let suffix = 2
+      while (takenIds.has(`${definition.id}-${suffix}`)) suffix++
+      id = `${definition.id}-${suffix}`
+      renamedDefinitionCount++
+    }
+    takenIds.add(id)
+    idMap.set(definition.id, id)
+    addedDefinitions.push({ ...definition, id })
+  })
+
+  const groupIdMap = new Map<string, string>()
+  const addedGroups = clipboard.groups.map(group => {
+    const created = createEquipmentGroup(group.name)
+    groupIdMap.set(group.id, created.id)
+    return created
+  })
+
+  const batch = `${Date.now()}_${Math.random().toString(36).substr(2, 5)}`
+  const placedEquipment = clipboard.equipment.map((item, index): PlacedEquipment => ({
+    id: `equipment_${batch}_${index}`,
+    // Items whose definition was not copied keep their id; they draw from their own dimensions
+    equipmentId: idMap.get(item.equipmentId) ?? item.equipmentId,
+    x: at.x + item.x * pixelsPerFoot,
+    y: at.y + item.y * pixelsPerFoot,
+    rotation: item.rotation || 0,
+    dimensions: item.dimensions,
+    clearance: item.clearance,
+    customLabel: item.customLabel,
+    layerId,
+    groupId: item.groupId ? groupIdMap.get(item.groupId) : undefined
+  }))
+
+  return { placedEquipment, addedDefinitions, addedGroups, renamedDefinitionCount }
+}
@@ -5,11 +5,14 @@ import {
   ExportOptions, 
   ImportResult, 
   SaveResult,
+  ProjectExtras,
   PROJECT_FILE_VERSION,
   PROJECT_FILE_EXTENSION,
   PROJECT_MIME_TYPE
 } from './types'
 import { PlacedEquipment, EquipmentItem } from '@/lib/equipment/types'
+import { createCanvasSettings, migrateCanvasSettings } from './canvasSettings'
+import { createDefaultLayers, normalizeLayers } from '@/lib/equipment/layers'
 import { BackgroundImage } from '@/components/canvas/BackgroundLayer'
 
 export class ProjectManager {
@@ -33,15 +36,10 @@ export class ProjectManager {
         version: PROJECT_FILE_VERSION,
         author: 'Lot Planner User'
       },
-      canvasSettings: {
-        width: 10000, // 1000ft at 10px/ft
-        height: 10000,
-        pixelsPerFoot: 10,
-        gridSize: 50,
-        gridVisible: true,
-        scaleBarVisible: true,
-        measurementToolActive: false
-      },
+      canvasSettings: createCanvasSettings(),
+      layers: createDefaultLayers(),
+      groups: [],
+      annotations: [],
       placedEquipment: [],
       backgroundImages: [],
       equipmentDefinitions: [],
@@ -58,7 +56,8 @@ export class ProjectManager {
     equipmentDefinitions: EquipmentItem[],
     customEquipmentCount: number,
     projectName: string,
-    options: Partial<ExportOptions> = {}
+    options: Partial<ExportOptions> = {},
+    extras: ProjectExtras = {}
   ): string {
     const exportOptions: ExportOptions = {
       includeBackgroundImages: true,
@@ -79,19 +78,12 @@ export class ProjectManager {
         updatedAt: now,
         version: PROJECT_FILE_VERSION
       },
-      canvasSettings: {
-        width: 10000,
-        height: 10000,
-        pixelsPerFoot: 10,
-        gridSize: 50,
-        gridVisible: true,
-        scaleBarVisible: true,
-        measurementToolActive: false
-      },
       placedEquipment,
       backgroundImages: exportOptions.includeBackgroundImages ? backgroundImages : [],
       equipmentDefinitions: exportOptions.includeCustomEquipment ? equipmentDefinitions : [],
-      customEquipmentCount
+      customEquipmentCount,
+      ...extras,
+      canvasSettings: extras.canvasSettings || createCanvasSettings()
     }
 
     return JSON.stringify(projectData, null, 2)
@@ -119,24 +111,16 @@ export class ProjectManager {
       }
 
       // Ensure all required fields have defaults
-      const defaultCanvasSettings = {
-        width: 10000,
-        height: 10000,
-        pixelsPerFoot: 10,
-        gridSize: 50,
-        gridVisible: true,
-        scaleBarVisible: true,
-        measurementToolActive: false
-      }
-      
       const importedData: ProjectData = {
         ...data,
-        canvasSettings: {
-          ...defaultCanvasSettings,
-          ...data.canvasSettings
-        },
+        canvasSettings: migrateCanvasSettings(data.canvasSettings, data.metadata.version, data),
         equipmentDefinitions: data.equipmentDefinitions || [],
-        customEquipmentCount: data.customEquipmentCount || 0
+        customEquipmentCount: data.customEquipmentCount || 0,
+        clearanceRules: data.clearanceRules || [],
+        clearanceWaivers: data.clearanceWaivers || [],
+        layers: normalizeLayers(data.layers),
+        groups: data.groups || [],
+        annotations: data.annotations || []
       }
 
       return {
@@ -231,15 +215,18 @@ export class ProjectManager {
     placedEquipment: PlacedEquipment[],
     backgroundImages: BackgroundImage[],
     equipmentDefinitions: EquipmentItem[],
-    customEquipmentCount: number
+    customEquipmentCount: number,
+    extras: ProjectExtras = {}
   ): void {
     try {
       const autoSaveData = {
         timestamp: new Date().toISOString(),
+        version: PROJECT_FILE_VERSION,
         placedEquipment,
         backgroundImages,
         equipmentDefinitions,
-        customEquipmentCount
+        customEquipmentCount,
+        ...extras
       }
       
       localStorage.setItem(this.AUTOSAVE_KEY, JSON.stringify(autoSaveData))
@@ -251,13 +238,14 @@ export class ProjectManager {
   /**
    * Load auto-saved data
    */
-  static loadAutoSave(): {
+  static loadAutoSave(): ({
     placedEquipment: PlacedEquipment[]
     backgroundImages: BackgroundImage[]
     equipmentDefinitions: EquipmentItem[]
     customEquipmentCount: number
     timestamp: string
-  } | null {
+    version?: string // missing from auto-saves made before canvas settings were saved
+  } & ProjectExtras) | null {
     try {
       const stored = localStorage.getItem(this.AUTOSAVE_KEY)
       return stored ? JSON.parse(stored) : null
@@ -1,4 +1,4 @@
-import { PlacedEquipment, EquipmentItem, EquipmentDimensions, EquipmentClearance, EquipmentCategory } from '@/lib/equipment/types'
+import { PlacedEquipment, EquipmentItem, EquipmentDimensions, EquipmentClearance, EquipmentCategory, ClearanceRule, ClearanceWaiver, LotBoundary, PlanLayer, EquipmentGroup, Annotation } from '@/lib/equipment/types'
 import { BackgroundImage } from '@/components/canvas/BackgroundLayer'
 
 export interface ProjectMetadata {
@@ -43,8 +43,18 @@ export interface ProjectData {
   equipmentDefinitions: EquipmentItem[]
   customEquipmentCount: number
   equipmentLibraryState?: EquipmentLibraryState
+  clearanceRules?: ClearanceRule[]
+  clearanceWaivers?: ClearanceWaiver[]
+  lotBoundary?: LotBoundary
+  layers?: PlanLayer[]
+  groups?: EquipmentGroup[]
+  annotations?: Annotation[] // text, arrows, callouts and shapes drawn over the plan
 }
 
+// Optional project-level data carried through export and auto-save alongside the core fields
+export type ProjectExtras = Pick<ProjectData, 'clearanceRules' | 'clearanceWaivers' | 'lotBoundary' | 'layers' | 'groups' | 'annotations'> &
+  Partial<Pick<ProjectData, 'canvasSettings'>>
+
 export interface ExportOptions {
   includeBackgroundImages: boolean
   includeCustomEquipment: boolean
@@ -66,6 +76,6 @@ export interface SaveResult {
 }
 
 // Project file format constants
-export const PROJECT_FILE_VERSION = '1.0.0'
+export const PROJECT_FILE_VERSION = '1.1.0'
 export const PROJECT_FILE_EXTENSION = '.lotplan'
 export const PROJECT_MIME_TYPE = 'application/json'
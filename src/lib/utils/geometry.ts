@@ -0,0 +1,421 @@
+// Generic 2D polygon helpers used by the clearance engine and canvas tools.
+// Polygons are arrays of vertices in order; the closing edge is implicit.
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface Bounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export interface PenetrationVector {
+  x: number      // unit direction to push the second polygon away from the first
+  y: number
+  depth: number  // distance needed along (x, y) to separate the polygons
+}
+
+const EPSILON = 1e-9
+
+// Rotate a point around the origin (degrees, clockwise on a y-down canvas like Konva)
+export function rotatePoint(point: Point, rotationDegrees: number): Point {
+  if (!rotationDegrees) return { x: point.x, y: point.y }
+  const angle = (rotationDegrees * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return {
+    x: point.x * cos - point.y * sin,
+    y: point.x * sin + point.y * cos
+  }
+}
+
+// Wrap an angle in degrees into [0, 360)
+export function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360
+}
+
+// Round an angle to the nearest multiple of step, wrapped into [0, 360). A step of 0 only wraps.
+export function snapDegrees(degrees: number, step: number): number {
+  if (step <= 0) return normalizeDegrees(degrees)
+  return normalizeDegrees(Math.round(degrees / step) * step)
+}
+
+// Rotate local points around the origin, then translate them to the given center
+export function transformPoints(points: Point[], center: Point, rotationDegrees: number = 0): Point[] {
+  return points.map(point => {
+    const rotated = rotatePoint(point, rotationDegrees)
+    return { x: rotated.x + center.x, y: rotated.y + center.y }
+  })
+}
+
+// Approximate a circle with a regular polygon
+export function circleToPolygon(center: Point, radius: number, segments: number = 32): Point[] {
+  const points: Point[] = []
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2
+    points.push({
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle)
+    })
+  }
+  return points
+}
+
+// Signed area (shoelace formula); positive when vertices run clockwise on a y-down canvas
+export function signedPolygonArea(points: Point[]): number {
+  let area = 0
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += points[j].x * points[i].y - points[i].x * points[j].y
+  }
+  return area / 2
+}
+
+export function polygonArea(points: Point[]): number {
+  return Math.abs(signedPolygonArea(points))
+}
+
+export function polygonCentroid(points: Point[]): Point {
+  const area = signedPolygonArea(points)
+  if (Math.abs(area) < EPSILON) {
+    // Degenerate polygon - fall back to the vertex average
+    const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 })
+    return { x: sum.x / Math.max(points.length, 1), y: sum.y / Math.max(points.length, 1) }
+  }
+
+  let cx = 0
+  let cy = 0
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const cross = points[j].x * points[i].y - points[i].x * points[j].y
+    cx += (points[j].x + points[i].x) * cross
+    cy += (points[j].y + points[i].y) * cross
+  }
+  return { x: cx / (6 * area), y: cy / (6 * area) }
+}
+
+export function polygonBounds(points: Point[]): Bounds {
+  let minX = Infinity, minY = Infinity
+  let maxX = -Infinity, maxY = -Infinity
+  for (const point of points) {
+    minX = Math.min(minX, point.x)
+    minY = Math.min(minY, point.y)
+    maxX = Math.max(maxX, point.x)
+    maxY = Math.max(maxY, point.y)
+  }
+  return { minX, minY, maxX, maxY }
+}
+
+export function boundsIntersect(a: Bounds, b: Bounds, margin: number = 0): boolean {
+  return (
+    a.minX - margin <= b.maxX &&
+    a.maxX + margin >= b.minX &&
+    a.minY - margin <= b.maxY &&
+    a.maxY + margin >= b.minY
+  )
+}
+
+// Ray casting point-in-polygon test
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i].x
+    const yi = polygon[i].y
+    const xj = polygon[j].x
+    const yj = polygon[j].y
+
+    if (((yi > point.y) !== (yj > point.y)) && (point.x < (xj - xi) * (point.y - yi) / (yj - yi) + xi)) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+}
+
+function onSegment(p: Point, q: Point, r: Point): boolean {
+  return (
+    Math.min(p.x, r.x) - EPSILON <= q.x && q.x <= Math.max(p.x, r.x) + EPSILON &&
+    Math.min(p.y, r.y) - EPSILON <= q.y && q.y <= Math.max(p.y, r.y) + EPSILON
+  )
+}
+
+// Check whether segments p1-p2 and q1-q2 touch or cross
+export function segmentsIntersect(p1: Point, p2: Point, q1: Point, q2: Point): boolean {
+  const d1 = cross(q1, q2, p1)
+  const d2 = cross(q1, q2, p2)
+  const d3 = cross(p1, p2, q1)
+  const d4 = cross(p1, p2, q2)
+
+  if (((d1 > EPSILON && d2 < -EPSILON) || (d1 < -EPSILON && d2 > EPSILON)) &&
+      ((d3 > EPSILON && d4 < -EPSILON) || (d3 < -EPSILON && d4 > EPSILON))) {
+    return true
+  }
+
+  if (Math.abs(d1) <= EPSILON && onSegment(q1, p1, q2)) return true
+  if (Math.abs(d2) <= EPSILON && onSegment(q1, p2, q2)) return true
+  if (Math.abs(d3) <= EPSILON && onSegment(p1, q1, p2)) return true
+  if (Math.abs(d4) <= EPSILON && onSegment(p1, q2, p2)) return true
+
+  return false
+}
+
+export function pointToSegmentDistance(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  if (lengthSquared < EPSILON) {
+    return Math.hypot(point.x - a.x, point.y - a.y)
+  }
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+export function segmentDistance(p1: Point, p2: Point, q1: Point, q2: Point): number {
+  if (segmentsIntersect(p1, p2, q1, q2)) return 0
+  return Math.min(
+    pointToSegmentDistance(p1, q1, q2),
+    pointToSegmentDistance(p2, q1, q2),
+    pointToSegmentDistance(q1, p1, p2),
+    pointToSegmentDistance(q2, p1, p2)
+  )
+}
+
+// True when the polygons share any area or touch (edge crossing or full containment)
+export function polygonsIntersect(a: Point[], b: Point[]): boolean {
+  if (a.length === 0 || b.length === 0) return false
+  if (!boundsIntersect(polygonBounds(a), polygonBounds(b))) return false
+
+  for (let i = 0, j = a.length - 1; i < a.length; j = i++) {
+    for (let k = 0, l = b.length - 1; k < b.length; l = k++) {
+      if (segmentsIntersect(a[j], a[i], b[l], b[k])) return true
+    }
+  }
+
+  return isPointInPolygon(a[0], b) || isPointInPolygon(b[0], a)
+}
+
+// Minimum edge-to-edge distance between two polygons (0 when they touch or overlap)
+export function polygonDistance(a: Point[], b: Point[]): number {
+  if (a.length === 0 || b.length === 0) return Infinity
+  if (polygonsIntersect(a, b)) return 0
+
+  let minDistance = Infinity
+  for (let i = 0, j = a.length - 1; i < a.length; j = i++) {
+    for (let k = 0, l = b.length - 1; k < b.length; l = k++) {
+      minDistance = Math.min(minDistance, segmentDistance(a[j], a[i], b[l], b[k]))
+    }
+  }
+  return minDistance
+}
+
+// Minimum distance between the outlines of two polygons, ignoring containment
+export function outlineDistance(a: Point[], b: Point[]): number {
+  let minDistance = Infinity
+  for (let i = 0, j = a.length - 1; i < a.length; j = i++) {
+    for (let k = 0, l = b.length - 1; k < b.length; l = k++) {
+      minDistance = Math.min(minDistance, segmentDistance(a[j], a[i], b[l], b[k]))
+    }
+  }
+  return minDistance
+}
+
+// True when the polygon lies entirely inside the (possibly concave) container
+export function isPolygonInside(polygon: Point[], container: Point[]): boolean {
+  if (polygon.length === 0 || container.length < 3) return false
+  if (!polygon.every(point => isPointInPolygon(point, container))) return false
+  return outlineDistance(polygon, container) > 0
+}
+
+// Andrew's monotone chain convex hull
+export function convexHull(points: Point[]): Point[] {
+  if (points.length < 3) return points.slice()
+
+  const sorted = points.slice().sort((p, q) => p.x === q.x ? p.y - q.y : p.x - q.x)
+  const lower: Point[] = []
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop()
+    }
+    lower.push(point)
+  }
+
+  const upper: Point[] = []
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i]
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop()
+    }
+    upper.push(point)
+  }
+
+  lower.pop()
+  upper.pop()
+  return lower.concat(upper)
+}
+
+// Grow a polygon outward by a distance with rounded corners. The result is the convex
+// hull of the grown shape, which is exact for convex input such as equipment footprints.
+export function offsetPolygon(points: Point[], distance: number, cornerSegments: number = 8): Point[] {
+  if (distance <= 0 || points.length === 0) return points.slice()
+
+  const samples: Point[] = []
+  const steps = cornerSegments * 4
+  for (const point of points) {
+    for (let i = 0; i < steps; i++) {
+      const angle = (i / steps) * Math.PI * 2
+      samples.push({ x: point.x + distance * Math.cos(angle), y: point.y + distance * Math.sin(angle) })
+    }
+  }
+  return convexHull(samples)
+}
+
+// Ear clipping triangulation of a simple polygon (either winding)
+export function triangulatePolygon(polygon: Point[]): Point[][] {
+  if (polygon.length < 3) return []
+  if (polygon.length === 3) return [polygon.slice()]
+
+  const orientation = Math.sign(signedPolygonArea(polygon)) || 1
+  const remaining = polygon.map((_, index) => index)
+  const triangles: Point[][] = []
+  let guard = remaining.length * remaining.length
+
+  while (remaining.length > 3 && guard-- > 0) {
+    let earFound = false
+
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = polygon[remaining[(i - 1 + remaining.length) % remaining.length]]
+      const current = polygon[remaining[i]]
+      const next = polygon[remaining[(i + 1) % remaining.length]]
+
+      // Reflex or collinear vertices can't be ears
+      if (cross(prev, current, next) * orientation <= EPSILON) continue
+
+      const triangle = [prev, current, next]
+      const containsOther = remaining.some(index => {
+        const point = polygon[index]
+        if (point === prev || point === current || point === next) return false
+        return isPointInPolygon(point, triangle)
+      })
+      if (containsOther) continue
+
+      triangles.push(triangle)
+      remaining.splice(i, 1)
+      earFound = true
+      break
+    }
+
+    // Self-intersecting or degenerate input - fan the rest rather than looping forever
+    if (!earFound) break
+  }
+
+  if (remaining.length >= 3) {
+    const anchor = polygon[remaining[0]]
+    for (let i = 1; i < remaining.length - 1; i++) {
+      triangles.push([anchor, polygon[remaining[i]], polygon[remaining[i + 1]]])
+    }
+  }
+
+  return triangles.filter(triangle => polygonArea(triangle) > EPSILON)
+}
+
+// Sutherland-Hodgman clipping of any polygon against a convex clip polygon
+export function clipPolygonToConvex(subject: Point[], convexClip: Point[]): Point[] {
+  const orientation = Math.sign(signedPolygonArea(convexClip)) || 1
+  let output = subject.slice()
+
+  for (let i = 0; i < convexClip.length && output.length > 0; i++) {
+    const edgeStart = convexClip[i]
+    const edgeEnd = convexClip[(i + 1) % convexClip.length]
+    const isInside = (p: Point) => cross(edgeStart, edgeEnd, p) * orientation >= -EPSILON
+    const intersection = (p: Point, q: Point): Point => {
+      const dp = cross(edgeStart, edgeEnd, p)
+      const dq = cross(edgeStart, edgeEnd, q)
+      const t = dp / (dp - dq)
+      return { x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t }
+    }
+
+    const input = output
+    output = []
+    for (let j = 0; j < input.length; j++) {
+      const current = input[j]
+      const previous = input[(j - 1 + input.length) % input.length]
+      const currentInside = isInside(current)
+      const previousInside = isInside(previous)
+
+      if (currentInside) {
+        if (!previousInside) output.push(intersection(previous, current))
+        output.push(current)
+      } else if (previousInside) {
+        output.push(intersection(previous, current))
+      }
+    }
+  }
+
+  return output
+}
+
+// Intersection of two simple polygons as a set of convex pieces whose union is the overlap
+export function polygonIntersection(a: Point[], b: Point[]): Point[][] {
+  if (a.length < 3 || b.length < 3) return []
+  if (!boundsIntersect(polygonBounds(a), polygonBounds(b))) return []
+
+  const pieces: Point[][] = []
+  for (const triangle of triangulatePolygon(b)) {
+    const clipped = clipPolygonToConvex(a, triangle)
+    if (clipped.length >= 3 && polygonArea(clipped) > EPSILON) {
+      pieces.push(clipped)
+    }
+  }
+  return pieces
+}
+
+// Separating axis test on the convex hulls of both polygons. Returns the minimum
+// translation that moves polygon b clear of polygon a, or null if they don't overlap.
+export function penetrationVector(a: Point[], b: Point[]): PenetrationVector | null {
+  const hullA = convexHull(a)
+  const hullB = convexHull(b)
+  if (hullA.length < 3 || hullB.length < 3) return null
+
+  let best: PenetrationVector | null = null
+
+  for (const hull of [hullA, hullB]) {
+    for (let i = 0; i < hull.length; i++) {
+      const start = hull[i]
+      const end = hull[(i + 1) % hull.length]
+      const length = Math.hypot(end.x - start.x, end.y - start.y)
+      if (length < EPSILON) continue
+      const axis = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length }
+
+      let minA = Infinity, maxA = -Infinity
+      for (const p of hullA) {
+        const projection = p.x * axis.x + p.y * axis.y
+        minA = Math.min(minA, projection)
+        maxA = Math.max(maxA, projection)
+      }
+      let minB = Infinity, maxB = -Infinity
+      for (const p of hullB) {
+        const projection = p.x * axis.x + p.y * axis.y
+        minB = Math.min(minB, projection)
+        maxB = Math.max(maxB, projection)
+      }
+
+      if (maxA <= minB || maxB <= minA) return null
+
+      // Distance to push b along +axis or -axis until the projections no longer overlap
+      const forward = maxA - minB
+      const backward = maxB - minA
+      const depth = Math.min(forward, backward)
+      if (!best || depth < best.depth) {
+        const direction = forward <= backward ? 1 : -1
+        best = { x: axis.x * direction, y: axis.y * direction, depth }
+      }
+    }
+  }
+
+  return best
+}
@@ -3,6 +3,8 @@
  * Handles parsing Google Maps links and calculating appropriate scale for satellite imagery
  */
 
+import { DEFAULT_CANVAS_SETTINGS, getCanvasExtentFeet } from '@/lib/project/canvasSettings';
+
 export interface GoogleMapsData {
   latitude: number;
   longitude: number;
@@ -102,12 +104,11 @@ export function generateSatelliteImageConfig(
   zoom: number, 
   qualityLevel: 'standard' | 'high' | 'ultra' = 'standard',
   aspectRatio: 'square' | 'landscape' | 'portrait' | 'wide' = 'square',
-  coverageMultiplier: number = 2.0 // 2x larger coverage area by default
+  coverageMultiplier: number = 2.0, // 2x larger coverage area by default
+  canvasExtent: { widthFeet: number; heightFeet: number } = getCanvasExtentFeet(DEFAULT_CANVAS_SETTINGS) // site size from the project's canvas settings
 ): SatelliteImageConfig {
-  // Canvas is 1000' x 1000' at 10 pixels per foot (1,000,000 sq ft)
-  const canvasWidthFeet = 1000;
-  const canvasHeightFeet = 1000;
-  const canvasPixelsPerFoot = 10;
+  const canvasWidthFeet = canvasExtent.widthFeet;
+  const canvasHeightFeet = canvasExtent.heightFeet;
   
   // Quality-based image size selection
   const qualitySettings = {
@@ -178,7 +179,7 @@ export function generateSatelliteImageConfig(
   
   // Calculate what zoom level we need to cover expanded area within the image size
   const metersPerFoot = 0.3048;
-  // Apply coverage multiplier to get larger area (2x = 2000' x 2000', 3x = 3000' x 3000', etc.)
+  // Apply coverage multiplier to get larger area (2x on a 1000' site = 2000' x 2000', etc.)
   const expandedWidthFeet = canvasWidthFeet * coverageMultiplier;
   const expandedHeightFeet = canvasHeightFeet * coverageMultiplier;
   const targetWidthMeters = expandedWidthFeet * metersPerFoot;
@@ -0,0 +1,137 @@
+import { Bounds, Point } from './geometry'
+
+// Uniform grid hash over axis-aligned bounds. Each entry is registered in every
+// cell its bounds touch, so queries only look at entries in nearby cells.
+export class SpatialIndex<T = string> {
+  private readonly cellSize: number
+  private readonly cells = new Map<string, Set<T>>()
+  private readonly entries = new Map<T, { bounds: Bounds; cellKeys: string[] }>()
+
+  constructor(cellSize: number = 50) {
+    this.cellSize = cellSize
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  has(key: T): boolean {
+    return this.entries.has(key)
+  }
+
+  getBounds(key: T): Bounds | undefined {
+    return this.entries.get(key)?.bounds
+  }
+
+  // Insert an entry, or move it if it is already indexed
+  insert(key: T, bounds: Bounds): void {
+    if (![bounds.minX, bounds.minY, bounds.maxX, bounds.maxY].every(Number.isFinite)) {
+      this.remove(key)
+      return
+    }
+
+    const cellKeys = this.getCellKeys(bounds)
+    const existing = this.entries.get(key)
+
+    if (existing) {
+      // Skip the cell bookkeeping when the entry still covers the same cells
+      if (existing.cellKeys.length === cellKeys.length && existing.cellKeys.every((cellKey, i) => cellKey === cellKeys[i])) {
+        existing.bounds = bounds
+        return
+      }
+      this.removeFromCells(key, existing.cellKeys)
+    }
+
+    for (const cellKey of cellKeys) {
+      let cell = this.cells.get(cellKey)
+      if (!cell) {
+        cell = new Set()
+        this.cells.set(cellKey, cell)
+      }
+      cell.add(key)
+    }
+    this.entries.set(key, { bounds, cellKeys })
+  }
+
+  remove(key: T): void {
+    const existing = this.entries.get(key)
+    if (!existing) return
+    this.removeFromCells(key, existing.cellKeys)
+    this.entries.delete(key)
+  }
+
+  clear(): void {
+    this.cells.clear()
+    this.entries.clear()
+  }
+
+  // Entries whose bounds intersect the given bounds (grown by an optional margin)
+  query(bounds: Bounds, margin: number = 0): T[] {
+    const expanded: Bounds = {
+      minX: bounds.minX - margin,
+      minY: bounds.minY - margin,
+      maxX: bounds.maxX + margin,
+      maxY: bounds.maxY + margin
+    }
+
+    const found = new Set<T>()
+    const matches = (key: T) => {
+      const entry = this.entries.get(key)
+      return (
+        !!entry &&
+        entry.bounds.minX <= expanded.maxX &&
+        entry.bounds.maxX >= expanded.minX &&
+        entry.bounds.minY <= expanded.maxY &&
+        entry.bounds.maxY >= expanded.minY
+      )
+    }
+
+    // Very large (or unbounded) queries are cheaper as a straight scan of the entries
+    const cellSpan =
+      (Math.floor(expanded.maxX / this.cellSize) - Math.floor(expanded.minX / this.cellSize) + 1) *
+      (Math.floor(expanded.maxY / this.cellSize) - Math.floor(expanded.minY / this.cellSize) + 1)
+    if (!Number.isFinite(cellSpan) || cellSpan > this.cells.size) {
+      this.entries.forEach((_, key) => {
+        if (matches(key)) found.add(key)
+      })
+      return Array.from(found)
+    }
+
+    for (const cellKey of this.getCellKeys(expanded)) {
+      const cell = this.cells.get(cellKey)
+      if (!cell) continue
+      cell.forEach(key => {
+        if (!found.has(key) && matches(key)) found.add(key)
+      })
+    }
+    return Array.from(found)
+  }
+
+  queryPoint(point: Point, margin: number = 0): T[] {
+    return this.query({ minX: point.x, minY: point.y, maxX: point.x, maxY: point.y }, margin)
+  }
+
+  private getCellKeys(bounds: Bounds): string[] {
+    const minCellX = Math.floor(bounds.minX / this.cellSize)
+    const minCellY = Math.floor(bounds.minY / this.cellSize)
+    const maxCellX = Math.floor(bounds.maxX / this.cellSize)
+    const maxCellY = Math.floor(bounds.maxY / this.cellSize)
+
+    const keys: string[] = []
+    for (let cx = minCellX; cx <= maxCellX; cx++) {
+      for (let cy = minCellY; cy <= maxCellY; cy++) {
+        keys.push(`${cx},${cy}`)
+      }
+    }
+    return keys
+  }
+
+  private removeFromCells(key: T, cellKeys: string[]): void {
+    for (const cellKey of cellKeys) {
+      const cell = this.cells.get(cellKey)
+      if (!cell) continue
+      cell.delete(key)
+      if (cell.size === 0) this.cells.delete(cellKey)
+    }
+  }
+}